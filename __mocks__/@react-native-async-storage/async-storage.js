@@ -0,0 +1,2 @@
+// In-memory AsyncStorage for every test suite
+module.exports = require('@react-native-async-storage/async-storage/jest/async-storage-mock');
@@ -0,0 +1,120 @@
+/**
+ * @format
+ */
+
+import * as RNFS from '@dr.pogodin/react-native-fs';
+import { EmailAttachment } from '../src/api';
+import { attachmentService, AttachmentState } from '../src/services/AttachmentService';
+
+jest.mock('../src/helpers/secureStorage');
+
+jest.mock('@dr.pogodin/react-native-fs', () => ({
+  DownloadDirectoryPath: '/downloads',
+  DocumentDirectoryPath: '/documents',
+  exists: jest.fn(async () => false),
+  mkdir: jest.fn(async () => undefined),
+  stat: jest.fn(async () => ({ size: 0 })),
+  unlink: jest.fn(async () => undefined),
+  downloadFile: jest.fn(),
+}));
+
+jest.mock('../src/features/gallery/services/GalleryService', () => ({
+  galleryService: {
+    createAuthenticatedImageRequest: (path: string) => ({
+      uri: `https://crm.example.com/${path}`,
+      headers: { Authorization: 'Bearer token' },
+    }),
+  },
+}));
+
+jest.mock('../src/features/gallery/services/PermissionsService', () => ({
+  permissionsService: {
+    hasRequiredPermissions: jest.fn(async () => true),
+    requestRequiredPermissions: jest.fn(async () => true),
+  },
+}));
+
+const fs = RNFS as jest.Mocked<typeof RNFS>;
+
+const contract: EmailAttachment = {
+  id: 6011,
+  name: 'Enrollment contract.pdf',
+  size: 1000,
+  mime_type: 'application/pdf',
+  path: 'storage/email-attachments/601/enrollment-contract.pdf',
+};
+
+describe('AttachmentService', () => {
+  let updates: AttachmentState[];
+  let unsubscribe: () => void;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.clearAllMocks();
+
+    updates = [];
+    unsubscribe = attachmentService.subscribe((_id, state) => updates.push(state));
+  });
+
+  afterEach(() => {
+    unsubscribe();
+    jest.restoreAllMocks();
+  });
+
+  it('detects complete files downloaded earlier into the account folder', async () => {
+    fs.exists.mockResolvedValue(true);
+    fs.stat.mockResolvedValueOnce({ size: 400 } as any);
+    await expect(attachmentService.findDownloaded(contract)).resolves.toBeNull();
+
+    fs.stat.mockResolvedValueOnce({ size: 1000 } as any);
+    await expect(attachmentService.findDownloaded(contract)).resolves.toBe(
+      '/documents/NFS Academy/42/Attachments/6011-Enrollment contract.pdf'
+    );
+    expect(attachmentService.getState(contract).status).toBe('downloaded');
+  });
+
+  it('downloads once with the session headers and reports progress', async () => {
+    fs.exists.mockResolvedValue(false);
+    fs.stat.mockResolvedValue({ size: 1000 } as any);
+    fs.downloadFile.mockImplementation(((options: any) => ({
+      jobId: 1,
+      promise: Promise.resolve().then(() => {
+        options.progress({ bytesWritten: 500, contentLength: 1000 });
+        return { statusCode: 200, bytesWritten: 1000, jobId: 1 };
+      }),
+    })) as any);
+
+    const attachment = { ...contract, id: 6012 };
+    const [first, second] = await Promise.all([
+      attachmentService.download(attachment),
+      attachmentService.download(attachment),
+    ]);
+
+    expect(first).toBe(second);
+    expect(fs.downloadFile).toHaveBeenCalledTimes(1);
+    expect(fs.downloadFile.mock.calls[0][0]).toMatchObject({
+      fromUrl: `https://crm.example.com/${contract.path}`,
+      headers: { Authorization: 'Bearer token' },
+    });
+    expect(updates.map(state => [state.status, state.progress])).toEqual([
+      ['downloading', 0],
+      ['downloading', 50],
+      ['downloaded', 100],
+    ]);
+  });
+
+  it('removes the partial file when a download fails', async () => {
+    fs.exists.mockResolvedValue(true);
+    fs.downloadFile.mockReturnValue({
+      jobId: 2,
+      promise: Promise.resolve({ statusCode: 500, bytesWritten: 10, jobId: 2 }),
+    } as any);
+
+    const attachment = { ...contract, id: 6013 };
+    await expect(attachmentService.download(attachment)).rejects.toThrow('status: 500');
+
+    expect(fs.unlink).toHaveBeenCalledWith('/documents/NFS Academy/42/Attachments/6013-Enrollment contract.pdf');
+    expect(attachmentService.getState(attachment).status).toBe('failed');
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * @format
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState } from 'react-native';
+import { AxiosAdapter } from 'axios';
+import { apiService } from '../src/helpers/request';
+import { biometricService, MAX_UNLOCK_ATTEMPTS } from '../src/services/BiometricService';
+import { sessionManager } from '../src/services/SessionManager';
+
+// In-memory keychain keyed by server; protected items remember their access control
+const mockKeychain = new Map<string, { password: string; accessControl?: string }>();
+const mockBiometricCheck = { pass: true };
+jest.mock('react-native-keychain', () => ({
+  ACCESS_CONTROL: { BIOMETRY_CURRENT_SET: 'BiometryCurrentSet' },
+  ACCESSIBLE: { WHEN_PASSCODE_SET_THIS_DEVICE_ONLY: 'AccessibleWhenPasscodeSetThisDeviceOnly' },
+  setInternetCredentials: jest.fn(
+    async (server: string, _user: string, password: string, options?: { accessControl?: string }) => {
+      mockKeychain.set(server, { password, accessControl: options?.accessControl });
+      return true;
+    }
+  ),
+  getInternetCredentials: jest.fn(async (server: string, options?: { accessControl?: string }) => {
+    const item = mockKeychain.get(server);
+    if (!item) return false;
+    if (item.accessControl && !options?.accessControl) {
+      throw new Error('User interaction required');
+    }
+    if (item.accessControl && !mockBiometricCheck.pass) {
+      throw new Error('Authentication failed');
+    }
+    return { server, username: server, password: item.password };
+  }),
+  resetInternetCredentials: jest.fn(async (server: string) => {
+    mockKeychain.delete(server);
+  }),
+  resetGenericPassword: jest.fn(async () => true),
+  getSupportedBiometryType: jest.fn(async () => 'FaceID'),
+}));
+
+const PROMPT = { title: 'Unlock with Face ID' };
+
+const TOKENS = {
+  access_token: 'access-token-0123456789',
+  refresh_token: 'refresh-token-0123456789',
+  id: 7,
+};
+
+// The handler BiometricService registers on its first restore
+const getAppStateHandler = () =>
+  (AppState.addEventListener as jest.Mock).mock.calls[0][1] as (state: string) => void;
+
+describe('BiometricService', () => {
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    mockBiometricCheck.pass = true;
+    await sessionManager.startSession(TOKENS);
+    await biometricService.restore();
+  });
+
+  afterEach(async () => {
+    apiService.setAdapter();
+    await biometricService.disable();
+    await sessionManager.logout();
+    mockKeychain.clear();
+    await AsyncStorage.clear();
+    jest.restoreAllMocks();
+  });
+
+  it('moves the refresh token behind biometric access control when enabled', async () => {
+    await biometricService.enable(PROMPT);
+
+    expect(mockKeychain.get('biometricToken')).toEqual({
+      password: JSON.stringify({ 7: TOKENS.refresh_token }),
+      accessControl: 'BiometryCurrentSet',
+    });
+    expect(mockKeychain.has('refreshToken')).toBe(false);
+    expect(JSON.parse(mockKeychain.get('session:7')!.password)).not.toHaveProperty('refresh_token');
+    expect(mockKeychain.get('userToken')?.password).toBe(TOKENS.access_token);
+    expect(JSON.parse((await AsyncStorage.getItem('biometricUnlock')) as string)).toMatchObject({
+      enabled: true,
+    });
+  });
+
+  it('does not enable when the biometric check fails', async () => {
+    mockBiometricCheck.pass = false;
+
+    await expect(biometricService.enable(PROMPT)).rejects.toThrow();
+    expect(biometricService.getState().settings.enabled).toBe(false);
+    expect(mockKeychain.has('biometricToken')).toBe(false);
+  });
+
+  it('locks on cold start and unlocks after a biometric check', async () => {
+    await biometricService.enable(PROMPT);
+    await biometricService.restore();
+    expect(biometricService.getState().locked).toBe(true);
+
+    await expect(biometricService.unlock(PROMPT)).resolves.toBe('unlocked');
+    expect(biometricService.getState()).toMatchObject({ locked: false, failedAttempts: 0 });
+  });
+
+  it('refreshes with the protected token once the app is unlocked', async () => {
+    await biometricService.enable(PROMPT);
+    await biometricService.restore();
+
+    const sent: string[] = [];
+    const adapter: AxiosAdapter = async (config) => {
+      sent.push(JSON.parse(config.data).data.refresh_token);
+      return {
+        data: { data: { access_token: 'access-token-abcdefghij', refresh_token: 'refresh-token-abcdefghij' } },
+        status: 200,
+        statusText: 'OK',
+        headers: {},
+        config,
+      };
+    };
+    apiService.setAdapter(adapter);
+
+    const refreshed = apiService.refreshAccessToken();
+    await new Promise<void>(resolve => setImmediate(resolve));
+    expect(sent).toEqual([]);
+
+    await expect(biometricService.unlock(PROMPT)).resolves.toBe('unlocked');
+    await expect(refreshed).resolves.toBe('access-token-abcdefghij');
+    expect(sent).toEqual([TOKENS.refresh_token]);
+    expect(JSON.parse(mockKeychain.get('biometricToken')!.password)).toEqual({ 7: 'refresh-token-abcdefghij' });
+    expect(mockKeychain.has('refreshToken')).toBe(false);
+  });
+
+  it('puts the refresh token back in the keychain when disabled', async () => {
+    await biometricService.enable(PROMPT);
+    await biometricService.disable();
+
+    expect(mockKeychain.has('biometricToken')).toBe(false);
+    expect(mockKeychain.get('refreshToken')?.password).toBe(TOKENS.refresh_token);
+    expect(JSON.parse(mockKeychain.get('session:7')!.password).refresh_token).toBe(TOKENS.refresh_token);
+  });
+
+  it('counts failed attempts and falls back to the password login', async () => {
+    await biometricService.enable(PROMPT);
+    biometricService.lock();
+    mockBiometricCheck.pass = false;
+
+    for (let i = 0; i < MAX_UNLOCK_ATTEMPTS; i++) {
+      await expect(biometricService.unlock(PROMPT)).resolves.toBe('failed');
+    }
+    expect(biometricService.getState()).toMatchObject({
+      locked: true,
+      failedAttempts: MAX_UNLOCK_ATTEMPTS,
+    });
+
+    await biometricService.fallbackToPassword();
+
+    expect(sessionManager.getStatus()).toBe('unauthenticated');
+    expect(mockKeychain.has('biometricToken')).toBe(false);
+    expect(biometricService.getState()).toMatchObject({ locked: false, failedAttempts: 0 });
+  });
+
+  it('locks again only after the background timeout', async () => {
+    await biometricService.enable(PROMPT);
+    await biometricService.setLockTimeout(60 * 1000);
+    const now = jest.spyOn(Date, 'now');
+    const handleAppStateChange = getAppStateHandler();
+
+    now.mockReturnValue(1_000_000);
+    handleAppStateChange('background');
+    now.mockReturnValue(1_000_000 + 30 * 1000);
+    handleAppStateChange('active');
+    expect(biometricService.getState().locked).toBe(false);
+
+    handleAppStateChange('background');
+    now.mockReturnValue(1_000_000 + 30 * 1000 + 60 * 1000);
+    handleAppStateChange('active');
+    expect(biometricService.getState().locked).toBe(true);
+  });
+
+  it('protects the new token after a password login', async () => {
+    await biometricService.enable(PROMPT);
+    await sessionManager.logout();
+    expect(mockKeychain.has('biometricToken')).toBe(false);
+
+    await sessionManager.startSession({ ...TOKENS, refresh_token: 'refresh-token-abcdefghij' });
+
+    expect(JSON.parse(mockKeychain.get('biometricToken')!.password)).toEqual({ 7: 'refresh-token-abcdefghij' });
+    expect(mockKeychain.has('refreshToken')).toBe(false);
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * @format
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { draftService } from '../src/services/DraftService';
+import { SessionEvent } from '../src/services/SessionManager';
+
+// Created by the mock factory, which runs before this module's body
+const mockSession = jest.requireMock('../src/services/SessionManager').mockSession as {
+  userId: string;
+  listeners: Array<(event: SessionEvent) => Promise<void> | void>;
+};
+
+jest.mock('../src/services/SessionManager', () => {
+  const session = { userId: '42', listeners: [] as any[] };
+  return {
+    mockSession: session,
+    sessionManager: {
+      subscribe: (listener: any) => {
+        session.listeners.push(listener);
+        return () => {};
+      },
+      getUserId: async () => session.userId,
+    },
+  };
+});
+
+const emit = (event: SessionEvent) =>
+  Promise.all(mockSession.listeners.map(listener => listener(event)));
+
+const CONTACT = '+393331234567';
+
+describe('DraftService', () => {
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    mockSession.userId = '42';
+    await AsyncStorage.clear();
+    await emit({ type: 'login', userId: '42' });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('saves drafts per account once typing pauses', async () => {
+    draftService.setDraft(CONTACT, 'See you');
+    draftService.setDraft(CONTACT, 'See you at 3');
+    expect(await AsyncStorage.getItem('messageDrafts:42')).toBeNull();
+
+    await draftService.flush();
+    expect(JSON.parse((await AsyncStorage.getItem('messageDrafts:42'))!)).toEqual({
+      [CONTACT]: { text: 'See you at 3', updatedAt: expect.any(Number) },
+    });
+  });
+
+  it('restores the drafts of the account that wrote them', async () => {
+    draftService.setDraft(CONTACT, 'Half-written reply');
+
+    mockSession.userId = '7';
+    await emit({ type: 'switch', userId: '7', previousUserId: '42' });
+    expect(draftService.getDraft(CONTACT)).toBe('');
+
+    mockSession.userId = '42';
+    await emit({ type: 'switch', userId: '42', previousUserId: '7' });
+    expect(draftService.getDraft(CONTACT)).toBe('Half-written reply');
+  });
+
+  it('removes a draft once it was sent', async () => {
+    draftService.setDraft(CONTACT, 'Thanks!');
+    draftService.setDraft('+393339876543', 'Other chat');
+    await draftService.flush();
+
+    draftService.clearDraft(CONTACT);
+    await Promise.resolve();
+
+    expect(draftService.getDrafts()).not.toHaveProperty(CONTACT);
+    expect(Object.keys(JSON.parse((await AsyncStorage.getItem('messageDrafts:42'))!))).toEqual(['+393339876543']);
+  });
+
+  it('forgets the drafts on logout', async () => {
+    draftService.setDraft(CONTACT, 'Not for the next student');
+    await draftService.flush();
+
+    await emit({ type: 'logout', reason: 'user', userId: '42' });
+
+    expect(draftService.getDraft(CONTACT)).toBe('');
+    expect(await AsyncStorage.getItem('messageDrafts:42')).toBeNull();
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * @format
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { apiService } from '../src/helpers/request';
+import { ENVIRONMENTS } from '../src/helpers/environment';
+import { mockBackend } from '../src/api/mock';
+import { environmentService, EnvironmentService } from '../src/services/EnvironmentService';
+
+jest.mock('../src/helpers/secureStorage');
+
+// Created by the mock factory, which runs before this module's body
+const mockSession = jest.requireMock('../src/services/SessionManager').mockSession as {
+  status: string;
+  logout: jest.Mock;
+};
+
+jest.mock('../src/services/SessionManager', () => {
+  const session = { status: 'unauthenticated', logout: jest.fn(async () => {}) };
+  return {
+    mockSession: session,
+    sessionManager: {
+      getStatus: () => session.status,
+      logout: session.logout,
+    },
+  };
+});
+
+describe('EnvironmentService', () => {
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    mockSession.status = 'unauthenticated';
+    mockSession.logout.mockClear();
+    await AsyncStorage.clear();
+  });
+
+  afterEach(async () => {
+    await environmentService.setEnvironment('production');
+    mockBackend.reset();
+    jest.restoreAllMocks();
+  });
+
+  it('restores the profile chosen in the developer menu', async () => {
+    await AsyncStorage.multiSet([['apiEnvironment', 'staging'], ['mockScenario', 'overdueInstallments']]);
+
+    const restored = await environmentService.restore();
+
+    expect(restored).toBe(ENVIRONMENTS.staging);
+    expect(apiService.baseURL).toBe(ENVIRONMENTS.staging.baseURL);
+    expect(mockBackend.getScenario()).toBe('overdueInstallments');
+  });
+
+  it('keeps the build profile when the persisted one is unknown', async () => {
+    await AsyncStorage.setItem('apiEnvironment', 'qa');
+
+    const restored = await environmentService.restore();
+
+    expect(restored).toBe(ENVIRONMENTS.production);
+    expect(apiService.baseURL).toBe(ENVIRONMENTS.production.baseURL);
+  });
+
+  it('switches, persists and announces a profile', async () => {
+    const listener = jest.fn();
+    const unsubscribe = environmentService.subscribe(listener);
+
+    await environmentService.setEnvironment('staging');
+    unsubscribe();
+
+    expect(environmentService.getEnvironment()).toBe(ENVIRONMENTS.staging);
+    expect(apiService.baseURL).toBe(ENVIRONMENTS.staging.baseURL);
+    expect(await AsyncStorage.getItem('apiEnvironment')).toBe('staging');
+    expect(listener).toHaveBeenCalledWith(ENVIRONMENTS.staging);
+    expect(mockSession.logout).not.toHaveBeenCalled();
+  });
+
+  it('signs every account out of the previous backend', async () => {
+    mockSession.status = 'authenticated';
+
+    await environmentService.setEnvironment('mock');
+
+    expect(mockSession.logout).toHaveBeenCalledWith('user', { allAccounts: true });
+  });
+
+  describe('in a release build for production', () => {
+    let release: EnvironmentService;
+    // The isolated modules get their own storage
+    let releaseStorage: typeof AsyncStorage;
+
+    beforeEach(() => {
+      (global as any).__DEV__ = false;
+      jest.isolateModules(() => {
+        release = require('../src/services/EnvironmentService').environmentService;
+        releaseStorage = require('@react-native-async-storage/async-storage');
+      });
+    });
+
+    afterEach(() => {
+      (global as any).__DEV__ = true;
+    });
+
+    it('offers production only', async () => {
+      expect(release.getEnvironments().map(environment => environment.name)).toEqual(['production']);
+      await expect(release.setEnvironment('mock')).rejects.toThrow('not available');
+    });
+
+    it('ignores a persisted non-production profile', async () => {
+      await releaseStorage.setItem('apiEnvironment', 'mock');
+
+      expect((await release.restore()).name).toBe('production');
+      expect(console.warn).toHaveBeenCalledWith('⚠️ Ignoring unavailable environment:', 'mock');
+    });
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * @format
+ */
+
+import {
+  HtmlElement,
+  htmlToText,
+  isHtml,
+  parseHtml,
+  parseSafeHtml,
+  stripTrackingParams,
+} from '../src/helpers/html';
+
+const findElements = (nodes: ReturnType<typeof parseHtml>, tag: string): HtmlElement[] =>
+  nodes.flatMap(node =>
+    node.type === 'element'
+      ? [...(node.tag === tag ? [node] : []), ...findElements(node.children, tag)]
+      : []
+  );
+
+describe('html helpers', () => {
+  it('parses malformed markup like a browser', () => {
+    const nodes = parseHtml('<ul><li>One<li>Two &amp; <b>three</ul><p>Caff&egrave; &#8364;5<br/>end');
+
+    const items = findElements(nodes, 'li');
+    expect(items).toHaveLength(2);
+    expect(htmlToText(items[1].children)).toBe('Two & three');
+    expect(htmlToText(nodes)).toBe('• One\n• Two & three\nCaffè €5\nend');
+  });
+
+  it('strips scripts, styles, hidden content and event handlers', () => {
+    const nodes = parseSafeHtml(
+      '<style>p { color: red }</style><script>alert("x")</script>' +
+      '<div style="display: none">Preview text</div>' +
+      '<p onclick="steal()" class="intro">Hello <iframe src="https://example.com"></iframe>world</p>'
+    );
+
+    expect(htmlToText(nodes)).toBe('Hello world');
+    const [paragraph] = findElements(nodes, 'p');
+    expect(paragraph.attributes).toEqual({});
+  });
+
+  it('removes tracking pixels and tracking link parameters', () => {
+    const nodes = parseSafeHtml(
+      '<img src="https://crm.example.com/logo.png" alt="Logo" width="120">' +
+      '<img src="https://mail.example.com/open.gif?id=42" width="1" height="1">' +
+      '<img src="https://mail.example.com/track/abc.png">' +
+      '<a href="https://example.com/course?id=7&utm_source=crm&utm_medium=email#dates">Course</a>'
+    );
+
+    expect(findElements(nodes, 'img').map(image => image.attributes.alt)).toEqual(['Logo']);
+    expect(findElements(nodes, 'a')[0].attributes.href).toBe('https://example.com/course?id=7#dates');
+    expect(stripTrackingParams('https://example.com/?utm_campaign=x')).toBe('https://example.com/');
+  });
+
+  it('turns unsafe links into text and keeps relative images', () => {
+    const nodes = parseSafeHtml(
+      '<a href="javascript:alert(1)">Click</a> <a href="mailto:info@example.com">Write us</a>' +
+      '<img src="storage/images/banner.jpg"><img src="data:text/html;base64,PHNjcmlwdD4=">'
+    );
+
+    expect(findElements(nodes, 'a').map(link => link.attributes.href)).toEqual(['mailto:info@example.com']);
+    expect(htmlToText(nodes)).toBe('Click Write us');
+    expect(findElements(nodes, 'img').map(image => image.attributes.src)).toEqual([
+      'storage/images/banner.jpg',
+    ]);
+  });
+
+  it('lays out tables as lines and detects plain-text templates', () => {
+    const nodes = parseSafeHtml(
+      '<table><tr><th>Installment<th>Amount<tr><td>March</td><td>€150</td></table>'
+    );
+
+    expect(htmlToText(nodes)).toBe('Installment Amount\nMarch €150');
+    expect(isHtml('Dear student,\nsee you on 3 < 5 March')).toBe(false);
+    expect(isHtml('Dear student,<br>see you soon')).toBe(true);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * @format
+ */
+
+import {
+  addRecentQuery,
+  conversationEntries,
+  emailEntries,
+  findMatches,
+  getExcerpt,
+  notificationEntries,
+  searchInbox,
+} from '../src/helpers/inboxSearch';
+import { AppNotification, ConversationPreview, EmailLog, WhatsAppMessage } from '../src/api';
+
+const email: EmailLog = {
+  id: 1,
+  user_details: { first_name: 'Segreteria' },
+  template_details: {
+    subject: 'Payment reminder',
+    body: '<p>Your next installment is due on <b>March 1st</b>.</p>',
+  },
+  created_at: '2026-02-20 09:00:00',
+};
+
+const conversation: ConversationPreview = {
+  id: 5,
+  moderator_details: { first_name: 'Marco' },
+  text: 'See you at the exam',
+  unread_count: 0,
+  created_at: '2026-02-22 10:00:00',
+  contact: '+393331234567',
+};
+
+const messages: WhatsAppMessage[] = [
+  { id: 10, text: 'The exam is on Monday', action: 'SENT', created_at: '2026-02-21 10:00:00' },
+  { id: 11, text: 'Thanks, see you at the exam', action: 'RECEIVED', created_at: '2026-02-22 10:00:00' },
+];
+
+const notification: AppNotification = {
+  id: 20,
+  title: 'New payment',
+  body: 'Your payment of €150 was received',
+  type: 'GENERAL',
+  read: false,
+  created_at: '2026-02-23 08:00:00',
+};
+
+const entries = [
+  ...emailEntries([email]),
+  ...conversationEntries(conversation, messages),
+  ...notificationEntries([notification]),
+];
+
+describe('inbox search', () => {
+  it('matches every term across sender, subject and body, newest first', () => {
+    expect(searchInbox(entries, 'payment').map(result => result.key)).toEqual([
+      'notification-20',
+      'email-1',
+    ]);
+    expect(searchInbox(entries, 'marco monday').map(result => result.key)).toEqual([
+      'whatsapp-5-10',
+    ]);
+    expect(searchInbox(entries, '   ')).toEqual([]);
+  });
+
+  it('searches the text of HTML email bodies', () => {
+    const [result] = searchInbox(entries, 'march');
+
+    expect(result.body).toBe('Your next installment is due on March 1st .');
+    expect(result.matches.body).toEqual([{ start: 32, end: 37 }]);
+  });
+
+  it('finds case-insensitive matches and merges overlapping ones', () => {
+    expect(findMatches('Exam, exam and EXAMS', ['exam'])).toEqual([
+      { start: 0, end: 4 },
+      { start: 6, end: 10 },
+      { start: 15, end: 19 },
+    ]);
+    expect(findMatches('payment', ['pay', 'payment'])).toEqual([{ start: 0, end: 7 }]);
+  });
+
+  it('cuts long texts around the first match', () => {
+    const text = `${'lorem ipsum '.repeat(10)}exam day`;
+    const excerpt = getExcerpt(text, findMatches(text, ['exam']), 12);
+
+    expect(excerpt.text.startsWith('…')).toBe(true);
+    const [range] = excerpt.ranges;
+    expect(excerpt.text.slice(range.start, range.end)).toBe('exam');
+  });
+
+  it('keeps recent queries unique and bounded', () => {
+    let recent: string[] = [];
+    ['exam', 'payment', 'Exam ', ''].forEach(query => {
+      recent = addRecentQuery(recent, query, 2);
+    });
+
+    expect(recent).toEqual(['Exam', 'payment']);
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * @format
+ */
+
+import { apiService } from '../src/helpers/request';
+import { apiClient, endpoints } from '../src/api';
+import { MockBackend } from '../src/api/mock';
+
+jest.mock('../src/helpers/secureStorage');
+
+describe('MockBackend', () => {
+  let backend: MockBackend;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    backend = new MockBackend();
+    apiService.setAdapter(backend.adapter);
+  });
+
+  afterEach(() => {
+    apiService.setAdapter();
+    jest.restoreAllMocks();
+  });
+
+  it('serves fixtures that match every endpoint schema', async () => {
+    await expect(
+      apiClient.request(endpoints.login, {
+        data: { data: { email: 'giulia.rossi@example.com', password: 'secret123' } },
+      })
+    ).resolves.toHaveProperty('data.access_token');
+
+    const [me, packages, album, emails, appointments, conversations, messages, notifications] =
+      await Promise.all([
+        apiClient.request(endpoints.me),
+        apiClient.request(endpoints.packages),
+        apiClient.request(endpoints.album),
+        apiClient.request(endpoints.emailLogs),
+        apiClient.request(endpoints.appointments),
+        apiClient.request(endpoints.whatsAppConversations, { queryString: 'id_lead=101' }),
+        apiClient.request(endpoints.whatsAppMessages, { params: { contact: '+393331234567' } }),
+        apiClient.request(endpoints.notifications),
+      ]);
+
+    expect(me.data.lead_details.id).toBe(101);
+    expect(packages.data.length).toBeGreaterThan(0);
+    expect(album.data.images?.length).toBeGreaterThan(0);
+    expect(emails.data.length).toBeGreaterThan(0);
+    expect(appointments.data.length).toBeGreaterThan(0);
+    expect(conversations.data[0].contact).toBe('+393331234567');
+    expect(messages.data.every(message => message.contact === '+393331234567')).toBe(true);
+    expect(notifications.data.length).toBeGreaterThan(0);
+  });
+
+  it('records requests with their path params and query', async () => {
+    await apiService.get('whatsapp-conversations?id_lead=101');
+    await apiService.get('leads/102');
+
+    expect(backend.requests.map(({ path, params, query }) => ({ path, params, query }))).toEqual([
+      { path: 'whatsapp-conversations', params: {}, query: { id_lead: '101' } },
+      { path: 'leads/102', params: { id: '102' }, query: {} },
+    ]);
+  });
+
+  it('returns 404 for unknown leads', async () => {
+    await expect(apiService.get('leads/999')).rejects.toMatchObject({ kind: 'client', status: 404 });
+  });
+
+  it('rejects forgot-password without an email', async () => {
+    await expect(apiService.post('forgot-password', { data: {} })).rejects.toMatchObject({
+      kind: 'validation',
+      errors: [{ field: 'data.email', description: 'The email field is required.' }],
+    });
+  });
+
+  it('stores a sent WhatsApp reply as a message from the student', async () => {
+    const { data } = await apiClient.request(endpoints.sendWhatsAppMessage, {
+      params: { contact: '+393331234567' },
+      data: { data: { text: 'Thanks, see you then!' } },
+    });
+
+    expect(data).toMatchObject({
+      text: 'Thanks, see you then!',
+      action: 'RECEIVED',
+      contact: '+393331234567',
+    });
+    await expect(
+      apiService.post('whatsapp-conversations/+393331234567', { data: { text: ' ' } })
+    ).rejects.toMatchObject({ kind: 'validation' });
+  });
+
+  it('pages conversation history backwards by cursor', async () => {
+    const latest = await apiClient.request(endpoints.whatsAppMessages, {
+      params: { contact: '+393331234567' },
+      queryString: 'limit=30',
+    });
+    expect(latest.data).toHaveLength(30);
+    expect(latest.data[29].id).toBe(803);
+
+    const older = await apiClient.request(endpoints.whatsAppMessages, {
+      params: { contact: '+393331234567' },
+      queryString: `limit=30&cursor=${latest.pagination?.next_cursor}`,
+    });
+    expect(older.data).toHaveLength(18);
+    expect(older.data[older.data.length - 1].created_at < latest.data[0].created_at).toBe(true);
+    expect(older.pagination?.next_cursor).toBeNull();
+  });
+
+  it('serves unpaid installments past their due date in the overdue scenario', async () => {
+    backend.setScenario('overdueInstallments');
+
+    const { data } = await apiClient.request(endpoints.packages);
+    const today = new Date().toISOString().slice(0, 10);
+    const overdue = data
+      .flatMap(item => item.installments_details || [])
+      .filter(installment => installment.status !== 'paid' && installment.due_date < today);
+
+    expect(overdue.length).toBeGreaterThan(0);
+  });
+
+  it('serves an empty album in the empty gallery scenario', async () => {
+    backend.setScenario('emptyGallery');
+
+    await expect(apiClient.request(endpoints.album)).resolves.toEqual({ data: { images: [] } });
+  });
+
+  it('lists the attachments of an email', async () => {
+    const attachments = await apiClient.request(endpoints.emailAttachments, { params: { id: 601 } });
+    expect(attachments.data.map(attachment => attachment.mime_type)).toEqual(['application/pdf', 'image/jpeg']);
+
+    await expect(apiClient.request(endpoints.emailAttachments, { params: { id: 602 } })).resolves.toEqual({ data: [] });
+    await expect(
+      apiClient.request(endpoints.emailAttachments, { params: { id: 999 }, retry: false })
+    ).rejects.toMatchObject({ status: 404 });
+  });
+
+  it('answers 500 in the server error scenario but still allows login', async () => {
+    backend.setScenario('serverError');
+
+    await expect(apiClient.request(endpoints.me, { retry: false })).rejects.toMatchObject({
+      kind: 'server',
+      status: 500,
+    });
+    await expect(
+      apiService.post('jwt', { data: { email: 'giulia.rossi@example.com', password: 'secret123' } })
+    ).resolves.toHaveProperty('status', 200);
+  });
+
+  it('expires the session when the token and its refresh are rejected', async () => {
+    backend.setScenario('expiredToken');
+    const onExpired = jest.fn();
+    const unsubscribe = apiService.onSessionExpired(onExpired);
+
+    await expect(apiService.get('me', { retry: false })).rejects.toMatchObject({ kind: 'auth' });
+    expect(onExpired).toHaveBeenCalledTimes(1);
+    expect(backend.requests.map(request => request.path)).toEqual(['me', 'jwt/refresh']);
+
+    unsubscribe();
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * @format
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AxiosAdapter, AxiosError } from 'axios';
+import { apiService, HttpMethod } from '../src/helpers/request';
+import { MockBackend } from '../src/api/mock';
+import { outboxService, OutboxEntry, OutboxRequest } from '../src/services/OutboxService';
+
+jest.mock('../src/helpers/secureStorage');
+
+const LAURA = '+393331234567';
+const MARCO = '+393339876543';
+
+const reply = (contact: string, text: string): OutboxRequest => ({
+  method: HttpMethod.POST,
+  url: `whatsapp-conversations/${contact}`,
+  data: { data: { text } },
+  group: `whatsapp:${contact}`,
+});
+
+const sentTexts = (backend: MockBackend) =>
+  backend.requests.filter(request => request.method === 'POST').map(request => request.body.data.text);
+
+describe('OutboxService', () => {
+  let backend: MockBackend;
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    backend = new MockBackend();
+    apiService.setAdapter(backend.adapter);
+    await outboxService.load();
+  });
+
+  afterEach(async () => {
+    outboxService.getEntries().forEach(entry => outboxService.discard(entry.id));
+    await outboxService.process();
+    apiService.setAdapter();
+    jest.clearAllTimers();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('keeps requests while offline and delivers them in order once back online', async () => {
+    backend.setScenario('offline');
+    outboxService.enqueue(reply(LAURA, 'First'));
+    outboxService.enqueue(reply(LAURA, 'Second'));
+    await outboxService.process();
+
+    expect(outboxService.getEntries().map(entry => entry.status)).toEqual(['queued', 'queued']);
+    expect(JSON.parse((await AsyncStorage.getItem('outbox:42'))!)).toHaveLength(2);
+
+    const delivered: string[] = [];
+    const unsubscribe = outboxService.subscribe(event => {
+      if (event.type === 'delivered') delivered.push(event.response.data.text);
+    });
+
+    backend.setScenario('default');
+    // Any request reaching the server again resumes delivery
+    await apiService.get('me');
+    await outboxService.process();
+    unsubscribe();
+
+    expect(delivered).toEqual(['First', 'Second']);
+    expect(sentTexts(backend)).toEqual(['First', 'Second']);
+    expect(outboxService.getEntries()).toEqual([]);
+    expect(await AsyncStorage.getItem('outbox:42')).toBeNull();
+  });
+
+  it('holds a conversation behind a refused request until it is discarded', async () => {
+    const refused = outboxService.enqueue(reply(LAURA, ' '));
+    outboxService.enqueue(reply(LAURA, 'After the refused one'));
+    outboxService.enqueue(reply(MARCO, 'Other conversation'));
+    await outboxService.process();
+
+    expect(outboxService.getEntries().map(entry => [entry.status, entry.error?.kind])).toEqual([
+      ['failed', 'validation'],
+      ['queued', undefined],
+    ]);
+    expect(sentTexts(backend)).toEqual([' ', 'Other conversation']);
+
+    outboxService.discard(refused.id);
+    await outboxService.process();
+
+    expect(outboxService.getEntries()).toEqual([]);
+    expect(sentTexts(backend)).toEqual([' ', 'Other conversation', 'After the refused one']);
+  });
+
+  it('marks a forbidden request failed instead of waiting for sign-in', async () => {
+    // The backend refuses replies to Laura's conversation for this account
+    let refused = 0;
+    const forbidding: AxiosAdapter = async (config) => {
+      if (config.method === 'post' && config.url?.includes(LAURA)) {
+        refused += 1;
+        const response = { data: { message: 'Forbidden' }, status: 403, statusText: 'Forbidden', headers: {}, config };
+        throw new AxiosError('Request failed with status code 403', AxiosError.ERR_BAD_REQUEST, config, {}, response);
+      }
+      return backend.adapter(config);
+    };
+    apiService.setAdapter(forbidding);
+
+    outboxService.enqueue(reply(LAURA, 'Hello'));
+    outboxService.enqueue(reply(MARCO, 'Other conversation'));
+    await outboxService.process();
+
+    expect(outboxService.getEntries().map(entry => [entry.status, entry.error?.status])).toEqual([['failed', 403]]);
+    expect(sentTexts(backend)).toEqual(['Other conversation']);
+
+    // It is not sent again until the student retries it
+    jest.runOnlyPendingTimers();
+    await outboxService.process();
+    expect(refused).toBe(1);
+  });
+
+  it('marks a request failed after repeated server errors and sends it again on retry', async () => {
+    backend.setScenario('serverError');
+    const entry = outboxService.enqueue(reply(LAURA, 'Hello'));
+    await outboxService.process();
+
+    expect(outboxService.getEntries()[0].status).toBe('queued');
+
+    // Each redelivery round sends it again
+    for (let round = 0; round < 10 && outboxService.getEntries()[0].status !== 'failed'; round++) {
+      jest.runOnlyPendingTimers();
+      await outboxService.process();
+    }
+    expect(outboxService.getEntries()[0]).toMatchObject({ status: 'failed', attempts: 5 });
+    expect(sentTexts(backend)).toHaveLength(5);
+
+    backend.setScenario('default');
+    outboxService.retry(entry.id);
+    await outboxService.process();
+
+    expect(outboxService.getEntries()).toEqual([]);
+  });
+
+  it('delivers requests queued before the app was closed', async () => {
+    const stored: OutboxEntry = {
+      ...reply(LAURA, 'Typed on the train'),
+      id: 'outbox-1-1',
+      group: `whatsapp:${LAURA}`,
+      status: 'sending',
+      attempts: 0,
+      createdAt: 1,
+    };
+
+    await jest.isolateModulesAsync(async () => {
+      const storageModule = require('@react-native-async-storage/async-storage');
+      const storage = storageModule.default ?? storageModule;
+      await storage.setItem('outbox:42', JSON.stringify([stored]));
+
+      const { apiService: restartedApi } = require('../src/helpers/request');
+      const { outboxService: restarted } = require('../src/services/OutboxService');
+      restartedApi.setAdapter(backend.adapter);
+
+      await restarted.load();
+      await restarted.process();
+
+      expect(restarted.getEntries()).toEqual([]);
+      expect(sentTexts(backend)).toEqual(['Typed on the train']);
+    });
+  });
+});
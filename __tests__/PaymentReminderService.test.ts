@@ -0,0 +1,110 @@
+/**
+ * @format
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import i18n from 'i18next';
+import { apiService } from '../src/helpers/request';
+import { MockBackend } from '../src/api/mock';
+import { packages as packageFixtures } from '../src/api/mock/fixtures';
+import { notificationService } from '../src/services/NotificationService';
+import { paymentReminderService } from '../src/services/PaymentReminderService';
+import enTranslation from '../src/locales/en/translation.json';
+
+jest.mock('../src/helpers/secureStorage');
+
+// Pending trigger notifications by id
+const mockPending = new Map<string, any>();
+jest.mock('../src/services/NotificationService', () => ({
+  NotificationType: { PAYMENT: 'PAYMENT' },
+  notificationService: {
+    scheduleLocalNotification: jest.fn(async (payload: any, fireAt: Date) => {
+      mockPending.set(payload.id, { ...payload, fireAt });
+      return payload.id;
+    }),
+    getScheduledNotificationIds: jest.fn(async (prefix: string = '') =>
+      [...mockPending.keys()].filter(id => id.startsWith(prefix))
+    ),
+    cancelScheduledNotifications: jest.fn(async (ids: string[]) => {
+      ids.forEach(id => mockPending.delete(id));
+    }),
+  },
+}));
+
+const scheduleLocalNotification = notificationService.scheduleLocalNotification as jest.Mock;
+
+describe('PaymentReminderService', () => {
+  beforeAll(async () => {
+    await i18n.init({
+      lng: 'en',
+      resources: { en: { translation: enTranslation } },
+      interpolation: { escapeValue: false },
+    });
+  });
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    mockPending.clear();
+    scheduleLocalNotification.mockClear();
+    await AsyncStorage.clear();
+    apiService.setAdapter(new MockBackend({ scenario: 'overdueInstallments' }).adapter);
+    await paymentReminderService.updateSettings({ enabled: true, leadDays: [7, 1], onOverdue: true });
+  });
+
+  afterEach(() => {
+    apiService.setAdapter();
+    jest.restoreAllMocks();
+  });
+
+  it('schedules reminders for the upcoming payments of the active account', async () => {
+    expect([...mockPending.keys()]).toEqual([
+      'payment-reminder:42:304:before-7',
+      'payment-reminder:42:304:before-1',
+      'payment-reminder:42:304:overdue',
+    ]);
+
+    const reminder = mockPending.get('payment-reminder:42:304:before-7');
+    expect(reminder.title).toBe('Payment due in 7 days');
+    expect(reminder.body).toMatch(/^Installment 4 of Acting for Cinema \(€450\.00\) is due on /);
+    expect(reminder.data).toEqual({ type: 'PAYMENT', packageId: '11', paymentId: '304' });
+    expect(reminder.fireAt.getHours()).toBe(9);
+  });
+
+  it('leaves unchanged reminders alone and follows the settings', async () => {
+    await paymentReminderService.sync();
+    expect(scheduleLocalNotification).toHaveBeenCalledTimes(3);
+
+    scheduleLocalNotification.mockClear();
+    await paymentReminderService.updateSettings({ leadDays: [3, 7], onOverdue: false });
+
+    expect(scheduleLocalNotification).toHaveBeenCalledTimes(1);
+    expect([...mockPending.keys()]).toEqual(['payment-reminder:42:304:before-7', 'payment-reminder:42:304:before-3']);
+    expect(paymentReminderService.getSettings().leadDays).toEqual([7, 3]);
+
+    await paymentReminderService.updateSettings({ enabled: false });
+    expect(mockPending.size).toBe(0);
+  });
+
+  it('cancels only the reminders of the account that signed out', async () => {
+    mockPending.set('payment-reminder:7:501:before-1', { id: 'payment-reminder:7:501:before-1' });
+
+    await paymentReminderService.cancelReminders('42');
+
+    expect([...mockPending.keys()]).toEqual(['payment-reminder:7:501:before-1']);
+    expect(await AsyncStorage.getItem('paymentReminderSchedule')).toBeNull();
+  });
+
+  it('cancels the reminders of payments that were paid', async () => {
+    const packages = packageFixtures(true).map(pkg => ({
+      ...pkg,
+      installments_details: pkg.installments_details?.map(payment => ({ ...payment, status: 'paid' })),
+    }));
+
+    await paymentReminderService.reconcile(packages);
+
+    expect(mockPending.size).toBe(0);
+    expect(await AsyncStorage.getItem('paymentReminderSchedule')).toBeNull();
+  });
+});
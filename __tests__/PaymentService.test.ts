@@ -0,0 +1,132 @@
+/**
+ * @format
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AxiosAdapter } from 'axios';
+import { InAppBrowser } from 'react-native-inappbrowser-reborn';
+import { apiService } from '../src/helpers/request';
+import { getPackagePayments } from '../src/helpers/payments';
+import { MockBackend } from '../src/api/mock';
+import { CHECKOUT_RETURN_URL, paymentService } from '../src/services/PaymentService';
+
+jest.mock('../src/helpers/secureStorage');
+
+jest.mock('react-native-inappbrowser-reborn', () => ({
+  InAppBrowser: {
+    isAvailable: jest.fn(async () => true),
+    openAuth: jest.fn(),
+  },
+}));
+
+const openAuth = InAppBrowser.openAuth as jest.Mock;
+
+/**
+ * Leave the stand-in checkout page through one of its buttons
+ */
+const leaveCheckout = (result: 'success' | 'cancel') => async (url: string) => {
+  const sessionId = url.match(/\/checkout\/([^?]+)/)![1];
+  return { type: 'success', url: `${CHECKOUT_RETURN_URL}?session_id=${sessionId}&result=${result}` };
+};
+
+/**
+ * Serve the backend, but answer session lookups as the provider does for a page left
+ * without paying. The mock backend itself settles a session once it is looked up.
+ */
+const withUnpaidSessions = (backend: MockBackend): AxiosAdapter => {
+  let opened: any;
+  return async (config) => {
+    if (config.method?.toUpperCase() === 'GET' && config.url?.includes('me/checkout-sessions/')) {
+      return { data: opened, status: 200, statusText: 'OK', headers: {}, config };
+    }
+    const response = await backend.adapter(config);
+    if (config.method?.toUpperCase() === 'POST') {
+      opened = response.data;
+    }
+    return response;
+  };
+};
+
+const statusOf = (packages: any[], paymentId: number) =>
+  getPackagePayments(packages.find(pkg => pkg.id === 11)).items.find(item => item.id === paymentId)?.status;
+
+describe('PaymentService', () => {
+  let backend: MockBackend;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    backend = new MockBackend({ scenario: 'overdueInstallments' });
+    apiService.setAdapter(backend.adapter);
+    openAuth.mockReset();
+    await paymentService.load();
+  });
+
+  afterEach(() => {
+    apiService.setAdapter();
+    jest.restoreAllMocks();
+  });
+
+  it('pays overdue installments and refreshes the packages', async () => {
+    openAuth.mockImplementation(leaveCheckout('success'));
+    const refreshed: any[][] = [];
+    const unsubscribe = paymentService.subscribe(event => {
+      if (event.type === 'packages') refreshed.push(event.packages);
+    });
+
+    const result = await paymentService.pay(11, [302, 303]);
+    unsubscribe();
+
+    expect(result).toBe('paid');
+    expect(openAuth).toHaveBeenCalledWith(expect.stringContaining('amount=900'), CHECKOUT_RETURN_URL, expect.any(Object));
+    expect(refreshed).toHaveLength(1);
+    expect([statusOf(refreshed[0], 302), statusOf(refreshed[0], 303), statusOf(refreshed[0], 304)]).toEqual([
+      'PAID',
+      'PAID',
+      'UNPAID',
+    ]);
+    expect(paymentService.getProcessing()).toEqual({});
+  });
+
+  it('holds payments as processing while their checkout is open', async () => {
+    apiService.setAdapter(withUnpaidSessions(backend));
+    let leave: (result: 'success' | 'cancel') => void = () => {};
+    openAuth.mockImplementation(url => new Promise(resolve => {
+      leave = result => leaveCheckout(result)(url).then(resolve);
+    }));
+
+    const checkout = paymentService.pay(11, [302]);
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(paymentService.isProcessing(302)).toBe(true);
+    expect(Object.keys(JSON.parse((await AsyncStorage.getItem('paymentsProcessing:42'))!))).toEqual(['302']);
+    await expect(paymentService.pay(11, [302])).rejects.toThrow('A checkout is already open');
+
+    leave('cancel');
+
+    expect(await checkout).toBe('cancelled');
+    expect(paymentService.isProcessing(302)).toBe(false);
+    expect(await AsyncStorage.getItem('paymentsProcessing:42')).toBeNull();
+    expect(backend.requests.filter(request => request.method === 'POST')).toHaveLength(1);
+  });
+
+  it('asks the backend about a checkout closed before it returned', async () => {
+    // The student paid, then closed the browser before the redirect
+    openAuth.mockResolvedValue({ type: 'cancel' });
+
+    const result = await paymentService.pay(11, [302]);
+
+    expect(result).toBe('paid');
+    expect(backend.requests.map(request => request.path)).toContain('me/checkout-sessions/cs_mock_1');
+    expect(paymentService.getProcessing()).toEqual({});
+  });
+
+  it('refuses payments that were already made', async () => {
+    await expect(paymentService.pay(11, [301])).rejects.toMatchObject({ kind: 'validation', status: 422 });
+
+    expect(openAuth).not.toHaveBeenCalled();
+    expect(paymentService.getProcessing()).toEqual({});
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * @format
+ */
+
+import { getPackagePayments, getPaymentItems, getPaymentOverview, planPaymentReminders } from '../src/helpers/payments';
+import { Payment, StudentPackage } from '../src/api';
+
+const NOW = new Date(2026, 2, 15, 18, 30);
+
+const installment = (id: number, due_date: string, status: 'paid' | 'pending'): Payment => ({
+  id,
+  amount: 450,
+  due_date,
+  status,
+  installment_number: id - 300,
+});
+
+const pkg: StudentPackage = {
+  id: 11,
+  package_details: { id: 3, name: 'Acting for Cinema', italian_name: 'Recitazione per il Cinema' },
+  final_amount: 2700,
+  payment_type: 'emi',
+  upfront_payments_details: [
+    // Older records only carry the payment date
+    { id: 201, amount: 900, due_date: '2025-11-10', payment_date: '2025-11-09' },
+  ],
+  installments_details: [
+    installment(304, '2026-04-15', 'pending'),
+    installment(301, '2025-12-15', 'paid'),
+    installment(302, '2026-01-15', 'pending'),
+    installment(303, '2026-03-15', 'pending'),
+  ],
+};
+
+describe('payments', () => {
+  it('normalizes every way the API reports a payment', () => {
+    const items = getPaymentItems(
+      [
+        { id: 1, amount: 100, due_date: '2026-03-01', payment_status: 'PAID' },
+        { id: 2, amount: 100, due_date: '2026-03-01', status: 'paid' },
+        { id: 3, amount: 100, due_date: '2026-03-01', payment_date: '2026-02-27' },
+        { id: 4, amount: 100, due_date: '2026-03-01', status: 'pending' },
+        { id: 5, amount: 100, due_date: '2026-04-01', payment_status: 'UNPAID' },
+      ],
+      'upfront',
+      11,
+      NOW
+    );
+
+    expect(items.map(item => [item.id, item.status, item.daysOverdue])).toEqual([
+      [1, 'PAID', 0],
+      [2, 'PAID', 0],
+      [3, 'PAID', 0],
+      [4, 'OVERDUE', 14],
+      [5, 'UNPAID', 0],
+    ]);
+  });
+
+  it('is not overdue on the due date itself', () => {
+    const [item] = getPaymentItems([installment(303, '2026-03-15', 'pending')], 'installment', 11, NOW);
+
+    expect(item).toMatchObject({ status: 'UNPAID', daysOverdue: 0, number: 3 });
+  });
+
+  it('computes totals, progress and the next due payment of a package', () => {
+    const payments = getPackagePayments(pkg, NOW);
+
+    expect(payments.installments.map(item => item.id)).toEqual([301, 302, 303, 304]);
+    expect(payments.upfrontTotals).toEqual({ total: 900, paid: 900, balance: 0 });
+    expect(payments.installmentTotals).toEqual({ total: 1800, paid: 450, balance: 1350 });
+    expect(payments.totals).toEqual({ total: 2700, paid: 1350, balance: 1350 });
+    expect(payments.progress).toBe(50);
+    expect(payments.overdue.map(item => [item.id, item.daysOverdue])).toEqual([[302, 59]]);
+    expect(payments.overdueAmount).toBe(450);
+    expect(payments.nextDue?.id).toBe(302);
+  });
+
+  it('counts the package price when its payments are not all scheduled yet', () => {
+    const payments = getPackagePayments({ ...pkg, installments_details: [] }, NOW);
+
+    expect(payments.totals).toEqual({ total: 2700, paid: 900, balance: 1800 });
+    expect(payments.progress).toBe(33);
+    expect(payments.nextDue).toBeNull();
+  });
+
+  it('plans reminders ahead of unpaid payments only, soonest first', () => {
+    const reminders = planPaymentReminders([pkg], { enabled: true, leadDays: [7, 1], onOverdue: true }, NOW);
+
+    expect(reminders.map(reminder => [reminder.key, reminder.fireAt])).toEqual([
+      ['303:overdue', new Date(2026, 2, 16, 9)],
+      ['304:before-7', new Date(2026, 3, 8, 9)],
+      ['304:before-1', new Date(2026, 3, 14, 9)],
+      ['304:overdue', new Date(2026, 3, 16, 9)],
+    ]);
+    expect(planPaymentReminders([pkg], { enabled: true, leadDays: [3], onOverdue: false }, NOW).map(r => r.key)).toEqual([
+      '304:before-3',
+    ]);
+    expect(planPaymentReminders([pkg], { enabled: false, leadDays: [7], onOverdue: true }, NOW)).toEqual([]);
+  });
+
+  it('sums packages and lays out every payment event in order', () => {
+    const overview = getPaymentOverview([pkg], undefined, NOW);
+
+    expect(overview.totals).toEqual({ committed: 2700, paid: 1350, outstanding: 1350, overdue: 450 });
+    expect(overview.timeline.map(event => [event.key, event.date])).toEqual([
+      ['201:paid', '2025-11-09'],
+      ['201:due', '2025-11-10'],
+      ['301:due', '2025-12-15'],
+      ['301:paid', '2025-12-15'],
+      ['302:due', '2026-01-15'],
+      ['302:overdue', '2026-01-16'],
+      ['303:due', '2026-03-15'],
+      ['304:due', '2026-04-15'],
+    ]);
+    expect(overview.upcoming).toHaveLength(12);
+    expect(overview.upcoming.slice(0, 3)).toEqual([
+      { month: '2026-03', amount: 450, count: 1 },
+      { month: '2026-04', amount: 450, count: 1 },
+      { month: '2026-05', amount: 0, count: 0 },
+    ]);
+  });
+
+  it('filters the overview by package and status', () => {
+    const overdue = getPaymentOverview([pkg], { packageId: 11, status: 'OVERDUE' }, NOW);
+
+    expect(overdue.totals.committed).toBe(2700);
+    expect(overdue.timeline.map(event => event.key)).toEqual(['302:due', '302:overdue']);
+    expect(overdue.upcoming.every(month => month.count === 0)).toBe(true);
+
+    expect(getPaymentOverview([pkg], { packageId: 12, status: 'ALL' }, NOW).totals).toEqual({
+      committed: 0,
+      paid: 0,
+      outstanding: 0,
+      overdue: 0,
+    });
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * @format
+ */
+
+import { apiService } from '../src/helpers/request';
+import { MockBackend } from '../src/api/mock';
+import { emailLogs, notifications } from '../src/api/mock/fixtures';
+import { UnreadCounts } from '../src/api';
+import { readStateService, readTargets } from '../src/services/ReadStateService';
+
+jest.mock('../src/helpers/secureStorage');
+
+const CONTACT = '+393331234567';
+
+describe('ReadStateService', () => {
+  let backend: MockBackend;
+  let updates: UnreadCounts[];
+  let unsubscribe: () => void;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    backend = new MockBackend();
+    apiService.setAdapter(backend.adapter);
+    await readStateService.refreshCounts();
+
+    updates = [];
+    unsubscribe = readStateService.subscribe(counts => updates.push(counts));
+  });
+
+  afterEach(() => {
+    unsubscribe();
+    apiService.setAdapter();
+    jest.restoreAllMocks();
+  });
+
+  it('loads the unread counts', () => {
+    expect(readStateService.getCounts()).toEqual({ notifications: 1, emails: 1, messages: 2 });
+    expect(readStateService.getTotal()).toBe(4);
+  });
+
+  it('marks an item read before the backend answers', async () => {
+    const target = readTargets.notification(notifications[0]);
+
+    const pending = readStateService.setRead(target, true);
+    expect(readStateService.isUnread(target)).toBe(false);
+    expect(updates[0].notifications).toBe(0);
+
+    await pending;
+    expect(backend.requests[backend.requests.length - 1].body).toEqual({
+      data: { type: 'notification', id: 901, read: true },
+    });
+    expect(readStateService.getCounts().notifications).toBe(0);
+  });
+
+  it('rolls back when the backend rejects the change', async () => {
+    const target = readTargets.email(emailLogs[0]);
+    backend.setScenario('serverError');
+
+    await readStateService.setRead(target, true);
+
+    expect(readStateService.isUnread(target)).toBe(true);
+    expect(readStateService.getCounts().emails).toBe(1);
+    expect(updates.map(counts => counts.emails)).toEqual([0, 1]);
+  });
+
+  it('marks every conversation read and keeps counts in sync with the backend', async () => {
+    const target = readTargets.conversation(CONTACT, 2);
+
+    await readStateService.markAllRead('conversation', [target]);
+    expect(readStateService.getUnread(target)).toBe(0);
+    expect(readStateService.getCounts().messages).toBe(0);
+
+    await readStateService.setRead(target, false);
+    expect(readStateService.getUnread(target)).toBe(2);
+    expect(readStateService.getCounts().messages).toBe(2);
+  });
+
+  it('prefers fetched data that changed after a local change', async () => {
+    const target = readTargets.conversation(CONTACT, 2);
+    await readStateService.setRead(target, true);
+
+    // A newer fetch shows messages that arrived since
+    expect(readStateService.getUnread(readTargets.conversation(CONTACT, 3))).toBe(3);
+    expect(readStateService.getUnread(target)).toBe(0);
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * @format
+ */
+
+import { AppState } from 'react-native';
+import { apiService } from '../src/helpers/request';
+import { MockBackend } from '../src/api/mock';
+import { WhatsAppMessage } from '../src/api';
+import { ENVIRONMENTS } from '../src/helpers/environment';
+import { environmentService } from '../src/services/EnvironmentService';
+import { sessionManager } from '../src/services/SessionManager';
+import {
+  realtimeService,
+  realtimeTopics,
+  mergeRealtimeItems,
+} from '../src/services/RealtimeService';
+
+jest.mock('../src/helpers/secureStorage');
+
+const CONTACT = '+393331234567';
+const TOKEN = 'mock-access-token-0123456789';
+
+// WebSocket stand-in recording what the service opens and sends
+class FakeSocket {
+  static instances: FakeSocket[] = [];
+  readyState = 0;
+  sent: any[] = [];
+  onopen?: () => void;
+  onclose?: () => void;
+
+  constructor(public url: string) {
+    FakeSocket.instances.push(this);
+  }
+
+  open() {
+    this.readyState = 1;
+    this.onopen?.();
+  }
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close() {
+    this.readyState = 3;
+  }
+}
+
+// The handler RealtimeService registered when its channel opened
+const getAppStateHandler = () => {
+  const calls = (AppState.addEventListener as jest.Mock).mock.calls;
+  return calls[calls.length - 1][1] as (state: string) => void;
+};
+
+describe('RealtimeService', () => {
+  let backend: MockBackend;
+  let unsubscribe: () => void;
+  let received: WhatsAppMessage[][];
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    // The mock profile has no realtime channel
+    jest.spyOn(environmentService, 'getEnvironment').mockReturnValue(ENVIRONMENTS.mock);
+    backend = new MockBackend();
+    apiService.setAdapter(backend.adapter);
+
+    received = [];
+    unsubscribe = realtimeService.subscribe(realtimeTopics.conversation(CONTACT), items => {
+      received.push(items);
+    });
+  });
+
+  afterEach(() => {
+    unsubscribe();
+    apiService.setAdapter();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('polls without a realtime channel and only delivers new items', async () => {
+    expect(realtimeService.getTransport()).toBe('polling');
+
+    // Subscribing fetched once already
+    await realtimeService.refreshTopic(`whatsapp:${CONTACT}`);
+
+    expect(backend.requests).toHaveLength(2);
+    expect(received).toHaveLength(1);
+    const [delivered] = received;
+    expect(delivered.slice(-3).map(message => message.id)).toEqual([801, 802, 803]);
+    expect(backend.requests[1].query.since).toBe(delivered[delivered.length - 1].created_at);
+  });
+
+  it('pauses in the background and catches up when active again', async () => {
+    const handleAppStateChange = getAppStateHandler();
+
+    handleAppStateChange('background');
+    expect(realtimeService.getTransport()).toBe('paused');
+    jest.advanceTimersByTime(60 * 1000);
+    expect(backend.requests).toHaveLength(1);
+
+    handleAppStateChange('active');
+    await realtimeService.refreshTopic(`whatsapp:${CONTACT}`);
+
+    expect(realtimeService.getTransport()).toBe('polling');
+    expect(backend.requests).toHaveLength(2);
+    expect(backend.requests[1].query.since).toBeDefined();
+  });
+
+  it('fetches the conversation a foreground push message belongs to', async () => {
+    await realtimeService.handlePush({ type: 'MESSAGE', ph_no: CONTACT });
+
+    expect(backend.requests.map(request => request.path)).toEqual([
+      `whatsapp-conversations/${CONTACT}`,
+      `whatsapp-conversations/${CONTACT}`,
+    ]);
+    expect(backend.requests[1].query.since).toBeDefined();
+  });
+
+  describe('with a realtime channel', () => {
+    let resolveToken: (token: string | null) => void;
+
+    beforeEach(() => {
+      unsubscribe();
+      FakeSocket.instances = [];
+      (global as any).WebSocket = FakeSocket;
+      jest.spyOn(environmentService, 'getEnvironment').mockReturnValue({
+        ...ENVIRONMENTS.mock,
+        realtimeURL: 'wss://realtime.example.test',
+      });
+      jest.spyOn(sessionManager, 'getAccessToken').mockImplementation(
+        () => new Promise(resolve => {
+          resolveToken = resolve;
+        })
+      );
+    });
+
+    afterEach(() => {
+      delete (global as any).WebSocket;
+    });
+
+    it('sends the token in the first frame instead of the URL', async () => {
+      unsubscribe = realtimeService.subscribe(realtimeTopics.conversation(CONTACT), () => {});
+      resolveToken(TOKEN);
+      await Promise.resolve();
+
+      const [socket] = FakeSocket.instances;
+      expect(socket.url).toBe('wss://realtime.example.test');
+      socket.open();
+
+      expect(realtimeService.getTransport()).toBe('websocket');
+      expect(socket.sent).toEqual([
+        { type: 'auth', token: TOKEN },
+        { type: 'subscribe', topics: [`whatsapp:${CONTACT}`] },
+      ]);
+    });
+
+    it('opens no socket when stopped while reading the token', async () => {
+      const stopEarly = realtimeService.subscribe(realtimeTopics.conversation(CONTACT), () => {});
+      stopEarly();
+      unsubscribe = () => {};
+
+      resolveToken(TOKEN);
+      await Promise.resolve();
+
+      expect(FakeSocket.instances).toHaveLength(0);
+      expect(realtimeService.getTransport()).toBe('idle');
+    });
+  });
+
+  it('stops once the last listener unsubscribes', () => {
+    unsubscribe();
+
+    expect(realtimeService.getTransport()).toBe('idle');
+  });
+
+  it('merges pushed items by id at the requested end', () => {
+    const item = (id: number, created_at: string) => ({ id, created_at });
+    const current = [item(2, '2026-01-02'), item(1, '2026-01-01')];
+
+    expect(
+      mergeRealtimeItems(current, [item(4, '2026-01-04'), item(2, '2026-01-02'), item(3, '2026-01-03')], 'start')
+        .map(({ id }) => id)
+    ).toEqual([4, 3, 2, 1]);
+    // Older than the loaded window: left to pagination
+    expect(mergeRealtimeItems(current, [item(0, '2025-12-31')]).map(({ id }) => id)).toEqual([2, 1]);
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * @format
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { apiService } from '../src/helpers/request';
+import { MockBackend } from '../src/api/mock';
+import { responseCache } from '../src/services/ResponseCache';
+import { SessionEvent } from '../src/services/SessionManager';
+
+jest.mock('../src/helpers/secureStorage');
+
+// Created by the mock factory, which runs before this module's body
+const mockSession = jest.requireMock('../src/services/SessionManager').mockSession as {
+  userId: string;
+  listeners: Array<(event: SessionEvent) => Promise<void> | void>;
+};
+
+jest.mock('../src/services/SessionManager', () => {
+  const session = { userId: '42', listeners: [] as any[] };
+  return {
+    mockSession: session,
+    sessionManager: {
+      subscribe: (listener: any) => {
+        session.listeners.push(listener);
+        return () => {};
+      },
+      getUserId: async () => session.userId,
+    },
+  };
+});
+
+const emit = (event: SessionEvent) =>
+  Promise.all(mockSession.listeners.map(listener => listener(event)));
+
+const cachedKeys = async () =>
+  (await AsyncStorage.getAllKeys()).filter(key => key.startsWith('responseCache:')).sort();
+
+describe('ResponseCache', () => {
+  let backend: MockBackend;
+  const language = apiService.getLanguage();
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    mockSession.userId = '42';
+    await AsyncStorage.clear();
+    backend = new MockBackend();
+    apiService.setAdapter(backend.adapter);
+  });
+
+  afterEach(() => {
+    apiService.setLanguage(language);
+    apiService.setAdapter();
+    jest.restoreAllMocks();
+  });
+
+  it('keeps the responses of each account apart', async () => {
+    await responseCache.write('me/album', { data: { album_link: 'giulia' } });
+
+    mockSession.userId = '7';
+    expect(await responseCache.read('me/album')).toBeNull();
+    await responseCache.write('me/album', { data: { album_link: 'marco' } });
+
+    mockSession.userId = '42';
+    expect((await responseCache.read('me/album'))?.data).toEqual({ data: { album_link: 'giulia' } });
+    expect(await cachedKeys()).toEqual(['responseCache:42:me/album', 'responseCache:7:me/album']);
+  });
+
+  it('serves the cached response while offline', async () => {
+    const online = await responseCache.get('me/album');
+    expect(online).toMatchObject({ fromCache: false, offline: false });
+
+    backend.setScenario('offline');
+    const offline = await responseCache.get('me/album');
+
+    expect(offline).toMatchObject({ fromCache: true, offline: true, updatedAt: online.updatedAt });
+    expect(offline.data).toEqual(online.data);
+  });
+
+  it('fails while offline when nothing is cached', async () => {
+    backend.setScenario('offline');
+
+    await expect(responseCache.get('me/album')).rejects.toMatchObject({ kind: 'offline' });
+  });
+
+  it('hands out the cached response before revalidating it', async () => {
+    const stale = await responseCache.write('me/album', { data: { album_link: 'stale' } });
+    const onCached = jest.fn(() => {
+      // The network request starts after the cached entry was handed out
+      expect(backend.requests).toHaveLength(0);
+    });
+
+    const result = await responseCache.get('me/album', onCached);
+
+    expect(onCached).toHaveBeenCalledWith(stale);
+    expect(result.fromCache).toBe(false);
+    expect(result.data).not.toEqual(stale.data);
+    expect((await responseCache.read('me/album'))?.data).toEqual(result.data);
+  });
+
+  it('forgets the signed-out account only', async () => {
+    await responseCache.write('me/album', { data: {} });
+    mockSession.userId = '7';
+    await responseCache.write('me/album', { data: {} });
+
+    await emit({ type: 'logout', reason: 'user', userId: '42' });
+
+    expect(await cachedKeys()).toEqual(['responseCache:7:me/album']);
+  });
+
+  it('drops localized responses when the language changes', async () => {
+    await responseCache.write('me/packages', { data: [] });
+    await responseCache.write('me/album', { data: {} });
+    mockSession.userId = '7';
+    await responseCache.write('me/packages', { data: [] });
+
+    apiService.setLanguage(language === 'it' ? 'en' : 'it');
+    await new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+    expect(await cachedKeys()).toEqual(['responseCache:42:me/album']);
+  });
+});
@@ -0,0 +1,304 @@
+/**
+ * @format
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Keychain from 'react-native-keychain';
+import { apiService, toApiError } from '../src/helpers/request';
+import { ResponseValidationError } from '../src/api';
+import { sessionManager, SessionEvent } from '../src/services/SessionManager';
+
+// In-memory keychain keyed by server, mirroring the *InternetCredentials API
+const mockKeychain = new Map<string, string>();
+jest.mock('react-native-keychain', () => ({
+  setInternetCredentials: jest.fn(async (server: string, _user: string, password: string) => {
+    mockKeychain.set(server, password);
+    return true;
+  }),
+  getInternetCredentials: jest.fn(async (server: string) => {
+    const password = mockKeychain.get(server);
+    return password === undefined ? false : { server, username: server, password };
+  }),
+  resetInternetCredentials: jest.fn(async (server: string) => {
+    mockKeychain.delete(server);
+  }),
+  resetGenericPassword: jest.fn(async () => true),
+  getSupportedBiometryType: jest.fn(async () => null),
+}));
+
+const mockedKeychain = Keychain as jest.Mocked<typeof Keychain>;
+
+const TOKENS = {
+  access_token: 'access-token-0123456789',
+  refresh_token: 'refresh-token-0123456789',
+  id: 7,
+  id_lead: 42,
+};
+
+const OTHER_TOKENS = {
+  access_token: 'access-token-abcdefghij',
+  refresh_token: 'refresh-token-abcdefghij',
+  id: 8,
+  id_lead: 43,
+  name: 'Giulia Bianchi',
+};
+
+describe('SessionManager', () => {
+  let events: SessionEvent[];
+  let unsubscribe: () => void;
+
+  beforeEach(async () => {
+    mockKeychain.clear();
+    await AsyncStorage.clear();
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    events = [];
+    unsubscribe = sessionManager.subscribe(event => {
+      events.push(event);
+    });
+  });
+
+  afterEach(async () => {
+    unsubscribe();
+    await sessionManager.logout('user', { allAccounts: true });
+    jest.restoreAllMocks();
+  });
+
+  it('stores tokens and lead id when a session starts', async () => {
+    await sessionManager.startSession(TOKENS);
+
+    expect(mockKeychain.get('userToken')).toBe(TOKENS.access_token);
+    expect(mockKeychain.get('refreshToken')).toBe(TOKENS.refresh_token);
+    expect(mockKeychain.get('leadID')).toBe('42');
+    expect(sessionManager.getStatus()).toBe('authenticated');
+    expect(events).toContainEqual({ type: 'login', userId: 7, leadId: 42 });
+  });
+
+  it('rejects a login response without an access token', async () => {
+    await expect(sessionManager.startSession({} as any)).rejects.toThrow(
+      'Login response did not include an access token',
+    );
+  });
+
+  it('posts credentials to jwt on login', async () => {
+    const request = jest
+      .spyOn(apiService, 'request')
+      .mockResolvedValue({ data: { data: TOKENS }, status: 200 });
+
+    await sessionManager.login(' Student@Example.com ', 'secret123');
+
+    expect(request).toHaveBeenCalledWith(
+      'POST',
+      'jwt',
+      { data: { email: 'student@example.com', password: 'secret123' } },
+      {}
+    );
+    expect(sessionManager.getStatus()).toBe('authenticated');
+  });
+
+  it('rejects a malformed login response', async () => {
+    jest
+      .spyOn(apiService, 'request')
+      .mockResolvedValue({ data: { data: { id: 7 } }, status: 200 });
+
+    const login = sessionManager.login('student@example.com', 'secret123');
+    await expect(login).rejects.toBeInstanceOf(ResponseValidationError);
+    await expect(login.catch(toApiError)).resolves.toMatchObject({ kind: 'validation' });
+    expect(mockKeychain.has('userToken')).toBe(false);
+  });
+
+  it('restores an authenticated session from the keychain', async () => {
+    mockKeychain.set('userToken', TOKENS.access_token);
+
+    await expect(sessionManager.restoreSession()).resolves.toBe('authenticated');
+  });
+
+  it('falls back to AsyncStorage when the keychain throws', async () => {
+    mockedKeychain.getInternetCredentials.mockRejectedValueOnce(new Error('bridge error'));
+    await AsyncStorage.setItem('userToken', TOKENS.access_token);
+
+    await expect(sessionManager.restoreSession()).resolves.toBe('authenticated');
+  });
+
+  it('falls back to unauthenticated when the restore hangs', async () => {
+    jest.useFakeTimers();
+    try {
+      let release: () => void = () => {};
+      jest
+        .spyOn(sessionManager, 'getAccessToken')
+        .mockImplementation(() => new Promise(resolve => {
+          release = () => resolve(TOKENS.access_token);
+        }));
+
+      const restored = sessionManager.restoreSession();
+      jest.advanceTimersByTime(8000);
+      await expect(restored).resolves.toBe('unauthenticated');
+      expect(sessionManager.getStatus()).toBe('unauthenticated');
+
+      // Finishing late changes nothing
+      jest.useRealTimers();
+      release();
+      await new Promise(resolve => setTimeout(resolve, 50));
+      expect(sessionManager.getStatus()).toBe('unauthenticated');
+      expect(events).not.toContainEqual({ type: 'statusChange', status: 'authenticated' });
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('treats placeholder tokens as unauthenticated', async () => {
+    mockKeychain.set('userToken', 'undefined-token');
+
+    await expect(sessionManager.restoreSession()).resolves.toBe('unauthenticated');
+  });
+
+  it('clears every session key on logout', async () => {
+    await sessionManager.startSession(TOKENS);
+    await AsyncStorage.setItem('userProfile', '{}');
+
+    const result = await sessionManager.logout();
+
+    expect(result).toEqual({ success: true, failedKeys: [] });
+    expect(mockKeychain.size).toBe(0);
+    expect(await AsyncStorage.getItem('userProfile')).toBeNull();
+    expect(sessionManager.getStatus()).toBe('unauthenticated');
+    expect(events).toContainEqual({ type: 'logout', reason: 'user', userId: '7' });
+  });
+
+  it('lets listeners act as the account before its tokens are cleared', async () => {
+    await sessionManager.startSession(TOKENS);
+    let tokenBeforeLogout: string | null = null;
+    const stop = sessionManager.subscribe(async (event) => {
+      if (event.type === 'beforeLogout') {
+        tokenBeforeLogout = await sessionManager.getAccessToken();
+      }
+    });
+
+    await sessionManager.logout();
+    stop();
+
+    expect(tokenBeforeLogout).toBe(TOKENS.access_token);
+    expect(events.map(event => event.type)).toEqual(['statusChange', 'login', 'beforeLogout', 'statusChange', 'logout']);
+  });
+
+  it('overwrites a token the keychain still holds after removal', async () => {
+    await sessionManager.startSession(TOKENS);
+    mockedKeychain.resetInternetCredentials.mockImplementationOnce(async () => {});
+
+    const result = await sessionManager.logout();
+
+    expect(result.success).toBe(true);
+    expect(mockKeychain.get('userToken')).toBe('');
+    expect(await sessionManager.getAccessToken()).toBeNull();
+  });
+
+  it('reports keys that cannot be cleared but still logs out', async () => {
+    await sessionManager.startSession(TOKENS);
+    mockedKeychain.resetInternetCredentials.mockImplementationOnce(async () => {});
+    mockedKeychain.setInternetCredentials.mockRejectedValueOnce(new Error('keychain locked'));
+
+    const result = await sessionManager.logout();
+
+    expect(result).toEqual({ success: false, failedKeys: ['userToken'] });
+    expect(sessionManager.getStatus()).toBe('unauthenticated');
+    expect(events).toContainEqual({ type: 'logout', reason: 'user', userId: '7' });
+  });
+
+  it('still logs out when AsyncStorage cleanup fails', async () => {
+    await sessionManager.startSession(TOKENS);
+    jest.spyOn(AsyncStorage, 'multiRemove').mockRejectedValueOnce(new Error('disk full'));
+
+    const result = await sessionManager.logout();
+
+    expect(result.success).toBe(true);
+    expect(sessionManager.getStatus()).toBe('unauthenticated');
+  });
+
+  it('keeps notifying listeners when one of them throws', async () => {
+    const cleanup = jest.fn();
+    const unsubscribeFailing = sessionManager.subscribe(() => {
+      throw new Error('cleanup failed');
+    });
+    const unsubscribeCleanup = sessionManager.subscribe(cleanup);
+
+    await sessionManager.startSession(TOKENS);
+    await sessionManager.logout();
+
+    expect(cleanup).toHaveBeenCalledWith({ type: 'logout', reason: 'user', userId: '7' });
+    unsubscribeFailing();
+    unsubscribeCleanup();
+  });
+
+  it('shares one logout between concurrent callers', async () => {
+    await sessionManager.startSession(TOKENS);
+
+    await Promise.all([sessionManager.logout(), sessionManager.logout()]);
+
+    expect(events.filter(event => event.type === 'logout')).toHaveLength(1);
+  });
+
+  it('logs out with reason expired when a token refresh fails', async () => {
+    await sessionManager.startSession({ access_token: TOKENS.access_token });
+
+    await expect(apiService.refreshAccessToken()).resolves.toBeNull();
+    await new Promise<void>(resolve => setImmediate(resolve));
+
+    expect(events).toContainEqual({ type: 'logout', reason: 'expired', userId: null });
+    expect(sessionManager.getStatus()).toBe('unauthenticated');
+  });
+
+  describe('with several accounts', () => {
+    beforeEach(async () => {
+      await sessionManager.startSession(TOKENS);
+      await sessionManager.startSession(OTHER_TOKENS);
+      events = [];
+    });
+
+    it('lists the signed-in accounts, most recently used first', async () => {
+      const accounts = await sessionManager.getAccounts();
+
+      expect(accounts.map(account => account.userId)).toEqual(['8', '7']);
+      expect(accounts[0]).toMatchObject({ name: 'Giulia Bianchi', leadId: 43 });
+    });
+
+    it('switches accounts without credentials', async () => {
+      await sessionManager.switchAccount('7');
+
+      expect(mockKeychain.get('userToken')).toBe(TOKENS.access_token);
+      expect(mockKeychain.get('leadID')).toBe('42');
+      expect(await sessionManager.getUserId()).toBe('7');
+      expect(events).toContainEqual({ type: 'switch', userId: '7', previousUserId: '8' });
+    });
+
+    it('keeps refreshed tokens of the account switched away from', async () => {
+      await apiService.storeTokens({ access_token: 'access-token-refreshed' });
+
+      await sessionManager.switchAccount('7');
+      await sessionManager.switchAccount('8');
+
+      expect(mockKeychain.get('userToken')).toBe('access-token-refreshed');
+    });
+
+    it('continues with the remaining account after a logout', async () => {
+      await sessionManager.logout();
+
+      expect(sessionManager.getStatus()).toBe('authenticated');
+      expect(mockKeychain.get('userToken')).toBe(TOKENS.access_token);
+      expect(mockKeychain.has('session:8')).toBe(false);
+      expect(events).toContainEqual({ type: 'logout', reason: 'user', userId: '8' });
+      expect(events).toContainEqual({ type: 'switch', userId: '7', previousUserId: '8' });
+    });
+
+    it('signs every account out at once', async () => {
+      await sessionManager.logout('user', { allAccounts: true });
+
+      expect(sessionManager.getStatus()).toBe('unauthenticated');
+      expect(await sessionManager.getAccounts()).toEqual([]);
+      expect(mockKeychain.has('session:7')).toBe(false);
+      expect(mockKeychain.has('sessionAccounts')).toBe(false);
+    });
+  });
+});
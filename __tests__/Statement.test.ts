@@ -0,0 +1,115 @@
+/**
+ * @format
+ */
+
+import i18n from 'i18next';
+import { apiService } from '../src/helpers/request';
+import { buildPaymentDocumentHtml, getPackageName } from '../src/helpers/statement';
+import { MockBackend } from '../src/api/mock';
+import { pdfService } from '../src/features/gallery/services/PDFService';
+import { exportService } from '../src/services/ExportService';
+import enTranslation from '../src/locales/en/translation.json';
+import itTranslation from '../src/locales/it/translation.json';
+
+jest.mock('../src/helpers/secureStorage');
+
+jest.mock('../src/features/gallery/services/PDFService', () => ({
+  pdfService: {
+    generateHTMLPDF: jest.fn(async (_html: string, fileName: string) => ({
+      filePath: `/tmp/${fileName}.pdf`,
+      fileName: `${fileName}.pdf`,
+    })),
+  },
+}));
+
+jest.mock('../src/features/gallery/services/FileSystemService', () => ({
+  fileSystemService: {
+    getAccountSubdirectory: (userId: string) => `Account ${userId}`,
+    getDownloadPath: (fileName: string, subdirectory: string) => `/downloads/${subdirectory}/${fileName}`,
+    moveFile: jest.fn(async () => undefined),
+  },
+}));
+
+jest.mock('../src/features/gallery/services/PermissionsService', () => ({
+  permissionsService: {
+    hasRequiredPermissions: jest.fn(async () => true),
+    requestRequiredPermissions: jest.fn(async () => true),
+  },
+}));
+
+const generateHTMLPDF = pdfService.generateHTMLPDF as jest.Mock;
+
+const lastHtml = (): string => generateHTMLPDF.mock.calls[generateHTMLPDF.mock.calls.length - 1][0];
+
+describe('payment documents', () => {
+  beforeAll(async () => {
+    await i18n.init({
+      lng: 'en',
+      resources: { en: { translation: enTranslation }, it: { translation: itTranslation } },
+      interpolation: { escapeValue: false },
+    });
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    generateHTMLPDF.mockClear();
+    apiService.setAdapter(new MockBackend({ scenario: 'overdueInstallments' }).adapter);
+  });
+
+  afterEach(async () => {
+    apiService.setAdapter();
+    await i18n.changeLanguage('en');
+    jest.restoreAllMocks();
+  });
+
+  it('names packages in the app language', () => {
+    const details = { id: 3, name: 'Acting for Cinema', italian_name: 'Recitazione per il Cinema' };
+
+    expect(getPackageName(details, 'en')).toBe('Acting for Cinema');
+    expect(getPackageName(details, 'it-IT')).toBe('Recitazione per il Cinema');
+  });
+
+  it('renders escaped rows and right-aligned amounts', () => {
+    const html = buildPaymentDocumentHtml({
+      title: 'Statement',
+      details: [],
+      parties: [{ label: 'Package', value: 'Hair & Make-up <Pro>' }],
+      columns: [{ title: 'Description' }, { title: 'Amount', align: 'right' }],
+      rows: [['Installment 1', '€450.00']],
+      totals: [{ label: 'Balance', value: '€0.00', emphasis: true }],
+    });
+
+    expect(html).toContain('Hair &amp; Make-up &lt;Pro&gt;');
+    expect(html).toContain('<td>Installment 1</td><td class="amount">€450.00</td>');
+    expect(html).toContain('<tr class="emphasis">');
+  });
+
+  it('lists every payment of a package with the balance in the statement', async () => {
+    const result = await exportService.exportStatement(11);
+    const html = lastHtml();
+
+    expect(result.fileName).toMatch(/^Statement of account Acting for Cinema \d{4}-\d{2}-\d{2}\.pdf$/);
+    expect(html).toContain('Giulia Rossi');
+    expect(html.match(/<tbody>(.*)<\/tbody>/s)![1].match(/<tr>/g)).toHaveLength(5);
+    expect(html).toContain('Upfront payment 1');
+    expect(html).toContain('Installment 4');
+    expect(html).toContain('Bank transfer');
+    expect(html).toMatch(/Package price<\/td>\s*<td class="amount">€2,700\.00/);
+    expect(html).toMatch(/Balance<\/td>\s*<td class="amount">€1,350\.00/);
+  });
+
+  it('prints receipts in Italian and only for paid payments', async () => {
+    await i18n.changeLanguage('it');
+
+    await exportService.exportReceipt(11, 301);
+    const html = lastHtml();
+
+    expect(html).toContain('Ricevuta di pagamento');
+    expect(html).toContain('Ricevuta n. 11-301');
+    expect(html).toContain('Recitazione per il Cinema');
+    expect(html).toContain('Bonifico bancario');
+    expect(html).toContain('450,00');
+
+    await expect(exportService.exportReceipt(11, 302)).rejects.toThrow('has no receipt');
+  });
+});
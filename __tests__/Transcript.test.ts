@@ -0,0 +1,69 @@
+/**
+ * @format
+ */
+
+import {
+  buildTranscriptHtml,
+  getEmailThread,
+  groupByDay,
+  TranscriptEntry,
+} from '../src/helpers/transcript';
+import { EmailLog } from '../src/api';
+
+const entries: TranscriptEntry[] = [
+  { id: 2, sender: 'You', sentAt: '2026-03-02 09:30:00', outgoing: true, body: 'Thanks <3' },
+  { id: 1, sender: 'Laura Conti', sentAt: '2026-03-01 18:00:00', outgoing: false, body: 'Lesson moved\nto 3 pm' },
+  { id: 3, sender: 'Laura Conti', sentAt: '2026-03-02 10:00:00', outgoing: false, body: 'See you!' },
+];
+
+const email = (id: number, subject: string, created_at: string): EmailLog => ({
+  id,
+  user_details: { first_name: 'Segreteria' },
+  template_details: {
+    subject,
+    body: '<p>Due on <b>March 1st</b><img src="storage/logo.png" alt="Logo"></p><script>track()</script>',
+  },
+  created_at,
+});
+
+describe('transcripts', () => {
+  it('groups entries by day, oldest first', () => {
+    expect(groupByDay(entries).map(({ day, entries: dayEntries }) => [day, dayEntries.map(entry => entry.id)])).toEqual([
+      ['2026-03-01', [1]],
+      ['2026-03-02', [2, 3]],
+    ]);
+  });
+
+  it('finds the emails of a thread by subject, ignoring reply prefixes', () => {
+    const opened = email(1, 'Installment reminder', '2026-03-01 09:00:00');
+    const thread = getEmailThread(
+      [opened, email(2, 'RE: installment reminder', '2026-03-02 09:00:00'), email(3, 'Casting call', '2026-03-03 09:00:00')],
+      opened
+    );
+
+    expect(thread.map(item => item.id)).toEqual([1, 2]);
+  });
+
+  it('renders escaped messages with senders and day separators', () => {
+    const html = buildTranscriptHtml({ title: 'Chat with <Laura>', details: ['+393331234567'], entries });
+
+    expect(html).toContain('<h1>Chat with &lt;Laura&gt;</h1>');
+    expect(html).toContain('Thanks &lt;3');
+    expect(html.match(/class="day"/g)).toHaveLength(2);
+    expect(html.indexOf('Lesson moved')).toBeLessThan(html.indexOf('Thanks'));
+    expect(html).toContain('class="entry outgoing"');
+  });
+
+  it('prints sanitized email bodies without images that need the session', () => {
+    const { template_details } = email(1, 'Installment reminder', '2026-03-01 09:00:00');
+    const html = buildTranscriptHtml({
+      title: 'Installment reminder',
+      details: [],
+      entries: [{ id: 1, sender: 'Segreteria', sentAt: '2026-03-01 09:00:00', outgoing: false, body: template_details.body! }],
+    });
+
+    expect(html).toContain('<p>Due on <b>March 1st</b>[Logo]</p>');
+    expect(html).not.toContain('track()');
+    expect(html).not.toContain('storage/logo.png');
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * @format
+ */
+
+import React from 'react';
+import ReactTestRenderer from 'react-test-renderer';
+import { AxiosAdapter, InternalAxiosRequestConfig } from 'axios';
+import { apiService } from '../src/helpers/request';
+import { endpoints, resolvePath } from '../src/api';
+import { MockBackend } from '../src/api/mock';
+import { useCollection, UseCollectionOptions, UseCollectionReturn } from '../src/hooks/useCollection';
+import { WhatsAppMessage } from '../src/api/types';
+
+jest.mock('../src/helpers/secureStorage');
+
+const { act } = ReactTestRenderer;
+
+const MESSAGES_URL = resolvePath(endpoints.whatsAppMessages, { contact: '+393331234567' });
+
+const ids = (result: UseCollectionReturn<WhatsAppMessage>) => result.collection.items.map(message => message.id);
+
+/**
+ * Render the hook and expose its latest return value
+ */
+const renderCollection = async (options: UseCollectionOptions<WhatsAppMessage>) => {
+  const current = {} as { result: UseCollectionReturn<WhatsAppMessage> };
+  const Harness = () => {
+    current.result = useCollection<WhatsAppMessage>(MESSAGES_URL, options);
+    return null;
+  };
+
+  let renderer: ReactTestRenderer.ReactTestRenderer;
+  await act(async () => {
+    renderer = ReactTestRenderer.create(<Harness />);
+  });
+  return { current, unmount: () => act(() => renderer.unmount()) };
+};
+
+/**
+ * Hold cursor page requests until released, leaving first pages through
+ */
+const holdPages = (backend: MockBackend) => {
+  const held: Array<() => void> = [];
+  const adapter: AxiosAdapter = async (config: InternalAxiosRequestConfig) => {
+    if (config.url?.includes('cursor=')) {
+      await new Promise<void>((resolve) => held.push(resolve));
+    }
+    return backend.adapter(config);
+  };
+  return { adapter, release: () => held.splice(0).forEach(resolve => resolve()) };
+};
+
+describe('useCollection', () => {
+  let backend: MockBackend;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    backend = new MockBackend();
+    apiService.setAdapter(backend.adapter);
+  });
+
+  afterEach(() => {
+    apiService.setAdapter();
+    jest.restoreAllMocks();
+  });
+
+  it('appends the next page by cursor until the last one', async () => {
+    const { current, unmount } = await renderCollection({ defaultQueryString: 'limit=20' });
+
+    expect(ids(current.result)).toHaveLength(20);
+    expect(ids(current.result)[0]).toBe(728);
+    expect(current.result.hasMore).toBe(true);
+
+    await act(() => current.result.loadMore());
+    expect(ids(current.result)).toHaveLength(40);
+    expect(ids(current.result).slice(20, 22)).toEqual([708, 709]);
+    expect(backend.requests[1].query).toEqual({ limit: '20', cursor: '728' });
+
+    await act(() => current.result.loadMore());
+    expect(ids(current.result)).toHaveLength(48);
+    expect(ids(current.result).slice(40, 42)).toEqual([700, 701]);
+    expect(current.result.hasMore).toBe(false);
+
+    await unmount();
+  });
+
+  it('prepends older pages for lists growing backwards', async () => {
+    const { current, unmount } = await renderCollection({ defaultQueryString: 'limit=20', pageDirection: 'prepend' });
+
+    await act(() => current.result.loadMore());
+    await act(() => current.result.loadMore());
+
+    const loaded = ids(current.result);
+    expect(loaded).toHaveLength(48);
+    expect(loaded).toEqual([...loaded].sort((a, b) => a - b));
+    expect(current.result.collection.loadingMore).toBe(false);
+
+    await unmount();
+  });
+
+  it('drops a page that was requested before a reload', async () => {
+    const { adapter, release } = holdPages(backend);
+    apiService.setAdapter(adapter);
+    const onError = jest.fn();
+    const { current, unmount } = await renderCollection({ defaultQueryString: 'limit=20', onError });
+
+    let loading: Promise<void> = Promise.resolve();
+    await act(async () => {
+      loading = current.result.loadMore();
+    });
+    expect(current.result.collection.loadingMore).toBe(true);
+
+    await act(async () => {
+      current.result.refresh();
+    });
+    await act(async () => {
+      release();
+      await loading;
+    });
+
+    expect(ids(current.result)).toHaveLength(20);
+    expect(ids(current.result)[0]).toBe(728);
+    expect(current.result.collection.loadingMore).toBe(false);
+    expect(current.result.hasMore).toBe(true);
+    expect(onError).not.toHaveBeenCalled();
+    // The reload aborted the page before it reached the backend
+    expect(backend.requests.filter(request => request.query.cursor)).toHaveLength(0);
+
+    await unmount();
+  });
+});
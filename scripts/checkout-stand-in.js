@@ -0,0 +1,66 @@
+/**
+ * Stand-in for the hosted payment page
+ * Serves the checkout sessions created by the mock backend so the in-app payment flow
+ * can be tried end to end without a payment provider:
+ *
+ *   npm run checkout:stand-in
+ *
+ * "Pay" and "Cancel" return to the app through the session's return URL.
+ */
+
+const http = require('http');
+
+const PORT = Number(process.env.PORT) || 4242;
+
+const escapeHtml = value =>
+  String(value).replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+const returnLink = (returnUrl, sessionId, result) => {
+  const separator = returnUrl.includes('?') ? '&' : '?';
+  return `${returnUrl}${separator}session_id=${encodeURIComponent(sessionId)}&result=${result}`;
+};
+
+const page = (sessionId, amount, returnUrl) => `<!DOCTYPE html>
+<html>
+  <head>
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <title>Checkout</title>
+    <style>
+      body { font-family: -apple-system, Roboto, sans-serif; margin: 0; padding: 32px 24px; color: #1a1a1a; }
+      h1 { font-size: 20px; margin: 0 0 4px; }
+      p { color: #666; margin: 0 0 32px; }
+      .amount { font-size: 36px; font-weight: 700; margin-bottom: 32px; }
+      a { display: block; padding: 14px; border-radius: 8px; text-align: center; text-decoration: none; margin-bottom: 12px; }
+      .pay { background: #1a1a1a; color: #fff; }
+      .cancel { border: 1px solid #ccc; color: #1a1a1a; }
+    </style>
+  </head>
+  <body>
+    <h1>Test checkout</h1>
+    <p>Session ${escapeHtml(sessionId)}. No money is charged.</p>
+    <div class="amount">€ ${escapeHtml(Number(amount).toFixed(2))}</div>
+    <a class="pay" href="${escapeHtml(returnLink(returnUrl, sessionId, 'success'))}">Pay</a>
+    <a class="cancel" href="${escapeHtml(returnLink(returnUrl, sessionId, 'cancel'))}">Cancel</a>
+  </body>
+</html>
+`;
+
+const server = http.createServer((request, response) => {
+  const url = new URL(request.url, `http://localhost:${PORT}`);
+  const match = url.pathname.match(/^\/checkout\/([^/]+)$/);
+  const returnUrl = url.searchParams.get('return_url');
+
+  if (!match || !returnUrl) {
+    response.writeHead(404, { 'Content-Type': 'text/plain' });
+    response.end('Unknown checkout session');
+    return;
+  }
+
+  console.log(`💳 Checkout ${match[1]}`);
+  response.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+  response.end(page(decodeURIComponent(match[1]), url.searchParams.get('amount') || 0, returnUrl));
+});
+
+server.listen(PORT, () => {
+  console.log(`💳 Checkout stand-in listening on http://localhost:${PORT}`);
+});
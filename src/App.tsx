@@ -2,16 +2,21 @@ import React, { useEffect, useRef } from 'react';
 import { PaperProvider, MD3LightTheme } from 'react-native-paper';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
-import { NavigationContainer } from '@react-navigation/native';
+import { NavigationContainer, CommonActions } from '@react-navigation/native';
 
 import AppNavigator from './navigation/AppNavigator';
+import { EnvironmentBadge } from './components/EnvironmentBadge';
 import { notificationService } from './services/NotificationService';
+import { sessionManager } from './services/SessionManager';
 import { useNotifications } from './hooks/useNotifications';
 import messaging from '@react-native-firebase/messaging';
 
 // Initialize i18n
 import './locales/i18n';
 
+// Keep payment reminders in step with the packages from the first session event on
+import './services/PaymentReminderService';
+
 // Suppress Firebase deprecation warnings during transition period
 // TODO: Remove this once React Native Firebase fully implements modular API
 (globalThis as any).RNFB_SILENCE_MODULAR_DEPRECATION_WARNINGS = true;
@@ -65,6 +70,50 @@ const AppWithNotifications: React.FC = () => {
     }
   }, []);
 
+  // React to session changes: sync the push token per account, take it off the account and
+  // clean up on logout, return to login once no account is left, reload the tabs for another account
+  useEffect(() => {
+    return sessionManager.subscribe(async (event) => {
+      if (
+        (event.type === 'statusChange' && event.status === 'authenticated') ||
+        event.type === 'login' ||
+        event.type === 'switch'
+      ) {
+        await notificationService.syncToken();
+      }
+
+      // An expired session can no longer authorize the request
+      if (event.type === 'beforeLogout' && event.reason === 'user') {
+        await notificationService.unregisterToken();
+      }
+
+      if (event.type === 'logout') {
+        queryClient.clear();
+        if (sessionManager.getStatus() === 'unauthenticated') {
+          navigationRef.current?.dispatch(
+            CommonActions.reset({
+              index: 0,
+              routes: [{ name: 'Login' }],
+            })
+          );
+        }
+      }
+
+      if (event.type === 'login' || event.type === 'switch') {
+        queryClient.clear();
+      }
+
+      if (event.type === 'switch') {
+        navigationRef.current?.dispatch(
+          CommonActions.reset({
+            index: 0,
+            routes: [{ name: 'Main' }],
+          })
+        );
+      }
+    });
+  }, []);
+
   // Log notification status for debugging
   useEffect(() => {
     if (!isLoading) {
@@ -80,9 +129,12 @@ const AppWithNotifications: React.FC = () => {
   console.log('🚀 AppWithNotifications rendering - isLoading:', isLoading);
 
   return (
-    <NavigationContainer ref={navigationRef}>
-      <AppNavigator />
-    </NavigationContainer>
+    <>
+      <NavigationContainer ref={navigationRef}>
+        <AppNavigator />
+      </NavigationContainer>
+      <EnvironmentBadge />
+    </>
   );
 };
 
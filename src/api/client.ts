@@ -0,0 +1,74 @@
+import { ApiError, apiService, RequestOptions } from '../helpers/request';
+import { Endpoint, resolvePath } from './endpoints';
+import { Schema, SchemaError } from './schema';
+import { ApiEnvelope } from './types';
+
+/**
+ * Thrown when a response does not match its endpoint schema, as an ApiError of kind 'validation'
+ */
+export class ResponseValidationError extends ApiError {
+  readonly endpoint: string;
+  readonly path: string;
+  readonly expected: string;
+
+  constructor(endpoint: string, cause: SchemaError) {
+    super('validation', { message: `Invalid response from ${endpoint}: ${cause.message}`, originalError: cause });
+    this.name = 'ResponseValidationError';
+    this.endpoint = endpoint;
+    this.path = cause.path;
+    this.expected = cause.expected;
+  }
+}
+
+/**
+ * Validate a response body against a schema for its `data` field.
+ * Bodies without an envelope are treated as the data itself.
+ */
+export const parseEnvelope = <T>(endpoint: string, body: any, schema: Schema<T>): ApiEnvelope<T> => {
+  const hasEnvelope = body !== null && typeof body === 'object' && 'data' in body;
+  const rawData = hasEnvelope ? body.data : body;
+
+  try {
+    return {
+      ...(hasEnvelope ? body : {}),
+      data: schema(rawData, '$.data'),
+    };
+  } catch (error) {
+    if (error instanceof SchemaError) {
+      console.error(`❌ Invalid response from ${endpoint}:`, error.message);
+      throw new ResponseValidationError(endpoint, error);
+    }
+    throw error;
+  }
+};
+
+export interface EndpointRequestOptions<TRequest, TParams> extends RequestOptions {
+  /** Path params for endpoints with a path builder */
+  params?: TParams;
+  /** Request body */
+  data?: TRequest;
+  /** Query string without the leading `?` */
+  queryString?: string | null;
+}
+
+/**
+ * Typed API client on top of ApiService
+ * Calls a registered endpoint and returns its validated response envelope.
+ */
+class ApiClient {
+  async request<TResponse, TRequest, TParams>(
+    endpoint: Endpoint<TResponse, TRequest, TParams>,
+    options: EndpointRequestOptions<TRequest, TParams> = {}
+  ): Promise<ApiEnvelope<TResponse>> {
+    const { params, data, queryString, ...requestOptions } = options;
+    const path = resolvePath(endpoint, params);
+    const url = queryString ? `${path}?${queryString}` : path;
+
+    const response = await apiService.request(endpoint.method, url, data, requestOptions);
+    return parseEnvelope(path, response.data, endpoint.response);
+  }
+}
+
+export const apiClient = new ApiClient();
+
+export default apiClient;
@@ -0,0 +1,160 @@
+import { HttpMethod } from '../helpers/request';
+import { Schema, array } from './schema';
+import {
+  albumSchema,
+  appointmentSchema,
+  checkoutSessionSchema,
+  emailAttachmentSchema,
+  emailLogSchema,
+  loginResponseSchema,
+  notificationSchema,
+  studentPackageSchema,
+  unreadCountsSchema,
+  userSchema,
+  whatsAppConversationSchema,
+  whatsAppMessageSchema,
+} from './schemas';
+import {
+  Album,
+  Appointment,
+  CheckoutSession,
+  CreateCheckoutSessionRequest,
+  EmailAttachment,
+  EmailLog,
+  LoginRequest,
+  LoginResponse,
+  NotificationItem,
+  SendWhatsAppMessageRequest,
+  StudentPackage,
+  UnreadCounts,
+  UpdateReadStateRequest,
+  User,
+  WhatsAppConversation,
+  WhatsAppMessage,
+} from './types';
+
+/**
+ * Endpoint registry
+ * Declares the route, request body and response schema of every API call the app makes.
+ */
+
+export interface Endpoint<TResponse, TRequest = void, TParams = void> {
+  method: HttpMethod;
+  /** Route relative to the API root, or a builder for routes with path params */
+  path: string | ((params: TParams) => string);
+  /** Schema for the `data` field of the response envelope */
+  response: Schema<TResponse>;
+  /** Response text depends on Accept-Language, so cached copies are dropped when the language changes */
+  localized?: boolean;
+  /** Phantom field carrying the request body type */
+  readonly __request?: TRequest;
+}
+
+const defineEndpoint = <TResponse, TRequest = void, TParams = void>(
+  endpoint: Endpoint<TResponse, TRequest, TParams>
+): Endpoint<TResponse, TRequest, TParams> => endpoint;
+
+/**
+ * Resolve the route of an endpoint
+ */
+export const resolvePath = <TParams>(
+  endpoint: Endpoint<any, any, TParams>,
+  params?: TParams
+): string => {
+  if (typeof endpoint.path === 'function') {
+    return endpoint.path(params as TParams);
+  }
+  return endpoint.path;
+};
+
+export const endpoints = {
+  login: defineEndpoint<LoginResponse, LoginRequest>({
+    method: HttpMethod.POST,
+    path: 'jwt',
+    response: loginResponseSchema,
+  }),
+  me: defineEndpoint<User>({
+    method: HttpMethod.GET,
+    path: 'me',
+    response: userSchema,
+  }),
+  packages: defineEndpoint<StudentPackage[]>({
+    method: HttpMethod.GET,
+    path: 'me/packages',
+    response: array(studentPackageSchema),
+    localized: true,
+  }),
+  createCheckoutSession: defineEndpoint<CheckoutSession, CreateCheckoutSessionRequest, { packageId: number }>({
+    method: HttpMethod.POST,
+    path: ({ packageId }) => `me/packages/${packageId}/checkout-sessions`,
+    response: checkoutSessionSchema,
+  }),
+  checkoutSession: defineEndpoint<CheckoutSession, void, { id: string }>({
+    method: HttpMethod.GET,
+    path: ({ id }) => `me/checkout-sessions/${id}`,
+    response: checkoutSessionSchema,
+  }),
+  album: defineEndpoint<Album>({
+    method: HttpMethod.GET,
+    path: 'me/album',
+    response: albumSchema,
+  }),
+  emailLogs: defineEndpoint<EmailLog[]>({
+    method: HttpMethod.GET,
+    path: 'me/email-logs',
+    response: array(emailLogSchema),
+  }),
+  emailAttachments: defineEndpoint<EmailAttachment[], void, { id: number }>({
+    method: HttpMethod.GET,
+    path: ({ id }) => `me/email-logs/${id}/attachments`,
+    response: array(emailAttachmentSchema),
+  }),
+  appointments: defineEndpoint<Appointment[]>({
+    method: HttpMethod.GET,
+    path: 'me/appointments',
+    response: array(appointmentSchema),
+  }),
+  whatsAppConversations: defineEndpoint<WhatsAppConversation[]>({
+    method: HttpMethod.GET,
+    path: 'whatsapp-conversations',
+    response: array(whatsAppConversationSchema),
+  }),
+  whatsAppMessages: defineEndpoint<WhatsAppMessage[], void, { contact: string }>({
+    method: HttpMethod.GET,
+    path: ({ contact }) => `whatsapp-conversations/${contact}`,
+    response: array(whatsAppMessageSchema),
+  }),
+  sendWhatsAppMessage: defineEndpoint<WhatsAppMessage, SendWhatsAppMessageRequest, { contact: string }>({
+    method: HttpMethod.POST,
+    path: ({ contact }) => `whatsapp-conversations/${contact}`,
+    response: whatsAppMessageSchema,
+  }),
+  notifications: defineEndpoint<NotificationItem[]>({
+    method: HttpMethod.GET,
+    path: 'notifications',
+    response: array(notificationSchema),
+    localized: true,
+  }),
+  unreadCounts: defineEndpoint<UnreadCounts>({
+    method: HttpMethod.GET,
+    path: 'me/unread-counts',
+    response: unreadCountsSchema,
+  }),
+  updateReadState: defineEndpoint<UnreadCounts, UpdateReadStateRequest>({
+    method: HttpMethod.PUT,
+    path: 'me/read-state',
+    response: unreadCountsSchema,
+  }),
+};
+
+export type Endpoints = typeof endpoints;
+
+const localizedPaths = Object.values(endpoints as Record<string, Endpoint<any, any, any>>)
+  .filter(endpoint => endpoint.localized && typeof endpoint.path === 'string')
+  .map(endpoint => endpoint.path as string);
+
+/**
+ * Check whether a URL (with or without query string) targets a localized endpoint
+ */
+export const isLocalizedPath = (url: string): boolean =>
+  localizedPaths.includes(url.split('?')[0].replace(/^\/+/, ''));
@@ -0,0 +1,48 @@
+/**
+ * Typed API layer
+ *
+ * - Shared domain types for every CRM resource the app reads
+ * - Endpoint registry with request/response types per route
+ * - Runtime response validation with typed errors
+ */
+
+import * as schema from './schema';
+
+export { apiClient, parseEnvelope, ResponseValidationError } from './client';
+export { endpoints, isLocalizedPath, resolvePath } from './endpoints';
+export { SchemaError } from './schema';
+export { schema };
+
+export type { Endpoint, Endpoints } from './endpoints';
+export type { EndpointRequestOptions } from './client';
+export type { Schema } from './schema';
+export type {
+  Album,
+  AlbumImage,
+  ApiEnvelope,
+  AppNotification,
+  Appointment,
+  CheckoutSession,
+  ConversationPreview,
+  Course,
+  CreateCheckoutSessionRequest,
+  EmailAttachment,
+  EmailLog,
+  LeadDetails,
+  LegacyNotification,
+  LoginRequest,
+  LoginResponse,
+  NotificationItem,
+  PackageDetails,
+  Payment,
+  PaymentStatus,
+  PersonDetails,
+  ReadTargetType,
+  SendWhatsAppMessageRequest,
+  StudentPackage,
+  UnreadCounts,
+  UpdateReadStateRequest,
+  User,
+  WhatsAppConversation,
+  WhatsAppMessage,
+} from './types';
@@ -0,0 +1,357 @@
+import {
+  Album,
+  AppNotification,
+  Appointment,
+  EmailAttachment,
+  EmailLog,
+  LeadDetails,
+  LoginResponse,
+  Payment,
+  StudentPackage,
+  User,
+  WhatsAppConversation,
+  WhatsAppMessage,
+} from '../types';
+
+/**
+ * Fixtures served by the mock backend
+ * Dates are relative to today so upcoming and overdue states stay meaningful.
+ */
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const daysFromNow = (days: number): string =>
+  new Date(Date.now() + days * DAY).toISOString().slice(0, 10);
+
+const dateTimeFromNow = (days: number, hour: number = 10): string =>
+  `${daysFromNow(days)} ${String(hour).padStart(2, '0')}:00:00`;
+
+export const MOCK_USER_ID = 1;
+export const MOCK_LEAD_ID = 101;
+
+export const loginResponse = (email: string): LoginResponse => ({
+  access_token: `mock-access-token-${Date.now()}`,
+  refresh_token: `mock-refresh-token-${Date.now()}`,
+  id: MOCK_USER_ID,
+  name: 'Giulia Rossi',
+  email,
+  id_lead: MOCK_LEAD_ID,
+  ids_role: [3],
+  is_owner: false,
+  permissions: [],
+});
+
+const leadDetails: LeadDetails = {
+  id: MOCK_LEAD_ID,
+  name: 'Giulia Rossi',
+  date_of_birth: '2004-03-18',
+  phone_1: '+393331234567',
+};
+
+/**
+ * Lead records returned by `leads/:id`
+ */
+export const leads: Record<number, Record<string, unknown>> = {
+  [MOCK_LEAD_ID]: {
+    id: MOCK_LEAD_ID,
+    first_name: 'Giulia',
+    last_name: 'Rossi',
+    email: 'giulia.rossi@example.com',
+    phone: '+393331234567',
+    city: 'Milano',
+    country: 'Italy',
+    created_at: dateTimeFromNow(-200),
+  },
+  102: {
+    id: 102,
+    first_name: 'Marco',
+    last_name: 'Bianchi',
+    email: 'marco.bianchi@example.com',
+    phone: '+393337654321',
+    city: 'Roma',
+    country: 'Italy',
+    created_at: dateTimeFromNow(-90),
+  },
+};
+
+export const user: User = {
+  id: MOCK_USER_ID,
+  first_name: 'Giulia',
+  last_name: 'Rossi',
+  email: 'giulia.rossi@example.com',
+  phone: '+393331234567',
+  city: 'Milano',
+  country: 'Italy',
+  created_at: dateTimeFromNow(-200),
+  lead_details: leadDetails,
+};
+
+const installment = (
+  id: number,
+  number: number,
+  dueInDays: number,
+  status: 'paid' | 'pending'
+): Payment => ({
+  id,
+  amount: 450,
+  due_date: daysFromNow(dueInDays),
+  status,
+  payment_status: status === 'paid' ? 'PAID' : 'UNPAID',
+  payment_date: status === 'paid' ? daysFromNow(dueInDays - 2) : undefined,
+  payment_method: status === 'paid' ? 'bank_transfer' : undefined,
+  installment_number: number,
+});
+
+export const packages = (overdue: boolean = false): StudentPackage[] => [
+  {
+    id: 11,
+    package_details: {
+      id: 3,
+      name: 'Acting for Cinema',
+      italian_name: 'Recitazione per il Cinema',
+      description: 'One-year acting course with on-set practice',
+    },
+    courses_start_date: daysFromNow(-120),
+    courses_end_date: daysFromNow(240),
+    courses: [
+      {
+        id: 31,
+        name: 'Acting Fundamentals',
+        italian_name: 'Fondamenti di Recitazione',
+        start_date: daysFromNow(-120),
+        end_date: daysFromNow(-10),
+      },
+      {
+        id: 32,
+        name: 'On-Camera Acting',
+        italian_name: 'Recitazione Davanti alla Camera',
+        start_date: daysFromNow(-5),
+        end_date: daysFromNow(240),
+      },
+    ],
+    final_amount: 2700,
+    payment_type: 'emi',
+    upfront_payments_details: [
+      {
+        id: 201,
+        amount: 900,
+        due_date: daysFromNow(-125),
+        payment_status: 'PAID',
+        payment_date: daysFromNow(-126),
+        payment_method: 'card',
+      },
+    ],
+    installments_details: overdue
+      ? [
+          installment(301, 1, -90, 'paid'),
+          installment(302, 2, -60, 'pending'),
+          installment(303, 3, -30, 'pending'),
+          installment(304, 4, 30, 'pending'),
+        ]
+      : [
+          installment(301, 1, -90, 'paid'),
+          installment(302, 2, -60, 'paid'),
+          installment(303, 3, -30, 'paid'),
+          installment(304, 4, 30, 'pending'),
+        ],
+  },
+  {
+    id: 12,
+    package_details: {
+      id: 5,
+      name: 'Fashion Photography Workshop',
+      italian_name: 'Workshop di Fotografia di Moda',
+    },
+    courses_start_date: daysFromNow(20),
+    courses_end_date: daysFromNow(50),
+    courses: [
+      {
+        id: 51,
+        name: 'Studio Lighting',
+        italian_name: 'Illuminazione in Studio',
+        start_date: daysFromNow(20),
+        end_date: daysFromNow(50),
+      },
+    ],
+    final_amount: 600,
+    payment_type: 'full',
+    upfront_payments_details: [
+      {
+        id: 202,
+        amount: 600,
+        due_date: overdue ? daysFromNow(-7) : daysFromNow(10),
+        payment_status: overdue ? 'OVERDUE' : 'UNPAID',
+      },
+    ],
+    installments_details: [],
+  },
+];
+
+export const album = (empty: boolean = false): Album =>
+  empty
+    ? { images: [] }
+    : {
+        album_link: 'https://photos.example.com/albums/giulia-rossi',
+        images: [1, 2, 3, 4].map((index) => ({
+          id: 400 + index,
+          path: `storage/albums/${MOCK_LEAD_ID}/shot-${index}.jpg`,
+          title: `Shot ${index}`,
+          size: 240000 + index * 1000,
+          mime_type: 'image/jpeg',
+          created_at: dateTimeFromNow(-index * 3),
+        })),
+      };
+
+export const appointments: Appointment[] = [
+  {
+    id: 501,
+    title: 'Casting call',
+    happening_at: dateTimeFromNow(2, 15),
+    description: 'Bring two printed headshots',
+    status: 'confirmed',
+    location: 'Studio A',
+  },
+  {
+    id: 502,
+    name: 'Portfolio review',
+    happening_at: dateTimeFromNow(9, 11),
+    status: 'pending',
+    user_details: { first_name: 'Laura', last_name: 'Conti' },
+  },
+  {
+    id: 503,
+    notes: 'Voice coaching',
+    happening_at: dateTimeFromNow(-4, 17),
+    status: 'completed',
+  },
+];
+
+export const emailLogs: EmailLog[] = [
+  {
+    id: 601,
+    user_details: { first_name: 'Laura', last_name: 'Conti', email: 'laura.conti@example.com' },
+    template_details: {
+      subject: 'Your casting call is confirmed',
+      body: 'Hi Giulia, your casting call is confirmed for this week in Studio A.',
+    },
+    read: false,
+    created_at: dateTimeFromNow(-1),
+  },
+  {
+    id: 602,
+    user_details: { first_name: 'Segreteria', email: 'info@example.com' },
+    template_details: {
+      subject: 'Installment reminder',
+      body: 'This is a reminder that your next installment is due soon.',
+    },
+    read: true,
+    created_at: dateTimeFromNow(-6),
+  },
+];
+
+export const emailAttachments: Record<number, EmailAttachment[]> = {
+  601: [
+    {
+      id: 6011,
+      name: 'Enrollment contract.pdf',
+      size: 184320,
+      mime_type: 'application/pdf',
+      path: 'storage/email-attachments/601/enrollment-contract.pdf',
+    },
+    {
+      id: 6012,
+      name: 'Casting schedule.jpg',
+      size: 96256,
+      mime_type: 'image/jpeg',
+      path: 'storage/email-attachments/601/casting-schedule.jpg',
+    },
+  ],
+};
+
+export const whatsAppConversations: WhatsAppConversation[] = [
+  {
+    id: 701,
+    contact: '+393331234567',
+    unread_count: 2,
+    moderator_details: { first_name: 'Laura', last_name: 'Conti' },
+    last_message: { text: 'See you on Thursday!', created_at: dateTimeFromNow(0, 9) },
+    created_at: dateTimeFromNow(-30),
+  },
+];
+
+const HISTORY_TEXTS = [
+  'Good morning! Here is the schedule for this week.',
+  'Thank you, I will be there.',
+  'Please remember to bring your portfolio.',
+  'Could we move the lesson to the afternoon?',
+  'Sure, 3 pm works.',
+];
+
+// Older messages, three a day, so the conversation spans several pages
+const whatsAppHistory = (contact: string): WhatsAppMessage[] =>
+  Array.from({ length: 45 }, (_, index) => ({
+    id: 700 + index,
+    text: HISTORY_TEXTS[index % HISTORY_TEXTS.length],
+    action: index % 2 === 0 ? 'SENT' : 'RECEIVED',
+    created_at: dateTimeFromNow(-17 + Math.floor(index / 3), 9 + (index % 3) * 3),
+    contact,
+    ...(index % 2 === 0 ? { moderator_details: { first_name: 'Laura', last_name: 'Conti' } } : {}),
+  }));
+
+export const whatsAppMessages = (contact: string): WhatsAppMessage[] => [
+  ...whatsAppHistory(contact),
+  {
+    id: 801,
+    text: 'Hi Giulia, are you available for the casting call?',
+    action: 'SENT',
+    created_at: dateTimeFromNow(-1, 16),
+    contact,
+    moderator_details: { first_name: 'Laura', last_name: 'Conti' },
+  },
+  {
+    id: 802,
+    text: 'Yes, Thursday works for me.',
+    action: 'RECEIVED',
+    created_at: dateTimeFromNow(-1, 17),
+    contact,
+  },
+  {
+    id: 803,
+    text: 'See you on Thursday!',
+    action: 'SENT',
+    created_at: dateTimeFromNow(0, 9),
+    contact,
+    moderator_details: { first_name: 'Laura', last_name: 'Conti' },
+  },
+];
+
+let nextWhatsAppMessageId = 900;
+
+export const sentWhatsAppMessage = (contact: string, text: string): WhatsAppMessage => ({
+  id: nextWhatsAppMessageId++,
+  text,
+  action: 'RECEIVED',
+  created_at: new Date().toISOString().slice(0, 19).replace('T', ' '),
+  contact,
+});
+
+export const notifications: AppNotification[] = [
+  {
+    id: 901,
+    title: 'New message',
+    body: 'Laura Conti: See you on Thursday!',
+    type: 'MESSAGE',
+    extra: { title: 'Laura Conti', ph_no: '+393331234567', type: 'whatsapp' },
+    read: false,
+    created_at: dateTimeFromNow(0, 9),
+  },
+  {
+    id: 902,
+    title: 'Your casting call is confirmed',
+    body: 'Hi Giulia, your casting call is confirmed for this week in Studio A.',
+    type: 'EMAIL',
+    extra: { title: 'Laura Conti', type: 'email' },
+    read: true,
+    created_at: dateTimeFromNow(-1),
+  },
+];
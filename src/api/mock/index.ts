@@ -0,0 +1,14 @@
+/**
+ * Mock backend for development builds and tests
+ *
+ * @example
+ * const backend = new MockBackend({ scenario: 'overdueInstallments' });
+ * apiService.setAdapter(backend.adapter);
+ */
+
+import * as fixtures from './fixtures';
+
+export { MockBackend, mockBackend, MOCK_SCENARIOS, MOCK_SCENARIO_LABELS } from './server';
+export { fixtures };
+
+export type { MockBackendOptions, MockRequest, MockResponse, MockScenario } from './server';
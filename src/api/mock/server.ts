@@ -0,0 +1,522 @@
+import { AxiosAdapter, AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { Platform } from 'react-native';
+import * as fixtures from './fixtures';
+import { CheckoutSession, Payment, ReadTargetType, StudentPackage, UnreadCounts } from '../types';
+
+/**
+ * Mock backend
+ * In-process fixture router served through an axios adapter, so the app and the
+ * Jest tests can run without the CRM.
+ */
+
+export type MockScenario =
+  | 'default'
+  | 'expiredToken' // Access and refresh tokens are rejected with 401
+  | 'overdueInstallments' // Unpaid installments past their due date
+  | 'emptyGallery' // Album without images or link
+  | 'serverError' // Every route except login answers 500
+  | 'offline'; // No request reaches the server
+
+export const MOCK_SCENARIO_LABELS: Record<MockScenario, string> = {
+  default: 'Default',
+  expiredToken: 'Expired token',
+  overdueInstallments: 'Overdue installments',
+  emptyGallery: 'Empty gallery',
+  serverError: 'Server errors',
+  offline: 'Offline',
+};
+
+export const MOCK_SCENARIOS = Object.keys(MOCK_SCENARIO_LABELS) as MockScenario[];
+
+export interface MockRequest {
+  method: string;
+  /** Route relative to the API root, without query string */
+  path: string;
+  /** Path params captured from `:name` segments */
+  params: Record<string, string>;
+  query: Record<string, string>;
+  body: any;
+  authorization?: string;
+}
+
+export interface MockResponse {
+  status: number;
+  data: any;
+}
+
+/**
+ * Data changed by requests, kept per backend so each one starts from the fixtures
+ */
+interface MockState {
+  /** Read flags set through `me/read-state`, by `<type>:<id>` */
+  read: Map<string, boolean>;
+  /** Payments settled through a checkout session, by payment id */
+  paid: Map<number, string>;
+  checkoutSessions: Map<string, CheckoutSession>;
+}
+
+const createState = (): MockState => ({ read: new Map(), paid: new Map(), checkoutSessions: new Map() });
+
+interface MockRoute {
+  method: string;
+  path: string;
+  /** Route can be called without a bearer token */
+  public?: boolean;
+  handler: (request: MockRequest, scenario: MockScenario, state: MockState) => MockResponse;
+}
+
+export interface MockBackendOptions {
+  scenario?: MockScenario;
+  /** Simulated network latency (ms) */
+  latency?: number;
+}
+
+const ok = (data: any): MockResponse => ({ status: 200, data: { data } });
+
+/**
+ * Apply the `since` query of incremental fetches
+ */
+const since = <T extends { created_at: string }>(items: T[], query: Record<string, string>): T[] =>
+  query.since ? items.filter(item => item.created_at >= query.since) : items;
+
+/**
+ * Cursor pagination over a chronological list, newest page first: each page holds
+ * the `limit` items before the item whose id is `cursor`
+ */
+const paginateBackwards = <T extends { id: number }>(items: T[], query: Record<string, string>): MockResponse => {
+  const limit = Number(query.limit);
+  if (!limit) return ok(items);
+
+  const cursorIndex = query.cursor ? items.findIndex(item => item.id === Number(query.cursor)) : items.length;
+  const end = Math.max(cursorIndex, 0);
+  const start = Math.max(end - limit, 0);
+  const page = items.slice(start, end);
+
+  return {
+    status: 200,
+    data: {
+      data: page,
+      pagination: {
+        standard_page_size: limit,
+        next_cursor: start > 0 && page.length > 0 ? String(page[0].id) : null,
+      },
+    },
+  };
+};
+
+const READ_TARGET_TYPES: ReadTargetType[] = ['notification', 'email', 'conversation'];
+
+const readKey = (type: ReadTargetType, id: number | string): string => `${type}:${id}`;
+
+const readNotifications = (state: MockState) =>
+  fixtures.notifications.map(notification => ({
+    ...notification,
+    read: state.read.get(readKey('notification', notification.id)) ?? notification.read,
+  }));
+
+const readEmailLogs = (state: MockState) =>
+  fixtures.emailLogs.map(email => ({
+    ...email,
+    read: state.read.get(readKey('email', email.id)) ?? email.read,
+  }));
+
+const readConversations = (state: MockState) =>
+  fixtures.whatsAppConversations.map(conversation => {
+    const read = conversation.contact
+      ? state.read.get(readKey('conversation', conversation.contact))
+      : undefined;
+    if (read === undefined) return conversation;
+    return { ...conversation, unread_count: read ? 0 : Math.max(conversation.unread_count || 0, 1) };
+  });
+
+const unreadCounts = (state: MockState): UnreadCounts => ({
+  notifications: readNotifications(state).filter(notification => !notification.read).length,
+  emails: readEmailLogs(state).filter(email => email.read === false).length,
+  messages: readConversations(state).reduce((sum, conversation) => sum + (conversation.unread_count || 0), 0),
+});
+
+/**
+ * Stand-in for the hosted payment page, served by `npm run checkout:stand-in`.
+ * The Android emulator reaches the host machine through 10.0.2.2.
+ */
+export const CHECKOUT_STAND_IN_URL = Platform.OS === 'android' ? 'http://10.0.2.2:4242' : 'http://localhost:4242';
+
+const today = (): string => new Date().toISOString().slice(0, 10);
+
+const settle = (payment: Payment, state: MockState): Payment => {
+  const paidAt = state.paid.get(payment.id);
+  if (!paidAt) return payment;
+  return {
+    ...payment,
+    status: payment.status ? 'paid' : undefined,
+    payment_status: 'PAID',
+    payment_date: paidAt,
+    payment_method: 'card',
+  };
+};
+
+const studentPackages = (scenario: MockScenario, state: MockState): StudentPackage[] =>
+  fixtures.packages(scenario === 'overdueInstallments').map(pkg => ({
+    ...pkg,
+    upfront_payments_details: pkg.upfront_payments_details?.map(payment => settle(payment, state)),
+    installments_details: pkg.installments_details?.map(payment => settle(payment, state)),
+  }));
+
+const isSettled = (payment: Payment): boolean =>
+  payment.payment_status === 'PAID' || payment.status === 'paid' || !!payment.payment_date;
+
+const fail = (status: number, message: string, errors?: Array<{ field: string; description: string }>): MockResponse => ({
+  status,
+  data: { message, errors },
+});
+
+const routes: MockRoute[] = [
+  {
+    method: 'POST',
+    path: 'jwt',
+    public: true,
+    handler: ({ body }) => {
+      const { email, password } = body?.data || {};
+      if (!email || !password) {
+        return fail(422, 'The given data was invalid.', [
+          ...(!email ? [{ field: 'data.email', description: 'The email field is required.' }] : []),
+          ...(!password ? [{ field: 'data.password', description: 'The password field is required.' }] : []),
+        ]);
+      }
+      return ok(fixtures.loginResponse(email));
+    },
+  },
+  {
+    method: 'POST',
+    path: 'jwt/refresh',
+    public: true,
+    handler: ({ body }, scenario) => {
+      if (scenario === 'expiredToken' || !body?.data?.refresh_token) {
+        return fail(401, 'Refresh token expired');
+      }
+      return ok(fixtures.loginResponse(fixtures.user.email));
+    },
+  },
+  {
+    method: 'POST',
+    path: 'forgot-password',
+    public: true,
+    handler: ({ body }) => {
+      if (!body?.data?.email) {
+        return fail(422, 'The given data was invalid.', [
+          { field: 'data.email', description: 'The email field is required.' },
+        ]);
+      }
+      return ok({ message: 'Password reset link sent' });
+    },
+  },
+  { method: 'GET', path: 'me', handler: () => ok(fixtures.user) },
+  {
+    method: 'GET',
+    path: 'me/packages',
+    handler: (_request, scenario, state) => ok(studentPackages(scenario, state)),
+  },
+  {
+    method: 'POST',
+    path: 'me/packages/:id/checkout-sessions',
+    handler: ({ params, body }, scenario, state) => {
+      const pkg = studentPackages(scenario, state).find(item => item.id === Number(params.id));
+      if (!pkg) return fail(404, `Package ${params.id} not found`);
+
+      const { payment_ids: paymentIds, return_url: returnUrl } = body?.data || {};
+      const payments = [...(pkg.upfront_payments_details || []), ...(pkg.installments_details || [])];
+      const selected: Payment[] = Array.isArray(paymentIds)
+        ? payments.filter(payment => paymentIds.includes(payment.id) && !isSettled(payment))
+        : [];
+      const validIds = Array.isArray(paymentIds) && paymentIds.length > 0 && selected.length === paymentIds.length;
+
+      if (!validIds || !returnUrl) {
+        return fail(422, 'The given data was invalid.', [
+          ...(!validIds ? [{ field: 'data.payment_ids', description: 'Select payments of this package that are still due.' }] : []),
+          ...(!returnUrl ? [{ field: 'data.return_url', description: 'The return url field is required.' }] : []),
+        ]);
+      }
+
+      // A student who left the payment page may start over
+      state.checkoutSessions.forEach(session => {
+        if (session.status === 'open' && session.payment_ids.some(id => paymentIds.includes(id))) {
+          session.status = 'expired';
+        }
+      });
+
+      const id = `cs_mock_${state.checkoutSessions.size + 1}`;
+      const amount = selected.reduce((sum, payment) => sum + payment.amount, 0);
+      const query = `amount=${amount}&return_url=${encodeURIComponent(returnUrl)}`;
+      const session: CheckoutSession = {
+        id,
+        url: `${CHECKOUT_STAND_IN_URL}/checkout/${id}?${query}`,
+        status: 'open',
+        payment_ids: paymentIds,
+        amount,
+        expires_at: new Date(Date.now() + 30 * 60 * 1000).toISOString(),
+      };
+      state.checkoutSessions.set(id, session);
+      return ok(session);
+    },
+  },
+  {
+    method: 'GET',
+    path: 'me/checkout-sessions/:id',
+    handler: ({ params }, _scenario, state) => {
+      const session = state.checkoutSessions.get(params.id);
+      if (!session) return fail(404, `Checkout session ${params.id} not found`);
+
+      // The stand-in page can't notify the backend, so looking a session up after the
+      // student returned from it stands in for the payment provider's webhook. The app
+      // looks sessions up after a cancel too, so the stand-in's Cancel also pays.
+      if (session.status === 'open') {
+        session.status = 'complete';
+        session.payment_ids.forEach(id => state.paid.set(id, today()));
+      }
+      return ok(session);
+    },
+  },
+  {
+    method: 'GET',
+    path: 'me/album',
+    handler: (_request, scenario) => ok(fixtures.album(scenario === 'emptyGallery')),
+  },
+  { method: 'GET', path: 'me/appointments', handler: () => ok(fixtures.appointments) },
+  { method: 'GET', path: 'me/email-logs', handler: (_request, _scenario, state) => ok(readEmailLogs(state)) },
+  {
+    method: 'GET',
+    path: 'me/email-logs/:id/attachments',
+    handler: ({ params }) =>
+      fixtures.emailLogs.some(email => email.id === Number(params.id))
+        ? ok(fixtures.emailAttachments[Number(params.id)] || [])
+        : fail(404, `Email ${params.id} not found`),
+  },
+  { method: 'GET', path: 'me/unread-counts', handler: (_request, _scenario, state) => ok(unreadCounts(state)) },
+  {
+    method: 'PUT',
+    path: 'me/read-state',
+    handler: ({ body }, _scenario, state) => {
+      const { type, id, read } = body?.data || {};
+      if (!READ_TARGET_TYPES.includes(type) || typeof read !== 'boolean') {
+        return fail(422, 'The given data was invalid.', [
+          ...(!READ_TARGET_TYPES.includes(type) ? [{ field: 'data.type', description: 'The selected type is invalid.' }] : []),
+          ...(typeof read !== 'boolean' ? [{ field: 'data.read', description: 'The read field must be true or false.' }] : []),
+        ]);
+      }
+
+      const ids: Array<number | string> = id !== undefined
+        ? [id]
+        : type === 'notification'
+          ? fixtures.notifications.map(notification => notification.id)
+          : type === 'email'
+            ? fixtures.emailLogs.map(email => email.id)
+            : fixtures.whatsAppConversations.map(conversation => conversation.contact || conversation.id);
+      ids.forEach(itemId => state.read.set(readKey(type, itemId), read));
+      return ok(unreadCounts(state));
+    },
+  },
+  {
+    method: 'GET',
+    path: 'whatsapp-conversations',
+    handler: (_request, _scenario, state) => ok(readConversations(state)),
+  },
+  {
+    method: 'GET',
+    path: 'whatsapp-conversations/:contact',
+    handler: ({ params, query }) =>
+      paginateBackwards(since(fixtures.whatsAppMessages(params.contact), query), query),
+  },
+  {
+    method: 'POST',
+    path: 'whatsapp-conversations/:contact',
+    handler: ({ params, body }) => {
+      const text = body?.data?.text;
+      if (!text?.trim()) {
+        return fail(422, 'The given data was invalid.', [
+          { field: 'data.text', description: 'The text field is required.' },
+        ]);
+      }
+      return ok(fixtures.sentWhatsAppMessage(params.contact, text));
+    },
+  },
+  {
+    method: 'GET',
+    path: 'notifications',
+    handler: ({ query }, _scenario, state) => ok(since(readNotifications(state), query)),
+  },
+  {
+    method: 'GET',
+    path: 'leads/:id',
+    handler: ({ params }) => {
+      const lead = fixtures.leads[Number(params.id)];
+      return lead ? ok(lead) : fail(404, `Lead ${params.id} not found`);
+    },
+  },
+];
+
+/**
+ * Reduce an absolute or relative request URL to the route below `/api/v1`
+ */
+const toRoutePath = (url: string = ''): { path: string; query: Record<string, string> } => {
+  const [pathPart, queryPart = ''] = url.split('?');
+  const path = pathPart
+    .replace(/^https?:\/\/[^/]+/, '')
+    .replace(/^\/?api\/v\d+\//, '')
+    .replace(/^\/+|\/+$/g, '');
+
+  const query: Record<string, string> = {};
+  queryPart
+    .split('&')
+    .filter(Boolean)
+    .forEach((pair) => {
+      const [key, value = ''] = pair.split('=');
+      query[decodeURIComponent(key)] = decodeURIComponent(value);
+    });
+
+  return { path, query };
+};
+
+/**
+ * Match a route pattern such as `leads/:id`, returning the captured params
+ */
+const matchPath = (pattern: string, path: string): Record<string, string> | null => {
+  const patternSegments = pattern.split('/');
+  const pathSegments = path.split('/');
+  if (patternSegments.length !== pathSegments.length) return null;
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < patternSegments.length; i++) {
+    const segment = patternSegments[i];
+    if (segment.startsWith(':')) {
+      params[segment.slice(1)] = decodeURIComponent(pathSegments[i]);
+    } else if (segment !== pathSegments[i]) {
+      return null;
+    }
+  }
+  return params;
+};
+
+const parseBody = (data: unknown): any => {
+  if (typeof data !== 'string') return data;
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+};
+
+export class MockBackend {
+  private scenario: MockScenario;
+  private latency: number;
+  /** Requests served so far, oldest first */
+  readonly requests: MockRequest[] = [];
+  private state: MockState = createState();
+
+  constructor(options: MockBackendOptions = {}) {
+    this.scenario = options.scenario || 'default';
+    this.latency = options.latency ?? 0;
+  }
+
+  getScenario(): MockScenario {
+    return this.scenario;
+  }
+
+  setScenario(scenario: MockScenario): void {
+    console.log('🧪 Mock backend scenario:', scenario);
+    this.scenario = scenario;
+  }
+
+  /**
+   * Return to the default scenario and forget recorded requests and changed data
+   */
+  reset(): void {
+    this.scenario = 'default';
+    this.requests.length = 0;
+    this.state = createState();
+  }
+
+  /**
+   * Route a request to its fixture
+   */
+  handle(request: Omit<MockRequest, 'params'>): MockResponse {
+    for (const route of routes) {
+      const params = route.method === request.method ? matchPath(route.path, request.path) : null;
+      if (!params) continue;
+
+      const routed: MockRequest = { ...request, params };
+      this.requests.push(routed);
+
+      if (!route.public) {
+        if (!request.authorization?.startsWith('Bearer ')) {
+          return fail(401, 'Authentication required');
+        }
+        if (this.scenario === 'expiredToken') {
+          return fail(401, 'Token expired');
+        }
+      }
+
+      if (this.scenario === 'serverError' && !route.public) {
+        return fail(500, 'Internal server error');
+      }
+
+      return route.handler(routed, this.scenario, this.state);
+    }
+
+    return fail(404, `No mock route for ${request.method} ${request.path}`);
+  }
+
+  /**
+   * Axios adapter serving every request from the fixtures
+   */
+  readonly adapter: AxiosAdapter = async (config: InternalAxiosRequestConfig) => {
+    if (this.latency > 0) {
+      await new Promise<void>((resolve) => setTimeout(resolve, this.latency));
+    }
+
+    if (config.signal?.aborted) {
+      throw new AxiosError('canceled', AxiosError.ERR_CANCELED, config);
+    }
+
+    if (this.scenario === 'offline') {
+      throw new AxiosError('Network Error', AxiosError.ERR_NETWORK, config);
+    }
+
+    const { path, query } = toRoutePath(config.url);
+    const { status, data } = this.handle({
+      method: (config.method || 'get').toUpperCase(),
+      path,
+      query,
+      body: parseBody(config.data),
+      authorization: config.headers?.Authorization as string | undefined,
+    });
+
+    const response: AxiosResponse = {
+      data,
+      status,
+      statusText: status < 400 ? 'OK' : 'Error',
+      headers: { 'content-type': 'application/json' },
+      config,
+      request: {},
+    };
+
+    const validateStatus = config.validateStatus || ((code: number) => code >= 200 && code < 300);
+    if (!validateStatus(status)) {
+      throw new AxiosError(
+        `Request failed with status code ${status}`,
+        status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+        config,
+        response.request,
+        response
+      );
+    }
+
+    return response;
+  };
+}
+
+/**
+ * Shared instance used by the `mock` environment profile
+ */
+export const mockBackend = new MockBackend({ latency: 300 });
+
+export default mockBackend;
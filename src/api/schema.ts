@@ -0,0 +1,128 @@
+/**
+ * Minimal runtime schemas for API responses.
+ * A schema checks an unknown value and returns it typed, or throws a SchemaError
+ * naming the path that did not match.
+ */
+
+export type Schema<T> = (value: unknown, path?: string) => T;
+
+/**
+ * Thrown by a schema when a value does not match
+ */
+export class SchemaError extends Error {
+  readonly path: string;
+  readonly expected: string;
+  readonly received: string;
+
+  constructor(path: string, expected: string, value: unknown) {
+    const received = value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+    super(`Expected ${expected} at ${path}, received ${received}`);
+    this.name = 'SchemaError';
+    this.path = path;
+    this.expected = expected;
+    this.received = received;
+  }
+}
+
+const ROOT = '$';
+
+export const string = (): Schema<string> => (value, path = ROOT) => {
+  if (typeof value !== 'string') {
+    throw new SchemaError(path, 'string', value);
+  }
+  return value;
+};
+
+/**
+ * Number, also accepting numeric strings (the CRM serializes decimals as strings)
+ */
+export const number = (): Schema<number> => (value, path = ROOT) => {
+  if (typeof value === 'number' && !Number.isNaN(value)) {
+    return value;
+  }
+  if (typeof value === 'string' && value.trim() !== '' && !Number.isNaN(Number(value))) {
+    return Number(value);
+  }
+  throw new SchemaError(path, 'number', value);
+};
+
+export const boolean = (): Schema<boolean> => (value, path = ROOT) => {
+  if (typeof value !== 'boolean') {
+    throw new SchemaError(path, 'boolean', value);
+  }
+  return value;
+};
+
+/**
+ * Accept any value without checking it
+ */
+export const unknown = <T = any>(): Schema<T> => (value) => value as T;
+
+/**
+ * One of a fixed set of string literals
+ */
+export const oneOf = <T extends string>(values: readonly T[]): Schema<T> => (value, path = ROOT) => {
+  if (typeof value !== 'string' || !values.includes(value as T)) {
+    throw new SchemaError(path, values.join(' | '), value);
+  }
+  return value as T;
+};
+
+/**
+ * Optional value; null and undefined both map to undefined
+ */
+export const optional = <T>(schema: Schema<T>): Schema<T | undefined> => (value, path = ROOT) => {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  return schema(value, path);
+};
+
+export const array = <T>(schema: Schema<T>): Schema<T[]> => (value, path = ROOT) => {
+  if (!Array.isArray(value)) {
+    throw new SchemaError(path, 'array', value);
+  }
+  return value.map((item, index) => schema(item, `${path}[${index}]`));
+};
+
+/**
+ * Object with a schema for every declared key. Undeclared keys are kept as-is.
+ */
+export const object = <T extends object>(
+  shape: { [K in keyof T]-?: Schema<T[K]> }
+): Schema<T> => (value, path = ROOT) => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new SchemaError(path, 'object', value);
+  }
+
+  const source = value as Record<string, unknown>;
+  const result: Record<string, unknown> = { ...source };
+
+  (Object.keys(shape) as Array<keyof T & string>).forEach((key) => {
+    const checked = shape[key](source[key], `${path}.${key}`);
+    if (checked === undefined) {
+      delete result[key];
+    } else {
+      result[key] = checked;
+    }
+  });
+
+  return result as T;
+};
+
+/**
+ * First of several schemas that matches
+ */
+export const union = <T>(...schemas: Schema<T>[]): Schema<T> => (value, path = ROOT) => {
+  const errors: SchemaError[] = [];
+  for (const schema of schemas) {
+    try {
+      return schema(value, path);
+    } catch (error) {
+      if (!(error instanceof SchemaError)) throw error;
+      errors.push(error);
+    }
+  }
+  const reasons = errors.map(error => `${error.expected} at ${error.path}`).join('; ');
+  throw new SchemaError(path, `one of ${schemas.length} shapes (${reasons})`, value);
+};
@@ -0,0 +1,230 @@
+import * as s from './schema';
+import {
+  Album,
+  AlbumImage,
+  AppNotification,
+  Appointment,
+  CheckoutSession,
+  Course,
+  EmailAttachment,
+  EmailLog,
+  LeadDetails,
+  LegacyNotification,
+  LoginResponse,
+  NotificationItem,
+  PackageDetails,
+  Payment,
+  PaymentStatus,
+  PersonDetails,
+  StudentPackage,
+  UnreadCounts,
+  User,
+  WhatsAppConversation,
+  WhatsAppMessage,
+} from './types';
+
+/**
+ * Runtime schemas for the shared domain types.
+ * Each schema is typed against its interface, so adding a field to a type
+ * without describing it here fails to compile.
+ */
+
+const PAYMENT_STATUSES: readonly PaymentStatus[] = ['PAID', 'UNPAID', 'OVERDUE'];
+const CHECKOUT_STATUSES: readonly CheckoutSession['status'][] = ['open', 'complete', 'expired'];
+
+export const personDetailsSchema: s.Schema<PersonDetails> = s.object<PersonDetails>({
+  first_name: s.string(),
+  last_name: s.optional(s.string()),
+  email: s.optional(s.string()),
+});
+
+export const leadDetailsSchema: s.Schema<LeadDetails> = s.object<LeadDetails>({
+  id: s.optional(s.number()),
+  name: s.optional(s.string()),
+  date_of_birth: s.optional(s.string()),
+  phone_1: s.optional(s.string()),
+  phone_2: s.optional(s.string()),
+  telephone: s.optional(s.string()),
+});
+
+export const userSchema: s.Schema<User> = s.object<User>({
+  id: s.number(),
+  first_name: s.optional(s.string()),
+  last_name: s.optional(s.string()),
+  email: s.string(),
+  phone: s.optional(s.string()),
+  city: s.optional(s.string()),
+  country: s.optional(s.string()),
+  created_at: s.optional(s.string()),
+  expo_token: s.optional(s.string()),
+  lead_details: leadDetailsSchema,
+});
+
+export const loginResponseSchema: s.Schema<LoginResponse> = s.object<LoginResponse>({
+  access_token: s.string(),
+  refresh_token: s.optional(s.string()),
+  id: s.number(),
+  name: s.optional(s.string()),
+  email: s.optional(s.string()),
+  id_lead: s.optional(s.number()),
+  ids_role: s.optional(s.array(s.number())),
+  is_owner: s.optional(s.boolean()),
+  permissions: s.unknown(),
+});
+
+export const courseSchema: s.Schema<Course> = s.object<Course>({
+  id: s.number(),
+  name: s.optional(s.string()),
+  italian_name: s.optional(s.string()),
+  start_date: s.optional(s.string()),
+  end_date: s.optional(s.string()),
+});
+
+export const packageDetailsSchema: s.Schema<PackageDetails> = s.object<PackageDetails>({
+  id: s.number(),
+  name: s.string(),
+  italian_name: s.string(),
+  description: s.optional(s.string()),
+});
+
+export const paymentSchema: s.Schema<Payment> = s.object<Payment>({
+  id: s.number(),
+  amount: s.number(),
+  due_date: s.string(),
+  status: s.optional(s.string()),
+  payment_status: s.optional(s.oneOf(PAYMENT_STATUSES)),
+  payment_date: s.optional(s.string()),
+  payment_method: s.optional(s.string()),
+  installment_number: s.optional(s.number()),
+  notes: s.optional(s.string()),
+});
+
+export const studentPackageSchema: s.Schema<StudentPackage> = s.object<StudentPackage>({
+  id: s.number(),
+  package_details: packageDetailsSchema,
+  courses_start_date: s.optional(s.string()),
+  courses_end_date: s.optional(s.string()),
+  courses: s.optional(s.array(courseSchema)),
+  final_amount: s.optional(s.number()),
+  payment_type: s.optional(s.oneOf(['full', 'emi'] as const)),
+  upfront_payments_details: s.optional(s.array(paymentSchema)),
+  installments_details: s.optional(s.array(paymentSchema)),
+});
+
+export const albumImageSchema: s.Schema<AlbumImage> = s.object<AlbumImage>({
+  id: s.number(),
+  path: s.string(),
+  title: s.optional(s.string()),
+  size: s.optional(s.number()),
+  mime_type: s.optional(s.string()),
+  created_at: s.optional(s.string()),
+});
+
+export const albumSchema: s.Schema<Album> = s.object<Album>({
+  album_link: s.optional(s.string()),
+  images: s.optional(s.array(albumImageSchema)),
+});
+
+export const emailLogSchema: s.Schema<EmailLog> = s.object<EmailLog>({
+  id: s.number(),
+  user_details: personDetailsSchema,
+  template_details: s.object<EmailLog['template_details']>({
+    subject: s.string(),
+    body: s.optional(s.string()),
+  }),
+  read: s.optional(s.boolean()),
+  created_at: s.string(),
+});
+
+export const emailAttachmentSchema: s.Schema<EmailAttachment> = s.object<EmailAttachment>({
+  id: s.number(),
+  name: s.string(),
+  size: s.number(),
+  mime_type: s.string(),
+  path: s.string(),
+});
+
+export const whatsAppConversationSchema: s.Schema<WhatsAppConversation> = s.object<WhatsAppConversation>({
+  id: s.number(),
+  contact: s.optional(s.string()),
+  unread_count: s.optional(s.number()),
+  moderator_details: s.optional(personDetailsSchema),
+  last_message: s.optional(
+    s.object<NonNullable<WhatsAppConversation['last_message']>>({
+      text: s.optional(s.string()),
+      created_at: s.optional(s.string()),
+    })
+  ),
+  created_at: s.optional(s.string()),
+});
+
+export const whatsAppMessageSchema: s.Schema<WhatsAppMessage> = s.object<WhatsAppMessage>({
+  id: s.number(),
+  text: s.string(),
+  action: s.oneOf(['SENT', 'RECEIVED'] as const),
+  created_at: s.string(),
+  contact: s.optional(s.string()),
+  lead_details: s.optional(leadDetailsSchema),
+  moderator_details: s.optional(personDetailsSchema),
+});
+
+export const appNotificationSchema: s.Schema<AppNotification> = s.object<AppNotification>({
+  id: s.number(),
+  title: s.string(),
+  body: s.string(),
+  type: s.string(),
+  extra: s.optional(
+    s.object<NonNullable<AppNotification['extra']>>({
+      title: s.optional(s.string()),
+      ph_no: s.optional(s.string()),
+      type: s.optional(s.string()),
+    })
+  ),
+  read: s.boolean(),
+  created_at: s.string(),
+});
+
+export const legacyNotificationSchema: s.Schema<LegacyNotification> = s.object<LegacyNotification>({
+  id: s.number(),
+  user_details: personDetailsSchema,
+  template_details: s.object<LegacyNotification['template_details']>({
+    subject: s.optional(s.string()),
+    text: s.optional(s.string()),
+    name: s.optional(s.string()),
+  }),
+  created_at: s.string(),
+  unread_count: s.optional(s.number()),
+});
+
+export const notificationSchema: s.Schema<NotificationItem> = s.union<NotificationItem>(
+  appNotificationSchema,
+  legacyNotificationSchema
+);
+
+export const unreadCountsSchema: s.Schema<UnreadCounts> = s.object<UnreadCounts>({
+  notifications: s.number(),
+  emails: s.number(),
+  messages: s.number(),
+});
+
+export const checkoutSessionSchema: s.Schema<CheckoutSession> = s.object<CheckoutSession>({
+  id: s.string(),
+  url: s.string(),
+  status: s.oneOf(CHECKOUT_STATUSES),
+  payment_ids: s.array(s.number()),
+  amount: s.number(),
+  expires_at: s.optional(s.string()),
+});
+
+export const appointmentSchema: s.Schema<Appointment> = s.object<Appointment>({
+  id: s.number(),
+  title: s.optional(s.string()),
+  name: s.optional(s.string()),
+  notes: s.optional(s.string()),
+  text: s.optional(s.string()),
+  happening_at: s.string(),
+  description: s.optional(s.string()),
+  status: s.optional(s.string()),
+  location: s.optional(s.string()),
+  user_details: s.optional(personDetailsSchema),
+});
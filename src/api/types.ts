@@ -0,0 +1,316 @@
+/**
+ * Shared domain types for the CRM API
+ * Screens and services import these instead of declaring their own copies.
+ */
+
+export type PaymentStatus = 'PAID' | 'UNPAID' | 'OVERDUE';
+
+/**
+ * Standard response envelope: `{ data, pagination?, summary? }`
+ */
+export interface ApiEnvelope<T> {
+  data: T;
+  pagination?: Record<string, any>;
+  summary?: Record<string, any>;
+}
+
+/**
+ * Person reference embedded in records (`user_details`, `moderator_details`)
+ */
+export interface PersonDetails {
+  first_name: string;
+  last_name?: string;
+  email?: string;
+}
+
+export interface LeadDetails {
+  id?: number;
+  name?: string;
+  date_of_birth?: string;
+  phone_1?: string;
+  phone_2?: string;
+  telephone?: string;
+}
+
+/**
+ * Authenticated user returned by `me`
+ */
+export interface User {
+  id: number;
+  first_name?: string;
+  last_name?: string;
+  email: string;
+  phone?: string;
+  city?: string;
+  country?: string;
+  created_at?: string;
+  expo_token?: string;
+  lead_details: LeadDetails;
+}
+
+/**
+ * Payload of `POST jwt`
+ */
+export interface LoginRequest {
+  data: {
+    email: string;
+    password: string;
+  };
+}
+
+export interface LoginResponse {
+  access_token: string;
+  refresh_token?: string;
+  id: number;
+  name?: string;
+  email?: string;
+  id_lead?: number;
+  ids_role?: number[];
+  is_owner?: boolean;
+  permissions?: any;
+}
+
+export interface Course {
+  id: number;
+  name?: string;
+  italian_name?: string;
+  start_date?: string;
+  end_date?: string;
+}
+
+export interface PackageDetails {
+  id: number;
+  name: string;
+  italian_name: string;
+  description?: string;
+}
+
+/**
+ * Upfront payment or installment of a package
+ */
+export interface Payment {
+  id: number;
+  amount: number;
+  due_date: string;
+  /** Installments report 'paid' / 'pending' here */
+  status?: string;
+  payment_status?: PaymentStatus;
+  payment_date?: string;
+  payment_method?: string;
+  installment_number?: number;
+  notes?: string;
+}
+
+/**
+ * Package the student is enrolled in, returned by `me/packages`
+ */
+export interface StudentPackage {
+  id: number;
+  package_details: PackageDetails;
+  courses_start_date?: string;
+  courses_end_date?: string;
+  courses?: Course[];
+  final_amount?: number;
+  payment_type?: 'full' | 'emi';
+  upfront_payments_details?: Payment[];
+  installments_details?: Payment[];
+}
+
+export interface AlbumImage {
+  id: number;
+  path: string;
+  title?: string;
+  size?: number;
+  mime_type?: string;
+  created_at?: string;
+}
+
+/**
+ * Photo album returned by `me/album`
+ */
+export interface Album {
+  album_link?: string;
+  images?: AlbumImage[];
+}
+
+/**
+ * Email log returned by `me/email-logs`
+ */
+export interface EmailLog {
+  id: number;
+  user_details: PersonDetails;
+  template_details: {
+    subject: string;
+    body?: string;
+  };
+  /** Missing on logs older than read tracking */
+  read?: boolean;
+  created_at: string;
+}
+
+/**
+ * File attached to an email, returned by `me/email-logs/:id/attachments`
+ */
+export interface EmailAttachment {
+  id: number;
+  /** File name shown to the student, extension included */
+  name: string;
+  /** Size in bytes */
+  size: number;
+  mime_type: string;
+  /** Download route relative to the CRM root, served to authenticated requests */
+  path: string;
+}
+
+/**
+ * Conversation returned by `whatsapp-conversations`
+ */
+export interface WhatsAppConversation {
+  id: number;
+  contact?: string;
+  unread_count?: number;
+  moderator_details?: PersonDetails;
+  last_message?: {
+    text?: string;
+    created_at?: string;
+  };
+  created_at?: string;
+}
+
+/**
+ * Conversation as shown in lists and passed to SMSScreen
+ */
+export interface ConversationPreview {
+  id: number;
+  moderator_details?: PersonDetails;
+  text: string;
+  unread_count: number;
+  created_at: string;
+  contact?: string;
+  lead_details?: LeadDetails;
+}
+
+/**
+ * Single message returned by `whatsapp-conversations/:contact`
+ */
+export interface WhatsAppMessage {
+  id: number;
+  text: string;
+  action: 'SENT' | 'RECEIVED';
+  created_at: string;
+  contact?: string;
+  lead_details?: LeadDetails;
+  moderator_details?: PersonDetails;
+}
+
+/**
+ * Payload of `POST whatsapp-conversations/{contact}`
+ */
+export interface SendWhatsAppMessageRequest {
+  data: {
+    text: string;
+  };
+}
+
+/**
+ * Hosted checkout paying some payments of a package, returned by
+ * `me/packages/{id}/checkout-sessions` and `me/checkout-sessions/{id}`
+ */
+export interface CheckoutSession {
+  id: string;
+  /** Hosted payment page, opened in the in-app browser */
+  url: string;
+  /** 'complete' once the payment went through */
+  status: 'open' | 'complete' | 'expired';
+  payment_ids: number[];
+  amount: number;
+  expires_at?: string;
+}
+
+/**
+ * Payload of `POST me/packages/{id}/checkout-sessions`
+ */
+export interface CreateCheckoutSessionRequest {
+  data: {
+    payment_ids: number[];
+    /** Deep link the payment page returns to with `session_id` and `result` */
+    return_url: string;
+  };
+}
+
+/**
+ * Kind of item with a read state
+ */
+export type ReadTargetType = 'notification' | 'email' | 'conversation';
+
+/**
+ * Unread totals returned by `me/unread-counts` and `me/read-state`
+ */
+export interface UnreadCounts {
+  notifications: number;
+  emails: number;
+  /** Unread WhatsApp messages across all conversations */
+  messages: number;
+}
+
+/**
+ * Payload of `PUT me/read-state`. Without an id every item of the type is updated;
+ * conversations are identified by their contact.
+ */
+export interface UpdateReadStateRequest {
+  data: {
+    type: ReadTargetType;
+    id?: number | string;
+    read: boolean;
+  };
+}
+
+/**
+ * Notification returned by `notifications`
+ */
+export interface AppNotification {
+  id: number;
+  title: string;
+  body: string;
+  type: 'EMAIL' | 'MESSAGE' | 'GENERAL' | string;
+  extra?: {
+    title?: string;
+    ph_no?: string;
+    type?: string;
+  };
+  read: boolean;
+  created_at: string;
+}
+
+/**
+ * Older notification format with user and template details
+ */
+export interface LegacyNotification {
+  id: number;
+  user_details: PersonDetails;
+  template_details: {
+    subject?: string;
+    text?: string;
+    name?: string;
+  };
+  created_at: string;
+  unread_count?: number;
+}
+
+export type NotificationItem = AppNotification | LegacyNotification;
+
+/**
+ * Appointment returned by `me/appointments`
+ */
+export interface Appointment {
+  id: number;
+  title?: string;
+  name?: string;
+  notes?: string;
+  text?: string;
+  happening_at: string;
+  description?: string;
+  status?: string;
+  location?: string;
+  user_details?: PersonDetails;
+}
@@ -0,0 +1,191 @@
+import React, { useState } from 'react';
+import { StyleSheet, Modal, TouchableOpacity, Alert } from 'react-native';
+import { Pressable } from './Pressable';
+import { Text } from './Typography';
+import { View as Layout } from './Layout';
+import { colors, spacing, borderRadius } from '../helpers/theme';
+import { useTranslation } from '../hooks/useTranslation';
+import { useAccounts } from '../hooks/useAccounts';
+import { AccountSummary } from '../services/SessionManager';
+
+interface AccountSwitcherProps {
+  visible: boolean;
+  onClose: () => void;
+  /** Open the login screen to sign in another account */
+  onAddAccount: () => void;
+}
+
+const getInitials = (account: AccountSummary): string => {
+  const source = account.name || account.email || '';
+  return source
+    .split(/[\s@.]+/)
+    .filter(Boolean)
+    .map(part => part[0].toUpperCase())
+    .join('')
+    .substring(0, 2) || '#';
+};
+
+/**
+ * Modal listing the signed-in accounts, for switching without re-entering credentials
+ *
+ * @example
+ * <AccountSwitcher visible={isSwitcherVisible} onClose={closeSwitcher} onAddAccount={openLogin} />
+ */
+export const AccountSwitcher: React.FC<AccountSwitcherProps> = ({ visible, onClose, onAddAccount }) => {
+  const { t } = useTranslation();
+  const { accounts, activeUserId, switchAccount, signOut } = useAccounts();
+  const [busy, setBusy] = useState(false);
+
+  const handleSelect = async (userId: string) => {
+    if (userId === activeUserId) {
+      onClose();
+      return;
+    }
+
+    setBusy(true);
+    try {
+      await switchAccount(userId);
+      onClose();
+    } catch (error) {
+      console.error('Failed to switch account:', error);
+      Alert.alert(t('general.error'), t('mobile.accounts.switchFailed'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAddAccount = () => {
+    onClose();
+    onAddAccount();
+  };
+
+  const handleSignOut = async () => {
+    onClose();
+    await signOut();
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <TouchableOpacity style={styles.modalOverlay} activeOpacity={1} onPress={onClose}>
+        <Layout
+          backgroundColor={colors.surface}
+          borderRadius="lg"
+          padding="lg"
+          style={styles.modalContent}
+        >
+          <TouchableOpacity activeOpacity={1}>
+            <Text size="large" weight="bold" style={styles.modalTitle}>
+              {t('mobile.accounts.title')}
+            </Text>
+
+            {accounts.map((account) => {
+              const isActive = account.userId === activeUserId;
+
+              return (
+                <Pressable
+                  key={account.userId}
+                  style={[styles.accountItem, isActive && styles.activeAccountItem]}
+                  onPress={() => handleSelect(account.userId)}
+                  disabled={busy}
+                >
+                  <Layout style={styles.avatar}>
+                    <Text size="body1" weight="bold" style={styles.avatarText}>
+                      {getInitials(account)}
+                    </Text>
+                  </Layout>
+                  <Layout flex={1}>
+                    <Text size="body1" weight="medium" color={isActive ? 'primary' : 'text'}>
+                      {account.name || account.email || t('mobile.accounts.unnamed', { id: account.userId })}
+                    </Text>
+                    {account.name && account.email && (
+                      <Text size="small" color="textSecondary">
+                        {account.email}
+                      </Text>
+                    )}
+                  </Layout>
+                  {isActive && (
+                    <Text size="large" color="primary">
+                      ✓
+                    </Text>
+                  )}
+                </Pressable>
+              );
+            })}
+
+            <Pressable style={styles.actionButton} onPress={handleAddAccount}>
+              <Text size="body1" weight="medium" color="primary">
+                {t('mobile.accounts.add')}
+              </Text>
+            </Pressable>
+
+            <Pressable style={styles.actionButton} onPress={handleSignOut}>
+              <Text size="body1" weight="medium" color="error">
+                {t('mobile.accounts.signOut')}
+              </Text>
+            </Pressable>
+
+            <Pressable style={styles.closeButton} onPress={onClose}>
+              <Text size="body1" weight="medium" color="textSecondary">
+                {t('general.close')}
+              </Text>
+            </Pressable>
+          </TouchableOpacity>
+        </Layout>
+      </TouchableOpacity>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: spacing.lg,
+  },
+  modalContent: {
+    maxWidth: 360,
+    width: '100%',
+  },
+  modalTitle: {
+    textAlign: 'center',
+    marginBottom: spacing.md,
+    color: colors.onSurface,
+  },
+  accountItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.sm,
+    borderRadius: borderRadius.md,
+    marginTop: spacing.xs,
+  },
+  activeAccountItem: {
+    backgroundColor: colors.background,
+  },
+  avatar: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#3C4F4D',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: spacing.sm,
+  },
+  avatarText: {
+    color: '#ffffff',
+  },
+  actionButton: {
+    marginTop: spacing.md,
+    paddingVertical: spacing.sm,
+    alignItems: 'center',
+  },
+  closeButton: {
+    marginTop: spacing.xs,
+    paddingVertical: spacing.sm,
+    alignItems: 'center',
+  },
+});
+
+export default AccountSwitcher;
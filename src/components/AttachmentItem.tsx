@@ -0,0 +1,126 @@
+import React from 'react';
+import { ActivityIndicator, StyleSheet, TouchableOpacity, View } from 'react-native';
+import Icon from 'react-native-vector-icons/Feather';
+import { Text } from './Typography';
+import { useTranslation } from '../hooks/useTranslation';
+import { colors, spacing } from '../helpers/theme';
+import { formatFileSize } from '../helpers/generalUtils';
+import { EmailAttachment } from '../api';
+import { AttachmentState } from '../services/AttachmentService';
+
+interface AttachmentItemProps {
+  attachment: EmailAttachment;
+  state: AttachmentState;
+  onPress: () => void;
+}
+
+const getFileIcon = (mimeType: string): string => {
+  if (mimeType.startsWith('image/')) return 'image';
+  if (mimeType === 'application/pdf' || mimeType.startsWith('text/')) return 'file-text';
+  return 'file';
+};
+
+/**
+ * Short file type shown next to the size, e.g. `PDF`
+ */
+const getFileType = (attachment: EmailAttachment): string => {
+  const extension = attachment.name.includes('.') ? attachment.name.split('.').pop() : '';
+  return (extension || attachment.mime_type.split('/').pop() || '').toUpperCase();
+};
+
+/**
+ * Email attachment row: downloads the file on the first tap and opens it afterwards
+ *
+ * @example
+ * <AttachmentItem attachment={file} state={states[file.id]} onPress={() => openAttachment(file)} />
+ */
+export const AttachmentItem: React.FC<AttachmentItemProps> = ({ attachment, state, onPress }) => {
+  const { t } = useTranslation();
+  const downloading = state.status === 'downloading';
+
+  const renderStatus = () => {
+    switch (state.status) {
+      case 'downloading':
+        return (
+          <View style={styles.status}>
+            <ActivityIndicator size="small" color={colors.primary} />
+            <Text style={styles.progressText}>{Math.round(state.progress)}%</Text>
+          </View>
+        );
+      case 'downloaded':
+        return <Icon name="external-link" size={20} color={colors.primary} />;
+      case 'failed':
+        return <Icon name="refresh-cw" size={20} color={colors.error} />;
+      default:
+        return <Icon name="download" size={20} color={colors.primary} />;
+    }
+  };
+
+  return (
+    <TouchableOpacity
+      style={styles.container}
+      onPress={onPress}
+      disabled={downloading}
+      accessibilityLabel={attachment.name}
+      accessibilityHint={t(`mobile.attachments.${state.status === 'downloaded' ? 'open' : 'download'}`)}
+    >
+      <Icon name={getFileIcon(attachment.mime_type)} size={24} color={colors.textSecondary} />
+      <View style={styles.details}>
+        <Text style={styles.name} numberOfLines={1}>{attachment.name}</Text>
+        <Text style={styles.meta}>
+          {state.status === 'failed'
+            ? t('mobile.attachments.failed')
+            : `${formatFileSize(attachment.size)} · ${getFileType(attachment)}`}
+        </Text>
+        {downloading && (
+          <View style={styles.progressTrack}>
+            <View style={[styles.progressFill, { width: `${state.progress}%` }]} />
+          </View>
+        )}
+      </View>
+      {renderStatus()}
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+  },
+  details: {
+    flex: 1,
+    marginHorizontal: spacing.md,
+  },
+  name: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: colors.onSurface,
+  },
+  meta: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  progressTrack: {
+    height: 3,
+    borderRadius: 2,
+    backgroundColor: '#e0e0e0',
+    marginTop: spacing.xs,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: 3,
+    backgroundColor: colors.primary,
+  },
+  status: {
+    alignItems: 'center',
+  },
+  progressText: {
+    fontSize: 10,
+    color: colors.textSecondary,
+  },
+});
+
+export default AttachmentItem;
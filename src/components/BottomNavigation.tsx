@@ -6,6 +6,8 @@ import Icon from 'react-native-vector-icons/Feather';
 import { View } from './Layout';
 import { Text } from './Typography';
 import { Pressable } from './Pressable';
+import { CountBadge } from './CountBadge';
+import { useUnreadCounts } from '../hooks/useUnreadCounts';
 import { getTheme, spacing, shadows } from '../helpers/theme';
 
 interface NavItem {
@@ -63,6 +65,12 @@ export const BottomNavigation = forwardRef<RNView, BottomNavigationProps>(({
   const route = useRoute();
   const [showLogoutConfirm, setShowLogoutConfirm] = useState(false);
   const insets = useSafeAreaInsets();
+  const unreadCounts = useUnreadCounts();
+
+  // Unread emails and WhatsApp messages on the messages tab
+  const badges: Record<string, number> = {
+    MessagesTab: unreadCounts.emails + unreadCounts.messages,
+  };
 
   const handleNavPress = (item: NavItem) => {
     if (item.onPress) {
@@ -70,7 +78,7 @@ export const BottomNavigation = forwardRef<RNView, BottomNavigationProps>(({
     } else if (item.route) {
       // Check if we can navigate directly to the tab (when already in tab navigator)
       const state = navigation.getState();
-      const isInTabNavigator = state?.routes?.some(route => route.name === 'Main');
+      const isInTabNavigator = state?.routes?.some(stackRoute => stackRoute.name === 'Main');
       
       if (isInTabNavigator && route.name?.endsWith('Tab')) {
         // We're already in a tab, navigate directly
@@ -131,6 +139,7 @@ export const BottomNavigation = forwardRef<RNView, BottomNavigationProps>(({
               route.name === item.route // Direct tab match when in tab navigator
               : false}
             onPress={() => handleNavPress(item)}
+            badge={item.route ? badges[item.route] : undefined}
           />
         ))}
       </View>
@@ -173,6 +182,7 @@ interface NavIconButtonProps {
   label: string;
   onPress: () => void;
   active?: boolean;
+  badge?: number;
 }
 
 const NavIconButton = forwardRef<RNView, NavIconButtonProps>(({
@@ -180,6 +190,7 @@ const NavIconButton = forwardRef<RNView, NavIconButtonProps>(({
   label,
   onPress,
   active = false,
+  badge = 0,
 }, ref) => {
   return (
     <Pressable 
@@ -192,6 +203,7 @@ const NavIconButton = forwardRef<RNView, NavIconButtonProps>(({
           size={20} 
           color={active ? "#FFD700" : "#ffffff"} 
         />
+        <CountBadge count={badge} />
       </View>
       <Text style={[styles.navIconText, active && styles.navIconTextActive]}>
         {label}
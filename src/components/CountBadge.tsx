@@ -0,0 +1,53 @@
+import React from 'react';
+import { StyleSheet, StyleProp, ViewStyle } from 'react-native';
+import { View } from './Layout';
+import { Text } from './Typography';
+
+interface CountBadgeProps {
+  count: number;
+  /** Counts above this show as `max+` */
+  max?: number;
+  style?: StyleProp<ViewStyle>;
+}
+
+/**
+ * Small unread counter pinned to the top-right corner of an icon; renders nothing at zero
+ *
+ * @example
+ * <View>
+ *   <Icon name="bell" size={20} />
+ *   <CountBadge count={unread} />
+ * </View>
+ */
+export const CountBadge: React.FC<CountBadgeProps> = ({ count, max = 99, style }) => {
+  if (count <= 0) return null;
+
+  return (
+    <View style={[styles.badge, style]} pointerEvents="none">
+      <Text style={styles.text}>{count > max ? `${max}+` : count}</Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  badge: {
+    position: 'absolute',
+    top: -6,
+    right: -10,
+    minWidth: 18,
+    height: 18,
+    paddingHorizontal: 4,
+    borderRadius: 9,
+    backgroundColor: '#E53935',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  text: {
+    fontSize: 10,
+    fontWeight: '700',
+    color: '#ffffff',
+    lineHeight: 12,
+  },
+});
+
+export default CountBadge;
@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import { StyleSheet, Modal, TouchableOpacity } from 'react-native';
+import { Pressable } from './Pressable';
+import { Text } from './Typography';
+import { View as Layout } from './Layout';
+import { colors, spacing, borderRadius } from '../helpers/theme';
+import { useTranslation } from '../hooks/useTranslation';
+import { useEnvironment } from '../hooks/useEnvironment';
+import { EnvironmentName } from '../helpers/environment';
+import { environmentService } from '../services/EnvironmentService';
+import { MOCK_SCENARIOS, MOCK_SCENARIO_LABELS, MockScenario } from '../api/mock';
+
+interface DeveloperMenuProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Hidden developer menu for switching the backend environment
+ *
+ * @example
+ * <DeveloperMenu visible={isDeveloperMenuVisible} onClose={() => setDeveloperMenuVisible(false)} />
+ */
+export const DeveloperMenu: React.FC<DeveloperMenuProps> = ({ visible, onClose }) => {
+  const { t } = useTranslation();
+  const { environment, environments, setEnvironment } = useEnvironment();
+  const [scenario, setScenario] = useState<MockScenario>(environmentService.getMockScenario());
+
+  const handleSelect = async (name: EnvironmentName) => {
+    try {
+      await setEnvironment(name);
+    } catch (error) {
+      console.error('Failed to switch environment:', error);
+    } finally {
+      onClose();
+    }
+  };
+
+  const handleScenarioSelect = async (name: MockScenario) => {
+    setScenario(name);
+    await environmentService.setMockScenario(name);
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <TouchableOpacity style={styles.modalOverlay} activeOpacity={1} onPress={onClose}>
+        <Layout
+          backgroundColor={colors.surface}
+          borderRadius="lg"
+          padding="lg"
+          style={styles.modalContent}
+        >
+          <TouchableOpacity activeOpacity={1}>
+            <Text size="large" weight="bold" style={styles.modalTitle}>
+              {t('mobile.developer.title')}
+            </Text>
+            <Text size="small" weight="medium" color="textSecondary">
+              {t('mobile.developer.environment')}
+            </Text>
+
+            {environments.map((item) => {
+              const isSelected = item.name === environment.name;
+
+              return (
+                <Pressable
+                  key={item.name}
+                  style={[styles.environmentItem, isSelected && styles.selectedEnvironmentItem]}
+                  onPress={() => handleSelect(item.name)}
+                >
+                  <Layout flex={1}>
+                    <Text size="body1" weight="medium" color={isSelected ? 'primary' : 'text'}>
+                      {item.label}
+                    </Text>
+                    <Text size="small" color="textSecondary">
+                      {item.baseURL}
+                    </Text>
+                  </Layout>
+                  {isSelected && (
+                    <Text size="large" color="primary">
+                      ✓
+                    </Text>
+                  )}
+                </Pressable>
+              );
+            })}
+
+            {environment.mock && (
+              <>
+                <Text size="small" weight="medium" color="textSecondary" style={styles.sectionTitle}>
+                  {t('mobile.developer.mockScenario')}
+                </Text>
+                <Layout style={styles.scenarioList}>
+                  {MOCK_SCENARIOS.map((item) => (
+                    <Pressable
+                      key={item}
+                      style={[styles.scenarioChip, item === scenario && styles.selectedScenarioChip]}
+                      onPress={() => handleScenarioSelect(item)}
+                    >
+                      <Text size="small" color={item === scenario ? 'primary' : 'text'}>
+                        {MOCK_SCENARIO_LABELS[item]}
+                      </Text>
+                    </Pressable>
+                  ))}
+                </Layout>
+              </>
+            )}
+
+            <Text size="small" color="textSecondary" style={styles.notice}>
+              {t('mobile.developer.switchNotice')}
+            </Text>
+
+            <Pressable style={styles.closeButton} onPress={onClose}>
+              <Text size="body1" weight="medium" color="textSecondary">
+                {t('general.close')}
+              </Text>
+            </Pressable>
+          </TouchableOpacity>
+        </Layout>
+      </TouchableOpacity>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: spacing.lg,
+  },
+  modalContent: {
+    maxWidth: 360,
+    width: '100%',
+  },
+  modalTitle: {
+    textAlign: 'center',
+    marginBottom: spacing.md,
+    color: colors.onSurface,
+  },
+  environmentItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing.md,
+    paddingHorizontal: spacing.sm,
+    borderRadius: borderRadius.md,
+    marginTop: spacing.xs,
+  },
+  selectedEnvironmentItem: {
+    backgroundColor: colors.background,
+  },
+  sectionTitle: {
+    marginTop: spacing.md,
+  },
+  scenarioList: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: spacing.xs,
+  },
+  scenarioChip: {
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.sm,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderColor: colors.background,
+    marginRight: spacing.xs,
+    marginBottom: spacing.xs,
+  },
+  selectedScenarioChip: {
+    borderColor: colors.primary,
+  },
+  notice: {
+    marginTop: spacing.md,
+    textAlign: 'center',
+  },
+  closeButton: {
+    marginTop: spacing.md,
+    paddingVertical: spacing.sm,
+    alignItems: 'center',
+  },
+});
+
+export default DeveloperMenu;
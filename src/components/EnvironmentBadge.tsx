@@ -0,0 +1,45 @@
+import React from 'react';
+import { StyleSheet } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { View } from './Layout';
+import { Text } from './Typography';
+import { useEnvironment } from '../hooks/useEnvironment';
+
+/**
+ * Badge pinned to the top of the screen while the app is not pointed at production
+ *
+ * @example
+ * <EnvironmentBadge />
+ */
+export const EnvironmentBadge: React.FC = () => {
+  const { environment, isProduction } = useEnvironment();
+  const insets = useSafeAreaInsets();
+
+  if (isProduction) {
+    return null;
+  }
+
+  return (
+    <View pointerEvents="none" style={[styles.container, { top: insets.top + 4 }]}>
+      <Text style={styles.text}>{environment.label.toUpperCase()}</Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    alignSelf: 'center',
+    paddingVertical: 2,
+    paddingHorizontal: 8,
+    borderRadius: 10,
+    backgroundColor: '#FF9800',
+    opacity: 0.9,
+  },
+  text: {
+    fontSize: 10,
+    fontWeight: '700',
+    color: '#FFFFFF',
+    letterSpacing: 0.5,
+  },
+});
@@ -6,6 +6,8 @@ import Icon from 'react-native-vector-icons/Feather';
 import { View } from './Layout';
 import { Text } from './Typography';
 import { Pressable } from './Pressable';
+import { CountBadge } from './CountBadge';
+import { useUnreadCounts } from '../hooks/useUnreadCounts';
 import { getTheme, spacing, shadows } from '../helpers/theme';
 
 interface HeaderProps {
@@ -15,7 +17,7 @@ interface HeaderProps {
   canGoBack?: boolean;
   /** Custom back button action */
   onBackPress?: () => void;
-  /** Show notification bell icon */
+  /** Show notification bell icon with the unread notification count */
   showNotification?: boolean;
   /** Remove shadow */
   noShadow?: boolean;
@@ -54,6 +56,7 @@ export const Header = forwardRef<RNView, HeaderProps>(({
   const navigation = useNavigation();
   const theme = getTheme();
   const insets = useSafeAreaInsets();
+  const { notifications: unreadNotifications } = useUnreadCounts();
 
   const handleBackPress = () => {
     if (onBackPress) {
@@ -110,12 +113,15 @@ export const Header = forwardRef<RNView, HeaderProps>(({
               onPress={handleNotificationPress}
               hitSlop={spacing.md}
             >
-              <Icon 
-                name="bell" 
-                size={20} 
-                color={getTheme().colors.primary} 
-                style={styles.bellIcon}
-              />
+              <View style={styles.bellIconContainer}>
+                <Icon 
+                  name="bell" 
+                  size={20} 
+                  color={getTheme().colors.primary} 
+                  style={styles.bellIcon}
+                />
+                <CountBadge count={unreadNotifications} />
+              </View>
             </Pressable>
           )}
           {rightComponent}
@@ -132,7 +138,9 @@ export const NotificationIcon = forwardRef<RNView, {
   onPress?: () => void;
   size?: number;
   color?: string;
-}>(({ onPress, size = 24, color = getTheme().colors.primary }, ref) => (
+  /** Unread count shown on the bell */
+  count?: number;
+}>(({ onPress, size = 24, color = getTheme().colors.primary, count = 0 }, ref) => (
   <Pressable
     onPress={onPress}
     style={styles.notificationButton}
@@ -144,6 +152,7 @@ export const NotificationIcon = forwardRef<RNView, {
         size={size * 0.8} 
         color={color}
       />
+      <CountBadge count={count} />
     </View>
   </Pressable>
 ));
@@ -0,0 +1,59 @@
+import React from 'react';
+import { Text, StyleSheet, StyleProp, TextStyle } from 'react-native';
+import { TextRange } from '../helpers/inboxSearch';
+
+interface HighlightedTextProps {
+  text: string;
+  /** Sorted, non-overlapping ranges to highlight */
+  ranges: TextRange[];
+  style?: StyleProp<TextStyle>;
+  highlightStyle?: StyleProp<TextStyle>;
+  numberOfLines?: number;
+}
+
+/**
+ * Text with highlighted ranges, e.g. search matches
+ *
+ * @example
+ * <HighlightedText text={subject} ranges={matches.subject} numberOfLines={1} />
+ */
+export const HighlightedText: React.FC<HighlightedTextProps> = ({
+  text,
+  ranges,
+  style,
+  highlightStyle,
+  numberOfLines,
+}) => {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+
+  ranges.forEach(range => {
+    if (range.start > position) {
+      parts.push(text.slice(position, range.start));
+    }
+    parts.push(
+      <Text key={range.start} style={[styles.highlight, highlightStyle]}>
+        {text.slice(range.start, range.end)}
+      </Text>
+    );
+    position = range.end;
+  });
+  if (position < text.length) {
+    parts.push(text.slice(position));
+  }
+
+  return (
+    <Text style={style} numberOfLines={numberOfLines} ellipsizeMode="tail">
+      {parts}
+    </Text>
+  );
+};
+
+const styles = StyleSheet.create({
+  highlight: {
+    backgroundColor: '#FFF3B0',
+    fontWeight: '600',
+  },
+});
+
+export default HighlightedText;
@@ -0,0 +1,410 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Alert,
+  Image,
+  Linking,
+  StyleProp,
+  StyleSheet,
+  Text,
+  TextStyle,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useTranslation } from '../hooks/useTranslation';
+import { apiService } from '../helpers/request';
+import { colors, spacing } from '../helpers/theme';
+import {
+  BLOCK_TAGS,
+  HtmlElement,
+  HtmlNode,
+  hasVisibleContent,
+  isHtml,
+  parseSafeHtml,
+} from '../helpers/html';
+import { galleryService } from '../features/gallery/services/GalleryService';
+import { AuthenticatedImageRequest } from '../features/gallery/types';
+
+type HtmlImageSource = Omit<AuthenticatedImageRequest, 'headers'> & Partial<AuthenticatedImageRequest>;
+
+interface HtmlContentProps {
+  /** HTML or plain text */
+  html: string;
+  /** Base text style, e.g. font size and color */
+  style?: StyleProp<TextStyle>;
+  /** Shown when the content has nothing to display */
+  emptyText?: string;
+}
+
+interface RenderContext {
+  textStyle: StyleProp<TextStyle>;
+  preformatted: boolean;
+  onLinkPress: (href: string) => void;
+}
+
+const HEADING_STYLES: Record<string, TextStyle> = {
+  h1: { fontSize: 22, fontWeight: '700' },
+  h2: { fontSize: 19, fontWeight: '700' },
+  h3: { fontSize: 17, fontWeight: '600' },
+  h4: { fontSize: 15, fontWeight: '600' },
+  h5: { fontSize: 14, fontWeight: '600' },
+  h6: { fontSize: 13, fontWeight: '600' },
+};
+
+const INLINE_STYLES: Record<string, TextStyle> = {
+  b: { fontWeight: '700' },
+  strong: { fontWeight: '700' },
+  th: { fontWeight: '700' },
+  i: { fontStyle: 'italic' },
+  em: { fontStyle: 'italic' },
+  u: { textDecorationLine: 'underline' },
+  s: { textDecorationLine: 'line-through' },
+  del: { textDecorationLine: 'line-through' },
+  strike: { textDecorationLine: 'line-through' },
+  small: { fontSize: 12 },
+  sub: { fontSize: 11 },
+  sup: { fontSize: 11 },
+  code: { fontFamily: 'monospace' },
+  pre: { fontFamily: 'monospace' },
+};
+
+/**
+ * Images on the CRM are requested with the session headers, others as they are
+ */
+const resolveImageSource = (src: string): HtmlImageSource => {
+  const crmURL = apiService.baseURL;
+  const url = src.startsWith('//') ? `https:${src}` : src;
+
+  if (/^data:/i.test(url)) return { uri: url };
+  if (!/^https?:/i.test(url)) {
+    return galleryService.createAuthenticatedImageRequest(url.replace(/^\/+/, ''));
+  }
+  if (url.startsWith(`${crmURL}/`)) {
+    return galleryService.createAuthenticatedImageRequest(url.slice(crmURL.length + 1));
+  }
+  return { uri: url };
+};
+
+const getSize = (value?: string): number | undefined => {
+  const size = value ? parseFloat(value) : NaN;
+  return size > 0 ? size : undefined;
+};
+
+const HtmlImage: React.FC<{ attributes: Record<string, string> }> = ({ attributes }) => {
+  const width = getSize(attributes.width);
+  const height = getSize(attributes.height);
+  const [aspectRatio, setAspectRatio] = useState(width && height ? width / height : undefined);
+  const [source, setSource] = useState(() => resolveImageSource(attributes.src));
+  const [retried, setRetried] = useState(false);
+  const [failed, setFailed] = useState(false);
+
+  const handleError = async () => {
+    // The token may have been refreshed since it was loaded; retry once with the current one
+    if (!retried && source.headers) {
+      setRetried(true);
+      await galleryService.loadUserToken();
+      setSource(resolveImageSource(attributes.src));
+    } else {
+      setFailed(true);
+    }
+  };
+
+  if (failed) {
+    return attributes.alt ? <Text style={styles.imageAlt}>[{attributes.alt}]</Text> : null;
+  }
+
+  return (
+    <Image
+      source={source}
+      style={[styles.image, { width: width ?? '100%', aspectRatio: aspectRatio ?? 16 / 9 }]}
+      resizeMode="contain"
+      accessibilityLabel={attributes.alt}
+      onLoad={event => {
+        const loaded = event.nativeEvent.source;
+        if (!aspectRatio && loaded?.width && loaded?.height) {
+          setAspectRatio(loaded.width / loaded.height);
+        }
+      }}
+      onError={handleError}
+    />
+  );
+};
+
+/**
+ * Whether an element and its content fit in a line of text
+ */
+const isInline = (node: HtmlNode): boolean =>
+  node.type === 'text' ||
+  (node.tag !== 'img' && !BLOCK_TAGS.has(node.tag) && node.children.every(isInline));
+
+const renderInline = (node: HtmlNode, key: string, context: RenderContext): React.ReactNode => {
+  if (node.type === 'text') {
+    return context.preformatted ? node.text : node.text.replace(/\s+/g, ' ');
+  }
+  if (node.tag === 'br') return '\n';
+
+  const children = node.children.map((child, index) => renderInline(child, `${key}.${index}`, context));
+  if (node.tag === 'a') {
+    const { href } = node.attributes;
+    return (
+      <Text key={key} style={styles.link} onPress={href ? () => context.onLinkPress(href) : undefined}>
+        {children}
+      </Text>
+    );
+  }
+  return (
+    <Text key={key} style={INLINE_STYLES[node.tag]}>
+      {children}
+    </Text>
+  );
+};
+
+/**
+ * Render a line of inline content, dropping runs of whitespace between blocks
+ */
+const renderTextRun = (nodes: HtmlNode[], key: string, context: RenderContext): React.ReactNode => {
+  const content = nodes.map((node, index) => renderInline(node, `${key}.${index}`, context));
+  if (!context.preformatted) {
+    if (typeof content[0] === 'string') content[0] = content[0].trimStart();
+    const last = content.length - 1;
+    if (typeof content[last] === 'string') content[last] = (content[last] as string).trimEnd();
+    if (content.every(part => part === '' || part === ' ')) return null;
+  }
+  return (
+    <Text key={key} style={context.textStyle}>
+      {content}
+    </Text>
+  );
+};
+
+const getTableRows = (table: HtmlElement): HtmlElement[] =>
+  table.children.flatMap(child => {
+    if (child.type !== 'element') return [];
+    if (child.tag === 'tr') return [child];
+    return ['thead', 'tbody', 'tfoot'].includes(child.tag) ? getTableRows(child) : [];
+  });
+
+const renderTable = (table: HtmlElement, key: string, context: RenderContext): React.ReactNode => {
+  const caption = table.children.find(
+    (child): child is HtmlElement => child.type === 'element' && child.tag === 'caption'
+  );
+
+  return (
+    <View key={key} style={styles.table}>
+      {caption && renderTextRun(caption.children, `${key}.caption`, context)}
+      {getTableRows(table).map((row, rowIndex) => (
+        <View key={`${key}.${rowIndex}`} style={[styles.tableRow, rowIndex === 0 && styles.tableFirstRow]}>
+          {row.children.map((cell, cellIndex) => {
+            if (cell.type !== 'element' || (cell.tag !== 'td' && cell.tag !== 'th')) return null;
+            const cellKey = `${key}.${rowIndex}.${cellIndex}`;
+            return (
+              <View
+                key={cellKey}
+                style={[styles.tableCell, { flex: getSize(cell.attributes.colspan) ?? 1 }]}
+              >
+                {renderBlocks(cell.children, cellKey, {
+                  ...context,
+                  textStyle: [context.textStyle, INLINE_STYLES[cell.tag]],
+                })}
+              </View>
+            );
+          })}
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const renderList = (list: HtmlElement, key: string, context: RenderContext): React.ReactNode => {
+  const start = getSize(list.attributes.start) ?? 1;
+  const items = list.children.filter(
+    (child): child is HtmlElement => child.type === 'element' && child.tag === 'li'
+  );
+
+  return (
+    <View key={key} style={styles.list}>
+      {items.map((item, index) => (
+        <View key={`${key}.${index}`} style={styles.listItem}>
+          <Text style={[context.textStyle, styles.listMarker]}>
+            {list.tag === 'ol' ? `${start + index}.` : '•'}
+          </Text>
+          <View style={styles.listItemContent}>
+            {renderBlocks(item.children, `${key}.${index}`, context)}
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const renderBlock = (element: HtmlElement, key: string, context: RenderContext): React.ReactNode => {
+  const { tag } = element;
+
+  switch (tag) {
+    case 'img':
+      return <HtmlImage key={key} attributes={element.attributes} />;
+    case 'hr':
+      return <View key={key} style={styles.rule} />;
+    case 'table':
+      return renderTable(element, key, context);
+    case 'ul':
+    case 'ol':
+      return renderList(element, key, context);
+    case 'blockquote':
+      return (
+        <View key={key} style={styles.quote}>
+          {renderBlocks(element.children, key, context)}
+        </View>
+      );
+    case 'a': {
+      // Linked images and blocks
+      const { href } = element.attributes;
+      return (
+        <TouchableOpacity key={key} disabled={!href} onPress={() => href && context.onLinkPress(href)}>
+          {renderBlocks(element.children, key, context)}
+        </TouchableOpacity>
+      );
+    }
+  }
+
+  const blockStyle = HEADING_STYLES[tag] || INLINE_STYLES[tag];
+  const childContext: RenderContext = {
+    ...context,
+    textStyle: blockStyle ? [context.textStyle, blockStyle] : context.textStyle,
+    preformatted: context.preformatted || tag === 'pre',
+  };
+
+  return (
+    <View key={key} style={(tag === 'p' || tag in HEADING_STYLES) && styles.paragraph}>
+      {renderBlocks(element.children, key, childContext)}
+    </View>
+  );
+};
+
+/**
+ * Render nodes as blocks, grouping consecutive inline content into text runs
+ */
+function renderBlocks(nodes: HtmlNode[], key: string, context: RenderContext): React.ReactNode[] {
+  const blocks: React.ReactNode[] = [];
+  let run: HtmlNode[] = [];
+
+  const flush = () => {
+    if (run.length) {
+      blocks.push(renderTextRun(run, `${key}.${blocks.length}`, context));
+      run = [];
+    }
+  };
+
+  nodes.forEach(node => {
+    if (isInline(node)) {
+      run.push(node);
+    } else {
+      flush();
+      blocks.push(renderBlock(node as HtmlElement, `${key}.${blocks.length}`, context));
+    }
+  });
+  flush();
+
+  return blocks;
+}
+
+/**
+ * Sanitized HTML for CRM email templates: text formatting, links opened in the browser
+ * after confirmation, images loaded with the session headers and basic tables.
+ * Plain-text content, and markup leaving nothing to show, render as text.
+ *
+ * @example
+ * <HtmlContent html={email.template_details.body} style={styles.emailBody} />
+ */
+export const HtmlContent: React.FC<HtmlContentProps> = ({ html, style, emptyText }) => {
+  const { t } = useTranslation();
+  const nodes = useMemo(() => (isHtml(html) ? parseSafeHtml(html) : null), [html]);
+
+  const handleLinkPress = (href: string) => {
+    Alert.alert(t('mobile.htmlContent.openLinkTitle'), href, [
+      { text: t('general.cancel'), style: 'cancel' },
+      {
+        text: t('general.open'),
+        onPress: () => {
+          Linking.openURL(href).catch(error => {
+            console.error('❌ Failed to open link:', error);
+            Alert.alert(t('general.error'), t('mobile.htmlContent.openLinkFailed'));
+          });
+        },
+      },
+    ]);
+  };
+
+  if (!nodes || !hasVisibleContent(nodes)) {
+    return <Text style={style}>{(nodes ? '' : html.trim()) || emptyText}</Text>;
+  }
+
+  return (
+    <View>
+      {renderBlocks(nodes, 'html', {
+        textStyle: style,
+        preformatted: false,
+        onLinkPress: handleLinkPress,
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  paragraph: {
+    marginBottom: spacing.sm,
+  },
+  link: {
+    color: colors.primary,
+    textDecorationLine: 'underline',
+  },
+  image: {
+    maxWidth: '100%',
+    marginVertical: spacing.xs,
+  },
+  imageAlt: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    fontStyle: 'italic',
+  },
+  rule: {
+    height: StyleSheet.hairlineWidth,
+    backgroundColor: colors.textSecondary,
+    marginVertical: spacing.sm,
+  },
+  quote: {
+    borderLeftWidth: 3,
+    borderLeftColor: '#d0d7de',
+    paddingLeft: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  list: {
+    marginBottom: spacing.sm,
+  },
+  listItem: {
+    flexDirection: 'row',
+  },
+  listMarker: {
+    minWidth: 18,
+  },
+  listItemContent: {
+    flex: 1,
+  },
+  table: {
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: '#d0d7de',
+    marginBottom: spacing.sm,
+  },
+  tableRow: {
+    flexDirection: 'row',
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: '#d0d7de',
+  },
+  tableFirstRow: {
+    borderTopWidth: 0,
+  },
+  tableCell: {
+    padding: spacing.xs,
+  },
+});
+
+export default HtmlContent;
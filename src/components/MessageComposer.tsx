@@ -0,0 +1,89 @@
+import React from 'react';
+import { View, StyleSheet, TextInput, TouchableOpacity, StyleProp, ViewStyle } from 'react-native';
+import Icon from 'react-native-vector-icons/Feather';
+import { colors, spacing } from '../helpers/theme';
+
+interface MessageComposerProps {
+  value: string;
+  onChangeText: (text: string) => void;
+  onSend: () => void;
+  placeholder?: string;
+  autoFocus?: boolean;
+  style?: StyleProp<ViewStyle>;
+}
+
+/**
+ * Input bar with a send button for chat replies
+ *
+ * @example
+ * <MessageComposer value={text} onChangeText={setText} onSend={handleSend} />
+ */
+export const MessageComposer: React.FC<MessageComposerProps> = ({
+  value,
+  onChangeText,
+  onSend,
+  placeholder,
+  autoFocus = false,
+  style,
+}) => {
+  const canSend = value.trim().length > 0;
+
+  return (
+    <View style={[styles.container, style]}>
+      <TextInput
+        style={styles.input}
+        value={value}
+        onChangeText={onChangeText}
+        placeholder={placeholder}
+        placeholderTextColor={colors.textSecondary}
+        autoFocus={autoFocus}
+        multiline
+      />
+      <TouchableOpacity
+        style={[styles.sendButton, !canSend && styles.sendButtonDisabled]}
+        onPress={onSend}
+        disabled={!canSend}
+      >
+        <Icon name="send" size={18} color="#ffffff" />
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: colors.grey100,
+    backgroundColor: colors.surface,
+  },
+  input: {
+    flex: 1,
+    maxHeight: 120,
+    minHeight: 40,
+    paddingHorizontal: spacing.md,
+    paddingTop: 10,
+    paddingBottom: 10,
+    borderRadius: 20,
+    backgroundColor: colors.grey100,
+    fontSize: 14,
+    color: colors.onSurface,
+  },
+  sendButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    marginLeft: spacing.sm,
+    backgroundColor: '#0052CD',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  sendButtonDisabled: {
+    opacity: 0.4,
+  },
+});
+
+export default MessageComposer;
@@ -0,0 +1,54 @@
+import React from 'react';
+import { StyleSheet } from 'react-native';
+import Icon from 'react-native-vector-icons/Feather';
+import { View } from './Layout';
+import { Text } from './Typography';
+import { useTranslation } from '../hooks/useTranslation';
+import { formatDateTime } from '../helpers/dateUtils';
+
+interface OfflineIndicatorProps {
+  /** Whether the shown data comes from the cache because the device is offline */
+  offline: boolean;
+  /** Timestamp of the last successful load */
+  lastUpdated: number | null;
+}
+
+/**
+ * Banner shown above cached content while the device is offline
+ *
+ * @example
+ * <OfflineIndicator offline={collection.offline} lastUpdated={collection.lastUpdated} />
+ */
+export const OfflineIndicator: React.FC<OfflineIndicatorProps> = ({ offline, lastUpdated }) => {
+  const { t } = useTranslation();
+
+  if (!offline) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      <Icon name="wifi-off" size={14} color="#856404" />
+      <Text style={styles.text}>
+        {t('mobile.ui.offline')}
+        {lastUpdated ? ` · ${t('mobile.ui.lastUpdated', { time: formatDateTime(new Date(lastUpdated)) })}` : ''}
+      </Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    backgroundColor: '#fff3cd',
+  },
+  text: {
+    marginLeft: 6,
+    fontSize: 12,
+    color: '#856404',
+  },
+});
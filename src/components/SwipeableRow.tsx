@@ -0,0 +1,117 @@
+import React, { useRef } from 'react';
+import {
+  Animated,
+  PanResponder,
+  StyleSheet,
+  StyleProp,
+  TouchableOpacity,
+  View,
+  ViewStyle,
+} from 'react-native';
+import Icon from 'react-native-vector-icons/Feather';
+import { Text } from './Typography';
+
+interface SwipeableRowProps {
+  children: React.ReactNode;
+  /** Label of the action revealed by swiping left */
+  actionLabel: string;
+  /** Feather icon name of the action */
+  actionIcon: string;
+  actionColor?: string;
+  onAction: () => void;
+  style?: StyleProp<ViewStyle>;
+}
+
+const ACTION_WIDTH = 88;
+
+/**
+ * List row revealing an action when swiped left; tapping the action runs it and closes the row
+ *
+ * @example
+ * <SwipeableRow actionLabel="Read" actionIcon="check" onAction={markRead}>
+ *   <Card>...</Card>
+ * </SwipeableRow>
+ */
+export const SwipeableRow: React.FC<SwipeableRowProps> = ({
+  children,
+  actionLabel,
+  actionIcon,
+  actionColor = '#0052CD',
+  onAction,
+  style,
+}) => {
+  const translateX = useRef(new Animated.Value(0)).current;
+  const offset = useRef(0);
+
+  const snapTo = (value: number) => {
+    offset.current = value;
+    Animated.spring(translateX, {
+      toValue: value,
+      useNativeDriver: true,
+      bounciness: 0,
+    }).start();
+  };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      // Take clearly horizontal drags from the pressable row, leave vertical ones to the list
+      onMoveShouldSetPanResponderCapture: (_event, gesture) =>
+        Math.abs(gesture.dx) > 10 && Math.abs(gesture.dx) > Math.abs(gesture.dy) * 2,
+      onPanResponderMove: (_event, gesture) => {
+        const next = Math.min(0, Math.max(offset.current + gesture.dx, -ACTION_WIDTH * 1.5));
+        translateX.setValue(next);
+      },
+      onPanResponderRelease: (_event, gesture) => {
+        snapTo(offset.current + gesture.dx < -ACTION_WIDTH / 2 ? -ACTION_WIDTH : 0);
+      },
+      onPanResponderTerminate: () => {
+        snapTo(offset.current);
+      },
+    })
+  ).current;
+
+  const handleAction = () => {
+    snapTo(0);
+    onAction();
+  };
+
+  return (
+    <View style={[styles.container, style]}>
+      <TouchableOpacity
+        style={[styles.action, { backgroundColor: actionColor }]}
+        onPress={handleAction}
+        accessibilityLabel={actionLabel}
+      >
+        <Icon name={actionIcon} size={20} color="#ffffff" />
+        <Text style={styles.actionLabel} numberOfLines={1}>{actionLabel}</Text>
+      </TouchableOpacity>
+      <Animated.View style={{ transform: [{ translateX }] }} {...panResponder.panHandlers}>
+        {children}
+      </Animated.View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'relative',
+  },
+  action: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    right: 0,
+    width: ACTION_WIDTH,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  actionLabel: {
+    marginTop: 4,
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+});
+
+export default SwipeableRow;
@@ -9,11 +9,21 @@ export { ImageBackground } from './ImageBackground';
 // Complex Components
 export { Sticker } from './Sticker';
 export { AlertLabel } from './AlertLabel';
+export { OfflineIndicator } from './OfflineIndicator';
 export { Calendar } from './Calendar';
 export { Header } from './Header';
 export { BottomNavigation } from './BottomNavigation';
 export { RefreshControl } from './RefreshControl';
 export { LanguageSelector } from './LanguageSelector';
+export { EnvironmentBadge } from './EnvironmentBadge';
+export { DeveloperMenu } from './DeveloperMenu';
+export { AccountSwitcher } from './AccountSwitcher';
+export { MessageComposer } from './MessageComposer';
+export { HighlightedText } from './HighlightedText';
+export { CountBadge } from './CountBadge';
+export { SwipeableRow } from './SwipeableRow';
+export { HtmlContent } from './HtmlContent';
+export { AttachmentItem } from './AttachmentItem';
 
 // Legacy Components
 export { LegacyButton } from './LegacyButton';
@@ -4,13 +4,15 @@
  */
 
 import * as RNFS from '@dr.pogodin/react-native-fs';
-import { Platform } from 'react-native';
+import { Linking, Platform, Share } from 'react-native';
 import { ApiResponse } from '../../../helpers/request';
 
 export interface DownloadFileOptions {
   url: string;
   fileName?: string;
   headers?: Record<string, string>;
+  /** Folder below the downloads directory, e.g. to keep accounts apart */
+  subdirectory?: string;
   onProgress?: (progress: number) => void;
 }
 
@@ -43,6 +45,23 @@ export class FileSystemService {
     return RNFS.DocumentDirectoryPath;
   }
 
+  /**
+   * Folder below the downloads directory keeping an account's files apart
+   */
+  getAccountSubdirectory(userId: string | null): string {
+    return `NFS Academy/${userId || 'shared'}`;
+  }
+
+  /**
+   * Path a download with this name is saved to
+   */
+  getDownloadPath(fileName: string, subdirectory?: string): string {
+    const downloadDir = subdirectory
+      ? `${this.getDownloadsDirectory()}/${subdirectory}`
+      : this.getDownloadsDirectory();
+    return `${downloadDir}/${fileName}`;
+  }
+
   /**
    * Get the cache directory path
    */
@@ -76,17 +95,15 @@ export class FileSystemService {
    * Download a file from a URL
    */
   async downloadFile(options: DownloadFileOptions): Promise<DownloadResult> {
-    const { url, fileName, headers = {}, onProgress } = options;
+    const { url, fileName, headers = {}, subdirectory, onProgress } = options;
     
     try {
       // Generate filename if not provided
       const finalFileName = fileName || this.generateFileName(url);
-      const downloadDir = this.getDownloadsDirectory();
+      const filePath = this.getDownloadPath(finalFileName, subdirectory);
       
       // Ensure downloads directory exists
-      await this.ensureDirectoryExists(downloadDir);
-      
-      const filePath = `${downloadDir}/${finalFileName}`;
+      await this.ensureDirectoryExists(filePath.slice(0, filePath.lastIndexOf('/')));
 
       // Start download
       const downloadOptions = {
@@ -181,6 +198,20 @@ export class FileSystemService {
     }
   }
 
+  /**
+   * Move a file, replacing any file already at the destination
+   */
+  async moveFile(from: string, to: string): Promise<void> {
+    try {
+      await this.ensureDirectoryExists(to.slice(0, to.lastIndexOf('/')));
+      await this.deleteFile(to);
+      await RNFS.moveFile(from, to);
+    } catch (error) {
+      console.error('Failed to move file:', error);
+      throw error;
+    }
+  }
+
   /**
    * Delete file
    */
@@ -196,6 +227,23 @@ export class FileSystemService {
     }
   }
 
+  /**
+   * Open a downloaded file with the system viewer
+   */
+  async openFile(path: string): Promise<void> {
+    if (Platform.OS === 'android') {
+      // Other apps can't read file:// URIs; the media store hands out a content URI instead
+      const uri = await RNFS.scanFile(path);
+      if (!uri || uri === 'null') {
+        throw new Error(`No viewer URI for ${path}`);
+      }
+      await Linking.openURL(uri);
+    } else {
+      // The share sheet previews the file and offers the apps able to open it
+      await Share.share({ url: `file://${path}` });
+    }
+  }
+
   /**
    * Read file as base64
    */
@@ -3,7 +3,9 @@
  * Coordinates file downloads, PDF generation, and multi-selection operations
  */
 
-import { apiService } from '../../../helpers/request';
+import { apiService, ApiError } from '../../../helpers/request';
+import { apiClient, endpoints } from '../../../api';
+import { sessionManager } from '../../../services/SessionManager';
 import { fileSystemService } from './FileSystemService';
 import { pdfService } from './PDFService';
 import { permissionsService } from './PermissionsService';
@@ -25,8 +27,28 @@ export class GalleryService {
   private static instance: GalleryService;
   private selectedImages: Set<string> = new Set();
   private eventListeners: Partial<GalleryServiceEvents> = {};
+  /** Access token of the active account, kept in memory for synchronous image requests */
+  private userToken: string | null = null;
+
+  private constructor() {
+    // A selection made for one account must not carry over to another
+    sessionManager.subscribe((event) => {
+      if (event.type === 'switch' || event.type === 'logout') {
+        this.clearSelection();
+      }
 
-  private constructor() {}
+      if (
+        (event.type === 'statusChange' && event.status === 'authenticated') ||
+        event.type === 'login' ||
+        event.type === 'switch'
+      ) {
+        this.loadUserToken();
+      } else if (event.type === 'logout') {
+        this.userToken = null;
+      }
+    });
+    this.loadUserToken();
+  }
 
   static getInstance(): GalleryService {
     if (!GalleryService.instance) {
@@ -50,21 +72,19 @@ export class GalleryService {
       console.log('🔍 Fetching gallery data from API...');
       
       // Get gallery data from me/album endpoint (contains both images and album_link)
-      const galleryResponse = await apiService.get('me/album');
+      const galleryResponse = await apiClient.request(endpoints.album);
       
-      console.log('📡 Raw API response for me/album:', {
-        status: galleryResponse.status,
-        data: galleryResponse.data,
-        dataKeys: galleryResponse.data ? Object.keys(galleryResponse.data) : 'no data',
+      console.log('📡 Validated API response for me/album:', {
+        dataKeys: Object.keys(galleryResponse.data),
         fullResponse: JSON.stringify(galleryResponse.data, null, 2)
       });
 
       // According to API docs: response structure is { status, http_status, data: { album_link, images } }
-      const galleryData = galleryResponse.data.data || galleryResponse.data;
-      const images = galleryData?.images || [];
+      const galleryData = galleryResponse.data;
+      const images = galleryData.images || [];
       
       // Album link is directly in the gallery response data
-      const albumLink = galleryData?.album_link || null;
+      const albumLink = galleryData.album_link || null;
       
       console.log('🔍 Album link extraction:', {
         foundAlbumLink: albumLink,
@@ -105,8 +125,8 @@ export class GalleryService {
       console.error('❌ Failed to fetch gallery data:', error);
       console.error('❌ Error details:', {
         message: error instanceof Error ? error.message : 'Unknown error',
-        response: (error as any)?.response?.data,
-        status: (error as any)?.response?.status
+        kind: error instanceof ApiError ? error.kind : undefined,
+        status: error instanceof ApiError ? error.status : undefined
       });
       throw error;
     }
@@ -202,6 +222,7 @@ export class GalleryService {
         url: imageRequest.uri,
         headers: imageRequest.headers,
         fileName: this.generateFileName(image),
+        subdirectory: await this.getAccountDirectory(),
         onProgress,
       });
 
@@ -244,12 +265,14 @@ export class GalleryService {
       }
 
       // Prepare download options for each image
+      const subdirectory = await this.getAccountDirectory();
       const downloadOptions = selectedImages.map(image => {
         const imageRequest = this.createAuthenticatedImageRequest(image.path);
         return {
           url: imageRequest.uri,
           headers: imageRequest.headers,
           fileName: this.generateFileName(image),
+          subdirectory,
         };
       });
 
@@ -403,6 +426,13 @@ export class GalleryService {
     return this.openAlbumLink(albumLink);
   }
 
+  /**
+   * Download folder of the active account, so siblings' photos stay apart
+   */
+  private async getAccountDirectory(): Promise<string> {
+    return fileSystemService.getAccountSubdirectory(await sessionManager.getUserId());
+  }
+
   /**
    * Generate filename for an image
    */
@@ -430,17 +460,23 @@ export class GalleryService {
   }
 
   /**
-   * Get user token (implement based on your auth system)
+   * Reload the access token used by authenticated image requests, e.g. after it was refreshed
    */
-  private getUserToken(): string | null {
-    // This should integrate with your auth context/storage
-    // For now, returning null - implement based on your auth system
+  async loadUserToken(): Promise<string | null> {
     try {
-      // Example: return SecureStore.getItem('userToken') or similar
-      return null;
-    } catch {
-      return null;
+      this.userToken = await sessionManager.getAccessToken();
+    } catch (error) {
+      console.warn('⚠️ Failed to load the token for image requests:', error);
+      this.userToken = null;
     }
+    return this.userToken;
+  }
+
+  /**
+   * Get user token
+   */
+  private getUserToken(): string | null {
+    return this.userToken;
   }
 
   /**
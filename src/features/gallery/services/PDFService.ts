@@ -286,6 +286,37 @@ export class PDFService {
     }
   }
 
+  /**
+   * Generate a PDF from a complete HTML page, paginated at the given format
+   */
+  async generateHTMLPDF(html: string, fileName: string, format: 'A4' | 'Letter' = 'A4'): Promise<PDFGenerationResult> {
+    try {
+      const result = await RNHTMLtoPDF.convert({
+        html,
+        fileName,
+        directory: Platform.OS === 'android' ? 'Downloads' : 'Documents',
+        width: this.getPageWidth(format),
+        height: this.getPageHeight(format, 'portrait'),
+        base64: false,
+      });
+
+      if (!result.filePath) {
+        throw new Error('PDF generation failed - no file path returned');
+      }
+
+      const fileInfo = await fileSystemService.getFileInfo(result.filePath);
+
+      return {
+        filePath: result.filePath,
+        fileName: `${fileName}.pdf`,
+        size: parseInt(fileInfo.size.toString(), 10),
+      };
+    } catch (error) {
+      console.error('HTML PDF generation failed:', error);
+      throw error;
+    }
+  }
+
   /**
    * Generate simple PDF with text content
    */
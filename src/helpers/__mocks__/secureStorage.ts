@@ -0,0 +1,24 @@
+/**
+ * In-memory SecureStorage for tests, signed in as user 42.
+ * Enable it with `jest.mock('../src/helpers/secureStorage')`.
+ */
+
+const items = new Map<string, string>([
+  ['userId', '42'],
+  ['userToken', 'mock-access-token-0123456789'],
+  ['refreshToken', 'mock-refresh-token-0123456789'],
+]);
+
+const SecureStorage = {
+  getItem: jest.fn(async (key: string): Promise<string | null> => items.get(key) ?? null),
+  setItem: jest.fn(async (key: string, value: string): Promise<boolean> => {
+    items.set(key, value);
+    return true;
+  }),
+  removeItem: jest.fn(async (key: string): Promise<boolean> => {
+    items.delete(key);
+    return true;
+  }),
+};
+
+export default SecureStorage;
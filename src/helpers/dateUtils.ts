@@ -8,6 +8,7 @@ import {
   startOfDay, 
   endOfDay, 
   differenceInDays,
+  differenceInCalendarDays,
   isBefore,
   isAfter,
   isSameDay
@@ -225,6 +226,16 @@ export const isSameDayAs = (date1: string | Date, date2: string | Date): boolean
   return isSameDay(dateObj1, dateObj2);
 };
 
+/**
+ * Calendar days from the first date to the second, ignoring the time of day
+ * (negative when the second date is earlier)
+ */
+export const getCalendarDaysBetween = (date1: string | Date, date2: string | Date): number => {
+  const dateObj1 = typeof date1 === 'string' ? parseISO(date1) : date1;
+  const dateObj2 = typeof date2 === 'string' ? parseISO(date2) : date2;
+  return differenceInCalendarDays(dateObj2, dateObj1);
+};
+
 /**
  * Parse time string and return formatted time (equivalent to legacy getTime function)
  */
@@ -312,6 +323,7 @@ export default {
   isDateBefore,
   isDateAfter,
   isSameDayAs,
+  getCalendarDaysBetween,
   parseTimeString,
   setDateLocale,
   getCurrentLocale,
@@ -0,0 +1,71 @@
+import appConfig from '../../app.json';
+
+/**
+ * Backend environment profiles
+ * The build-time profile comes from `environment` in app.json (set by CI per build);
+ * testers can switch at runtime from the hidden developer menu.
+ */
+
+export type EnvironmentName = 'production' | 'staging' | 'mock';
+
+export interface EnvironmentProfile {
+  name: EnvironmentName;
+  /** Label shown in the developer menu and the environment badge */
+  label: string;
+  /** Root URL of the CRM, without the `/api/v1` suffix */
+  baseURL: string;
+  /** Serve requests in-process from the mock backend instead of the network */
+  mock?: boolean;
+  /**
+   * WebSocket channel pushing new messages and notifications; without it the app polls.
+   * Unset for every profile until the CRM serves the channel.
+   */
+  realtimeURL?: string;
+}
+
+export const ENVIRONMENTS: Record<EnvironmentName, EnvironmentProfile> = {
+  production: {
+    name: 'production',
+    label: 'Production',
+    baseURL: 'https://crm.nfsacademy.it',
+  },
+  staging: {
+    name: 'staging',
+    label: 'Staging',
+    baseURL: 'https://staging.crm.nfsacademy.it',
+  },
+  mock: {
+    name: 'mock',
+    label: 'Mock',
+    // Only used to build image URLs; requests never leave the app
+    baseURL: 'http://localhost:5000',
+    mock: true,
+  },
+};
+
+/**
+ * Check whether a value names a known profile
+ */
+export const isEnvironmentName = (value: unknown): value is EnvironmentName =>
+  typeof value === 'string' && value in ENVIRONMENTS;
+
+const buildEnvironment = (appConfig as { environment?: string }).environment;
+
+/**
+ * Profile the app was built for, used until a runtime choice is restored
+ */
+export const BUILD_ENVIRONMENT: EnvironmentName = isEnvironmentName(buildEnvironment)
+  ? buildEnvironment
+  : 'production';
+
+/**
+ * Debug builds and builds made for another profile may switch backends at runtime;
+ * release builds for production only ever talk to production
+ */
+export const DEVELOPER_MENU_ENABLED = __DEV__ || BUILD_ENVIRONMENT !== 'production';
+
+/**
+ * Check whether this build may use a profile
+ */
+export const isEnvironmentAvailable = (name: EnvironmentName): boolean =>
+  name === BUILD_ENVIRONMENT || DEVELOPER_MENU_ENABLED;
@@ -371,6 +371,36 @@ export const formatNumber = (
   }
 };
 
+/**
+ * Format an amount in euros for the app language, e.g. `€1,250.00` or `1.250,00 €`
+ * 
+ * @param amount - Amount to format
+ * @param language - App language code (e.g., 'en', 'it')
+ * @returns Formatted amount string
+ */
+export const formatCurrency = (amount: number, language: string = 'en'): string =>
+  formatNumber(amount, 'EUR', language.startsWith('it') ? 'it-IT' : 'en-US');
+
+/**
+ * Format a size in bytes for display, e.g. `180 KB` or `1.2 MB`
+ * 
+ * @param bytes - Size in bytes
+ * @returns Formatted size string
+ */
+export const formatFileSize = (bytes: number): string => {
+  if (!Number.isFinite(bytes) || bytes < 1024) {
+    return `${Math.max(Math.round(bytes) || 0, 0)} B`;
+  }
+  const units = ['KB', 'MB', 'GB'];
+  let size = bytes / 1024;
+  let unit = 0;
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+  return `${size < 10 ? size.toFixed(1).replace(/\.0$/, '') : Math.round(size)} ${units[unit]}`;
+};
+
 /**
  * Debounce function execution
  * 
@@ -504,6 +534,8 @@ export default {
   getRandomString,
   generateUUID,
   formatNumber,
+  formatCurrency,
+  formatFileSize,
   debounce,
   throttle,
   capitalize,
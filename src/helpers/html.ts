@@ -0,0 +1,400 @@
+/**
+ * HTML helpers for CRM email templates: a small tolerant parser, a sanitizer
+ * keeping only what the native renderer can show, and a plain-text conversion
+ */
+
+export interface HtmlText {
+  type: 'text';
+  text: string;
+}
+
+export interface HtmlElement {
+  type: 'element';
+  /** Lowercase tag name */
+  tag: string;
+  attributes: Record<string, string>;
+  children: HtmlNode[];
+}
+
+export type HtmlNode = HtmlText | HtmlElement;
+
+const VOID_TAGS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr',
+]);
+
+/** Tags whose content is raw text up to the closing tag */
+const RAW_TEXT_TAGS = new Set(['script', 'style', 'textarea', 'title']);
+
+/** Opening one of these closes the listed open tags, like browsers do for unclosed list items and cells */
+const IMPLIED_CLOSES: Record<string, string[]> = {
+  p: ['p'],
+  li: ['li'],
+  tr: ['td', 'th', 'tr'],
+  td: ['td', 'th'],
+  th: ['td', 'th'],
+};
+
+/** Removed together with their content */
+const DROPPED_TAGS = new Set([
+  'audio', 'base', 'button', 'canvas', 'embed', 'form', 'frame', 'frameset', 'head', 'iframe', 'input',
+  'link', 'meta', 'noscript', 'object', 'script', 'select', 'style', 'svg', 'template', 'textarea',
+  'title', 'video',
+]);
+
+/** Kept by the sanitizer; other tags are replaced by their content */
+const ALLOWED_TAGS = new Set([
+  'a', 'b', 'blockquote', 'br', 'caption', 'center', 'code', 'del', 'div', 'em', 'font', 'h1', 'h2',
+  'h3', 'h4', 'h5', 'h6', 'hr', 'i', 'img', 'li', 'ol', 'p', 'pre', 's', 'small', 'span', 'strike',
+  'strong', 'sub', 'sup', 'table', 'tbody', 'td', 'tfoot', 'th', 'thead', 'tr', 'u', 'ul',
+]);
+
+/** Attributes kept per tag; everything else, event handlers and styles included, is dropped */
+const ALLOWED_ATTRIBUTES: Record<string, string[]> = {
+  a: ['href'],
+  img: ['src', 'alt', 'width', 'height'],
+  td: ['colspan'],
+  th: ['colspan'],
+  ol: ['start'],
+};
+
+/** Elements starting a new line in plain text */
+export const BLOCK_TAGS = new Set([
+  'blockquote', 'caption', 'center', 'div', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'hr', 'li', 'ol', 'p',
+  'pre', 'table', 'tbody', 'tfoot', 'thead', 'tr', 'ul',
+]);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: '\u00a0',
+  copy: '©', reg: '®', trade: '™', euro: '€', pound: '£', deg: '°',
+  laquo: '«', raquo: '»', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”',
+  hellip: '…', ndash: '–', mdash: '—', bull: '•', middot: '·',
+  agrave: 'à', aacute: 'á', egrave: 'è', eacute: 'é', igrave: 'ì', iacute: 'í',
+  ograve: 'ò', oacute: 'ó', ugrave: 'ù', uacute: 'ú',
+  Agrave: 'À', Egrave: 'È', Eacute: 'É', Igrave: 'Ì', Ograve: 'Ò', Ugrave: 'Ù',
+};
+
+/** Image URLs of open-tracking pixels and beacons */
+const TRACKING_IMAGE_PATTERN = /(?:[/._-]|^)(?:track(?:ing)?|pixel|beacon|open)(?:[/._?=-]|$)/i;
+
+/** Query parameters only used for click tracking */
+const TRACKING_PARAM_PATTERN = /^(?:utm_\w+|fbclid|gclid|mc_eid|mc_cid)$/i;
+
+/**
+ * Whether a text contains markup, as opposed to a plain-text template
+ */
+export const isHtml = (value: string): boolean => /<\/?[a-z][a-z0-9]*(?:\s[^>]*)?\/?>/i.test(value);
+
+/**
+ * Decode character references in text and attribute values
+ */
+export const decodeEntities = (value: string): string =>
+  value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1] === 'x' || name[1] === 'X'
+        ? parseInt(name.slice(2), 16)
+        : parseInt(name.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return NAMED_ENTITIES[name] ?? entity;
+  });
+
+const parseAttributes = (source: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  const pattern = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(source))) {
+    const name = match[1].toLowerCase();
+    if (!(name in attributes)) {
+      attributes[name] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+    }
+  }
+  return attributes;
+};
+
+/**
+ * Index of the `>` ending a tag, skipping quoted attribute values
+ */
+const findTagEnd = (html: string, from: number): number => {
+  let quote: string | null = null;
+  for (let index = from; index < html.length; index++) {
+    const char = html[index];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '>') {
+      return index;
+    }
+  }
+  return -1;
+};
+
+/**
+ * Parse HTML into a tree. Malformed markup never throws: unknown closing tags are
+ * ignored and unclosed elements end with their parent.
+ */
+export const parseHtml = (html: string): HtmlNode[] => {
+  const root: HtmlElement = { type: 'element', tag: '#root', attributes: {}, children: [] };
+  const stack: HtmlElement[] = [root];
+  const current = () => stack[stack.length - 1];
+  let index = 0;
+
+  const appendText = (text: string) => {
+    if (!text) return;
+    const siblings = current().children;
+    const last = siblings[siblings.length - 1];
+    if (last?.type === 'text') {
+      last.text += text;
+    } else {
+      siblings.push({ type: 'text', text });
+    }
+  };
+
+  while (index < html.length) {
+    const tagStart = html.indexOf('<', index);
+    if (tagStart === -1) {
+      appendText(decodeEntities(html.slice(index)));
+      break;
+    }
+    appendText(decodeEntities(html.slice(index, tagStart)));
+
+    // Comments, doctype and processing instructions
+    if (html.startsWith('<!--', tagStart)) {
+      const end = html.indexOf('-->', tagStart + 4);
+      index = end === -1 ? html.length : end + 3;
+      continue;
+    }
+    if (html[tagStart + 1] === '!' || html[tagStart + 1] === '?') {
+      const end = html.indexOf('>', tagStart);
+      index = end === -1 ? html.length : end + 1;
+      continue;
+    }
+
+    const tagMatch = /^<(\/?)([a-z][a-z0-9-]*)/i.exec(html.slice(tagStart, tagStart + 64));
+    const tagEnd = tagMatch ? findTagEnd(html, tagStart + tagMatch[0].length) : -1;
+    if (!tagMatch || tagEnd === -1) {
+      // A lone `<` is text
+      appendText('<');
+      index = tagStart + 1;
+      continue;
+    }
+
+    const closing = tagMatch[1] === '/';
+    const tag = tagMatch[2].toLowerCase();
+    index = tagEnd + 1;
+
+    if (closing) {
+      const openIndex = stack.map(element => element.tag).lastIndexOf(tag);
+      if (openIndex > 0) {
+        stack.length = openIndex;
+      }
+      continue;
+    }
+
+    const implied = IMPLIED_CLOSES[tag];
+    while (implied && stack.length > 1 && implied.includes(current().tag)) {
+      stack.pop();
+    }
+
+    const attributeSource = html.slice(tagStart + tagMatch[0].length, tagEnd);
+    const element: HtmlElement = {
+      type: 'element',
+      tag,
+      attributes: parseAttributes(attributeSource),
+      children: [],
+    };
+    current().children.push(element);
+
+    if (RAW_TEXT_TAGS.has(tag)) {
+      const closeMatch = new RegExp(`</${tag}\\s*>`, 'i').exec(html.slice(index));
+      const rawEnd = closeMatch ? index + closeMatch.index : html.length;
+      const raw = html.slice(index, rawEnd);
+      if (raw) element.children.push({ type: 'text', text: raw });
+      index = closeMatch ? rawEnd + closeMatch[0].length : html.length;
+    } else if (!VOID_TAGS.has(tag) && !attributeSource.trim().endsWith('/')) {
+      stack.push(element);
+    }
+  }
+
+  return root.children;
+};
+
+const isHidden = (element: HtmlElement): boolean => {
+  const style = (element.attributes.style || '').replace(/\s+/g, '').toLowerCase();
+  return (
+    'hidden' in element.attributes ||
+    style.includes('display:none') ||
+    style.includes('visibility:hidden') ||
+    /(?:^|;)(?:max-)?(?:height|width):0(?:px)?(?:;|$)/.test(style)
+  );
+};
+
+/**
+ * Whether a URL can be opened from an email link
+ */
+export const isSafeLink = (href: string): boolean => /^(?:https?:|mailto:|tel:)/i.test(href.trim());
+
+/**
+ * Whether an image source can be loaded: web URLs, paths on the CRM and inline images
+ */
+export const isSafeImageSource = (src: string): boolean => {
+  const value = src.trim();
+  if (!value) return false;
+  if (/^(?:https?:)?\/\//i.test(value) || /^data:image\/(?:png|jpe?g|gif|webp);/i.test(value)) return true;
+  // Relative paths have no scheme
+  return !/^[a-z][a-z0-9+.-]*:/i.test(value);
+};
+
+const getDimension = (value: string | undefined): number | undefined => {
+  const size = value ? parseFloat(value) : NaN;
+  return Number.isFinite(size) ? size : undefined;
+};
+
+/**
+ * Whether an image only exists to report that the email was opened
+ */
+export const isTrackingImage = (attributes: Record<string, string>): boolean => {
+  const width = getDimension(attributes.width);
+  const height = getDimension(attributes.height);
+  if ((width !== undefined && width <= 1) || (height !== undefined && height <= 1)) return true;
+
+  const path = (attributes.src || '').split('?')[0];
+  return TRACKING_IMAGE_PATTERN.test(path);
+};
+
+/**
+ * Remove click-tracking query parameters from a link
+ */
+export const stripTrackingParams = (href: string): string => {
+  const queryStart = href.indexOf('?');
+  if (queryStart === -1) return href;
+
+  const hashStart = href.indexOf('#', queryStart);
+  const query = href.slice(queryStart + 1, hashStart === -1 ? undefined : hashStart);
+  const hash = hashStart === -1 ? '' : href.slice(hashStart);
+  const kept = query
+    .split('&')
+    .filter(param => param && !TRACKING_PARAM_PATTERN.test(param.split('=')[0]));
+
+  return `${href.slice(0, queryStart)}${kept.length ? `?${kept.join('&')}` : ''}${hash}`;
+};
+
+const sanitizeNode = (node: HtmlNode): HtmlNode[] => {
+  if (node.type === 'text') return [node];
+
+  const { tag } = node;
+  if (DROPPED_TAGS.has(tag) || isHidden(node)) return [];
+
+  const children = sanitizeHtml(node.children);
+  if (!ALLOWED_TAGS.has(tag)) return children;
+
+  const attributes: Record<string, string> = {};
+  (ALLOWED_ATTRIBUTES[tag] || []).forEach(name => {
+    if (node.attributes[name] !== undefined) attributes[name] = node.attributes[name].trim();
+  });
+
+  if (tag === 'img') {
+    if (!attributes.src || !isSafeImageSource(attributes.src) || isTrackingImage(attributes)) return [];
+  }
+  if (tag === 'a') {
+    // Links to anything else, `javascript:` included, keep only their text
+    if (!attributes.href || !isSafeLink(attributes.href)) return children;
+    attributes.href = stripTrackingParams(attributes.href);
+  }
+
+  return [{ type: 'element', tag, attributes, children }];
+};
+
+/**
+ * Keep only allowed tags and attributes. Scripts, styles, embedded content, hidden
+ * elements and tracking pixels are removed; unsafe links become plain text.
+ */
+export const sanitizeHtml = (nodes: HtmlNode[]): HtmlNode[] => nodes.flatMap(sanitizeNode);
+
+/**
+ * Parse and sanitize an email body
+ */
+export const parseSafeHtml = (html: string): HtmlNode[] => sanitizeHtml(parseHtml(html));
+
+/**
+ * Escape text for use in markup or attribute values
+ */
+export const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * Write a tree back to markup, e.g. a sanitized tree for a generated document
+ */
+export const serializeHtml = (nodes: HtmlNode[]): string =>
+  nodes
+    .map(node => {
+      if (node.type === 'text') return escapeHtml(node.text);
+
+      const attributes = Object.entries(node.attributes)
+        .map(([name, value]) => ` ${name}="${escapeHtml(value)}"`)
+        .join('');
+      return VOID_TAGS.has(node.tag)
+        ? `<${node.tag}${attributes}>`
+        : `<${node.tag}${attributes}>${serializeHtml(node.children)}</${node.tag}>`;
+    })
+    .join('');
+
+/**
+ * Whether a tree has any text or image to show
+ */
+export const hasVisibleContent = (nodes: HtmlNode[]): boolean =>
+  nodes.some(node =>
+    node.type === 'text'
+      ? node.text.trim().length > 0
+      : node.tag === 'img' || hasVisibleContent(node.children)
+  );
+
+/**
+ * Readable plain text of a tree: blocks on their own lines, whitespace collapsed
+ */
+export const htmlToText = (nodes: HtmlNode[]): string => {
+  let text = '';
+  const breakLine = () => {
+    if (!text.endsWith('\n')) text += '\n';
+  };
+
+  const walk = (node: HtmlNode, preformatted: boolean) => {
+    if (node.type === 'text') {
+      text += preformatted ? node.text : node.text.replace(/\s+/g, ' ');
+      return;
+    }
+
+    const { tag } = node;
+    if (DROPPED_TAGS.has(tag)) return;
+    if (tag === 'br') {
+      text += '\n';
+      return;
+    }
+    if (tag === 'img') {
+      if (node.attributes.alt) text += node.attributes.alt;
+      return;
+    }
+
+    const block = BLOCK_TAGS.has(tag);
+    if (block) breakLine();
+    if (tag === 'li') text += '• ';
+    if (tag === 'td' || tag === 'th') text += '\t';
+    node.children.forEach(child => walk(child, preformatted || tag === 'pre'));
+    if (block) breakLine();
+  };
+
+  nodes.forEach(node => walk(node, false));
+
+  return text
+    .split('\n')
+    .map(line => line.replace(/[ \t\u00a0]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
@@ -0,0 +1,215 @@
+import {
+  ConversationPreview,
+  EmailLog,
+  NotificationItem,
+  WhatsAppConversation,
+  WhatsAppMessage,
+} from '../api';
+import { getNotificationContent, getNotificationTitle, isLegacyNotification } from './notificationUtils';
+
+/**
+ * Inbox search helpers
+ * Flatten emails, WhatsApp messages and notifications into searchable entries
+ * and locate query matches for highlighting.
+ */
+
+export type InboxSource = 'email' | 'whatsapp' | 'notification';
+
+interface InboxEntryBase {
+  key: string;
+  sender: string;
+  subject: string;
+  body: string;
+  created_at: string;
+}
+
+export type InboxEntry =
+  | (InboxEntryBase & { source: 'email'; email: EmailLog })
+  | (InboxEntryBase & { source: 'whatsapp'; conversation: ConversationPreview })
+  | (InboxEntryBase & { source: 'notification'; notification: NotificationItem });
+
+/** Half-open `[start, end)` character range of a match */
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+export type InboxSearchResult = InboxEntry & {
+  matches: {
+    sender: TextRange[];
+    subject: TextRange[];
+    body: TextRange[];
+  };
+};
+
+export const RECENT_QUERIES_LIMIT = 10;
+
+/**
+ * Map a whatsapp-conversations API record to a conversation list item
+ */
+export const toConversationPreview = (conversation: WhatsAppConversation): ConversationPreview => ({
+  id: conversation.id,
+  moderator_details: conversation.moderator_details || { first_name: 'Unknown' },
+  text: conversation.last_message?.text || 'No message content',
+  unread_count: conversation.unread_count || 0,
+  created_at: conversation.last_message?.created_at || conversation.created_at || '',
+  contact: conversation.contact,
+});
+
+/**
+ * Reduce an HTML email body to searchable plain text
+ */
+export const toPlainText = (html: string = ''): string =>
+  html
+    .replace(/<(style|script)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+export const emailEntries = (emails: EmailLog[]): InboxEntry[] =>
+  emails.map(email => ({
+    source: 'email',
+    key: `email-${email.id}`,
+    sender: email.user_details.first_name || '',
+    subject: email.template_details.subject || '',
+    body: toPlainText(email.template_details.body),
+    created_at: email.created_at,
+    email,
+  }));
+
+/**
+ * One entry per message, all opening the conversation they belong to
+ */
+export const conversationEntries = (
+  conversation: ConversationPreview,
+  messages: WhatsAppMessage[]
+): InboxEntry[] =>
+  messages.map(message => ({
+    source: 'whatsapp',
+    key: `whatsapp-${conversation.id}-${message.id}`,
+    sender: conversation.moderator_details?.first_name || '',
+    subject: '',
+    body: message.text || '',
+    created_at: message.created_at,
+    conversation,
+  }));
+
+export const notificationEntries = (notifications: NotificationItem[]): InboxEntry[] =>
+  notifications.map(notification => {
+    const content = getNotificationContent(notification);
+    return {
+      source: 'notification',
+      key: `notification-${notification.id}`,
+      sender: getNotificationTitle(notification),
+      subject: isLegacyNotification(notification) ? notification.template_details.subject || '' : '',
+      body: isLegacyNotification(notification) ? notification.template_details.text || '' : content,
+      created_at: notification.created_at,
+      notification,
+    };
+  });
+
+/**
+ * Split a query into lowercase terms
+ */
+export const getQueryTerms = (query: string): string[] =>
+  query.toLowerCase().split(/\s+/).filter(Boolean);
+
+/**
+ * Find every case-insensitive occurrence of the terms in a text,
+ * sorted and with overlapping ranges merged
+ */
+export const findMatches = (text: string, terms: string[]): TextRange[] => {
+  const lower = text.toLowerCase();
+  const ranges: TextRange[] = [];
+
+  terms.forEach(term => {
+    let index = lower.indexOf(term);
+    while (index !== -1) {
+      ranges.push({ start: index, end: index + term.length });
+      index = lower.indexOf(term, index + term.length);
+    }
+  });
+
+  ranges.sort((a, b) => a.start - b.start);
+  return ranges.reduce<TextRange[]>((merged, range) => {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+    return merged;
+  }, []);
+};
+
+/**
+ * Entries containing every query term in their sender, subject or body, newest first
+ */
+export const searchInbox = (entries: InboxEntry[], query: string): InboxSearchResult[] => {
+  const terms = getQueryTerms(query);
+  if (terms.length === 0) return [];
+
+  return entries
+    .filter(entry => {
+      const haystack = `${entry.sender}\n${entry.subject}\n${entry.body}`.toLowerCase();
+      return terms.every(term => haystack.includes(term));
+    })
+    .map(entry => ({
+      ...entry,
+      matches: {
+        sender: findMatches(entry.sender, terms),
+        subject: findMatches(entry.subject, terms),
+        body: findMatches(entry.body, terms),
+      },
+    }))
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+};
+
+/**
+ * Cut a long text around its first match so the match is visible in a preview,
+ * shifting the ranges to the excerpt
+ */
+export const getExcerpt = (
+  text: string,
+  ranges: TextRange[],
+  context: number = 40
+): { text: string; ranges: TextRange[] } => {
+  if (ranges.length === 0 || ranges[0].start <= context) {
+    return { text, ranges };
+  }
+
+  const offset = ranges[0].start - context;
+  // Start on a word boundary when there is one nearby
+  const space = text.indexOf(' ', offset);
+  const start = space !== -1 && space < ranges[0].start ? space + 1 : offset;
+  const prefix = '…';
+
+  return {
+    text: prefix + text.slice(start),
+    ranges: ranges.map(range => ({
+      start: range.start - start + prefix.length,
+      end: range.end - start + prefix.length,
+    })),
+  };
+};
+
+/**
+ * Put a query first in the recent list, without duplicates
+ */
+export const addRecentQuery = (
+  recent: string[],
+  query: string,
+  limit: number = RECENT_QUERIES_LIMIT
+): string[] => {
+  const trimmed = query.trim();
+  if (!trimmed) return recent;
+
+  return [
+    trimmed,
+    ...recent.filter(item => item.toLowerCase() !== trimmed.toLowerCase()),
+  ].slice(0, limit);
+};
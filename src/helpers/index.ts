@@ -2,7 +2,7 @@
 // Modern TypeScript implementation replacing legacy helpers
 
 // Core services
-export { apiService as request, apiService } from './request';
+export { apiService as request, apiService, ApiError, isNetworkError, toApiError } from './request';
 export { default as SecureStorage } from './secureStorage';
 
 // Import services for internal use
@@ -233,9 +233,12 @@ export type {
 
 export type {
   ApiResponse,
-  ApiError,
+  ApiErrorBody,
+  ApiErrorKind,
   HttpMethod,
-  RequestOptions
+  LanguageChangeListener,
+  RequestOptions,
+  RetryPolicy
 } from './request';
 
 // Main default export
@@ -0,0 +1,142 @@
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { AppNotification, LegacyNotification, NotificationItem } from '../api';
+import { RootStackParamList } from '../navigation/types';
+
+/**
+ * Notification helpers shared by the notification list and inbox search.
+ * Handles both the legacy email-log format and the notifications API format.
+ */
+
+export const isLegacyNotification = (item: NotificationItem): item is LegacyNotification => {
+  return 'user_details' in item && 'template_details' in item;
+};
+
+export const isApiNotification = (item: NotificationItem): item is AppNotification => {
+  return 'title' in item && 'body' in item && 'type' in item;
+};
+
+/**
+ * Get the sender or title shown for a notification
+ */
+export const getNotificationTitle = (item: NotificationItem): string => {
+  if (isLegacyNotification(item)) {
+    return item.user_details.first_name || 'Unknown User';
+  } else if (isApiNotification(item)) {
+    return item.title || 'Notification';
+  }
+  return 'Notification';
+};
+
+/**
+ * Get the text shown below a notification's title
+ */
+export const getNotificationContent = (item: NotificationItem): string => {
+  if (isLegacyNotification(item)) {
+    return item.template_details.subject ||
+           item.template_details.text ||
+           'No content available';
+  } else if (isApiNotification(item)) {
+    return item.body || item.title || 'No content available';
+  }
+  return 'No content available';
+};
+
+/**
+ * Get the Feather icon name for a notification
+ */
+export const getNotificationIcon = (item: NotificationItem): string => {
+  if (isLegacyNotification(item)) {
+    return item.template_details.subject ? 'mail' : 'message-circle';
+  } else if (isApiNotification(item)) {
+    switch (item.type) {
+      case 'EMAIL':
+        return 'mail';
+      case 'MESSAGE':
+        return 'message-circle';
+      case 'GENERAL':
+      default:
+        return 'bell';
+    }
+  }
+  return 'bell';
+};
+
+/**
+ * Open the email or conversation a notification refers to
+ */
+export const openNotification = (
+  navigation: Pick<NativeStackNavigationProp<RootStackParamList>, 'navigate'>,
+  item: NotificationItem
+): void => {
+  if (isLegacyNotification(item)) {
+    // Handle legacy format
+    const userName = item.user_details.first_name || 'Unknown User';
+    const isEmail = !!item.template_details.subject;
+
+    if (isEmail) {
+      navigation.navigate('Email', {
+        data: {
+          ...item,
+          template_details: {
+            subject: item.template_details.subject || '',
+            body: item.template_details.text || '',
+          },
+        },
+        title: userName,
+      });
+    } else {
+      navigation.navigate('SMS', {
+        data: {
+          ...item,
+          text: item.template_details.text || '',
+          unread_count: item.unread_count || 0,
+        },
+        title: userName,
+      });
+    }
+  } else if (isApiNotification(item)) {
+    // Handle new API format
+    const notificationTitle = item.title || 'Notification';
+
+    if (item.type === 'EMAIL') {
+      navigation.navigate('Email', {
+        data: {
+          id: item.id,
+          user_details: { first_name: notificationTitle },
+          template_details: {
+            subject: item.title,
+            body: item.body,
+          },
+          created_at: item.created_at,
+        },
+        title: notificationTitle,
+      });
+    } else if (item.type === 'MESSAGE') {
+      // Handle MESSAGE type (SMS/WhatsApp)
+      navigation.navigate('SMS', {
+        data: {
+          id: item.id,
+          moderator_details: { first_name: notificationTitle },
+          text: item.body,
+          contact: item.extra?.ph_no,
+          created_at: item.created_at,
+          unread_count: item.read ? 0 : 1,
+        },
+        title: notificationTitle,
+      });
+    } else {
+      // Handle GENERAL or other types - default to showing message details
+      console.log('General notification tapped:', item);
+      navigation.navigate('SMS', {
+        data: {
+          id: item.id,
+          moderator_details: { first_name: notificationTitle },
+          text: item.body,
+          created_at: item.created_at,
+          unread_count: item.read ? 0 : 1,
+        },
+        title: notificationTitle,
+      });
+    }
+  }
+};
@@ -0,0 +1,338 @@
+import { Payment, PaymentStatus, StudentPackage } from '../api';
+import { addDaysToDate, addMonthsToDate, formatDate, getCalendarDaysBetween } from './dateUtils';
+
+/**
+ * Payment status of the packages returned by `me/packages`, the single source for every
+ * screen showing what was paid, what is due and what is overdue.
+ *
+ * The API reports payments inconsistently: installments carry `status` ('paid' / 'pending'),
+ * upfront payments `payment_status`, and older records only a `payment_date`. Any of the
+ * three marks a payment as paid; unpaid payments become overdue the day after their due date.
+ */
+
+export type PaymentKind = 'upfront' | 'installment';
+
+/**
+ * Upfront payment or installment with its computed status
+ */
+export interface PaymentItem {
+  id: number;
+  packageId: number;
+  kind: PaymentKind;
+  /** Position among the package's payments of the same kind, from 1 */
+  number: number;
+  amount: number;
+  /** `yyyy-MM-dd` */
+  dueDate: string;
+  status: PaymentStatus;
+  /** Calendar days past the due date, 0 unless overdue */
+  daysOverdue: number;
+  paidAt?: string;
+  method?: string;
+  notes?: string;
+}
+
+export interface PaymentTotals {
+  total: number;
+  paid: number;
+  /** Still to pay */
+  balance: number;
+}
+
+export interface PackagePayments {
+  packageId: number;
+  upfront: PaymentItem[];
+  installments: PaymentItem[];
+  /** Every payment, by due date */
+  items: PaymentItem[];
+  upfrontTotals: PaymentTotals;
+  installmentTotals: PaymentTotals;
+  /** Upfront and installments together */
+  totals: PaymentTotals;
+  /** Paid share of the total, 0-100 */
+  progress: number;
+  overdue: PaymentItem[];
+  overdueAmount: number;
+  /** Oldest unpaid payment, overdue ones first since they are the oldest */
+  nextDue: PaymentItem | null;
+}
+
+const isPaid = (payment: Payment): boolean =>
+  payment.payment_status === 'PAID' ||
+  payment.status?.toLowerCase() === 'paid' ||
+  !!payment.payment_date;
+
+const byDueDate = (a: PaymentItem, b: PaymentItem): number =>
+  a.dueDate.localeCompare(b.dueDate) || a.id - b.id;
+
+/**
+ * Normalize one payment of a package
+ */
+export const toPaymentItem = (
+  payment: Payment,
+  kind: PaymentKind,
+  index: number,
+  packageId: number,
+  now: Date = new Date()
+): PaymentItem => {
+  const dueDate = payment.due_date.slice(0, 10);
+  const paid = isPaid(payment);
+  const daysLate = paid ? 0 : getCalendarDaysBetween(dueDate, now);
+  const overdue = !paid && (daysLate > 0 || payment.payment_status === 'OVERDUE');
+
+  let status: PaymentStatus = 'UNPAID';
+  if (paid) {
+    status = 'PAID';
+  } else if (overdue) {
+    status = 'OVERDUE';
+  }
+
+  return {
+    id: payment.id,
+    packageId,
+    kind,
+    number: payment.installment_number ?? index + 1,
+    amount: payment.amount,
+    dueDate,
+    status,
+    daysOverdue: overdue ? Math.max(daysLate, 0) : 0,
+    paidAt: payment.payment_date,
+    method: payment.payment_method,
+    notes: payment.notes,
+  };
+};
+
+/**
+ * Normalize a list of payments of one kind, oldest due first
+ */
+export const getPaymentItems = (
+  payments: Payment[] = [],
+  kind: PaymentKind,
+  packageId: number = 0,
+  now: Date = new Date()
+): PaymentItem[] =>
+  payments.map((payment, index) => toPaymentItem(payment, kind, index, packageId, now)).sort(byDueDate);
+
+export const getTotals = (items: PaymentItem[]): PaymentTotals => {
+  const total = items.reduce((sum, item) => sum + item.amount, 0);
+  const paid = items.filter(item => item.status === 'PAID').reduce((sum, item) => sum + item.amount, 0);
+  return { total, paid, balance: total - paid };
+};
+
+/**
+ * Status, totals and next due payment of a package
+ */
+export const getPackagePayments = (data: StudentPackage, now: Date = new Date()): PackagePayments => {
+  const upfront = getPaymentItems(data.upfront_payments_details, 'upfront', data.id, now);
+  const installments = getPaymentItems(data.installments_details, 'installment', data.id, now);
+  const items = [...upfront, ...installments].sort(byDueDate);
+
+  const upfrontTotals = getTotals(upfront);
+  const installmentTotals = getTotals(installments);
+  const paid = upfrontTotals.paid + installmentTotals.paid;
+  // The package price is authoritative when payments don't add up to it yet
+  const total = Math.max(data.final_amount ?? 0, upfrontTotals.total + installmentTotals.total);
+
+  const overdue = items.filter(item => item.status === 'OVERDUE');
+
+  return {
+    packageId: data.id,
+    upfront,
+    installments,
+    items,
+    upfrontTotals,
+    installmentTotals,
+    totals: { total, paid, balance: total - paid },
+    progress: total > 0 ? Math.min(100, Math.round((paid / total) * 100)) : 0,
+    overdue,
+    overdueAmount: overdue.reduce((sum, item) => sum + item.amount, 0),
+    nextDue: items.find(item => item.status !== 'PAID') || null,
+  };
+};
+
+/**
+ * When to remind the student about unpaid payments
+ */
+export interface PaymentReminderSettings {
+  enabled: boolean;
+  /** Days before the due date, one reminder each */
+  leadDays: number[];
+  /** Remind on the day a payment becomes overdue */
+  onOverdue: boolean;
+}
+
+export interface PaymentReminder {
+  /** Stable per payment and kind, so planning again yields the same reminders */
+  key: string;
+  kind: 'upcoming' | 'overdue';
+  /** Days before the due date, 0 for overdue reminders */
+  leadDays: number;
+  fireAt: Date;
+  item: PaymentItem;
+}
+
+/** Local hour reminders are shown at */
+export const REMINDER_HOUR = 9;
+
+const atReminderHour = (date: Date): Date => {
+  const result = new Date(date);
+  result.setHours(REMINDER_HOUR, 0, 0, 0);
+  return result;
+};
+
+/**
+ * Reminders still ahead for the unpaid payments of some packages, soonest first.
+ * A payment becomes overdue the day after its due date.
+ */
+export const planPaymentReminders = (
+  packages: StudentPackage[],
+  settings: PaymentReminderSettings,
+  now: Date = new Date()
+): PaymentReminder[] => {
+  if (!settings.enabled) return [];
+
+  const reminders: PaymentReminder[] = [];
+  packages.forEach(pkg => {
+    getPackagePayments(pkg, now).items
+      .filter(item => item.status !== 'PAID')
+      .forEach(item => {
+        settings.leadDays.forEach(leadDays => {
+          reminders.push({
+            key: `${item.id}:before-${leadDays}`,
+            kind: 'upcoming',
+            leadDays,
+            fireAt: atReminderHour(addDaysToDate(item.dueDate, -leadDays)),
+            item,
+          });
+        });
+        if (settings.onOverdue) {
+          reminders.push({
+            key: `${item.id}:overdue`,
+            kind: 'overdue',
+            leadDays: 0,
+            fireAt: atReminderHour(addDaysToDate(item.dueDate, 1)),
+            item,
+          });
+        }
+      });
+  });
+
+  return reminders
+    .filter(reminder => reminder.fireAt.getTime() > now.getTime())
+    .sort((a, b) => a.fireAt.getTime() - b.fireAt.getTime() || a.key.localeCompare(b.key));
+};
+
+export type PaymentStatusFilter = PaymentStatus | 'ALL';
+
+export interface PaymentOverviewFilters {
+  /** Only this package; null for all of them */
+  packageId: number | null;
+  /** Narrows the timeline and the upcoming months; totals always cover the whole package */
+  status: PaymentStatusFilter;
+}
+
+export interface PaymentOverviewTotals {
+  /** Price of the packages, including payments not scheduled yet */
+  committed: number;
+  paid: number;
+  outstanding: number;
+  overdue: number;
+}
+
+/**
+ * One moment in the life of a payment: it was due, it became overdue, it was paid
+ */
+export interface PaymentTimelineEvent {
+  key: string;
+  type: 'due' | 'overdue' | 'paid';
+  /** `yyyy-MM-dd` */
+  date: string;
+  item: PaymentItem;
+}
+
+export interface MonthlyObligation {
+  /** `yyyy-MM` */
+  month: string;
+  amount: number;
+  count: number;
+}
+
+export interface PaymentOverview {
+  totals: PaymentOverviewTotals;
+  /** Oldest first, scheduled due dates included */
+  timeline: PaymentTimelineEvent[];
+  /** Unpaid payments not due yet, by month from the current one; empty months included */
+  upcoming: MonthlyObligation[];
+}
+
+/** Months of upcoming obligations in the overview, the current one included */
+export const UPCOMING_MONTHS = 12;
+
+const EVENT_ORDER: Record<PaymentTimelineEvent['type'], number> = { due: 0, overdue: 1, paid: 2 };
+
+const getTimelineEvents = (item: PaymentItem): PaymentTimelineEvent[] => {
+  const events: PaymentTimelineEvent[] = [{ key: `${item.id}:due`, type: 'due', date: item.dueDate, item }];
+  if (item.status === 'OVERDUE') {
+    events.push({
+      key: `${item.id}:overdue`,
+      type: 'overdue',
+      date: formatDate(addDaysToDate(item.dueDate, 1), 'yyyy-MM-dd'),
+      item,
+    });
+  }
+  if (item.status === 'PAID') {
+    // Payments flagged paid without a date count as paid when due
+    events.push({ key: `${item.id}:paid`, type: 'paid', date: (item.paidAt || item.dueDate).slice(0, 10), item });
+  }
+  return events;
+};
+
+/**
+ * Totals, payment timeline and upcoming monthly obligations across packages
+ */
+export const getPaymentOverview = (
+  packages: StudentPackage[],
+  filters: PaymentOverviewFilters = { packageId: null, status: 'ALL' },
+  now: Date = new Date()
+): PaymentOverview => {
+  const selected = packages
+    .filter(pkg => filters.packageId === null || pkg.id === filters.packageId)
+    .map(pkg => getPackagePayments(pkg, now));
+
+  const totals = selected.reduce<PaymentOverviewTotals>(
+    (sum, payments) => ({
+      committed: sum.committed + payments.totals.total,
+      paid: sum.paid + payments.totals.paid,
+      outstanding: sum.outstanding + payments.totals.balance,
+      overdue: sum.overdue + payments.overdueAmount,
+    }),
+    { committed: 0, paid: 0, outstanding: 0, overdue: 0 }
+  );
+
+  const items = selected
+    .flatMap(payments => payments.items)
+    .filter(item => filters.status === 'ALL' || item.status === filters.status);
+
+  const timeline = items
+    .flatMap(getTimelineEvents)
+    .sort((a, b) =>
+      a.date.localeCompare(b.date) || EVENT_ORDER[a.type] - EVENT_ORDER[b.type] || a.item.id - b.item.id
+    );
+
+  const upcoming: MonthlyObligation[] = Array.from({ length: UPCOMING_MONTHS }, (_, index) => ({
+    month: formatDate(addMonthsToDate(new Date(now.getFullYear(), now.getMonth(), 1), index), 'yyyy-MM'),
+    amount: 0,
+    count: 0,
+  }));
+  items
+    .filter(item => item.status === 'UNPAID')
+    .forEach(item => {
+      const month = upcoming.find(candidate => candidate.month === item.dueDate.slice(0, 7));
+      if (month) {
+        month.amount += item.amount;
+        month.count += 1;
+      }
+    });
+
+  return { totals, timeline, upcoming };
+};
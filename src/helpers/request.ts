@@ -1,13 +1,56 @@
-import axios, { AxiosInstance, AxiosResponse, AxiosError } from 'axios';
+import axios, {
+  AxiosAdapter,
+  AxiosInstance,
+  AxiosResponse,
+  AxiosError,
+  InternalAxiosRequestConfig,
+} from 'axios';
+import i18n from 'i18next';
 import SecureStorage from './secureStorage';
+import { BUILD_ENVIRONMENT, ENVIRONMENTS } from './environment';
 
 // API configuration constants
+// The base URL comes from the active environment profile (see helpers/environment)
 const API_CONFIG = {
-  // BASE_URL: 'http://localhost:5000', // Development environment (if backend is local)
-  BASE_URL: 'https://crm.nfsacademy.it', // Production environment (working endpoint)
   API_VERSION: 'v1',
+  LOGIN_ENDPOINT: 'jwt',
+  REFRESH_ENDPOINT: 'jwt/refresh',
 } as const;
 
+// Storage keys for the authenticated session
+export const AUTH_STORAGE_KEYS = {
+  ACCESS_TOKEN: 'userToken',
+  REFRESH_TOKEN: 'refreshToken',
+  LEAD_ID: 'leadID',
+  USER_ID: 'userId',
+} as const;
+
+// Tokens returned by the `jwt` endpoints
+export interface AuthTokens {
+  access_token: string;
+  refresh_token?: string;
+}
+
+export type SessionExpiredListener = () => void;
+
+// Keeps the refresh token out of the plain keychain entry (e.g. behind biometrics).
+// get() may wait, e.g. until the app is unlocked.
+export interface RefreshTokenStore {
+  get(): Promise<string | null>;
+  set(refreshToken: string): Promise<void>;
+}
+
+// Notified with the new language code when the request language changes
+export type LanguageChangeListener = (language: string) => void;
+
+// Notified when requests stop or start reaching the server
+export type ConnectivityListener = (online: boolean) => void;
+
+// Axios config flagged once a request has been replayed after a refresh
+interface RetriableRequestConfig extends InternalAxiosRequestConfig {
+  _retry?: boolean;
+}
+
 // Type definitions for API responses
 export interface ApiResponse<T = any> {
   data: T;
@@ -15,7 +58,8 @@ export interface ApiResponse<T = any> {
   status: number;
 }
 
-export interface ApiError {
+// Error body returned by the API
+export interface ApiErrorBody {
   message: string;
   errors?: Array<{
     field: string;
@@ -23,6 +67,75 @@ export interface ApiError {
   }>;
 }
 
+export type ApiErrorKind =
+  | 'offline' // No response: device offline, DNS or connection failure
+  | 'timeout' // No response within the request timeout
+  | 'auth' // 401 / 403
+  | 'validation' // 400 / 422, or a response not matching its schema
+  | 'server' // 5xx
+  | 'client' // Any other 4xx
+  | 'cancelled' // Aborted through an AbortSignal
+  | 'unknown';
+
+const DEFAULT_ERROR_MESSAGES: Record<ApiErrorKind, string> = {
+  offline: 'Network Error',
+  timeout: 'Request timed out',
+  auth: 'Authentication required',
+  validation: 'Validation failed',
+  server: 'Internal server error',
+  client: 'Request failed',
+  cancelled: 'Request cancelled',
+  unknown: 'An error occurred',
+};
+
+/**
+ * Error thrown by ApiService for every failed request, classified by cause
+ */
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  /** HTTP status, when the server responded */
+  readonly status?: number;
+  /** Error body returned by the server */
+  readonly data?: ApiErrorBody;
+  /** Field errors from the error body */
+  readonly errors?: ApiErrorBody['errors'];
+  readonly originalError: unknown;
+
+  constructor(
+    kind: ApiErrorKind,
+    options: { message?: string; status?: number; data?: ApiErrorBody; originalError?: unknown } = {}
+  ) {
+    super(options.message || options.data?.message || DEFAULT_ERROR_MESSAGES[kind]);
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.status = options.status;
+    this.data = options.data;
+    this.errors = options.data?.errors;
+    this.originalError = options.originalError;
+  }
+}
+
+/**
+ * Retry policy of a request. Delays grow exponentially from `baseDelay` with jitter.
+ */
+export interface RetryPolicy {
+  /** Attempts after the first one */
+  retries: number;
+  /** Delay before the first retry (ms) */
+  baseDelay: number;
+  /** Upper bound for a single delay (ms) */
+  maxDelay: number;
+  /** Error kinds worth another attempt */
+  retryOn: ApiErrorKind[];
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 2,
+  baseDelay: 500,
+  maxDelay: 5000,
+  retryOn: ['offline', 'timeout', 'server'],
+};
+
 // HTTP methods enum
 export enum HttpMethod {
   GET = 'GET',
@@ -32,38 +145,221 @@ export enum HttpMethod {
   DELETE = 'DELETE',
 }
 
+// Methods that are retried by default
+const IDEMPOTENT_METHODS: ReadonlySet<HttpMethod> = new Set([
+  HttpMethod.GET,
+  HttpMethod.PUT,
+  HttpMethod.DELETE,
+]);
+
 // Request options interface
 export interface RequestOptions {
   headers?: Record<string, string>;
   timeout?: number;
+  /** Cancels the request, including any pending retry */
+  signal?: AbortSignal;
+  /** Override the retry policy, or `false` to never retry */
+  retry?: Partial<RetryPolicy> | false;
+  /** Mark a non-idempotent request (e.g. POST) as safe to retry */
+  idempotent?: boolean;
 }
 
+/**
+ * Classify any error thrown while performing a request
+ */
+export const toApiError = (error: any): ApiError => {
+  if (error instanceof ApiError) {
+    return error;
+  }
+
+  if (axios.isCancel(error) || error?.name === 'AbortError') {
+    return new ApiError('cancelled', { originalError: error });
+  }
+
+  if (!axios.isAxiosError(error)) {
+    return new ApiError('unknown', { message: error?.message, originalError: error });
+  }
+
+  const { response } = error;
+  if (!response) {
+    const timedOut = error.code === AxiosError.ECONNABORTED || error.code === AxiosError.ETIMEDOUT;
+    return new ApiError(timedOut ? 'timeout' : 'offline', { originalError: error });
+  }
+
+  const { status } = response;
+  const data = typeof response.data === 'object' && response.data ? (response.data as ApiErrorBody) : undefined;
+
+  let kind: ApiErrorKind = 'client';
+  if (status === 401 || status === 403) {
+    kind = 'auth';
+  } else if (status === 400 || status === 422) {
+    kind = 'validation';
+  } else if (status >= 500) {
+    kind = 'server';
+  }
+
+  return new ApiError(kind, { status, data, originalError: error });
+};
+
+/**
+ * Wait for `ms`, rejecting early with a cancelled ApiError when the signal aborts
+ */
+const wait = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new ApiError('cancelled'));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new ApiError('cancelled'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort);
+  });
+
+/**
+ * Exponential backoff with equal jitter: half the delay is fixed, half random
+ */
+export const getRetryDelay = (attempt: number, policy: RetryPolicy): number => {
+  const delay = Math.min(policy.maxDelay, policy.baseDelay * 2 ** attempt);
+  return delay / 2 + Math.random() * (delay / 2);
+};
+
 class ApiService {
   private axiosInstance: AxiosInstance;
-  public readonly baseURL: string;
-  private readonly apiURL: string;
+  private currentBaseURL: string;
+  private apiURL: string;
+  private adapter?: AxiosAdapter;
+  private readonly defaultHeaders: Record<string, string>;
+  private refreshPromise: Promise<string | null> | null = null;
+  private refreshTokenStore: RefreshTokenStore | null = null;
+  private sessionExpiredListeners = new Set<SessionExpiredListener>();
+  private language: string;
+  private languageListeners = new Set<LanguageChangeListener>();
+  private online = true;
+  private connectivityListeners = new Set<ConnectivityListener>();
 
   constructor(language: string = 'en') {
-    this.baseURL = API_CONFIG.BASE_URL;
-    this.apiURL = `${this.baseURL}/api/${API_CONFIG.API_VERSION}`;
+    this.currentBaseURL = ENVIRONMENTS[BUILD_ENVIRONMENT].baseURL;
+    this.apiURL = this.buildApiURL(this.currentBaseURL);
+    this.language = language;
 
-    // Set language headers
-    const languageHeaders = this.getLanguageHeaders(language);
+    // Accept-Language is added per request so it follows setLanguage
+    this.defaultHeaders = {
+      'Content-Type': 'application/json',
+    };
 
     // Create axios instance
     this.axiosInstance = axios.create({
       baseURL: this.apiURL,
       timeout: 10000,
-      headers: {
-        'Content-Type': 'application/json',
-        ...languageHeaders,
-      },
+      headers: this.defaultHeaders,
     });
 
     // Setup interceptors
     this.setupInterceptors();
   }
 
+  /**
+   * Root URL of the active backend, also used to build image URLs
+   */
+  get baseURL(): string {
+    return this.currentBaseURL;
+  }
+
+  private buildApiURL(baseURL: string): string {
+    return `${baseURL}/api/${API_CONFIG.API_VERSION}`;
+  }
+
+  /**
+   * Point every subsequent request at another backend
+   */
+  setBaseURL(baseURL: string): void {
+    this.currentBaseURL = baseURL;
+    this.apiURL = this.buildApiURL(baseURL);
+    this.axiosInstance.defaults.baseURL = this.apiURL;
+    console.log('🌐 API base URL set to:', this.apiURL);
+  }
+
+  /**
+   * Serve requests through a custom adapter (e.g. the mock backend), or the default one when omitted
+   */
+  setAdapter(adapter?: AxiosAdapter): void {
+    this.adapter = adapter;
+    this.axiosInstance.defaults.adapter = adapter || axios.defaults.adapter;
+  }
+
+  /**
+   * Language sent in the Accept-Language header
+   */
+  getLanguage(): string {
+    return this.language;
+  }
+
+  /**
+   * Send subsequent requests in another language and notify the listeners
+   */
+  setLanguage(language: string): void {
+    if (language === this.language) return;
+
+    console.log(`🌍 API language: ${this.language} → ${language}`);
+    this.language = language;
+    this.languageListeners.forEach(listener => {
+      try {
+        listener(language);
+      } catch (error) {
+        console.error('❌ Language change listener failed:', error);
+      }
+    });
+  }
+
+  /**
+   * Subscribe to request language changes. Returns an unsubscribe function.
+   */
+  onLanguageChange(listener: LanguageChangeListener): () => void {
+    this.languageListeners.add(listener);
+    return () => {
+      this.languageListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Whether the last request reached the server. Any response counts, error statuses included.
+   */
+  isOnline(): boolean {
+    return this.online;
+  }
+
+  /**
+   * Subscribe to connectivity changes seen by requests. Returns an unsubscribe function.
+   */
+  onConnectivityChange(listener: ConnectivityListener): () => void {
+    this.connectivityListeners.add(listener);
+    return () => {
+      this.connectivityListeners.delete(listener);
+    };
+  }
+
+  private setOnline(online: boolean): void {
+    if (online === this.online) return;
+
+    console.log(online ? '📶 Back online' : '📵 Offline: requests are not reaching the server');
+    this.online = online;
+    this.connectivityListeners.forEach(listener => {
+      try {
+        listener(online);
+      } catch (error) {
+        console.error('❌ Connectivity listener failed:', error);
+      }
+    });
+  }
+
   /**
    * Get language-specific headers
    */
@@ -85,8 +381,20 @@ class ApiService {
     // Request interceptor - add auth token
     this.axiosInstance.interceptors.request.use(
       async (config) => {
+        // Hold requests issued while a refresh is running so they use the new token
+        if (this.refreshPromise && !this.isAuthEndpoint(config.url)) {
+          await this.refreshPromise;
+        }
+
+        // Explicit per-request headers win over the current language
+        Object.entries(this.getLanguageHeaders(this.language)).forEach(([name, value]) => {
+          if (!config.headers[name]) {
+            config.headers[name] = value;
+          }
+        });
+
         try {
-          const userToken = await SecureStorage.getItem('userToken');
+          const userToken = await SecureStorage.getItem(AUTH_STORAGE_KEYS.ACCESS_TOKEN);
           
           if (userToken) {
             config.headers.Authorization = `Bearer ${userToken}`;
@@ -121,20 +429,148 @@ class ApiService {
         
         return response;
       },
-      (error: AxiosError) => {
+      async (error: AxiosError) => {
+        const originalRequest = error.config as RetriableRequestConfig | undefined;
+
+        if (
+          error.response?.status === 401 &&
+          originalRequest &&
+          !originalRequest._retry &&
+          !this.isAuthEndpoint(originalRequest.url)
+        ) {
+          originalRequest._retry = true;
+          const newToken = await this.refreshAccessToken();
+
+          if (newToken) {
+            console.log('🔄 Replaying request with refreshed token:', originalRequest.url);
+            originalRequest.headers.Authorization = `Bearer ${newToken}`;
+            return this.axiosInstance.request(originalRequest);
+          }
+        }
+
         this.handleApiError(error);
         return Promise.reject(error);
       }
     );
   }
 
+  /**
+   * Check whether a URL targets the login/refresh endpoints, which must never trigger a refresh
+   */
+  private isAuthEndpoint(url?: string): boolean {
+    if (!url) return false;
+    const path = url.replace(this.apiURL, '').replace(/^\/+/, '').split('?')[0];
+    return path === API_CONFIG.LOGIN_ENDPOINT || path === API_CONFIG.REFRESH_ENDPOINT;
+  }
+
+  /**
+   * Keep refresh tokens in the given store instead of the keychain, or in the keychain again when null
+   */
+  setRefreshTokenStore(store: RefreshTokenStore | null): void {
+    this.refreshTokenStore = store;
+  }
+
+  /**
+   * Persist the tokens returned by the `jwt` endpoints
+   */
+  async storeTokens(tokens: AuthTokens): Promise<void> {
+    await SecureStorage.setItem(AUTH_STORAGE_KEYS.ACCESS_TOKEN, tokens.access_token);
+    if (!tokens.refresh_token) return;
+
+    if (this.refreshTokenStore) {
+      await this.refreshTokenStore.set(tokens.refresh_token);
+    } else {
+      await SecureStorage.setItem(AUTH_STORAGE_KEYS.REFRESH_TOKEN, tokens.refresh_token);
+    }
+  }
+
+  /**
+   * Refresh the access token, sharing a single in-flight call between concurrent callers
+   */
+  refreshAccessToken(): Promise<string | null> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.performTokenRefresh().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  /**
+   * Exchange the stored refresh token for a new access token.
+   * Expires the session when the refresh token is missing or rejected.
+   */
+  private async performTokenRefresh(): Promise<string | null> {
+    const refreshToken = this.refreshTokenStore
+      ? await this.refreshTokenStore.get()
+      : await SecureStorage.getItem(AUTH_STORAGE_KEYS.REFRESH_TOKEN);
+
+    if (!refreshToken) {
+      console.warn('⚠️ No refresh token found - cannot refresh session');
+      await this.expireSession();
+      return null;
+    }
+
+    try {
+      console.log('🔄 Access token expired, refreshing...');
+      // Bypass the instance interceptors so a 401 here cannot recurse into another refresh
+      const response = await axios.post(
+        `${this.apiURL}/${API_CONFIG.REFRESH_ENDPOINT}`,
+        { data: { refresh_token: refreshToken } },
+        {
+          timeout: 10000,
+          headers: { ...this.defaultHeaders, ...this.getLanguageHeaders(this.language) },
+          adapter: this.adapter,
+        }
+      );
+
+      const tokens: AuthTokens | undefined = response.data?.data || response.data;
+      if (!tokens?.access_token) {
+        throw new Error('Refresh response did not include an access token');
+      }
+
+      await this.storeTokens(tokens);
+      console.log('✅ Access token refreshed');
+      return tokens.access_token;
+    } catch (error) {
+      console.error('❌ Token refresh failed:', error);
+      await this.expireSession();
+      return null;
+    }
+  }
+
+  /**
+   * Notify listeners that the session can no longer be refreshed.
+   * Clearing storage and navigation are left to the session manager.
+   */
+  private async expireSession(): Promise<void> {
+    console.warn('🔒 Session expired, notifying listeners');
+    this.sessionExpiredListeners.forEach(listener => {
+      try {
+        listener();
+      } catch (error) {
+        console.error('❌ Session expired listener failed:', error);
+      }
+    });
+  }
+
+  /**
+   * Subscribe to session expiry (refresh failed). Returns an unsubscribe function.
+   */
+  onSessionExpired(listener: SessionExpiredListener): () => void {
+    this.sessionExpiredListeners.add(listener);
+    return () => {
+      this.sessionExpiredListeners.delete(listener);
+    };
+  }
+
   /**
    * Handle API errors with proper logging
    */
   private handleApiError(error: AxiosError): void {
     if (error.response) {
       const status = error.response.status;
-      const data = error.response.data as ApiError;
+      const data = (error.response.data || {}) as ApiErrorBody;
 
       switch (status) {
         case 400:
@@ -142,7 +578,6 @@ class ApiService {
           break;
         case 401:
           console.error('Unauthorized:', data.message || 'Authentication required');
-          // Handle logout/redirect logic here if needed
           break;
         case 422:
           console.error('Validation Error:', data.message || 'Validation failed');
@@ -160,8 +595,22 @@ class ApiService {
     }
   }
 
+  /**
+   * Resolve the retry policy of a request. Only idempotent requests are retried
+   * unless the caller marks them as safe.
+   */
+  private getRetryPolicy(method: HttpMethod, options?: RequestOptions): RetryPolicy | null {
+    if (options?.retry === false) return null;
+
+    const idempotent = options?.idempotent ?? IDEMPOTENT_METHODS.has(method);
+    if (!idempotent) return null;
+
+    return { ...DEFAULT_RETRY_POLICY, ...options?.retry };
+  }
+
   /**
    * Generic request method
+   * Retries failed idempotent requests with backoff and throws a classified ApiError.
    */
   async request<T = any>(
     method: HttpMethod,
@@ -169,20 +618,40 @@ class ApiService {
     data?: any,
     options?: RequestOptions
   ): Promise<ApiResponse<T>> {
-    try {
-      const response = await this.axiosInstance.request({
-        method,
-        url: endpoint,
-        data,
-        ...options,
-      });
+    const policy = this.getRetryPolicy(method, options);
 
-      return {
-        data: response.data,
-        status: response.status,
-      };
-    } catch (error) {
-      throw error;
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await this.axiosInstance.request({
+          method,
+          url: endpoint,
+          data,
+          headers: options?.headers,
+          timeout: options?.timeout,
+          signal: options?.signal,
+        });
+
+        this.setOnline(true);
+        return {
+          data: response.data,
+          status: response.status,
+        };
+      } catch (error) {
+        const apiError = toApiError(error);
+        if (apiError.kind === 'offline' || apiError.kind === 'timeout') {
+          this.setOnline(false);
+        } else if (apiError.status) {
+          this.setOnline(true);
+        }
+
+        if (!policy || attempt >= policy.retries || !policy.retryOn.includes(apiError.kind)) {
+          throw apiError;
+        }
+
+        const delay = getRetryDelay(attempt, policy);
+        console.log(`🔁 Retrying ${method} ${endpoint} in ${Math.round(delay)}ms (${apiError.kind}, attempt ${attempt + 1}/${policy.retries})`);
+        await wait(delay, options?.signal);
+      }
     }
   }
 
@@ -264,7 +733,7 @@ class ApiService {
    */
   async checkAuth(): Promise<{ isAuthenticated: boolean; token?: string; error?: string }> {
     try {
-      const userToken = await SecureStorage.getItem('userToken');
+      const userToken = await SecureStorage.getItem(AUTH_STORAGE_KEYS.ACCESS_TOKEN);
       
       console.log('🔍 Auth Check:', {
         hasToken: !!userToken,
@@ -291,8 +760,19 @@ class ApiService {
   }
 }
 
+/**
+ * Check whether a request failed without reaching the server (offline, DNS, timeout)
+ */
+export const isNetworkError = (error: any): boolean => {
+  const { kind } = toApiError(error);
+  return kind === 'offline' || kind === 'timeout';
+};
+
 // Create and export a singleton instance
-export const apiService = new ApiService();
+export const apiService = new ApiService(i18n.language || 'en');
+
+// Follow the language picked in the app (also fired once i18n finishes initializing)
+i18n.on('languageChanged', (language) => apiService.setLanguage(language));
 
 // Export the class for custom instances if needed
 export default ApiService;
@@ -73,6 +73,46 @@ export class SecureStorage {
     }
   }
 
+  /**
+   * Store a value that can only be read back after a biometric check.
+   * The item is bound to the current biometric set and never leaves the device.
+   */
+  static async setProtectedItem(key: string, value: string): Promise<void> {
+    try {
+      await Keychain.setInternetCredentials(key, key, value, {
+        accessControl: Keychain.ACCESS_CONTROL.BIOMETRY_CURRENT_SET,
+        accessible: Keychain.ACCESSIBLE.WHEN_PASSCODE_SET_THIS_DEVICE_ONLY,
+      });
+    } catch (error) {
+      console.error(`Failed to store protected ${key} in keychain:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieve a biometric-protected value, prompting the user.
+   * Unlike getItem, a failed or cancelled prompt rejects so callers can tell it from a missing item.
+   */
+  static async getProtectedItem(key: string, prompt: Keychain.AuthenticationPrompt): Promise<string | null> {
+    const credentials = await Keychain.getInternetCredentials(key, {
+      accessControl: Keychain.ACCESS_CONTROL.BIOMETRY_CURRENT_SET,
+      authenticationPrompt: prompt,
+    });
+    return credentials && credentials.password ? credentials.password : null;
+  }
+
+  /**
+   * Biometry the device offers (Face ID, fingerprint, ...), or null when none is enrolled
+   */
+  static async getBiometryType(): Promise<Keychain.BIOMETRY_TYPE | null> {
+    try {
+      return await Keychain.getSupportedBiometryType();
+    } catch (error) {
+      console.warn('⚠️ Failed to read supported biometry:', error);
+      return null;
+    }
+  }
+
   /**
    * Check if keychain services are available
    */
@@ -0,0 +1,105 @@
+import { PackageDetails } from '../api';
+import { escapeHtml } from './html';
+
+/**
+ * Printable payment documents (receipts and statements of account), rendered to PDF by
+ * PDFService. Documents arrive already localized; this only lays them out.
+ */
+
+export interface PaymentDocumentColumn {
+  title: string;
+  /** Amount columns are right-aligned */
+  align?: 'left' | 'right';
+}
+
+export interface PaymentDocumentTotal {
+  label: string;
+  value: string;
+  /** Printed larger, e.g. the balance */
+  emphasis?: boolean;
+}
+
+export interface PaymentDocument {
+  title: string;
+  /** Lines under the title, e.g. the receipt number and the generation date */
+  details: string[];
+  /** Label/value pairs above the table, e.g. the student and the package */
+  parties: Array<{ label: string; value: string }>;
+  columns: PaymentDocumentColumn[];
+  /** One cell per column */
+  rows: string[][];
+  totals: PaymentDocumentTotal[];
+  /** Small print at the end of the document */
+  note?: string;
+}
+
+/**
+ * Package name in the app's language
+ */
+export const getPackageName = (details: PackageDetails, language: string): string =>
+  (language.startsWith('it') ? details.italian_name : details.name) || details.name || details.italian_name;
+
+const alignClass = (column?: PaymentDocumentColumn): string => (column?.align === 'right' ? ' class="amount"' : '');
+
+/**
+ * Full HTML page of a receipt or statement. Rows are kept whole across page breaks
+ * and the table header repeats on every page.
+ */
+export const buildPaymentDocumentHtml = (document: PaymentDocument): string => {
+  const header = document.columns
+    .map(column => `<th${alignClass(column)}>${escapeHtml(column.title)}</th>`)
+    .join('');
+  const rows = document.rows
+    .map(row => `<tr>${row.map((cell, index) => `<td${alignClass(document.columns[index])}>${escapeHtml(cell)}</td>`).join('')}</tr>`)
+    .join('');
+  const totals = document.totals
+    .map(total => `
+      <tr${total.emphasis ? ' class="emphasis"' : ''}>
+        <td>${escapeHtml(total.label)}</td>
+        <td class="amount">${escapeHtml(total.value)}</td>
+      </tr>`)
+    .join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <title>${escapeHtml(document.title)}</title>
+  <style>
+    @page { size: A4; margin: 18mm 15mm; }
+    body { font-family: Arial, sans-serif; font-size: 12px; line-height: 1.5; color: #2c3e50; margin: 0; }
+    .header { border-bottom: 2px solid #0052CD; padding-bottom: 8px; margin-bottom: 12px; }
+    .header h1 { font-size: 20px; color: #0052CD; margin: 0; }
+    .header p { font-size: 11px; color: #7f8c8d; margin: 2px 0 0; }
+    .parties { margin-bottom: 16px; }
+    .parties div { margin-bottom: 2px; }
+    .parties span { color: #7f8c8d; }
+    table { width: 100%; border-collapse: collapse; }
+    th { font-size: 11px; color: #7f8c8d; text-align: left; border-bottom: 1px solid #d0d7de; padding: 6px 4px; }
+    td { padding: 6px 4px; border-bottom: 1px solid #eef1f4; vertical-align: top; }
+    tr { page-break-inside: avoid; }
+    thead { display: table-header-group; }
+    .amount { text-align: right; white-space: nowrap; }
+    .totals { width: 50%; margin: 16px 0 0 auto; page-break-inside: avoid; }
+    .totals td { border-bottom: none; padding: 3px 4px; }
+    .totals .emphasis td { font-size: 14px; font-weight: bold; border-top: 2px solid #0052CD; padding-top: 6px; }
+    .note { font-size: 10px; color: #7f8c8d; margin-top: 24px; }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <h1>${escapeHtml(document.title)}</h1>
+    ${document.details.map(line => `<p>${escapeHtml(line)}</p>`).join('')}
+  </div>
+  <div class="parties">
+    ${document.parties.map(party => `<div><span>${escapeHtml(party.label)}:</span> <strong>${escapeHtml(party.value)}</strong></div>`).join('')}
+  </div>
+  <table>
+    <thead><tr>${header}</tr></thead>
+    <tbody>${rows}</tbody>
+  </table>
+  <table class="totals">${totals}</table>
+  ${document.note ? `<p class="note">${escapeHtml(document.note)}</p>` : ''}
+</body>
+</html>`;
+};
@@ -0,0 +1,139 @@
+import { EmailLog } from '../api';
+import { formatDate, formatTime } from './dateUtils';
+import { escapeHtml, isHtml, parseSafeHtml, serializeHtml, HtmlNode } from './html';
+
+/**
+ * Printable transcripts of conversations and email threads, rendered to PDF by PDFService
+ */
+
+export interface TranscriptEntry {
+  id: number | string;
+  sender: string;
+  /** `yyyy-MM-dd HH:mm:ss` */
+  sentAt: string;
+  /** Sent by the student */
+  outgoing: boolean;
+  subject?: string;
+  /** Plain text or HTML */
+  body: string;
+}
+
+export interface TranscriptDocument {
+  title: string;
+  /** Lines under the title, e.g. the contact and the generation date */
+  details: string[];
+  entries: TranscriptEntry[];
+}
+
+export interface TranscriptDay {
+  /** `yyyy-MM-dd` */
+  day: string;
+  entries: TranscriptEntry[];
+}
+
+/**
+ * Entries oldest first, grouped by the day they were sent
+ */
+export const groupByDay = (entries: TranscriptEntry[]): TranscriptDay[] => {
+  const days: TranscriptDay[] = [];
+  [...entries]
+    .sort((a, b) => a.sentAt.localeCompare(b.sentAt))
+    .forEach(entry => {
+      const day = entry.sentAt.slice(0, 10);
+      const last = days[days.length - 1];
+      if (last?.day === day) {
+        last.entries.push(entry);
+      } else {
+        days.push({ day, entries: [entry] });
+      }
+    });
+  return days;
+};
+
+/**
+ * Subject without reply and forward prefixes, for matching the emails of a thread
+ */
+export const getThreadSubject = (subject: string): string =>
+  subject.replace(/^\s*(?:(?:re|fw|fwd|r|i)\s*:\s*)+/i, '').trim().toLowerCase();
+
+/**
+ * Emails sharing the subject of an email, itself included
+ */
+export const getEmailThread = (emails: EmailLog[], email: EmailLog): EmailLog[] => {
+  const subject = getThreadSubject(email.template_details.subject);
+  const thread = emails.filter(
+    item => item.id !== email.id && getThreadSubject(item.template_details.subject) === subject
+  );
+  return [email, ...thread];
+};
+
+/**
+ * Images on the CRM need the session headers, which the PDF renderer can't send
+ */
+const withPrintableImages = (nodes: HtmlNode[]): HtmlNode[] =>
+  nodes.flatMap((node): HtmlNode[] => {
+    if (node.type === 'text') return [node];
+    if (node.tag === 'img') {
+      return /^(?:https?:|data:)/i.test(node.attributes.src)
+        ? [node]
+        : node.attributes.alt ? [{ type: 'text', text: `[${node.attributes.alt}]` }] : [];
+    }
+    return [{ ...node, children: withPrintableImages(node.children) }];
+  });
+
+const renderBody = (body: string): string =>
+  isHtml(body)
+    ? `<div class="body">${serializeHtml(withPrintableImages(parseSafeHtml(body)))}</div>`
+    : `<div class="body text">${escapeHtml(body.trim())}</div>`;
+
+const renderEntry = (entry: TranscriptEntry): string => `
+  <div class="entry${entry.outgoing ? ' outgoing' : ''}">
+    <div class="meta"><strong>${escapeHtml(entry.sender)}</strong> · ${formatTime(entry.sentAt)}</div>
+    ${entry.subject ? `<div class="subject">${escapeHtml(entry.subject)}</div>` : ''}
+    ${renderBody(entry.body)}
+  </div>`;
+
+/**
+ * Full HTML page of a transcript. Day separators start each day and entries are kept
+ * whole across page breaks.
+ */
+export const buildTranscriptHtml = (transcript: TranscriptDocument): string => {
+  const days = groupByDay(transcript.entries)
+    .map(({ day, entries }) => `
+      <div class="day">${escapeHtml(formatDate(day, 'EEEE, dd MMMM yyyy'))}</div>
+      ${entries.map(renderEntry).join('')}`)
+    .join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <title>${escapeHtml(transcript.title)}</title>
+  <style>
+    @page { size: A4; margin: 18mm 15mm; }
+    body { font-family: Arial, sans-serif; font-size: 12px; line-height: 1.5; color: #2c3e50; margin: 0; }
+    .header { border-bottom: 2px solid #0052CD; padding-bottom: 8px; margin-bottom: 12px; }
+    .header h1 { font-size: 20px; color: #0052CD; margin: 0; }
+    .header p { font-size: 11px; color: #7f8c8d; margin: 2px 0 0; }
+    .day { font-size: 11px; color: #7f8c8d; text-align: center; text-transform: uppercase; margin: 16px 0 8px; page-break-after: avoid; }
+    .entry { page-break-inside: avoid; margin-bottom: 8px; padding: 8px 12px; border-left: 3px solid #0052CD; border-radius: 4px; background: #f4f6f8; }
+    .entry.outgoing { border-left-color: #27ae60; background: #eef7ee; }
+    .meta { font-size: 11px; color: #7f8c8d; margin-bottom: 4px; }
+    .meta strong { color: #2c3e50; }
+    .subject { font-weight: bold; margin-bottom: 4px; }
+    .text { white-space: pre-wrap; }
+    .body { word-wrap: break-word; }
+    .body img { max-width: 100%; }
+    .body table { border-collapse: collapse; }
+    .body td, .body th { border: 1px solid #d0d7de; padding: 4px; }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <h1>${escapeHtml(transcript.title)}</h1>
+    ${transcript.details.map(line => `<p>${escapeHtml(line)}</p>`).join('')}
+  </div>
+  ${days}
+</body>
+</html>`;
+};
@@ -12,6 +12,18 @@ export { useSecureStorage, useUserToken, useUserId, useMultipleSecureStorage } f
 export { useDebounce, useDebouncedCallback, useDebouncedSearch } from './useDebounce';
 export { useForm } from './useForm';
 export { useNotifications, useNotificationDebug } from './useNotifications';
+export { useEnvironment } from './useEnvironment';
+export { useBiometricLock } from './useBiometricLock';
+export { useAccounts } from './useAccounts';
+export { useMessageComposer, mergeOutgoingMessages } from './useMessageComposer';
+export { useRealtime } from './useRealtime';
+export { useInboxSearch } from './useInboxSearch';
+export { useUnreadCounts } from './useUnreadCounts';
+export { useEmailAttachments } from './useEmailAttachments';
+export { usePdfExport } from './usePdfExport';
+export { useDraft, useDrafts } from './useDraft';
+export { useCheckout } from './useCheckout';
+export { usePaymentReminders } from './usePaymentReminders';
 
 // Re-export types for convenience
 export type {
@@ -42,6 +54,23 @@ export type {
   UseNotificationsOptions,
 } from './useNotifications';
 
+export type { UseEnvironmentReturn } from './useEnvironment';
+export type { UseBiometricLockReturn } from './useBiometricLock';
+export type { UseAccountsReturn } from './useAccounts';
+export type {
+  UseMessageComposerReturn,
+  UseMessageComposerOptions,
+  OutgoingMessage,
+  OutgoingMessageStatus,
+} from './useMessageComposer';
+export type { UseInboxSearchReturn } from './useInboxSearch';
+export type { UseUnreadCountsReturn } from './useUnreadCounts';
+export type { UseEmailAttachmentsReturn } from './useEmailAttachments';
+export type { UsePdfExportReturn } from './usePdfExport';
+export type { UseDraftReturn } from './useDraft';
+export type { UseCheckoutReturn } from './useCheckout';
+export type { UsePaymentRemindersReturn } from './usePaymentReminders';
+
 // Legacy-compatible exports (for easier migration)
 export { useLegacyCollection as originalUseCollection } from './useCollection';
 export { useSimpleRefresh as originalUseRefresh } from './useRefresh';
@@ -55,4 +84,16 @@ export { default as useApiDefault } from './useApi';
 export { default as useSecureStorageDefault } from './useAsyncStorage';
 export { default as useDebounceDefault } from './useDebounce';
 export { default as useFormDefault } from './useForm';
-export { default as useNotificationsDefault } from './useNotifications';
\ No newline at end of file
+export { default as useNotificationsDefault } from './useNotifications';
+export { default as useEnvironmentDefault } from './useEnvironment';
+export { default as useBiometricLockDefault } from './useBiometricLock';
+export { default as useAccountsDefault } from './useAccounts';
+export { default as useMessageComposerDefault } from './useMessageComposer';
+export { default as useRealtimeDefault } from './useRealtime';
+export { default as useInboxSearchDefault } from './useInboxSearch';
+export { default as useUnreadCountsDefault } from './useUnreadCounts';
+export { default as useEmailAttachmentsDefault } from './useEmailAttachments';
+export { default as usePdfExportDefault } from './usePdfExport';
+export { default as useDraftDefault } from './useDraft';
+export { default as useCheckoutDefault } from './useCheckout';
+export { default as usePaymentRemindersDefault } from './usePaymentReminders';
\ No newline at end of file
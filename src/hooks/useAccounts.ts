@@ -0,0 +1,61 @@
+import { useState, useEffect, useCallback } from 'react';
+import { sessionManager, AccountSummary } from '../services/SessionManager';
+
+/**
+ * Return type for useAccounts hook
+ */
+export interface UseAccountsReturn {
+  /** Signed-in accounts, most recently used first */
+  accounts: AccountSummary[];
+  activeUserId: string | null;
+  switchAccount: (userId: string) => Promise<void>;
+  /** Sign out of the active account; the next one takes over if any */
+  signOut: () => Promise<void>;
+}
+
+/**
+ * Hook exposing the signed-in accounts, re-rendering on login, logout and switches
+ *
+ * @example
+ * const { accounts, activeUserId, switchAccount } = useAccounts();
+ */
+export const useAccounts = (): UseAccountsReturn => {
+  const [accounts, setAccounts] = useState<AccountSummary[]>([]);
+  const [activeUserId, setActiveUserId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    const [list, userId] = await Promise.all([
+      sessionManager.getAccounts(),
+      sessionManager.getUserId(),
+    ]);
+    setAccounts(list);
+    setActiveUserId(userId);
+  }, []);
+
+  useEffect(() => {
+    load();
+    return sessionManager.subscribe((event) => {
+      if (event.type !== 'statusChange') {
+        load();
+      }
+    });
+  }, [load]);
+
+  const switchAccount = useCallback(
+    (userId: string) => sessionManager.switchAccount(userId),
+    []
+  );
+
+  const signOut = useCallback(async () => {
+    await sessionManager.logout();
+  }, []);
+
+  return {
+    accounts,
+    activeUserId,
+    switchAccount,
+    signOut,
+  };
+};
+
+export default useAccounts;
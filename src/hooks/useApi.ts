@@ -96,7 +96,7 @@ export const useApi = <T = any>(
     } catch (error: any) {
       if (!isMountedRef.current) return null;
 
-      const errorMessage = error.response?.data?.message || error.message || 'An error occurred';
+      const errorMessage = error.message || 'An error occurred';
       
       setState(prev => ({
         ...prev,
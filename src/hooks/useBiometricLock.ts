@@ -0,0 +1,93 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { BIOMETRY_TYPE } from 'react-native-keychain';
+import {
+  biometricService,
+  BiometricSettings,
+  MAX_UNLOCK_ATTEMPTS,
+  UnlockResult,
+} from '../services/BiometricService';
+import { useTranslation } from './useTranslation';
+
+/**
+ * Return type for useBiometricLock hook
+ */
+export interface UseBiometricLockReturn {
+  settings: BiometricSettings;
+  locked: boolean;
+  failedAttempts: number;
+  /** Too many failures: offer the password login instead */
+  shouldFallbackToPassword: boolean;
+  /** Enrolled biometry, null when unsupported; undefined while loading */
+  biometryType: BIOMETRY_TYPE | null | undefined;
+  /** Localized name of the biometry ("Face ID", "fingerprint", ...) */
+  biometryLabel: string;
+  unlock: () => Promise<UnlockResult>;
+  enable: () => Promise<void>;
+  disable: () => Promise<void>;
+  setLockTimeout: (lockTimeout: number) => Promise<void>;
+  fallbackToPassword: () => Promise<void>;
+}
+
+/**
+ * Hook exposing the biometric lock state and settings, re-rendering when they change
+ *
+ * @example
+ * const { locked, unlock, biometryLabel } = useBiometricLock();
+ */
+export const useBiometricLock = (): UseBiometricLockReturn => {
+  const { t } = useTranslation();
+  const [state, setState] = useState(biometricService.getState());
+  const [biometryType, setBiometryType] = useState<BIOMETRY_TYPE | null | undefined>(undefined);
+
+  useEffect(() => {
+    setState(biometricService.getState());
+    return biometricService.subscribe(setState);
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    biometricService.getBiometryType().then((type) => {
+      if (!cancelled) setBiometryType(type);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const biometryLabel = biometryType
+    ? t(`mobile.biometric.types.${biometryType}`)
+    : t('mobile.biometric.types.generic');
+
+  const prompt = useMemo(
+    () => ({
+      title: t('mobile.biometric.prompt', { biometry: biometryLabel }),
+      cancel: t('general.cancel'),
+    }),
+    [t, biometryLabel]
+  );
+
+  const unlock = useCallback(() => biometricService.unlock(prompt), [prompt]);
+  const enable = useCallback(() => biometricService.enable(prompt), [prompt]);
+  const disable = useCallback(() => biometricService.disable(), []);
+  const setLockTimeout = useCallback(
+    (lockTimeout: number) => biometricService.setLockTimeout(lockTimeout),
+    []
+  );
+  const fallbackToPassword = useCallback(() => biometricService.fallbackToPassword(), []);
+
+  return {
+    settings: state.settings,
+    locked: state.locked,
+    failedAttempts: state.failedAttempts,
+    shouldFallbackToPassword: state.failedAttempts >= MAX_UNLOCK_ATTEMPTS,
+    biometryType,
+    biometryLabel,
+    unlock,
+    enable,
+    disable,
+    setLockTimeout,
+    fallbackToPassword,
+  };
+};
+
+export default useBiometricLock;
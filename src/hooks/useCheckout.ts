@@ -0,0 +1,73 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Alert } from 'react-native';
+import { useTranslation } from './useTranslation';
+import { StudentPackage } from '../api';
+import { paymentService, ProcessingPayment } from '../services/PaymentService';
+
+/**
+ * Return type for useCheckout hook
+ */
+export interface UseCheckoutReturn {
+  /** Packages refreshed after a checkout, null until one was */
+  packages: StudentPackage[] | null;
+  /** Payments waiting for their checkout to settle, by payment id */
+  processing: Record<number, ProcessingPayment>;
+  /** A checkout is open */
+  paying: boolean;
+  /** Pay payments of a package, then report the outcome */
+  pay: (packageId: number, paymentIds: number[]) => Promise<void>;
+}
+
+/**
+ * Hook paying due payments through the hosted checkout, with the processing state
+ * and the outcome alerts
+ *
+ * @example
+ * const { packages, processing, paying, pay } = useCheckout();
+ * pay(data.id, payments.overdue.map(item => item.id));
+ */
+export const useCheckout = (): UseCheckoutReturn => {
+  const { t } = useTranslation();
+  const [packages, setPackages] = useState<StudentPackage[] | null>(null);
+  const [processing, setProcessing] = useState(() => paymentService.getProcessing());
+  const [paying, setPaying] = useState(false);
+
+  useEffect(() => {
+    setProcessing(paymentService.getProcessing());
+    const unsubscribe = paymentService.subscribe((event) => {
+      if (event.type === 'packages') {
+        setPackages(event.packages);
+      } else {
+        setProcessing(event.processing);
+      }
+    });
+    paymentService.load();
+    return unsubscribe;
+  }, []);
+
+  const pay = useCallback(async (packageId: number, paymentIds: number[]) => {
+    setPaying(true);
+    try {
+      const result = await paymentService.pay(packageId, paymentIds);
+      if (result === 'paid') {
+        Alert.alert(t('mobile.checkout.paidTitle'), t('mobile.checkout.paidMessage'));
+      } else if (result === 'pending') {
+        Alert.alert(t('mobile.checkout.pendingTitle'), t('mobile.checkout.pendingMessage'));
+      }
+    } catch (error) {
+      console.error('❌ Checkout failed:', error);
+      Alert.alert(t('general.error'), t('mobile.checkout.failed'));
+    } finally {
+      setPaying(false);
+    }
+  }, [t]);
+
+  return {
+    packages,
+    processing,
+    paying,
+    pay,
+  };
+};
+
+export default useCheckout;
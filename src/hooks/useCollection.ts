@@ -1,6 +1,9 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { apiService } from '../helpers/request';
+import { apiService, isNetworkError, toApiError } from '../helpers/request';
 import { isEqual } from '../helpers/generalUtils';
+import { responseCache } from '../services/ResponseCache';
+import { isLocalizedPath, parseEnvelope, Schema } from '../api';
+import { sessionManager } from '../services/SessionManager';
 
 /**
  * Pagination information structure
@@ -11,6 +14,8 @@ export interface PaginationInfo {
   total_pages: number | null;
   total_items?: number | null;
   per_page?: number | null;
+  /** Cursor of the next page for cursor-based endpoints; null on the last page */
+  next_cursor?: string | null;
 }
 
 /**
@@ -29,6 +34,8 @@ export interface CollectionState<T = any> {
   items: T[];
   loaded: boolean;
   loading: boolean;
+  /** The next page is being fetched by `loadMore` */
+  loadingMore: boolean;
   error: string | null;
   pagination: PaginationInfo;
   summary: SummaryInfo;
@@ -36,6 +43,10 @@ export interface CollectionState<T = any> {
   queryString: string | null;
   postData: any | null;
   version: number;
+  /** Timestamp of the last successful load (network or persisted cache) */
+  lastUpdated: number | null;
+  /** Items are from the persisted cache because the network is unreachable */
+  offline: boolean;
 }
 
 /**
@@ -58,6 +69,12 @@ export interface UseCollectionOptions<T = any> {
   enableCache?: boolean;
   /** Cache duration in milliseconds (default: 5 minutes) */
   cacheDuration?: number;
+  /** Persist responses across restarts and serve them while offline (default: false) */
+  persist?: boolean;
+  /** Schema the response items are validated against (see `endpoints` in api/) */
+  schema?: Schema<T[]>;
+  /** Where `loadMore` adds the next page; 'prepend' for lists growing backwards such as chat history (default: 'append') */
+  pageDirection?: 'append' | 'prepend';
 }
 
 /**
@@ -87,13 +104,33 @@ export interface UseCollectionReturn<T = any> {
   setQueryString: (queryString: string | null) => void;
   setPostData: (postData: any | null) => void;
   clearError: () => void;
+  /** Fetch the next page (by `next_cursor`, else `current_page`) and add its items */
+  loadMore: () => Promise<void>;
+  /** The pagination reports another page */
+  hasMore: boolean;
   addItem: (item: T) => void;
   removeItem: (predicate: (item: T) => boolean) => void;
   updateItem: (predicate: (item: T) => boolean, updates: Partial<T>) => void;
 }
 
 // Simple in-memory cache
-const collectionCache = new Map<string, { data: any; timestamp: number }>();
+const collectionCache = new Map<string, { url: string; data: any; timestamp: number }>();
+
+// Cached collections belong to the account that loaded them
+sessionManager.subscribe((event) => {
+  if (event.type === 'logout' || event.type === 'login' || event.type === 'switch') {
+    collectionCache.clear();
+  }
+});
+
+// Localized collections must be refetched in the new language
+apiService.onLanguageChange(() => {
+  collectionCache.forEach((entry, key) => {
+    if (isLocalizedPath(entry.url)) {
+      collectionCache.delete(key);
+    }
+  });
+});
 
 /**
  * Modern TypeScript hook for managing collections with API requests
@@ -117,12 +154,16 @@ export const useCollection = <T = any>(
     autoFetch = true,
     enableCache = false,
     cacheDuration = 5 * 60 * 1000, // 5 minutes
+    persist = false,
+    schema,
+    pageDirection = 'append',
   } = options;
 
   const [collection, setCollection] = useState<CollectionState<T>>({
     items: [],
     loaded: false,
     loading: false,
+    loadingMore: false,
     error: null,
     pagination: {
       current_page: null,
@@ -136,10 +177,14 @@ export const useCollection = <T = any>(
     queryString: defaultQueryString,
     postData,
     version: 0,
+    lastUpdated: null,
+    offline: false,
   });
 
   const abortControllerRef = useRef<AbortController | null>(null);
   const isMountedRef = useRef(true);
+  // Bumped by every load so pages requested before it are dropped
+  const loadRef = useRef(0);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -174,9 +219,9 @@ export const useCollection = <T = any>(
   }, [enableCache, cacheDuration]);
 
   // Set cache
-  const setCache = useCallback((key: string, data: any) => {
+  const setCache = useCallback((key: string, endpoint: string, data: any) => {
     if (!enableCache) return;
-    collectionCache.set(key, { data, timestamp: Date.now() });
+    collectionCache.set(key, { url: endpoint, data, timestamp: Date.now() });
   }, [enableCache]);
 
   // Fetch data function
@@ -188,7 +233,10 @@ export const useCollection = <T = any>(
       abortControllerRef.current.abort();
     }
 
-    abortControllerRef.current = new AbortController();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    loadRef.current += 1;
+    const requestOptions = { signal: controller.signal };
 
     // Build full URL
     let fullUrl = collection.url;
@@ -226,29 +274,56 @@ export const useCollection = <T = any>(
       }));
     }
 
+    // Render persisted items immediately while revalidating (GET only)
+    const persistable = persist && collection.postData === null;
+    if (persistable) {
+      const persisted = await responseCache.read(collection.url, collection.queryString, schema);
+
+      if (persisted && isMountedRef.current) {
+        const persistedData = persisted.data.data || persisted.data;
+        setCollection(prev => prev.loaded ? prev : ({
+          ...prev,
+          items: transformData ? transformData(persistedData) : persistedData,
+          loaded: true,
+          pagination: persisted.data.pagination || prev.pagination,
+          summary: persisted.data.summary || prev.summary,
+          lastUpdated: persisted.updatedAt,
+        }));
+      }
+    }
+
     try {
       let response: any;
       
       if (collection.postData === null) {
         // GET request
-        response = await apiService.get(fullUrl);
+        response = await apiService.get(fullUrl, requestOptions);
       } else {
         // POST request
-        response = await apiService.post(fullUrl, collection.postData);
+        response = await apiService.post(fullUrl, collection.postData, requestOptions);
       }
 
       if (!isMountedRef.current) return;
 
+      if (schema) {
+        response.data = parseEnvelope(collection.url, response.data, schema);
+      }
+
       const responseData = response.data.data || response.data;
       const items = transformData ? transformData(responseData) : responseData;
 
       // Cache the response
-      setCache(cacheKey, {
+      setCache(cacheKey, collection.url, {
         data: responseData,
         pagination: response.data.pagination,
         summary: response.data.summary,
       });
 
+      if (persistable) {
+        await responseCache.write(collection.url, response.data, collection.queryString);
+        if (!isMountedRef.current) return;
+      }
+
       setCollection(prev => ({
         ...prev,
         items,
@@ -257,6 +332,8 @@ export const useCollection = <T = any>(
         error: null,
         pagination: response.data.pagination || prev.pagination,
         summary: response.data.summary || prev.summary,
+        lastUpdated: Date.now(),
+        offline: false,
       }));
 
       if (onDataLoaded) {
@@ -265,14 +342,24 @@ export const useCollection = <T = any>(
 
     } catch (error: any) {
       if (!isMountedRef.current) return;
+
+      // Superseded by a newer request or unmounted
+      if (toApiError(error).kind === 'cancelled') return;
+
+      const errorMessage = error.message || 'Failed to fetch data';
       
-      const errorMessage = error.response?.data?.message || error.message || 'Failed to fetch data';
-      
-      setCollection(prev => ({
-        ...prev,
-        loading: false,
-        error: errorMessage,
-      }));
+      setCollection(prev => {
+        // Keep showing persisted items while offline instead of an error
+        if (persistable && prev.loaded && isNetworkError(error)) {
+          return { ...prev, loading: false, offline: true };
+        }
+
+        return {
+          ...prev,
+          loading: false,
+          error: errorMessage,
+        };
+      });
 
       if (onError) {
         onError(error);
@@ -290,6 +377,8 @@ export const useCollection = <T = any>(
     getCacheKey,
     getFromCache,
     setCache,
+    persist,
+    schema,
   ]);
 
   // Auto-fetch effect
@@ -297,7 +386,7 @@ export const useCollection = <T = any>(
     if (autoFetch && collection.url) {
       fetchData();
     }
-  }, [autoFetch, fetchData, collection.url]);
+  }, [autoFetch, fetchData, collection.url, collection.version]);
 
   // Update collection function
   const updateCollection = useCallback((
@@ -330,12 +419,15 @@ export const useCollection = <T = any>(
         items: action.items !== undefined ? action.items : prev.items,
         loaded: action.loaded !== undefined ? action.loaded : (loading ? prev.loaded : false),
         loading,
+        loadingMore: prev.loadingMore,
         error: action.error !== undefined ? action.error : prev.error,
         pagination: action.pagination ? { ...prev.pagination, ...action.pagination } : prev.pagination,
         summary: action.summary ? { ...prev.summary, ...action.summary } : prev.summary,
         queryString: action.queryString !== undefined ? action.queryString : prev.queryString,
         postData: action.postData !== undefined ? action.postData : prev.postData,
         version: action.reload ? Math.random() : prev.version,
+        lastUpdated: prev.lastUpdated,
+        offline: prev.offline,
       };
     });
   }, []);
@@ -345,6 +437,12 @@ export const useCollection = <T = any>(
     updateCollection({ reload: true });
   }, [updateCollection]);
 
+  // Reload localized collections in the new language
+  useEffect(() => {
+    if (!autoFetch || !isLocalizedPath(collection.url)) return;
+    return apiService.onLanguageChange(refresh);
+  }, [autoFetch, collection.url, refresh]);
+
   const setUrl = useCallback((newUrl: string) => {
     updateCollection({ url: newUrl });
   }, [updateCollection]);
@@ -361,6 +459,74 @@ export const useCollection = <T = any>(
     updateCollection({ error: null });
   }, [updateCollection]);
 
+  const { next_cursor: nextCursor, current_page: currentPage, total_pages: totalPages } = collection.pagination;
+  const hasMore = nextCursor
+    ? true
+    : currentPage !== null && totalPages !== null && currentPage < totalPages;
+
+  const loadMore = useCallback(async () => {
+    if (!hasMore || collection.loading || collection.loadingMore || collection.postData !== null) return;
+
+    const pageParam = nextCursor
+      ? `cursor=${encodeURIComponent(nextCursor)}`
+      : `page=${(currentPage || 0) + 1}`;
+    const queryString = [collection.queryString, pageParam].filter(Boolean).join('&');
+
+    setCollection(prev => ({ ...prev, loadingMore: true }));
+
+    // Reloading aborts the page and replaces the items it would be added to
+    const load = loadRef.current;
+    const signal = abortControllerRef.current?.signal;
+
+    try {
+      const response: any = await apiService.get(`${collection.url}?${queryString}`, { signal });
+      if (!isMountedRef.current) return;
+
+      if (load !== loadRef.current) {
+        setCollection(prev => ({ ...prev, loadingMore: false }));
+        return;
+      }
+
+      if (schema) {
+        response.data = parseEnvelope(collection.url, response.data, schema);
+      }
+
+      const responseData = response.data.data || response.data;
+      const pageItems = transformData ? transformData(responseData) : responseData;
+
+      setCollection(prev => ({
+        ...prev,
+        items: pageDirection === 'prepend' ? [...pageItems, ...prev.items] : [...prev.items, ...pageItems],
+        loadingMore: false,
+        // A page without a cursor is the last one
+        pagination: { ...prev.pagination, next_cursor: null, ...response.data.pagination },
+      }));
+    } catch (error: any) {
+      if (!isMountedRef.current) return;
+
+      setCollection(prev => ({ ...prev, loadingMore: false }));
+      if (load !== loadRef.current || toApiError(error).kind === 'cancelled') return;
+
+      if (onError) {
+        onError(error);
+      }
+      console.error('useCollection loadMore error:', error);
+    }
+  }, [
+    hasMore,
+    nextCursor,
+    currentPage,
+    collection.url,
+    collection.queryString,
+    collection.postData,
+    collection.loading,
+    collection.loadingMore,
+    transformData,
+    onError,
+    schema,
+    pageDirection,
+  ]);
+
   const addItem = useCallback((item: T) => {
     setCollection(prev => ({
       ...prev,
@@ -392,6 +558,8 @@ export const useCollection = <T = any>(
     setQueryString,
     setPostData,
     clearError,
+    loadMore,
+    hasMore,
     addItem,
     removeItem,
     updateItem,
@@ -0,0 +1,72 @@
+import { useState, useEffect, useCallback } from 'react';
+import { draftService, MessageDraft } from '../services/DraftService';
+
+/**
+ * Return type for useDraft hook
+ */
+export interface UseDraftReturn {
+  draft: string;
+  setDraft: (text: string) => void;
+  /** Forget the draft, e.g. once it was sent */
+  clearDraft: () => void;
+}
+
+/**
+ * Hook keeping a conversation's reply in the persisted draft store
+ *
+ * @example
+ * const { draft, setDraft, clearDraft } = useDraft(contact);
+ */
+export const useDraft = (contact: string): UseDraftReturn => {
+  const [draft, setDraftState] = useState(() => draftService.getDraft(contact));
+
+  useEffect(() => {
+    setDraftState(draftService.getDraft(contact));
+    const unsubscribe = draftService.subscribe(() => setDraftState(draftService.getDraft(contact)));
+    draftService.load();
+    return () => {
+      unsubscribe();
+      // Leaving the conversation saves the draft right away
+      draftService.flush();
+    };
+  }, [contact]);
+
+  const setDraft = useCallback((text: string) => {
+    // Keep typing responsive before the contact is known
+    setDraftState(text);
+    draftService.setDraft(contact, text);
+  }, [contact]);
+
+  const clearDraft = useCallback(() => {
+    setDraftState('');
+    draftService.clearDraft(contact);
+  }, [contact]);
+
+  return {
+    draft,
+    setDraft,
+    clearDraft,
+  };
+};
+
+/**
+ * Hook exposing every draft of the account by contact, for conversation lists
+ *
+ * @example
+ * const drafts = useDrafts();
+ * const preview = drafts[item.contact]?.text;
+ */
+export const useDrafts = (): Record<string, MessageDraft> => {
+  const [drafts, setDrafts] = useState(() => draftService.getDrafts());
+
+  useEffect(() => {
+    setDrafts(draftService.getDrafts());
+    const unsubscribe = draftService.subscribe(setDrafts);
+    draftService.load();
+    return unsubscribe;
+  }, []);
+
+  return drafts;
+};
+
+export default useDraft;
@@ -0,0 +1,83 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ApiEnvelope, EmailAttachment, endpoints, resolvePath } from '../api';
+import { responseCache } from '../services/ResponseCache';
+import { attachmentService, AttachmentState } from '../services/AttachmentService';
+
+/**
+ * Return type for useEmailAttachments hook
+ */
+export interface UseEmailAttachmentsReturn {
+  attachments: EmailAttachment[];
+  loading: boolean;
+  error: string | null;
+  /** Download state per attachment id */
+  states: Record<number, AttachmentState>;
+  /** Download the attachment, or open it once it is on the device */
+  openAttachment: (attachment: EmailAttachment) => Promise<void>;
+  reload: () => Promise<void>;
+}
+
+/**
+ * Hook listing the attachments of an email with their download state.
+ * Files downloaded earlier are detected when the list loads.
+ *
+ * @example
+ * const { attachments, states, openAttachment } = useEmailAttachments(email.id);
+ */
+export const useEmailAttachments = (emailId: number): UseEmailAttachmentsReturn => {
+  const [attachments, setAttachments] = useState<EmailAttachment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [states, setStates] = useState<Record<number, AttachmentState>>({});
+
+  const reload = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await responseCache.get<ApiEnvelope<EmailAttachment[]>>(
+        resolvePath(endpoints.emailAttachments, { id: emailId }),
+        undefined,
+        endpoints.emailAttachments.response
+      );
+      const loaded = result.data.data || [];
+      setAttachments(loaded);
+      setStates(Object.fromEntries(loaded.map(item => [item.id, attachmentService.getState(item)])));
+      await Promise.all(loaded.map(item => attachmentService.findDownloaded(item)));
+    } catch (loadError) {
+      console.error('❌ Failed to load email attachments:', loadError);
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load attachments');
+    } finally {
+      setLoading(false);
+    }
+  }, [emailId]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  useEffect(() => {
+    return attachmentService.subscribe((attachmentId, state) => {
+      setStates(current => (attachmentId in current ? { ...current, [attachmentId]: state } : current));
+    });
+  }, []);
+
+  const openAttachment = useCallback(async (attachment: EmailAttachment) => {
+    const path = attachmentService.getState(attachment).path || (await attachmentService.findDownloaded(attachment));
+    if (path) {
+      await attachmentService.open(attachment);
+    } else {
+      await attachmentService.download(attachment);
+    }
+  }, []);
+
+  return {
+    attachments,
+    loading,
+    error,
+    states,
+    openAttachment,
+    reload,
+  };
+};
+
+export default useEmailAttachments;
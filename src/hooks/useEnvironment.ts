@@ -0,0 +1,45 @@
+import { useState, useEffect, useCallback } from 'react';
+import { environmentService } from '../services/EnvironmentService';
+import { EnvironmentName, EnvironmentProfile } from '../helpers/environment';
+
+/**
+ * Return type for useEnvironment hook
+ */
+export interface UseEnvironmentReturn {
+  environment: EnvironmentProfile;
+  environments: EnvironmentProfile[];
+  isProduction: boolean;
+  setEnvironment: (name: EnvironmentName) => Promise<void>;
+}
+
+/**
+ * Hook exposing the active backend profile, re-rendering when it changes
+ *
+ * @example
+ * const { environment, isProduction, setEnvironment } = useEnvironment();
+ */
+export const useEnvironment = (): UseEnvironmentReturn => {
+  const [environment, setEnvironmentState] = useState<EnvironmentProfile>(
+    environmentService.getEnvironment()
+  );
+
+  useEffect(() => {
+    // Pick up a change made between the first render and the subscription
+    setEnvironmentState(environmentService.getEnvironment());
+    return environmentService.subscribe(setEnvironmentState);
+  }, []);
+
+  const setEnvironment = useCallback(
+    (name: EnvironmentName) => environmentService.setEnvironment(name),
+    []
+  );
+
+  return {
+    environment,
+    environments: environmentService.getEnvironments(),
+    isProduction: environment.name === 'production',
+    setEnvironment,
+  };
+};
+
+export default useEnvironment;
@@ -0,0 +1,202 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useDebouncedSearch } from './useDebounce';
+import { responseCache } from '../services/ResponseCache';
+import { sessionManager } from '../services/SessionManager';
+import {
+  InboxEntry,
+  InboxSearchResult,
+  addRecentQuery,
+  conversationEntries,
+  emailEntries,
+  notificationEntries,
+  searchInbox,
+  toConversationPreview,
+} from '../helpers/inboxSearch';
+import {
+  ApiEnvelope,
+  EmailLog,
+  NotificationItem,
+  User,
+  WhatsAppConversation,
+  WhatsAppMessage,
+  endpoints,
+  resolvePath,
+} from '../api';
+
+const RECENT_QUERIES_PREFIX = 'inboxRecentQueries:';
+
+/**
+ * Return type for useInboxSearch hook
+ */
+export interface UseInboxSearchReturn {
+  searchTerm: string;
+  /** Query the results were computed for */
+  debouncedSearchTerm: string;
+  isSearching: boolean;
+  updateSearchTerm: (term: string) => void;
+  clearSearch: () => void;
+  results: InboxSearchResult[];
+  /** Sources are still being fetched */
+  loading: boolean;
+  /** Queries kept on this device for the signed-in user, newest first */
+  recentQueries: string[];
+  saveRecentQuery: (query: string) => Promise<void>;
+  clearRecentQueries: () => Promise<void>;
+}
+
+const getRecentQueriesKey = async (): Promise<string> =>
+  `${RECENT_QUERIES_PREFIX}${(await sessionManager.getUserId()) || 'anonymous'}`;
+
+const loadEmails = async (): Promise<InboxEntry[]> => {
+  const result = await responseCache.get<ApiEnvelope<EmailLog[]>>(
+    resolvePath(endpoints.emailLogs),
+    undefined,
+    endpoints.emailLogs.response
+  );
+  return emailEntries(result.data.data || []);
+};
+
+const loadConversations = async (): Promise<InboxEntry[]> => {
+  const userResult = await responseCache.get<ApiEnvelope<User>>(
+    resolvePath(endpoints.me),
+    undefined,
+    endpoints.me.response
+  );
+  const leadId = userResult.data.data?.lead_details?.id || userResult.data.data?.id;
+  const path = resolvePath(endpoints.whatsAppConversations);
+  const result = await responseCache.get<ApiEnvelope<WhatsAppConversation[]>>(
+    leadId ? `${path}?id_lead=${leadId}` : path,
+    undefined,
+    endpoints.whatsAppConversations.response
+  );
+
+  const conversations = (result.data.data || []).map(toConversationPreview);
+  const entries = await Promise.all(
+    conversations.map(async conversation => {
+      if (!conversation.contact) return [];
+      try {
+        const messages = await responseCache.get<ApiEnvelope<WhatsAppMessage[]>>(
+          resolvePath(endpoints.whatsAppMessages, { contact: conversation.contact }),
+          undefined,
+          endpoints.whatsAppMessages.response
+        );
+        return conversationEntries(conversation, messages.data.data || []);
+      } catch (error) {
+        console.warn(`⚠️ Skipping conversation ${conversation.contact} in search:`, error);
+        return [];
+      }
+    })
+  );
+  return entries.flat();
+};
+
+const loadNotifications = async (): Promise<InboxEntry[]> => {
+  const result = await responseCache.get<ApiEnvelope<NotificationItem[]>>(
+    resolvePath(endpoints.notifications),
+    undefined,
+    endpoints.notifications.response
+  );
+  return notificationEntries(result.data.data || []);
+};
+
+/**
+ * Hook searching emails, WhatsApp messages and notifications at once.
+ * Sources load from the response cache (offline included) when the hook mounts.
+ *
+ * @example
+ * const { searchTerm, updateSearchTerm, results } = useInboxSearch();
+ */
+export const useInboxSearch = (): UseInboxSearchReturn => {
+  const {
+    searchTerm,
+    debouncedSearchTerm,
+    isSearching,
+    updateSearchTerm,
+    clearSearch,
+  } = useDebouncedSearch('', 300);
+  const [entries, setEntries] = useState<InboxEntry[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [recentQueries, setRecentQueries] = useState<string[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      // A failing source leaves the others searchable
+      const sources = await Promise.all(
+        [loadEmails, loadConversations, loadNotifications].map(loadSource =>
+          loadSource().catch(error => {
+            console.warn('⚠️ Inbox search source failed to load:', error);
+            return [] as InboxEntry[];
+          })
+        )
+      );
+      if (!cancelled) {
+        setEntries(sources.flat());
+        setLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    const loadRecent = async () => {
+      try {
+        const stored = await AsyncStorage.getItem(await getRecentQueriesKey());
+        setRecentQueries(stored ? JSON.parse(stored) : []);
+      } catch (error) {
+        console.warn('⚠️ Failed to load recent searches:', error);
+      }
+    };
+    loadRecent();
+  }, []);
+
+  const results = useMemo(
+    () => searchInbox(entries, debouncedSearchTerm),
+    [entries, debouncedSearchTerm]
+  );
+
+  const persistRecentQueries = useCallback(async (queries: string[]) => {
+    setRecentQueries(queries);
+    try {
+      const key = await getRecentQueriesKey();
+      if (queries.length > 0) {
+        await AsyncStorage.setItem(key, JSON.stringify(queries));
+      } else {
+        await AsyncStorage.removeItem(key);
+      }
+    } catch (error) {
+      console.warn('⚠️ Failed to save recent searches:', error);
+    }
+  }, []);
+
+  const saveRecentQuery = useCallback(
+    (query: string) => persistRecentQueries(addRecentQuery(recentQueries, query)),
+    [recentQueries, persistRecentQueries]
+  );
+
+  const clearRecentQueries = useCallback(
+    () => persistRecentQueries([]),
+    [persistRecentQueries]
+  );
+
+  return {
+    searchTerm,
+    debouncedSearchTerm,
+    isSearching,
+    updateSearchTerm,
+    clearSearch,
+    results,
+    loading,
+    recentQueries,
+    saveRecentQuery,
+    clearRecentQueries,
+  };
+};
+
+export default useInboxSearch;
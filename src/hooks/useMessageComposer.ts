@@ -0,0 +1,150 @@
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import { endpoints, parseEnvelope, resolvePath, WhatsAppMessage } from '../api';
+import { formatDate } from '../helpers/dateUtils';
+import { outboxService, OutboxEntry } from '../services/OutboxService';
+
+/**
+ * Delivery state of a message composed on this device
+ */
+export type OutgoingMessageStatus = 'pending' | 'sent' | 'failed';
+
+/**
+ * Message shown optimistically until the conversation reload contains it
+ */
+export interface OutgoingMessage extends WhatsAppMessage {
+  localId: string;
+  status: OutgoingMessageStatus;
+}
+
+export interface UseMessageComposerOptions {
+  /** Called with the stored message once the backend accepted it */
+  onSent?: (message: WhatsAppMessage) => void;
+}
+
+/**
+ * Return type for useMessageComposer hook
+ */
+export interface UseMessageComposerReturn {
+  /** Messages sent from this device, oldest first, including those still queued offline */
+  outgoing: OutgoingMessage[];
+  send: (text: string) => Promise<void>;
+  retry: (localId: string) => Promise<void>;
+  discard: (localId: string) => void;
+}
+
+/**
+ * Outbox group of a conversation, so its replies are delivered in order
+ */
+export const getConversationGroup = (contact: string): string => `whatsapp:${contact}`;
+
+/**
+ * Show a queued reply as a message of the conversation
+ */
+const toOutgoingMessage = (entry: OutboxEntry, index: number, contact: string): OutgoingMessage => ({
+  localId: entry.id,
+  // Negative ids never collide with the backend's
+  id: -(index + 1),
+  text: entry.data?.data?.text || '',
+  action: 'RECEIVED',
+  created_at: entry.meta?.created_at || formatDate(new Date(entry.createdAt), 'yyyy-MM-dd HH:mm:ss'),
+  contact,
+  status: entry.status === 'failed' ? 'failed' : 'pending',
+});
+
+/**
+ * Append outgoing messages to a fetched conversation, dropping those the
+ * conversation already contains
+ */
+export const mergeOutgoingMessages = (
+  messages: WhatsAppMessage[],
+  outgoing: OutgoingMessage[]
+): Array<WhatsAppMessage | OutgoingMessage> => {
+  const fetchedIds = new Set(messages.map(message => message.id));
+  return [
+    ...messages,
+    ...outgoing.filter(message => message.status !== 'sent' || !fetchedIds.has(message.id)),
+  ];
+};
+
+/**
+ * Hook sending WhatsApp replies to a conversation through the outbox, with
+ * pending/sent/failed states. Replies typed offline are delivered once the
+ * connection is back, even after a restart.
+ *
+ * @example
+ * const { outgoing, send, retry, discard } = useMessageComposer(contact, { onSent: reload });
+ */
+export const useMessageComposer = (
+  contact: string,
+  options: UseMessageComposerOptions = {}
+): UseMessageComposerReturn => {
+  const group = getConversationGroup(contact);
+  const [queued, setQueued] = useState<OutboxEntry[]>(() => outboxService.getEntries(group));
+  // Delivered replies, until the conversation reload contains them
+  const [sent, setSent] = useState<OutgoingMessage[]>([]);
+  const onSentRef = useRef(options.onSent);
+  onSentRef.current = options.onSent;
+
+  // Messages belong to one conversation
+  useEffect(() => {
+    setSent([]);
+    setQueued(outboxService.getEntries(group));
+
+    const unsubscribe = outboxService.subscribe(event => {
+      setQueued(outboxService.getEntries(group));
+      if (event.type !== 'delivered' || event.entry.group !== group) return;
+
+      try {
+        const { data: message } = parseEnvelope(
+          event.entry.url,
+          event.response,
+          endpoints.sendWhatsAppMessage.response
+        );
+        console.log('💬 WhatsApp message sent:', message.id);
+        setSent(prev => [...prev, { ...message, localId: event.entry.id, status: 'sent' }]);
+        onSentRef.current?.(message);
+      } catch (error) {
+        // Delivered anyway; the next conversation refresh shows it
+        console.warn('⚠️ Unexpected response to a sent WhatsApp message:', error);
+      }
+    });
+    outboxService.load();
+    return unsubscribe;
+  }, [group]);
+
+  const send = useCallback(async (text: string) => {
+    const trimmed = text.trim();
+    if (!trimmed || !contact) return;
+
+    outboxService.enqueue({
+      method: endpoints.sendWhatsAppMessage.method,
+      url: resolvePath(endpoints.sendWhatsAppMessage, { contact }),
+      data: { data: { text: trimmed } },
+      group,
+      meta: { created_at: formatDate(new Date(), 'yyyy-MM-dd HH:mm:ss') },
+    });
+  }, [contact, group]);
+
+  const retry = useCallback(async (localId: string) => {
+    outboxService.retry(localId);
+  }, []);
+
+  const discard = useCallback((localId: string) => {
+    outboxService.discard(localId);
+    setSent(prev => prev.filter(message => message.localId !== localId));
+  }, []);
+
+  const outgoing = useMemo(
+    () => [...sent, ...queued.map((entry, index) => toOutgoingMessage(entry, index, contact))],
+    [sent, queued, contact]
+  );
+
+  return {
+    outgoing,
+    send,
+    retry,
+    discard,
+  };
+};
+
+export default useMessageComposer;
\ No newline at end of file
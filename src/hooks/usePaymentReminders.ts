@@ -0,0 +1,37 @@
+import { useState, useEffect, useCallback } from 'react';
+import { PaymentReminderSettings } from '../helpers/payments';
+import { paymentReminderService } from '../services/PaymentReminderService';
+
+/**
+ * Return type for usePaymentReminders hook
+ */
+export interface UsePaymentRemindersReturn {
+  settings: PaymentReminderSettings;
+  updateSettings: (changes: Partial<PaymentReminderSettings>) => Promise<void>;
+}
+
+/**
+ * Hook exposing when payment reminders are shown, re-rendering when that changes
+ *
+ * @example
+ * const { settings, updateSettings } = usePaymentReminders();
+ * updateSettings({ leadDays: [3] });
+ */
+export const usePaymentReminders = (): UsePaymentRemindersReturn => {
+  const [settings, setSettings] = useState(paymentReminderService.getSettings());
+
+  useEffect(() => {
+    const unsubscribe = paymentReminderService.subscribe(setSettings);
+    paymentReminderService.load().then(() => setSettings(paymentReminderService.getSettings()));
+    return unsubscribe;
+  }, []);
+
+  const updateSettings = useCallback(
+    (changes: Partial<PaymentReminderSettings>) => paymentReminderService.updateSettings(changes),
+    []
+  );
+
+  return { settings, updateSettings };
+};
+
+export default usePaymentReminders;
@@ -0,0 +1,57 @@
+import { useState, useCallback } from 'react';
+import { Alert } from 'react-native';
+import { useTranslation } from './useTranslation';
+import { ExportResult } from '../services/ExportService';
+import { fileSystemService } from '../features/gallery/services/FileSystemService';
+
+/**
+ * Return type for usePdfExport hook
+ */
+export interface UsePdfExportReturn {
+  exporting: boolean;
+  /** Run an export, then offer to open or share the saved PDF */
+  runExport: (task: () => Promise<ExportResult>) => Promise<void>;
+}
+
+/**
+ * Hook running PDF exports with a busy flag and the saved/failed alerts
+ *
+ * @example
+ * const { exporting, runExport } = usePdfExport();
+ * runExport(() => exportService.exportEmailThread(email));
+ */
+export const usePdfExport = (): UsePdfExportReturn => {
+  const { t } = useTranslation();
+  const [exporting, setExporting] = useState(false);
+
+  const runExport = useCallback(async (task: () => Promise<ExportResult>) => {
+    setExporting(true);
+    try {
+      const result = await task();
+      Alert.alert(t('mobile.export.savedTitle'), t('mobile.export.savedMessage', { fileName: result.fileName }), [
+        { text: t('general.close'), style: 'cancel' },
+        {
+          text: t('mobile.export.openOrShare'),
+          onPress: () => {
+            fileSystemService.openFile(result.path).catch(error => {
+              console.error('❌ Failed to open export:', error);
+              Alert.alert(t('general.error'), t('mobile.attachments.openFailed'));
+            });
+          },
+        },
+      ]);
+    } catch (error) {
+      console.error('❌ PDF export failed:', error);
+      Alert.alert(t('general.error'), t('mobile.export.failed'));
+    } finally {
+      setExporting(false);
+    }
+  }, [t]);
+
+  return {
+    exporting,
+    runExport,
+  };
+};
+
+export default usePdfExport;
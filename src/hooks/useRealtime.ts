@@ -0,0 +1,27 @@
+import { useEffect, useRef } from 'react';
+import { realtimeService, RealtimeListener, RealtimeTopic } from '../services/RealtimeService';
+
+/**
+ * Hook receiving the new items of a realtime topic while the component is mounted.
+ * Pass null to stay unsubscribed.
+ *
+ * @example
+ * useRealtime(realtimeTopics.notifications(), items =>
+ *   updateCollection(current => ({ items: mergeRealtimeItems(current.items, items, 'start') }))
+ * );
+ */
+export const useRealtime = <T>(topic: RealtimeTopic<T> | null, listener: RealtimeListener<T>): void => {
+  const topicRef = useRef(topic);
+  const listenerRef = useRef(listener);
+  topicRef.current = topic;
+  listenerRef.current = listener;
+
+  const key = topic?.key;
+
+  useEffect(() => {
+    if (!key || !topicRef.current) return;
+    return realtimeService.subscribe<T>(topicRef.current, items => listenerRef.current(items));
+  }, [key]);
+};
+
+export default useRealtime;
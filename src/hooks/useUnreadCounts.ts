@@ -0,0 +1,33 @@
+import { useState, useEffect } from 'react';
+import { readStateService } from '../services/ReadStateService';
+import { UnreadCounts } from '../api';
+
+/**
+ * Return type for useUnreadCounts hook
+ */
+export interface UseUnreadCountsReturn extends UnreadCounts {
+  /** Unread items of every kind */
+  total: number;
+}
+
+/**
+ * Hook exposing the unread counts, re-rendering whenever an item is marked read or unread
+ *
+ * @example
+ * const { notifications } = useUnreadCounts();
+ */
+export const useUnreadCounts = (): UseUnreadCountsReturn => {
+  const [counts, setCounts] = useState<UnreadCounts>(() => readStateService.getCounts());
+
+  useEffect(() => {
+    setCounts(readStateService.getCounts());
+    return readStateService.subscribe(setCounts);
+  }, []);
+
+  return {
+    ...counts,
+    total: counts.notifications + counts.emails + counts.messages,
+  };
+};
+
+export default useUnreadCounts;
@@ -1,8 +1,9 @@
 import React, { useEffect, useState } from 'react';
-import { StatusBar } from 'react-native';
+import { StatusBar, StyleSheet, View } from 'react-native';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
-import { SecureStorage } from '../helpers/secureStorage';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { sessionManager, AuthStatus } from '../services/SessionManager';
+import { environmentService } from '../services/EnvironmentService';
+import { biometricService } from '../services/BiometricService';
 
 // Screens
 import {
@@ -11,10 +12,13 @@ import {
   EmailScreen,
   SMSScreen,
   NotificationScreen,
+  SearchScreen,
   PaymentsScreen,
   EMIScreen,
+  FinancialOverviewScreen,
   SwitchUserScreen,
   LoaderScreen,
+  LockScreen,
   // NotificationDebugScreen, // Removed for production
 } from '../screens';
 // import DebugAPIScreen from '../screens/DebugAPIScreen'; // Removed for production
@@ -28,129 +32,36 @@ const Stack = createNativeStackNavigator<RootStackParamList>();
 
 // Main App Navigator
 const AppNavigator: React.FC = () => {
-  const [isLoading, setIsLoading] = useState(true);
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [authStatus, setAuthStatus] = useState<AuthStatus>(sessionManager.getStatus());
+  const [locked, setLocked] = useState<boolean>(biometricService.getState().locked);
 
   useEffect(() => {
-    // Enhanced authentication check with better reliability
-    const checkAuthStatus = async () => {
-      try {
-        console.log('🔍 Starting enhanced auth check...');
-        
-        let userToken: string | null = null;
-        let tokenSource = 'none';
-        
-        // Step 1: Try SecureStorage first with timeout
-        try {
-          const timeoutPromise = new Promise<string | null>((_, reject) => {
-            setTimeout(() => reject(new Error('SecureStorage timeout')), 3000);
-          });
-          
-          const securePromise = SecureStorage.getItem('userToken');
-          userToken = await Promise.race([securePromise, timeoutPromise]);
-          
-          if (userToken) {
-            tokenSource = 'SecureStorage';
-            console.log('✅ SecureStorage auth check successful');
-          }
-        } catch (secureError) {
-          console.warn('⚠️ SecureStorage failed, trying AsyncStorage fallback:', secureError);
-        }
-        
-        // Step 2: If no token from SecureStorage, try AsyncStorage
-        if (!userToken) {
-          try {
-            userToken = await AsyncStorage.getItem('userToken');
-            if (userToken) {
-              tokenSource = 'AsyncStorage';
-              console.log('✅ AsyncStorage fallback successful');
-            }
-          } catch (asyncError) {
-            console.error('❌ AsyncStorage also failed:', asyncError);
-          }
-        }
-        
-        // Step 3: Validate token if found
-        let isValidToken = false;
-        if (userToken) {
-          console.log(`🔍 Found token from ${tokenSource}, validating...`);
-          
-          // Basic token validation
-          if (userToken.length > 10 && !userToken.includes('null') && !userToken.includes('undefined')) {
-            isValidToken = true;
-            console.log('✅ Token appears valid');
-            
-            // Optional: Verify token with backend (uncomment if needed)
-            // try {
-            //   const { apiService } = await import('../helpers/request');
-            //   await apiService.get('me');
-            //   console.log('✅ Token verified with backend');
-            // } catch (verifyError) {
-            //   console.warn('⚠️ Token verification failed:', verifyError);
-            //   isValidToken = false;
-            //   
-            //   // Clear invalid token
-            //   try {
-            //     await SecureStorage.removeItem('userToken');
-            //     await AsyncStorage.removeItem('userToken');
-            //     console.log('🧹 Cleared invalid token');
-            //   } catch (clearError) {
-            //     console.warn('⚠️ Failed to clear invalid token:', clearError);
-            //   }
-            // }
-          } else {
-            console.warn('⚠️ Token appears invalid:', { 
-              length: userToken.length, 
-              preview: userToken.substring(0, 20) 
-            });
-          }
-        }
-        
-        const authResult = isValidToken;
-        console.log('🔍 Final auth result:', {
-          hasToken: !!userToken,
-          tokenSource,
-          isValidToken,
-          authResult
-        });
-        
-        setIsAuthenticated(authResult);
-        
-        // If authenticated, sync notification token with backend
-        if (authResult) {
-          try {
-            const { notificationService } = await import('../services/NotificationService');
-            await notificationService.syncToken();
-          } catch (error) {
-            console.warn('⚠️ Failed to sync notification token after auth check:', error);
-          }
-        }
-      } catch (error) {
-        console.error('❌ Critical error in auth check:', error);
-        // On any error, assume not authenticated and proceed
-        setIsAuthenticated(false);
-      } finally {
-        console.log('🔍 Enhanced auth check completed, setting isLoading to false');
-        setIsLoading(false);
-        console.log('✅ Loading state updated, should now show main navigation');
+    const unsubscribe = sessionManager.subscribe((event) => {
+      if (event.type === 'statusChange') {
+        setAuthStatus(event.status);
       }
-    };
+    });
+    const unsubscribeLock = biometricService.subscribe((state) => setLocked(state.locked));
 
-    // Add absolute timeout as safety net
-    const safetyTimeout = setTimeout(() => {
-      console.warn('🚨 Auth check taking too long, forcing to login screen');
-      setIsAuthenticated(false);
-      setIsLoading(false);
-    }, 8000);
+    // Apply the persisted backend before the session talks to it,
+    // and the biometric lock before an authenticated session is shown.
+    // The restore settles the status even when it fails or hangs.
+    environmentService
+      .restore()
+      .then(() => biometricService.restore())
+      .then(() => sessionManager.restoreSession());
 
-    checkAuthStatus().finally(() => {
-      clearTimeout(safetyTimeout);
-    });
+    return () => {
+      unsubscribe();
+      unsubscribeLock();
+    };
   }, []);
 
+  const isLoading = authStatus === 'unknown';
+  const isAuthenticated = authStatus === 'authenticated';
+
   // Show loader while checking authentication
   if (isLoading) {
-    console.log('🔄 Rendering LoaderScreen - isLoading:', isLoading);
     return (
       <>
         <StatusBar barStyle="dark-content" backgroundColor="#ffffff" />
@@ -159,8 +70,6 @@ const AppNavigator: React.FC = () => {
     );
   }
 
-  console.log('📱 Rendering main navigation - isAuthenticated:', isAuthenticated);
-
   return (
     <>
       <StatusBar barStyle="dark-content" backgroundColor="#ffffff" />
@@ -221,6 +130,14 @@ const AppNavigator: React.FC = () => {
             headerShown: false,
           }}
         />
+        <Stack.Screen
+          name="Search"
+          component={SearchScreen}
+          options={{
+            title: 'Search',
+            headerShown: false,
+          }}
+        />
         <Stack.Screen
           name="Payments"
           component={PaymentsScreen}
@@ -237,6 +154,14 @@ const AppNavigator: React.FC = () => {
             headerShown: false,
           }}
         />
+        <Stack.Screen
+          name="FinancialOverview"
+          component={FinancialOverviewScreen}
+          options={{
+            title: 'Financial Overview',
+            headerShown: false,
+          }}
+        />
         <Stack.Screen
           name="SwitchUser"
           component={SwitchUserScreen}
@@ -248,6 +173,12 @@ const AppNavigator: React.FC = () => {
         />
         {/* Debug screens removed for production */}
       </Stack.Navigator>
+      {/* Covers the stack instead of replacing it so navigation state survives a lock */}
+      {isAuthenticated && locked && (
+        <View style={StyleSheet.absoluteFill}>
+          <LockScreen />
+        </View>
+      )}
     </>
   );
 };
@@ -3,90 +3,34 @@
  * Shared type definitions for navigation across the app
  */
 
+import { ConversationPreview, EmailLog, Payment, StudentPackage } from '../api';
+
 export type RootStackParamList = {
   Login: undefined;
   Main: undefined; // Tab Navigator
   ForgotPassword: undefined;
   // Debug routes removed for production
   Email: {
-    data: {
-      id: number;
-      user_details: {
-        first_name: string;
-        last_name?: string;
-        email?: string;
-      };
-      template_details: {
-        subject: string;
-        body: string;
-      };
-      created_at: string;
-    };
+    data: EmailLog;
     title: string;
   };
   SMS: {
-    data: {
-      id: number;
-      moderator_details?: {
-        first_name: string;
-        last_name?: string;
-      };
-      text: string;
-      unread_count: number;
-      created_at: string;
-      contact?: string;
-      lead_details?: {
-        phone_1?: string;
-        phone_2?: string;
-        telephone?: string;
-      };
-    };
+    data: ConversationPreview;
     title: string;
+    /** Focus the reply composer on open */
+    compose?: boolean;
   };
   Notification: undefined;
+  Search: undefined;
   Payments: {
-    data: {
-      id: number;
-      package_details: {
-        id: number;
-        name: string;
-        italian_name: string;
-      };
-      final_amount?: number;
-      payment_type?: 'full' | 'emi';
-      upfront_payments_details?: Array<{
-        id: number;
-        amount: number;
-        due_date: string;
-        payment_status: 'PAID' | 'UNPAID' | 'OVERDUE';
-        payment_method?: string;
-      }>;
-      installments_details?: Array<{
-        id: number;
-        amount: number;
-        due_date: string;
-        status?: string; // API returns 'status' field
-        payment_status?: 'PAID' | 'UNPAID' | 'OVERDUE';
-        payment_date?: string;
-        payment_method?: string;
-        notes?: string;
-      }>;
-      // Allow additional fields from package data
-      courses_start_date?: string;
-      courses_end_date?: string;
-      courses?: Array<any>;
-      [key: string]: any; // Allow any additional fields
-    };
+    data: StudentPackage;
   };
   EMI: {
-    data: Array<{
-      id: number;
-      amount: number;
-      due_date: string;
-      payment_status: 'PAID' | 'UNPAID' | 'OVERDUE';
-      payment_method?: string;
-    }>;
+    data: Payment[];
+    /** Package of the installments; without it they can't be paid from the screen */
+    packageId?: number;
   };
+  FinancialOverview: undefined;
   SwitchUser: undefined;
   // NotificationDebug: undefined; // Removed from UI but kept for future use
 };
\ No newline at end of file
@@ -8,28 +8,13 @@ import { Text, Title } from '../components/Typography';
 import { Calendar } from '../components/Calendar';
 import { Header } from '../components/Header';
 import { BottomNavigation } from '../components/BottomNavigation';
+import { OfflineIndicator } from '../components/OfflineIndicator';
 import { useTranslation } from '../hooks/useTranslation';
 import { useCollection } from '../hooks/useCollection';
 import { formatDate, formatTime, formatDateTime } from '../helpers/dateUtils';
+import { Appointment, endpoints, resolvePath } from '../api';
 
 
-// Type definitions matching the API response structure
-interface AppointmentData {
-  id: number;
-  title?: string;
-  name?: string;
-  notes?: string;
-  text?: string;
-  happening_at: string;
-  description?: string;
-  status?: string;
-  location?: string;
-  user_details?: {
-    first_name: string;
-    last_name?: string;
-  };
-}
-
 interface CalendarEvent {
   id: string;
   title: string;
@@ -42,7 +27,10 @@ const CalendarScreen: React.FC = () => {
   const [selectedDate, setSelectedDate] = useState<Date | undefined>();
   
   // Fetch appointments from API (exactly like legacy app)
-  const { collection } = useCollection<AppointmentData>('me/appointments');
+  const { collection } = useCollection<Appointment>(resolvePath(endpoints.appointments), {
+    persist: true,
+    schema: endpoints.appointments.response,
+  });
   
   // Debug logging
   console.log('Calendar collection state:', {
@@ -122,6 +110,7 @@ const CalendarScreen: React.FC = () => {
         title={t('mobile.titles.calendar')} 
         showNotification 
       />
+      <OfflineIndicator offline={collection.offline} lastUpdated={collection.lastUpdated} />
       
       <ScrollView 
         style={styles.scrollView}
@@ -1,84 +1,52 @@
 import React, { useMemo } from 'react';
 import { View, StyleSheet, FlatList, ListRenderItem } from 'react-native';
-import { Text, Card } from 'react-native-paper';
+import { Text, Card, Button } from 'react-native-paper';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
 import Icon from 'react-native-vector-icons/Feather';
 
 import { Header, BottomNavigation } from '../components';
 import { colors, spacing } from '../helpers/theme';
-import { formatDate, isDateBefore } from '../helpers/dateUtils';
-import { formatNumber } from '../helpers/generalUtils';
+import { formatDate } from '../helpers/dateUtils';
+import { formatCurrency } from '../helpers/generalUtils';
+import { getPaymentItems, PaymentItem } from '../helpers/payments';
+import { useCheckout } from '../hooks/useCheckout';
+import { usePdfExport } from '../hooks/usePdfExport';
+import { useTranslation } from '../hooks/useTranslation';
 import { RootStackParamList } from '../navigation/types';
+import { PaymentStatus } from '../api';
+import { exportService } from '../services/ExportService';
 
 /**
  * EMIScreen - Modern EMI installments screen
  * Replaces the legacy EMIScreen.js with modern TypeScript implementation
  */
 
-// Type definitions matching the API response
-interface InstallmentData {
-  id: number;
-  amount: number;
-  due_date: string;
-  status?: string; // API returns 'status' field ("paid", "pending")
-  payment_status?: 'PAID' | 'UNPAID' | 'OVERDUE'; // Fallback for legacy
-  payment_date?: string | null;
-  payment_method?: string | null;
-  installment_number?: number;
-  notes?: string;
-}
-
-type PaymentStatus = 'PAID' | 'UNPAID' | 'OVERDUE';
-
 type Props = NativeStackScreenProps<RootStackParamList, 'EMI'>;
 
 interface InstallmentItemProps {
-  installment: InstallmentData & { calculatedStatus: PaymentStatus };
+  installment: PaymentItem;
   index: number;
 }
 
 const EMIScreen: React.FC<Props> = ({ navigation, route }) => {
-  const { data } = route.params;
+  const { packageId } = route.params;
+  const { t, currentLanguage } = useTranslation();
+  const { packages, processing, paying, pay } = useCheckout();
+  const { exporting, runExport } = usePdfExport();
+  // Packages are refreshed after each checkout
+  const data = packages?.find(item => item.id === packageId)?.installments_details || route.params.data;
 
-  console.log('EMIScreen received data:', data);
-  console.log('Data length:', data?.length);
-  console.log('Data structure:', JSON.stringify(data, null, 2));
-
-  // Process installments with status calculation
-  const processedInstallments = useMemo(() => {
-    if (!data || !Array.isArray(data)) {
-      console.log('EMI data is not an array or is empty:', data);
-      return [];
-    }
-
-    return data.map((installment: InstallmentData) => {
-      // API returns 'status' field, not 'payment_status'
-      let status = installment.status || installment.payment_status;
-      
-      // Convert API status to expected format
-      if (status === 'paid') status = 'PAID';
-      if (status === 'pending') status = 'UNPAID';
-      
-      // Check if unpaid installment is overdue
-      if (status === 'UNPAID') {
-        const dueDate = new Date(installment.due_date);
-        const now = new Date();
-        
-        if (isDateBefore(dueDate, now)) {
-          status = 'OVERDUE';
-        }
-      }
-      
-      return {
-        ...installment,
-        calculatedStatus: (status || 'UNPAID') as PaymentStatus,
-      };
-    });
-  }, [data]);
+  // Status computed like PaymentsScreen and ProfileScreen do
+  const processedInstallments = useMemo(
+    () => getPaymentItems(Array.isArray(data) ? data : [], 'installment', packageId),
+    [data, packageId]
+  );
 
-  // Create enhanced installment type
-  type EnhancedInstallment = InstallmentData & { calculatedStatus: PaymentStatus };
+  // Overdue installments not already sent to checkout
+  const payableOverdue = processedInstallments.filter(
+    item => item.status === 'OVERDUE' && !processing[item.id]
+  );
 
   const handleBackPress = () => {
     navigation.goBack();
@@ -121,10 +89,12 @@ const EMIScreen: React.FC<Props> = ({ navigation, route }) => {
   };
 
   const InstallmentItem: React.FC<InstallmentItemProps> = ({ installment, index }) => {
-    const status = installment.calculatedStatus;
+    const status = installment.status;
     const statusColor = getStatusColor(status);
     const statusIcon = getStatusIcon(status);
-    const statusLabel = getStatusLabel(status);
+    const statusLabel = installment.daysOverdue > 0
+      ? `${getStatusLabel(status)} (${installment.daysOverdue}d)`
+      : getStatusLabel(status);
 
     return (
       <Card style={styles.installmentCard}>
@@ -144,21 +114,21 @@ const EMIScreen: React.FC<Props> = ({ navigation, route }) => {
               <View style={styles.detailRow}>
                 <Text style={styles.detailLabel}>Date</Text>
                 <Text style={styles.detailValue}>
-                  {formatDate(installment.due_date, 'dd MMM, yyyy')}
+                  {formatDate(installment.dueDate, 'dd MMM, yyyy')}
                 </Text>
               </View>
 
               <View style={styles.detailRow}>
                 <Text style={styles.detailLabel}>Amount</Text>
                 <Text style={[styles.detailValue, styles.amountValue]}>
-                  €{formatNumber(installment.amount)}
+                  {formatCurrency(installment.amount, currentLanguage)}
                 </Text>
               </View>
 
               <View style={styles.detailRow}>
                 <Text style={styles.detailLabel}>Payment Method</Text>
                 <Text style={styles.detailValue}>
-                  {installment.payment_method || 'Not specified'}
+                  {installment.method || 'Not specified'}
                 </Text>
               </View>
 
@@ -168,6 +138,33 @@ const EMIScreen: React.FC<Props> = ({ navigation, route }) => {
                   {statusLabel}
                 </Text>
               </View>
+
+              {packageId !== undefined && status === 'PAID' && (
+                <Button
+                  compact
+                  disabled={exporting}
+                  onPress={() => runExport(() => exportService.exportReceipt(packageId, installment.id))}
+                  style={styles.receiptButton}
+                >
+                  {t('mobile.statement.downloadReceipt')}
+                </Button>
+              )}
+
+              {packageId !== undefined && status !== 'PAID' && (
+                processing[installment.id] ? (
+                  <Text style={styles.processingText}>{t('mobile.checkout.processing')}</Text>
+                ) : (
+                  <Button
+                    mode="outlined"
+                    compact
+                    disabled={paying}
+                    onPress={() => pay(packageId, [installment.id])}
+                    style={styles.payButton}
+                  >
+                    {t('mobile.checkout.payNow')}
+                  </Button>
+                )
+              )}
             </View>
           </View>
         </Card.Content>
@@ -175,7 +172,7 @@ const EMIScreen: React.FC<Props> = ({ navigation, route }) => {
     );
   };
 
-  const renderInstallmentItem: ListRenderItem<InstallmentData & { calculatedStatus: PaymentStatus }> = ({ item, index }) => (
+  const renderInstallmentItem: ListRenderItem<PaymentItem> = ({ item, index }) => (
     <InstallmentItem installment={item} index={index} />
   );
 
@@ -197,8 +194,8 @@ const EMIScreen: React.FC<Props> = ({ navigation, route }) => {
 
   const renderHeader = () => {
     const totalInstallments = processedInstallments.length;
-    const paidInstallments = processedInstallments.filter(i => i.calculatedStatus === 'PAID').length;
-    const overdue = processedInstallments.filter(i => i.calculatedStatus === 'OVERDUE').length;
+    const paidInstallments = processedInstallments.filter(i => i.status === 'PAID').length;
+    const overdue = processedInstallments.filter(i => i.status === 'OVERDUE').length;
 
     return (
       <Card style={styles.summaryCard}>
@@ -225,6 +222,20 @@ const EMIScreen: React.FC<Props> = ({ navigation, route }) => {
               <Text style={styles.summaryLabel}>Overdue</Text>
             </View>
           </View>
+
+          {packageId !== undefined && payableOverdue.length > 0 && (
+            <Button
+              mode="contained"
+              loading={paying}
+              disabled={paying}
+              onPress={() => pay(packageId, payableOverdue.map(item => item.id))}
+              style={styles.payAllButton}
+            >
+              {t('mobile.checkout.payAllOverdue', {
+                amount: formatCurrency(payableOverdue.reduce((sum, item) => sum + item.amount, 0), currentLanguage),
+              })}
+            </Button>
+          )}
         </Card.Content>
       </Card>
     );
@@ -353,6 +364,23 @@ const styles = StyleSheet.create({
     flex: 1,
     textAlign: 'right',
   },
+  payButton: {
+    alignSelf: 'flex-end',
+    borderColor: colors.primary,
+  },
+  receiptButton: {
+    alignSelf: 'flex-end',
+  },
+  processingText: {
+    fontSize: 13,
+    fontStyle: 'italic',
+    color: colors.textSecondary,
+    textAlign: 'right',
+  },
+  payAllButton: {
+    marginTop: spacing.lg,
+    borderRadius: 8,
+  },
   amountValue: {
     fontSize: 15,
     color: colors.primary,
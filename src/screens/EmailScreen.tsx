@@ -1,42 +1,33 @@
 import React, { useEffect } from 'react';
-import { View, StyleSheet } from 'react-native';
+import { View, StyleSheet, Alert, TouchableOpacity, ActivityIndicator } from 'react-native';
 import { Text, Card, Title } from 'react-native-paper';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import Icon from 'react-native-vector-icons/Feather';
 
-import { Header, ScrollView, BottomNavigation } from '../components';
+import { Header, ScrollView, BottomNavigation, HtmlContent, AttachmentItem } from '../components';
+import { useEmailAttachments } from '../hooks/useEmailAttachments';
+import { usePdfExport } from '../hooks/usePdfExport';
+import { useTranslation } from '../hooks/useTranslation';
 import { colors, spacing } from '../helpers/theme';
 import { formatDateTime } from '../helpers/dateUtils';
 import { RootStackParamList } from '../navigation/types';
+import { readStateService, readTargets } from '../services/ReadStateService';
+import { exportService } from '../services/ExportService';
+import { EmailAttachment, PersonDetails } from '../api';
 
 /**
  * EmailScreen - Modern email detail screen
  * Replaces the legacy EmailScreen.js with modern TypeScript implementation
  */
 
-// Type definitions
-interface EmailUser {
-  first_name: string;
-  last_name?: string;
-  email?: string;
-}
-
-interface EmailTemplateDetails {
-  subject: string;
-  body: string;
-}
-
-interface EmailData {
-  id: number;
-  user_details: EmailUser;
-  template_details: EmailTemplateDetails;
-  created_at: string;
-}
-
 type Props = NativeStackScreenProps<RootStackParamList, 'Email'>;
 
 const EmailScreen: React.FC<Props> = ({ navigation, route }) => {
   const { data, title } = route.params;
+  const { t } = useTranslation();
+  const { attachments, states, openAttachment } = useEmailAttachments(data.id);
+  const { exporting, runExport } = usePdfExport();
 
   // Set navigation title
   useEffect(() => {
@@ -46,12 +37,32 @@ const EmailScreen: React.FC<Props> = ({ navigation, route }) => {
     });
   }, [navigation, title]);
 
-  const getFullName = (user: EmailUser): string => {
+  // Emails opened from a notification carry no read flag; the notification was marked instead
+  useEffect(() => {
+    const readTarget = readTargets.email(data);
+    if (data.read !== undefined && readStateService.isUnread(readTarget)) {
+      readStateService.setRead(readTarget, true);
+    }
+  }, [data]);
+
+  const getFullName = (user: PersonDetails): string => {
     const firstName = user.first_name || '';
     const lastName = user.last_name || '';
     return `${firstName} ${lastName}`.trim() || 'Unknown User';
   };
 
+  const handleAttachmentPress = async (attachment: EmailAttachment) => {
+    const downloaded = states[attachment.id]?.status === 'downloaded';
+    try {
+      await openAttachment(attachment);
+    } catch {
+      Alert.alert(
+        t('general.error'),
+        t(downloaded ? 'mobile.attachments.openFailed' : 'mobile.attachments.downloadFailed')
+      );
+    }
+  };
+
   const handleBackPress = () => {
     navigation.goBack();
   };
@@ -64,6 +75,18 @@ const EmailScreen: React.FC<Props> = ({ navigation, route }) => {
         canGoBack
         onBackPress={handleBackPress}
         noShadow
+        rightComponent={
+          <TouchableOpacity
+            onPress={() => runExport(() => exportService.exportEmailThread(data))}
+            disabled={exporting}
+            style={styles.exportButton}
+            accessibilityLabel={t('mobile.export.exportPdf')}
+          >
+            {exporting
+              ? <ActivityIndicator size="small" color={colors.primary} />
+              : <Icon name="download" size={20} color={colors.primary} />}
+          </TouchableOpacity>
+        }
       />
 
       {/* Email Content */}
@@ -98,11 +121,32 @@ const EmailScreen: React.FC<Props> = ({ navigation, route }) => {
         {/* Email Body Card */}
         <Card style={styles.bodyCard}>
           <Card.Content style={styles.bodyContent}>
-            <Text style={styles.emailBody}>
-              {data.template_details.body || 'No content available.'}
-            </Text>
+            <HtmlContent
+              html={data.template_details.body || ''}
+              style={styles.emailBody}
+              emptyText="No content available."
+            />
           </Card.Content>
         </Card>
+
+        {/* Attachments Card */}
+        {attachments.length > 0 && (
+          <Card style={styles.attachmentsCard}>
+            <Card.Content>
+              <Text style={styles.attachmentsTitle}>
+                {t('mobile.attachments.title', { count: attachments.length })}
+              </Text>
+              {attachments.map(attachment => (
+                <AttachmentItem
+                  key={attachment.id}
+                  attachment={attachment}
+                  state={states[attachment.id] || { status: 'idle', progress: 0 }}
+                  onPress={() => handleAttachmentPress(attachment)}
+                />
+              ))}
+            </Card.Content>
+          </Card>
+        )}
       </ScrollView>
 
       {/* Bottom Navigation */}
@@ -116,6 +160,9 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: colors.surface,
   },
+  exportButton: {
+    padding: spacing.xs,
+  },
   content: {
     flex: 1,
     marginBottom: 66, // Space for bottom navigation
@@ -162,6 +209,18 @@ const styles = StyleSheet.create({
   bodyContent: {
     padding: spacing.lg,
   },
+  attachmentsCard: {
+    elevation: 1,
+    borderRadius: 8,
+    marginTop: spacing.md,
+    backgroundColor: colors.surface,
+  },
+  attachmentsTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.textSecondary,
+    marginBottom: spacing.xs,
+  },
   emailBody: {
     fontSize: 14,
     color: colors.onSurface,
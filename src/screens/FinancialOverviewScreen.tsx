@@ -0,0 +1,360 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, StyleSheet, TouchableWithoutFeedback } from 'react-native';
+import { Text, Card, Title } from 'react-native-paper';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import Icon from 'react-native-vector-icons/Feather';
+
+import { Header, ScrollView, BottomNavigation, OfflineIndicator, Pressable } from '../components';
+import { colors, spacing } from '../helpers/theme';
+import { formatDate } from '../helpers/dateUtils';
+import { formatCurrency } from '../helpers/generalUtils';
+import {
+  getPaymentOverview,
+  PaymentOverviewFilters,
+  PaymentStatusFilter,
+  PaymentTimelineEvent,
+  UPCOMING_MONTHS,
+} from '../helpers/payments';
+import { getPackageName } from '../helpers/statement';
+import { useCollection } from '../hooks/useCollection';
+import { useTranslation } from '../hooks/useTranslation';
+import { RootStackParamList } from '../navigation/types';
+import { endpoints, resolvePath, StudentPackage } from '../api';
+import { paymentService } from '../services/PaymentService';
+
+/**
+ * FinancialOverviewScreen - What was committed, paid and still due across every package,
+ * with the history of each payment and the obligations of the coming months
+ */
+
+type Props = NativeStackScreenProps<RootStackParamList, 'FinancialOverview'>;
+
+const STATUS_FILTERS: PaymentStatusFilter[] = ['ALL', 'PAID', 'UNPAID', 'OVERDUE'];
+
+const EVENT_STYLES: Record<PaymentTimelineEvent['type'], { icon: string; color: string }> = {
+  due: { icon: 'calendar', color: colors.textSecondary },
+  overdue: { icon: 'alert-circle', color: colors.error },
+  paid: { icon: 'check-circle', color: colors.success },
+};
+
+interface ChipProps {
+  label: string;
+  selected: boolean;
+  onPress: () => void;
+}
+
+const Chip: React.FC<ChipProps> = ({ label, selected, onPress }) => (
+  <TouchableWithoutFeedback onPress={onPress}>
+    <View style={[styles.chip, selected && styles.chipSelected]}>
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+    </View>
+  </TouchableWithoutFeedback>
+);
+
+const FinancialOverviewScreen: React.FC<Props> = ({ navigation }) => {
+  const { t, currentLanguage } = useTranslation();
+  const [filters, setFilters] = useState<PaymentOverviewFilters>({ packageId: null, status: 'ALL' });
+  const { collection, updateCollection } = useCollection<StudentPackage>(resolvePath(endpoints.packages), {
+    persist: true,
+    schema: endpoints.packages.response,
+  });
+
+  // Payments made through the checkout show up right away
+  useEffect(() => paymentService.subscribe((event) => {
+    if (event.type === 'packages') {
+      updateCollection({ items: event.packages });
+    }
+  }), [updateCollection]);
+
+  const packages = collection.items;
+  const overview = useMemo(() => getPaymentOverview(packages, filters), [packages, filters]);
+  const maxMonthly = Math.max(...overview.upcoming.map(month => month.amount));
+
+  const getPackageLabel = (packageId: number): string => {
+    const pkg = packages.find(item => item.id === packageId);
+    return pkg ? getPackageName(pkg.package_details, currentLanguage) : '';
+  };
+
+  const openPackage = (packageId: number) => {
+    const pkg = packages.find(item => item.id === packageId);
+    if (pkg) {
+      navigation.navigate('Payments', { data: pkg });
+    }
+  };
+
+  const totals = [
+    { label: t('mobile.overview.committed'), value: overview.totals.committed },
+    { label: t('mobile.overview.paid'), value: overview.totals.paid, color: colors.success },
+    { label: t('mobile.overview.outstanding'), value: overview.totals.outstanding },
+    { label: t('mobile.overview.overdue'), value: overview.totals.overdue, color: colors.error },
+  ];
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <Header
+        title={t('mobile.overview.title')}
+        canGoBack
+        onBackPress={() => navigation.goBack()}
+        noShadow
+      />
+      <OfflineIndicator offline={collection.offline} lastUpdated={collection.lastUpdated} />
+
+      <ScrollView style={styles.content} contentContainerStyle={styles.contentPadding}>
+        {/* Filters */}
+        <Text style={styles.filterLabel}>{t('mobile.overview.packageFilter')}</Text>
+        <View style={styles.chips}>
+          <Chip
+            label={t('mobile.overview.all')}
+            selected={filters.packageId === null}
+            onPress={() => setFilters({ ...filters, packageId: null })}
+          />
+          {packages.map(pkg => (
+            <Chip
+              key={pkg.id}
+              label={getPackageName(pkg.package_details, currentLanguage)}
+              selected={filters.packageId === pkg.id}
+              onPress={() => setFilters({ ...filters, packageId: pkg.id })}
+            />
+          ))}
+        </View>
+        <Text style={styles.filterLabel}>{t('mobile.overview.statusFilter')}</Text>
+        <View style={styles.chips}>
+          {STATUS_FILTERS.map(status => (
+            <Chip
+              key={status}
+              label={status === 'ALL' ? t('mobile.overview.all') : t(`mobile.statement.statuses.${status}`)}
+              selected={filters.status === status}
+              onPress={() => setFilters({ ...filters, status })}
+            />
+          ))}
+        </View>
+
+        {/* Totals */}
+        <View style={styles.totals}>
+          {totals.map(total => (
+            <Card key={total.label} style={styles.totalCard}>
+              <Card.Content>
+                <Text style={styles.totalLabel}>{total.label}</Text>
+                <Text style={[styles.totalValue, total.color ? { color: total.color } : null]}>
+                  {formatCurrency(total.value, currentLanguage)}
+                </Text>
+              </Card.Content>
+            </Card>
+          ))}
+        </View>
+
+        {/* Upcoming obligations by month */}
+        <Card style={styles.sectionCard}>
+          <Card.Content>
+            <Title style={styles.sectionTitle}>{t('mobile.overview.upcoming')}</Title>
+            {maxMonthly > 0 ? (
+              overview.upcoming.map(month => (
+                <View key={month.month} style={styles.monthRow}>
+                  <Text style={styles.monthLabel}>{formatDate(`${month.month}-01`, 'MMM yy')}</Text>
+                  <View style={styles.monthTrack}>
+                    <View style={[styles.monthBar, { width: `${(month.amount / maxMonthly) * 100}%` }]} />
+                  </View>
+                  <Text style={styles.monthAmount}>
+                    {month.count > 0 ? formatCurrency(month.amount, currentLanguage) : '—'}
+                  </Text>
+                </View>
+              ))
+            ) : (
+              <Text style={styles.emptyText}>{t('mobile.overview.noUpcoming', { count: UPCOMING_MONTHS })}</Text>
+            )}
+          </Card.Content>
+        </Card>
+
+        {/* Timeline */}
+        <Card style={styles.sectionCard}>
+          <Card.Content>
+            <Title style={styles.sectionTitle}>{t('mobile.overview.timeline')}</Title>
+            {collection.loaded && overview.timeline.length === 0 && (
+              <Text style={styles.emptyText}>{t('mobile.overview.empty')}</Text>
+            )}
+            {overview.timeline.map((event, index) => {
+              const { icon, color } = EVENT_STYLES[event.type];
+              const isLast = index === overview.timeline.length - 1;
+              return (
+                <Pressable key={event.key} onPress={() => openPackage(event.item.packageId)}>
+                  <View style={styles.eventRow}>
+                    <View style={styles.eventMarker}>
+                      <Icon name={icon} size={18} color={color} />
+                      {!isLast && <View style={styles.eventLine} />}
+                    </View>
+                    <View style={styles.eventDetails}>
+                      <Text style={styles.eventDate}>
+                        {formatDate(event.date, 'dd MMM yyyy')} · <Text style={{ color }}>{t(`mobile.overview.events.${event.type}`)}</Text>
+                      </Text>
+                      <Text style={styles.eventTitle}>
+                        {t(event.item.kind === 'upfront' ? 'mobile.statement.upfront' : 'mobile.statement.installment', {
+                          number: event.item.number,
+                        })}
+                      </Text>
+                      {filters.packageId === null && (
+                        <Text style={styles.eventPackage}>{getPackageLabel(event.item.packageId)}</Text>
+                      )}
+                    </View>
+                    <Text style={styles.eventAmount}>{formatCurrency(event.item.amount, currentLanguage)}</Text>
+                  </View>
+                </Pressable>
+              );
+            })}
+          </Card.Content>
+        </Card>
+      </ScrollView>
+
+      <BottomNavigation />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.surface,
+  },
+  content: {
+    flex: 1,
+    marginBottom: 66, // Space for bottom navigation
+  },
+  contentPadding: {
+    padding: spacing.md,
+  },
+  filterLabel: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginBottom: spacing.xs,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: spacing.sm,
+  },
+  chip: {
+    borderRadius: 30,
+    backgroundColor: colors.grey200,
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipSelected: {
+    backgroundColor: colors.primary,
+  },
+  chipText: {
+    fontSize: 12,
+    color: colors.grey600,
+  },
+  chipTextSelected: {
+    color: colors.onPrimary,
+  },
+  totals: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+  },
+  totalCard: {
+    width: '48%',
+    elevation: 2,
+    borderRadius: 8,
+    marginBottom: spacing.md,
+    backgroundColor: colors.surface,
+  },
+  totalLabel: {
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
+  totalValue: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: colors.onSurface,
+    marginTop: spacing.xs,
+  },
+  sectionCard: {
+    elevation: 2,
+    borderRadius: 8,
+    marginBottom: spacing.md,
+    backgroundColor: colors.surface,
+  },
+  sectionTitle: {
+    fontSize: 19,
+    fontWeight: 'bold',
+    color: colors.primary,
+    marginBottom: spacing.md,
+  },
+  monthRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: spacing.sm,
+  },
+  monthLabel: {
+    width: 56,
+    fontSize: 12,
+    color: colors.onSurface,
+  },
+  monthTrack: {
+    flex: 1,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: colors.grey100,
+    overflow: 'hidden',
+  },
+  monthBar: {
+    height: '100%',
+    borderRadius: 5,
+    backgroundColor: colors.primary,
+  },
+  monthAmount: {
+    width: 90,
+    fontSize: 12,
+    textAlign: 'right',
+    color: colors.onSurface,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  eventRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  eventMarker: {
+    width: 24,
+    alignItems: 'center',
+    alignSelf: 'stretch',
+  },
+  eventLine: {
+    flex: 1,
+    width: 2,
+    marginVertical: 2,
+    backgroundColor: colors.grey300,
+  },
+  eventDetails: {
+    flex: 1,
+    marginLeft: spacing.sm,
+    paddingBottom: spacing.md,
+  },
+  eventDate: {
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
+  eventTitle: {
+    fontSize: 14,
+    color: colors.onSurface,
+    marginTop: 2,
+  },
+  eventPackage: {
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
+  eventAmount: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: colors.onSurface,
+    marginLeft: spacing.sm,
+  },
+});
+
+export default FinancialOverviewScreen;
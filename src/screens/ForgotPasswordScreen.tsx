@@ -89,10 +89,10 @@ const ForgotPasswordScreen: React.FC<Props> = ({ navigation, route }) => {
     } catch (error: any) {
       console.error('Password reset error:', error);
       
-      if (error.response?.data?.errors) {
+      if (error.errors) {
         // Handle validation errors from API
         const apiErrors: ForgotPasswordErrors = {};
-        error.response.data.errors.forEach((err: any) => {
+        error.errors.forEach((err: any) => {
           if (err.field === 'data.email') {
             apiErrors.email = err.description;
           }
@@ -102,7 +102,7 @@ const ForgotPasswordScreen: React.FC<Props> = ({ navigation, route }) => {
         // Handle general errors
         Alert.alert(
           'Error',
-          error.response?.data?.message || 'Failed to send reset link. Please try again.',
+          error.data?.message || 'Failed to send reset link. Please try again.',
           [{ text: 'OK' }]
         );
       }
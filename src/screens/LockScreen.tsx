@@ -0,0 +1,132 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { View, StyleSheet, ImageBackground, Image, Text } from 'react-native';
+
+// Modern hooks and helpers
+import { useBiometricLock } from '../hooks/useBiometricLock';
+import { useTranslation } from '../hooks/useTranslation';
+import { MAX_UNLOCK_ATTEMPTS } from '../services/BiometricService';
+
+// Legacy-style components
+import { LegacyButton } from '../components/LegacyButton';
+
+/**
+ * LockScreen - shown over an authenticated session until biometrics succeed.
+ * Prompts automatically on mount and offers the password login after repeated failures.
+ */
+const LockScreen: React.FC = () => {
+  const { t } = useTranslation();
+  const {
+    unlock,
+    fallbackToPassword,
+    failedAttempts,
+    shouldFallbackToPassword,
+    biometryType,
+    biometryLabel,
+  } = useBiometricLock();
+  const [unlocking, setUnlocking] = useState(false);
+  const promptedRef = useRef(false);
+
+  const handleUnlock = useCallback(async () => {
+    setUnlocking(true);
+    try {
+      await unlock();
+    } finally {
+      setUnlocking(false);
+    }
+  }, [unlock]);
+
+  // Prompt once as soon as the biometry is known
+  useEffect(() => {
+    if (biometryType === undefined || promptedRef.current) return;
+    promptedRef.current = true;
+    handleUnlock();
+  }, [biometryType, handleUnlock]);
+
+  const attemptsLeft = MAX_UNLOCK_ATTEMPTS - failedAttempts;
+
+  return (
+    <ImageBackground
+      source={require('../assets/images/login-background.jpg')}
+      style={styles.bgImage}
+    >
+      <Image source={require('../assets/images/logo.png')} style={styles.logo} />
+
+      <View style={styles.lockCard}>
+        <Text style={styles.title}>{t('mobile.biometric.locked')}</Text>
+
+        {!shouldFallbackToPassword && (
+          <LegacyButton
+            text={t('mobile.biometric.unlockWith', { biometry: biometryLabel })}
+            onPress={handleUnlock}
+            disabled={unlocking}
+            loading={unlocking}
+            style={styles.btnPrimary}
+          />
+        )}
+
+        {failedAttempts > 0 && !shouldFallbackToPassword && (
+          <Text style={styles.errorText}>
+            {t('mobile.biometric.failed', { count: attemptsLeft })}
+          </Text>
+        )}
+
+        {shouldFallbackToPassword && (
+          <>
+            <Text style={styles.errorText}>{t('mobile.biometric.tooManyAttempts')}</Text>
+            <LegacyButton
+              text={t('mobile.biometric.passwordLogin')}
+              onPress={fallbackToPassword}
+              style={styles.btnPrimary}
+            />
+          </>
+        )}
+      </View>
+    </ImageBackground>
+  );
+};
+
+const styles = StyleSheet.create({
+  bgImage: {
+    width: '100%',
+    height: '100%',
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  logo: {
+    width: 100,
+    height: 100,
+    resizeMode: 'contain',
+  },
+  lockCard: {
+    backgroundColor: '#fff',
+    marginTop: 64,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 5,
+    paddingTop: 24,
+    paddingBottom: 24,
+    paddingLeft: 34,
+    paddingRight: 34,
+    width: '80%',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#3C4F4D',
+    textAlign: 'center',
+  },
+  btnPrimary: {
+    marginTop: 24,
+    backgroundColor: '#0052CD',
+    borderRadius: 3,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#dc3545',
+    textAlign: 'center',
+    marginTop: 16,
+  },
+});
+
+export default LockScreen;
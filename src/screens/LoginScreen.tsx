@@ -1,4 +1,4 @@
-import React, { useCallback, useState } from 'react';
+import React, { useCallback, useRef, useState } from 'react';
 import {
   View,
   StyleSheet,
@@ -7,45 +7,39 @@ import {
   ImageBackground,
   Image,
   Text,
+  TouchableWithoutFeedback,
 } from 'react-native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 
 // Modern hooks and helpers
 import { useApiPost } from '../hooks/useApi';
 import { useTranslation } from '../hooks/useTranslation';
-import { useUserToken } from '../hooks/useAsyncStorage';
 import { isValidEmail } from '../helpers/applicationUtils';
-import { apiService } from '../helpers/request';
+import { DEVELOPER_MENU_ENABLED } from '../helpers/environment';
+import { sessionManager } from '../services/SessionManager';
+import { LoginRequest, LoginResponse, endpoints, parseEnvelope, resolvePath } from '../api';
 import { RootStackParamList } from '../navigation/types';
 
 // Legacy-style components
 import { LegacyInput } from '../components/LegacyInput';
 import { LegacyButton } from '../components/LegacyButton';
+import { DeveloperMenu } from '../components/DeveloperMenu';
 
 // Type definitions
-interface LoginData {
-  data: {
-    email: string;
-    password: string;
-  };
-}
-
-interface LoginResponseData {
-  access_token: string;
-  refresh_token: string;
-  id: number;
-  name: string;
-  email: string;
-  id_lead?: number;
-  ids_role?: number[];
-  is_owner?: boolean;
-  permissions?: any;
-}
-
 interface LoginErrors {
   [key: string]: string;
 }
 
+/**
+ * Validate the `jwt` response before its tokens are stored
+ */
+const validateLoginResponse = (data: unknown): LoginResponse =>
+  parseEnvelope(resolvePath(endpoints.login), data, endpoints.login.response).data;
+
+// Logo taps, each within the interval of the previous one, that open the developer menu
+const DEVELOPER_MENU_TAPS = 7;
+const DEVELOPER_MENU_TAP_INTERVAL = 600;
+
 type LoginScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Login'>;
 
 interface Props {
@@ -56,14 +50,17 @@ const LoginScreen: React.FC<Props> = ({ navigation }) => {
   console.log('🔑 LoginScreen rendered');
   // Modern hooks
   const { t } = useTranslation();
-  const { login: setUserToken } = useUserToken();
-  const { state: loginState, execute: executeLogin } = useApiPost<LoginResponseData>('jwt');
+  const { state: loginState, execute: executeLogin } = useApiPost<LoginResponse>(resolvePath(endpoints.login), {
+    transform: validateLoginResponse,
+  });
 
   // State management
   const [email, setEmail] = useState<string>('');
   const [password, setPassword] = useState<string>('');
   const [hidePassword, setHidePassword] = useState<boolean>(true);
   const [errors, setErrors] = useState<LoginErrors>({});
+  const [isDeveloperMenuVisible, setDeveloperMenuVisible] = useState<boolean>(false);
+  const logoTapsRef = useRef({ count: 0, lastTap: 0 });
 
   const validateForm = useCallback((): boolean => {
     const newErrors: LoginErrors = {};
@@ -92,7 +89,7 @@ const LoginScreen: React.FC<Props> = ({ navigation }) => {
 
     setErrors({});
 
-    const loginData: LoginData = {
+    const loginData: LoginRequest = {
       data: {
         email: email.trim().toLowerCase(),
         password: password,
@@ -100,69 +97,19 @@ const LoginScreen: React.FC<Props> = ({ navigation }) => {
     };
 
     try {
-      // Let's test with direct apiService call first
-      console.log('Making direct API call...');
-      const directResult = await apiService.post('jwt', loginData);
-      console.log('Direct API result:', directResult);
-      
-      if (directResult?.data?.data) {
-        console.log('Direct login successful:', directResult.data);
-        console.log('Token to store:', directResult.data.data.access_token);
-        await setUserToken(directResult.data.data.access_token);
-        console.log('Token stored, navigating to Home...');
-        
-        // Sync notification token after successful login
-        try {
-          const { notificationService } = await import('../services/NotificationService');
-          await notificationService.syncToken();
-        } catch (error) {
-          console.warn('⚠️ Failed to sync notification token after login:', error);
-        }
-        
-                      navigation.navigate('Main');
-        return;
-      }
-      
-      // Fallback to the hook method
       const result = await executeLogin(loginData);
-      
-      console.log('executeLogin returned:', result);
-      console.log('loginState after call:', loginState);
-      
+
       if (result) {
-        console.log('Login successful:', result);
-        console.log('Token to store:', result.access_token);
-        
-        // Store the token securely using modern hook
-        await setUserToken(result.access_token);
-        
-        // Sync notification token after successful login
-        try {
-          const { notificationService } = await import('../services/NotificationService');
-          await notificationService.syncToken();
-        } catch (error) {
-          console.warn('⚠️ Failed to sync notification token after login:', error);
-        }
-        
-        console.log('Token stored, navigating to Home...');
-        // Navigate to home screen
-        try {
-                        navigation.navigate('Main');
-          console.log('Navigation called successfully');
-        } catch (navError) {
-          console.error('Navigation error:', navError);
-        }
+        console.log('Login successful, starting session...');
+        await sessionManager.startSession(result);
+        navigation.navigate('Main');
       } else {
         console.log('Login failed - no result returned');
-        console.log('Current loginState:', loginState);
-        if (loginState.error) {
-          console.log('Login error:', loginState.error);
-        }
       }
     } catch (error) {
       console.error('Login execution error:', error);
     }
-  }, [email, password, navigation, validateForm, executeLogin, setUserToken, loginState]);
+  }, [email, password, navigation, validateForm, executeLogin]);
 
   const togglePasswordVisibility = useCallback(() => {
     setHidePassword(!hidePassword);
@@ -172,6 +119,21 @@ const LoginScreen: React.FC<Props> = ({ navigation }) => {
     navigation.navigate('ForgotPassword');
   }, [navigation]);
 
+  // Hidden developer menu: tap the logo several times in quick succession
+  const handleLogoPress = useCallback(() => {
+    if (!DEVELOPER_MENU_ENABLED) return;
+
+    const now = Date.now();
+    const taps = logoTapsRef.current;
+    taps.count = now - taps.lastTap < DEVELOPER_MENU_TAP_INTERVAL ? taps.count + 1 : 1;
+    taps.lastTap = now;
+
+    if (taps.count >= DEVELOPER_MENU_TAPS) {
+      taps.count = 0;
+      setDeveloperMenuVisible(true);
+    }
+  }, []);
+
   return (
     <KeyboardAvoidingView 
       style={styles.container}
@@ -182,12 +144,14 @@ const LoginScreen: React.FC<Props> = ({ navigation }) => {
         style={styles.bgImage}
       >
         <View style={styles.titleSection}>
-          <Text style={styles.title}>
-            <Image
-              source={require('../assets/images/logo.png')}
-              style={styles.logo}
-            />
-          </Text>
+          <TouchableWithoutFeedback onPress={handleLogoPress}>
+            <Text style={styles.title}>
+              <Image
+                source={require('../assets/images/logo.png')}
+                style={styles.logo}
+              />
+            </Text>
+          </TouchableWithoutFeedback>
           {t('mobile.login.subtitle') && (
             <Text style={styles.subTitle}>
               {t('mobile.login.subtitle')}
@@ -247,6 +211,13 @@ const LoginScreen: React.FC<Props> = ({ navigation }) => {
           />
         </View>
       </ImageBackground>
+
+      {DEVELOPER_MENU_ENABLED && (
+        <DeveloperMenu
+          visible={isDeveloperMenuVisible}
+          onClose={() => setDeveloperMenuVisible(false)}
+        />
+      )}
     </KeyboardAvoidingView>
   );
 };
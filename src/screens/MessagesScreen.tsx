@@ -27,54 +27,42 @@ import { useCollection } from '../hooks/useCollection';
 import { useRefresh } from '../hooks/useRefresh';
 import { useUserId } from '../hooks/useAsyncStorage';
 import { useTranslation } from '../hooks/useTranslation';
+import { useUnreadCounts } from '../hooks/useUnreadCounts';
+import { useDrafts } from '../hooks/useDraft';
 import { getDisplayName, getUserInitials } from '../helpers/applicationUtils';
 import { formatDate, getRelativeTime } from '../helpers/dateUtils';
 import { colors, spacing } from '../helpers/theme';
-import { apiService } from '../helpers/request';
-import { Header, BottomNavigation } from '../components';
-import { createLogoutHandler } from '../helpers/authUtils';
-import { createSimpleLogoutHandler } from '../helpers/simpleLogout';
-import { createSafeLogoutHandler } from '../helpers/safeLogout';
-import { createEmergencyLogoutHandler } from '../helpers/emergencyLogout';
+import { isNetworkError } from '../helpers/request';
+import { toConversationPreview } from '../helpers/inboxSearch';
+import { Header, BottomNavigation, OfflineIndicator, SwipeableRow } from '../components';
+import { sessionManager } from '../services/SessionManager';
+import { readStateService, readTargets, ReadTarget } from '../services/ReadStateService';
+import { responseCache, CachedResult } from '../services/ResponseCache';
+import { RootStackParamList } from '../navigation/types';
+import {
+  ApiEnvelope,
+  ConversationPreview,
+  EmailLog,
+  User,
+  WhatsAppConversation,
+  endpoints,
+  resolvePath,
+} from '../api';
 
 
 // Type definitions
-interface User {
-  id: number;
-  first_name: string;
-  last_name?: string;
-  email?: string;
-}
-
-interface EmailItem {
-  id: number;
-  user_details: User;
-  template_details: {
-    subject: string;
-  };
-  created_at: string;
-}
-
-interface MessageItem {
-  id: number;
-  moderator_details?: User;
-  text: string;
-  unread_count: number;
-  created_at: string;
-  contact?: string;
-}
-
 type MessageType = 'email' | 'whatsapp';
 
-type RootStackParamList = {
-  Login: undefined;
-  Home: undefined;
-  Email: { data: EmailItem; title: string };
-  SMS: { data: MessageItem; title: string };
-  Notification: undefined;
-};
+/**
+ * Map whatsapp-conversations API records to list items
+ */
+const toMessageItems = (conversations: WhatsAppConversation[] = []): ConversationPreview[] =>
+  conversations.map(toConversationPreview);
 
-type MessagesScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Home'>;
+const getConversationTarget = (item: ConversationPreview): ReadTarget =>
+  readTargets.conversation(item.contact || String(item.id), item.unread_count);
+
+type MessagesScreenNavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
 interface Props {
   navigation: MessagesScreenNavigationProp;
@@ -84,86 +72,92 @@ const MessagesScreen: React.FC<Props> = ({ navigation }) => {
   // Modern hooks
   const { t } = useTranslation();
   const { userId } = useUserId();
+  const drafts = useDrafts();
   
   // State management
   const [selectedTab, setSelectedTab] = useState<MessageType>('email');
-  const [emailItems, setEmailItems] = useState<EmailItem[]>([]);
-  const [messageItems, setMessageItems] = useState<MessageItem[]>([]);
+  const [emailItems, setEmailItems] = useState<EmailLog[]>([]);
+  const [messageItems, setMessageItems] = useState<ConversationPreview[]>([]);
   const [loading, setLoading] = useState<boolean>(false);
   const [refreshing, setRefreshing] = useState<boolean>(false);
+  // Last update time of the cached lists shown while offline
+  const [offlineSince, setOfflineSince] = useState<number | null>(null);
+  // Re-renders the lists when items are marked read or unread
+  const unreadCounts = useUnreadCounts();
 
-  // Load data
-  const loadEmails = useCallback(async () => {
+  // Load data, rendering cached lists first and falling back to them offline
+  const loadEmails = useCallback(async (): Promise<CachedResult | null> => {
     try {
-      const response = await apiService.get('me/email-logs');
-      setEmailItems(response.data.data || []);
+      const result = await responseCache.get<ApiEnvelope<EmailLog[]>>(
+        resolvePath(endpoints.emailLogs),
+        (cached) => {
+          setEmailItems(prev => (prev.length > 0 ? prev : cached.data.data || []));
+        },
+        endpoints.emailLogs.response
+      );
+      setEmailItems(result.data.data || []);
+      return result;
     } catch (error: any) {
       console.error('❌ Error loading emails:', error);
       
       // Don't show alert for network errors in development
-      if (error?.message !== 'Network Error') {
+      if (!isNetworkError(error)) {
         Alert.alert('Error', 'Failed to load emails');
       }
       
       // Set empty array to show "No emails found" instead of error
       setEmailItems([]);
+      return null;
     }
   }, []);
 
-  const loadMessages = useCallback(async () => {
+  const loadMessages = useCallback(async (): Promise<CachedResult | null> => {
     try {
       // First get user profile to get lead ID (as per API documentation)
-      const userResponse = await apiService.get('me');
-      const leadId = userResponse.data.data?.lead_details?.id || userResponse.data.data?.id;
-      
-      if (leadId) {
-        const response = await apiService.get(`whatsapp-conversations?id_lead=${leadId}`);
-        
-        // Process the response according to API documentation
-        const conversations = response.data.data || [];
-        const processedMessages = conversations.map((conversation: any) => ({
-          id: conversation.id,
-          moderator_details: conversation.moderator_details || { first_name: 'Unknown' },
-          text: conversation.last_message?.text || 'No message content',
-          unread_count: conversation.unread_count || 0,
-          created_at: conversation.last_message?.created_at || conversation.created_at,
-          contact: conversation.contact
-        }));
-        
-        setMessageItems(processedMessages);
-      } else {
-        const response = await apiService.get('whatsapp-conversations');
-        
-        // Process conversations without lead filter
-        const conversations = response.data.data || [];
-        const processedMessages = conversations.map((conversation: any) => ({
-          id: conversation.id,
-          moderator_details: conversation.moderator_details || { first_name: 'Unknown' },
-          text: conversation.last_message?.text || 'No message content',
-          unread_count: conversation.unread_count || 0,
-          created_at: conversation.last_message?.created_at || conversation.created_at,
-          contact: conversation.contact
-        }));
-        
-        setMessageItems(processedMessages);
-      }
+      const userResult = await responseCache.get<ApiEnvelope<User>>(
+        resolvePath(endpoints.me),
+        undefined,
+        endpoints.me.response
+      );
+      const leadId = userResult.data.data?.lead_details?.id || userResult.data.data?.id;
+      const path = resolvePath(endpoints.whatsAppConversations);
+      const endpoint = leadId ? `${path}?id_lead=${leadId}` : path;
+
+      // Process the response according to API documentation
+      const result = await responseCache.get<ApiEnvelope<WhatsAppConversation[]>>(
+        endpoint,
+        (cached) => {
+          setMessageItems(prev => (prev.length > 0 ? prev : toMessageItems(cached.data.data)));
+        },
+        endpoints.whatsAppConversations.response
+      );
+      setMessageItems(toMessageItems(result.data.data));
+      return result;
     } catch (error: any) {
       console.error('❌ Error loading messages:', error);
       
       // Don't show alert for network errors in development
-      if (error?.message !== 'Network Error') {
+      if (!isNetworkError(error)) {
         Alert.alert('Error', 'Failed to load messages');
       }
       
       // Set empty array to show "No messages found" instead of error
       setMessageItems([]);
+      return null;
     }
   }, []);
 
   const loadData = useCallback(async () => {
     setLoading(true);
     try {
-      await Promise.all([loadEmails(), loadMessages()]);
+      readStateService.refreshCounts();
+      const results = await Promise.all([loadEmails(), loadMessages()]);
+      const offlineResults = results.filter((result): result is CachedResult => !!result?.offline);
+      setOfflineSince(
+        offlineResults.length > 0
+          ? Math.min(...offlineResults.map(result => result.updatedAt))
+          : null
+      );
     } catch (error: any) {
       console.error('❌ Error loading data:', error);
     } finally {
@@ -195,22 +189,35 @@ const MessagesScreen: React.FC<Props> = ({ navigation }) => {
   );
 
   // Navigation handlers
-  const handleEmailPress = useCallback((item: EmailItem) => {
+  const handleEmailPress = useCallback((item: EmailLog) => {
     navigation.navigate('Email', {
       data: item,
       title: item.user_details.first_name,
     });
   }, [navigation]);
 
-  const handleMessagePress = useCallback((item: MessageItem) => {
+  const handleMessagePress = useCallback((item: ConversationPreview) => {
     navigation.navigate('SMS', {
       data: item,
       title: item.moderator_details?.first_name || '(No name)',
     });
   }, [navigation]);
 
+  const handleMarkAllRead = useCallback(() => {
+    if (selectedTab === 'email') {
+      readStateService.markAllRead('email', emailItems.map(readTargets.email));
+    } else {
+      readStateService.markAllRead(
+        'conversation',
+        messageItems.map(getConversationTarget)
+      );
+    }
+  }, [selectedTab, emailItems, messageItems]);
+
+  const tabUnreadCount = selectedTab === 'email' ? unreadCounts.emails : unreadCounts.messages;
+
   // Format date helper
-  const formatDate = (dateString: string): string => {
+  const formatItemDate = (dateString: string): string => {
     const date = new Date(dateString);
     return date.toLocaleDateString('en-US', { 
       day: '2-digit', 
@@ -218,68 +225,99 @@ const MessagesScreen: React.FC<Props> = ({ navigation }) => {
     });
   };
 
+  // Swipe action toggling the read state of a row
+  const renderReadSwipe = (target: ReadTarget, unread: boolean, children: React.ReactNode) => (
+    <SwipeableRow
+      actionLabel={t(unread ? 'mobile.readState.markRead' : 'mobile.readState.markUnread')}
+      actionIcon={unread ? 'check' : 'circle'}
+      onAction={() => readStateService.setRead(target, unread)}
+      style={styles.messageRowContainer}
+    >
+      {children}
+    </SwipeableRow>
+  );
+
   // Render email item
-  const renderEmailItem = ({ item }: { item: EmailItem }) => (
-    <Card style={styles.messageCard} onPress={() => handleEmailPress(item)}>
-      <Card.Content style={styles.messageContent}>
-        <View style={styles.messageRow}>
-          <Avatar.Text
-            size={50}
-            label={item.user_details.first_name.charAt(0).toUpperCase()}
-            style={styles.avatar}
-          />
-          <View style={styles.messageInfo}>
-            <View style={styles.messageHeader}>
-              <Text style={styles.senderName}>
-                {item.user_details.first_name}
-              </Text>
-              <Text style={styles.sentTime}>
-                {formatDate(item.created_at)}
-              </Text>
+  const renderEmailItem = ({ item }: { item: EmailLog }) => {
+    const readTarget = readTargets.email(item);
+    const unread = readStateService.isUnread(readTarget);
+
+    return renderReadSwipe(readTarget, unread, (
+      <Card style={styles.messageCard} onPress={() => handleEmailPress(item)}>
+        <Card.Content style={styles.messageContent}>
+          <View style={styles.messageRow}>
+            <Avatar.Text
+              size={50}
+              label={item.user_details.first_name.charAt(0).toUpperCase()}
+              style={styles.avatar}
+            />
+            <View style={styles.messageInfo}>
+              <View style={styles.messageHeader}>
+                <Text style={[styles.senderName, unread && styles.unreadText]}>
+                  {item.user_details.first_name}
+                </Text>
+                <Text style={styles.sentTime}>
+                  {formatItemDate(item.created_at)}
+                </Text>
+              </View>
+              <View style={styles.messageBottom}>
+                <Text style={[styles.messageText, unread && styles.unreadText]} numberOfLines={2}>
+                  {item.template_details.subject}
+                </Text>
+                {unread && <View style={styles.unreadDot} />}
+              </View>
             </View>
-            <Text style={styles.messageText} numberOfLines={2}>
-              {item.template_details.subject}
-            </Text>
           </View>
-        </View>
-      </Card.Content>
-    </Card>
-  );
+        </Card.Content>
+      </Card>
+    ));
+  };
 
   // Render message item
-  const renderMessageItem = ({ item }: { item: MessageItem }) => (
-    <Card style={styles.messageCard} onPress={() => handleMessagePress(item)}>
-      <Card.Content style={styles.messageContent}>
-        <View style={styles.messageRow}>
-          <Avatar.Text
-            size={50}
-            label={(item.moderator_details?.first_name || 'U').charAt(0).toUpperCase()}
-            style={styles.avatar}
-          />
-          <View style={styles.messageInfo}>
-            <View style={styles.messageHeader}>
-              <Text style={styles.senderName}>
-                {item.moderator_details?.first_name || '(No name)'}
-              </Text>
-              <Text style={styles.sentTime}>
-                {formatDate(item.created_at)}
-              </Text>
-            </View>
-            <View style={styles.messageBottom}>
-              <Text style={styles.messageText} numberOfLines={2}>
-                {item.text}
-              </Text>
-              {item.unread_count > 0 && (
-                <Badge style={styles.unreadBadge}>
-                  {item.unread_count}
-                </Badge>
-              )}
+  const renderMessageItem = ({ item }: { item: ConversationPreview }) => {
+    const readTarget = getConversationTarget(item);
+    const unreadCount = readStateService.getUnread(readTarget);
+    const draft = item.contact ? drafts[item.contact]?.text : undefined;
+
+    return renderReadSwipe(readTarget, unreadCount > 0, (
+      <Card style={styles.messageCard} onPress={() => handleMessagePress(item)}>
+        <Card.Content style={styles.messageContent}>
+          <View style={styles.messageRow}>
+            <Avatar.Text
+              size={50}
+              label={(item.moderator_details?.first_name || 'U').charAt(0).toUpperCase()}
+              style={styles.avatar}
+            />
+            <View style={styles.messageInfo}>
+              <View style={styles.messageHeader}>
+                <Text style={[styles.senderName, unreadCount > 0 && styles.unreadText]}>
+                  {item.moderator_details?.first_name || '(No name)'}
+                </Text>
+                <Text style={styles.sentTime}>
+                  {formatItemDate(item.created_at)}
+                </Text>
+              </View>
+              <View style={styles.messageBottom}>
+                <Text style={styles.messageText} numberOfLines={2}>
+                  {draft ? (
+                    <>
+                      <Text style={styles.draftLabel}>{t('mobile.whatsapp.draft')} </Text>
+                      {draft}
+                    </>
+                  ) : item.text}
+                </Text>
+                {unreadCount > 0 && (
+                  <Badge style={styles.unreadBadge}>
+                    {unreadCount}
+                  </Badge>
+                )}
+              </View>
             </View>
           </View>
-        </View>
-      </Card.Content>
-    </Card>
-  );
+        </Card.Content>
+      </Card>
+    ));
+  };
 
   return (
     <SafeAreaView style={styles.container}>
@@ -287,7 +325,17 @@ const MessagesScreen: React.FC<Props> = ({ navigation }) => {
       <Header
         title={t('mobile.titles.messages')}
         showNotification
+        rightComponent={
+          <TouchableOpacity
+            onPress={() => navigation.navigate('Search')}
+            style={styles.headerSearchButton}
+            accessibilityLabel={t('mobile.titles.search')}
+          >
+            <Icon name="search" size={20} color={colors.primary} />
+          </TouchableOpacity>
+        }
       />
+      <OfflineIndicator offline={offlineSince !== null} lastUpdated={offlineSince} />
 
       {/* Content */}
       <View style={styles.content}>
@@ -337,6 +385,13 @@ const MessagesScreen: React.FC<Props> = ({ navigation }) => {
           </View>
         </Surface>
 
+        {tabUnreadCount > 0 && (
+          <TouchableOpacity style={styles.markAllButton} onPress={handleMarkAllRead}>
+            <Icon name="check-circle" size={16} color={colors.primary} />
+            <Text style={styles.markAllText}>{t('mobile.readState.markAllRead')}</Text>
+          </TouchableOpacity>
+        )}
+
         {/* Messages List */}
         {loading && (selectedTab === 'email' ? emailItems : messageItems).length === 0 ? (
           <View style={styles.loadingContainer}>
@@ -346,6 +401,7 @@ const MessagesScreen: React.FC<Props> = ({ navigation }) => {
         ) : selectedTab === 'email' ? (
           <FlatList
             data={emailItems}
+            extraData={unreadCounts.emails}
             renderItem={renderEmailItem}
             keyExtractor={(item) => `email-${item.id}`}
             contentContainerStyle={styles.listContainer}
@@ -362,6 +418,7 @@ const MessagesScreen: React.FC<Props> = ({ navigation }) => {
         ) : (
           <FlatList
             data={messageItems}
+            extraData={[unreadCounts.messages, drafts]}
             renderItem={renderMessageItem}
             keyExtractor={(item) => `message-${item.id}`}
             contentContainerStyle={styles.listContainer}
@@ -379,7 +436,7 @@ const MessagesScreen: React.FC<Props> = ({ navigation }) => {
       </View>
 
       {/* Bottom Navigation */}
-      <BottomNavigation onLogout={createEmergencyLogoutHandler(navigation)} />
+      <BottomNavigation onLogout={() => sessionManager.logout()} />
     </SafeAreaView>
   );
 };
@@ -389,6 +446,10 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: '#f5f5f5',
   },
+  headerSearchButton: {
+    padding: 5,
+    marginRight: 5,
+  },
   content: {
     flex: 1,
     padding: 16,
@@ -429,8 +490,10 @@ const styles = StyleSheet.create({
   listContainer: {
     paddingBottom: 20,
   },
-  messageCard: {
+  messageRowContainer: {
     marginBottom: 12,
+  },
+  messageCard: {
     borderRadius: 12,
     elevation: 2,
   },
@@ -476,6 +539,33 @@ const styles = StyleSheet.create({
   unreadBadge: {
     backgroundColor: '#3498db',
   },
+  draftLabel: {
+    fontWeight: '600',
+    color: colors.error,
+  },
+  unreadText: {
+    fontWeight: '700',
+    color: '#2c3e50',
+  },
+  unreadDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: '#3498db',
+  },
+  markAllButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-end',
+    gap: 6,
+    marginBottom: 8,
+    paddingVertical: 4,
+  },
+  markAllText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: colors.primary,
+  },
   loadingContainer: {
     flex: 1,
     justifyContent: 'center',
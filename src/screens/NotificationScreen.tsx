@@ -1,64 +1,37 @@
-import React, { useEffect } from 'react';
+import React, { useCallback } from 'react';
 import { View, StyleSheet, FlatList, ListRenderItem, TouchableOpacity } from 'react-native';
 import { Text, Card } from 'react-native-paper';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
 import Icon from 'react-native-vector-icons/Feather';
 
-import { Header, BottomNavigation, Pressable, RefreshControl } from '../components';
+import { Header, BottomNavigation, Pressable, RefreshControl, OfflineIndicator, SwipeableRow } from '../components';
 import { useCollection } from '../hooks/useCollection';
+import { useRealtime } from '../hooks/useRealtime';
 import { useRefresh } from '../hooks/useRefresh';
+import { useUnreadCounts } from '../hooks/useUnreadCounts';
 import { useTranslation } from '../hooks/useTranslation';
 import { useUserToken, useUserId } from '../hooks/useAsyncStorage';
 import { colors, spacing } from '../helpers/theme';
 import { formatDate } from '../helpers/dateUtils';
+import {
+  isLegacyNotification,
+  isApiNotification,
+  getNotificationTitle,
+  getNotificationContent,
+  getNotificationIcon,
+  openNotification,
+} from '../helpers/notificationUtils';
 import { RootStackParamList } from '../navigation/types';
+import { realtimeTopics, mergeRealtimeItems } from '../services/RealtimeService';
+import { readStateService, readTargets } from '../services/ReadStateService';
+import { NotificationItem, endpoints, resolvePath } from '../api';
 
 /**
  * NotificationScreen - Modern notifications screen with auto-refresh
  * Replaces the legacy NotificationScreen.js with modern TypeScript implementation
  */
 
-// Type definitions for different notification sources
-interface NotificationUser {
-  first_name: string;
-  last_name?: string;
-  email?: string;
-}
-
-interface NotificationTemplate {
-  subject?: string;
-  text?: string;
-  name?: string;
-}
-
-// Legacy format (from /notifications with user_details and template_details)
-interface LegacyNotificationData {
-  id: number;
-  user_details: NotificationUser;
-  template_details: NotificationTemplate;
-  created_at: string;
-  unread_count?: number;
-}
-
-// New API format (from /notifications endpoint - updated format)
-interface ApiNotificationData {
-  id: number;
-  title: string;
-  body: string;
-  type: 'EMAIL' | 'MESSAGE' | 'GENERAL' | string;
-  extra?: {
-    title?: string;
-    ph_no?: string;
-    type?: string;
-  };
-  read: boolean;
-  created_at: string;
-}
-
-// Unified notification type
-type NotificationData = LegacyNotificationData | ApiNotificationData;
-
 type NotificationType = 'email' | 'sms';
 
 type Props = NativeStackScreenProps<RootStackParamList, 'Notification'>;
@@ -68,149 +41,44 @@ const NotificationScreen: React.FC<Props> = ({ navigation, route }) => {
   const { token: userToken } = useUserToken();
   const { userId } = useUserId();
   const [refreshing, onRefresh] = useRefresh();
+  // Re-renders the list when items are marked read or unread
+  const { notifications: unreadNotifications } = useUnreadCounts();
 
   // Fetch notifications from the new API endpoint
-  const { collection, updateCollection } = useCollection<NotificationData>(
-    'notifications',
+  const { collection, updateCollection } = useCollection<NotificationItem>(
+    resolvePath(endpoints.notifications),
     {
       autoFetch: true, // No need for user ID, API handles authentication via JWT
+      persist: true,
+      schema: endpoints.notifications.response,
     }
   );
 
-  // Auto-refresh notifications every 5 seconds
-  useEffect(() => {
-    const interval = setInterval(() => {
-      updateCollection({ reload: true });
-    }, 5000);
-
-    return () => clearInterval(interval);
-  }, [updateCollection]);
+  // New notifications are pushed while the screen is open, newest first
+  useRealtime(
+    realtimeTopics.notifications(),
+    useCallback((items: NotificationItem[]) => {
+      updateCollection(current => ({
+        items: mergeRealtimeItems(current.items, items, 'start'),
+        loaded: true,
+      }));
+    }, [updateCollection])
+  );
 
   const handleBackPress = () => {
     navigation.goBack();
   };
 
-  // Helper functions to handle both notification formats
-  const isLegacyNotification = (item: NotificationData): item is LegacyNotificationData => {
-    return 'user_details' in item && 'template_details' in item;
-  };
-
-  const isApiNotification = (item: NotificationData): item is ApiNotificationData => {
-    return 'title' in item && 'body' in item && 'type' in item;
+  const handleNotificationPress = (item: NotificationItem) => {
+    readStateService.setRead(readTargets.notification(item), true);
+    openNotification(navigation, item);
   };
 
-  const handleNotificationPress = (item: NotificationData) => {
-    if (isLegacyNotification(item)) {
-      // Handle legacy format
-      const userName = item.user_details.first_name || 'Unknown User';
-      const isEmail = !!item.template_details.subject;
-      
-      if (isEmail) {
-        navigation.navigate('Email', {
-          data: {
-            ...item,
-            template_details: {
-              subject: item.template_details.subject || '',
-              body: item.template_details.text || '',
-            },
-          },
-          title: userName,
-        });
-      } else {
-        navigation.navigate('SMS', {
-          data: {
-            ...item,
-            text: item.template_details.text || '',
-            unread_count: item.unread_count || 0,
-          },
-          title: userName,
-        });
-      }
-    } else if (isApiNotification(item)) {
-      // Handle new API format
-      const notificationTitle = item.title || 'Notification';
-      
-      if (item.type === 'EMAIL') {
-        navigation.navigate('Email', {
-          data: {
-            id: item.id,
-            user_details: { first_name: notificationTitle },
-            template_details: {
-              subject: item.title,
-              body: item.body,
-            },
-            created_at: item.created_at,
-          },
-          title: notificationTitle,
-        });
-      } else if (item.type === 'MESSAGE') {
-        // Handle MESSAGE type (SMS/WhatsApp)
-        navigation.navigate('SMS', {
-          data: {
-            id: item.id,
-            moderator_details: { first_name: notificationTitle },
-            text: item.body,
-            contact: item.extra?.ph_no,
-            created_at: item.created_at,
-            unread_count: item.read ? 0 : 1,
-          },
-          title: notificationTitle,
-        });
-      } else {
-        // Handle GENERAL or other types - default to showing message details
-        console.log('General notification tapped:', item);
-        navigation.navigate('SMS', {
-          data: {
-            id: item.id,
-            moderator_details: { first_name: notificationTitle },
-            text: item.body,
-            created_at: item.created_at,
-            unread_count: item.read ? 0 : 1,
-          },
-          title: notificationTitle,
-        });
-      }
-    }
-  };
-
-  const getNotificationContent = (item: NotificationData): string => {
-    if (isLegacyNotification(item)) {
-      return item.template_details.subject || 
-             item.template_details.text || 
-             'No content available';
-    } else if (isApiNotification(item)) {
-      return item.body || item.title || 'No content available';
-    }
-    return 'No content available';
+  const handleMarkAllRead = () => {
+    readStateService.markAllRead('notification', collection.items.map(readTargets.notification));
   };
 
-  const getNotificationIcon = (item: NotificationData): string => {
-    if (isLegacyNotification(item)) {
-      return item.template_details.subject ? 'mail' : 'message-circle';
-    } else if (isApiNotification(item)) {
-      switch (item.type) {
-        case 'EMAIL':
-          return 'mail';
-        case 'MESSAGE':
-          return 'message-circle';
-        case 'GENERAL':
-        default:
-          return 'bell';
-      }
-    }
-    return 'bell';
-  };
-
-  const getNotificationTitle = (item: NotificationData): string => {
-    if (isLegacyNotification(item)) {
-      return item.user_details.first_name || 'Unknown User';
-    } else if (isApiNotification(item)) {
-      return item.title || 'Notification';
-    }
-    return 'Notification';
-  };
-
-  const getNotificationType = (item: NotificationData): NotificationType => {
+  const getNotificationType = (item: NotificationItem): NotificationType => {
     if (isLegacyNotification(item)) {
       return item.template_details.subject ? 'email' : 'sms';
     } else if (isApiNotification(item)) {
@@ -219,68 +87,68 @@ const NotificationScreen: React.FC<Props> = ({ navigation, route }) => {
     return 'sms';
   };
 
-  const renderNotificationItem: ListRenderItem<NotificationData> = ({ item }) => {
+  const renderNotificationItem: ListRenderItem<NotificationItem> = ({ item }) => {
     const notificationTitle = getNotificationTitle(item);
     const notificationContent = getNotificationContent(item);
     const notificationIcon = getNotificationIcon(item);
     const formattedDate = formatDate(item.created_at, 'dd MMM');
 
-    // Handle unread indicator for both formats
-    const hasUnreadCount = isLegacyNotification(item) 
-      ? (item.unread_count && item.unread_count > 0)
-      : (isApiNotification(item) && !item.read);
-
-    const unreadCount = isLegacyNotification(item) 
-      ? item.unread_count 
-      : (isApiNotification(item) && !item.read ? 1 : 0);
+    // Handle unread indicator for both formats, including changes made on this device
+    const readTarget = readTargets.notification(item);
+    const unreadCount = readStateService.getUnread(readTarget);
+    const hasUnreadCount = unreadCount > 0;
 
     return (
-      <Pressable
-        onPress={() => handleNotificationPress(item)}
+      <SwipeableRow
+        actionLabel={t(hasUnreadCount ? 'mobile.readState.markRead' : 'mobile.readState.markUnread')}
+        actionIcon={hasUnreadCount ? 'check' : 'circle'}
+        onAction={() => readStateService.setRead(readTarget, hasUnreadCount)}
         style={styles.notificationPressable}
       >
-        <Card style={styles.notificationCard}>
-          <Card.Content style={styles.notificationContent}>
-            {/* Notification Header */}
-            <View style={styles.notificationHeader}>
-              <Text style={styles.notificationTitle} numberOfLines={1}>
-                {notificationTitle}
-              </Text>
-              <Text style={styles.notificationDate}>
-                {formattedDate}
-              </Text>
-            </View>
-
-            {/* Notification Body */}
-            <View style={styles.notificationBody}>
-              <Text 
-                style={styles.notificationText} 
-                numberOfLines={2}
-                ellipsizeMode="tail"
-              >
-                {notificationContent}
-              </Text>
-              
-              <View style={styles.notificationIcon}>
-                <Icon
-                  name={notificationIcon}
-                  size={16}
-                  color={colors.primary}
-                />
+        <Pressable onPress={() => handleNotificationPress(item)}>
+          <Card style={styles.notificationCard}>
+            <Card.Content style={styles.notificationContent}>
+              {/* Notification Header */}
+              <View style={styles.notificationHeader}>
+                <Text style={styles.notificationTitle} numberOfLines={1}>
+                  {notificationTitle}
+                </Text>
+                <Text style={styles.notificationDate}>
+                  {formattedDate}
+                </Text>
               </View>
-            </View>
 
-            {/* Unread indicator */}
-            {hasUnreadCount && (
-              <View style={styles.unreadIndicator}>
-                <Text style={styles.unreadText}>
-                  {unreadCount}
+              {/* Notification Body */}
+              <View style={styles.notificationBody}>
+                <Text 
+                  style={styles.notificationText} 
+                  numberOfLines={2}
+                  ellipsizeMode="tail"
+                >
+                  {notificationContent}
                 </Text>
+                
+                <View style={styles.notificationIcon}>
+                  <Icon
+                    name={notificationIcon}
+                    size={16}
+                    color={colors.primary}
+                  />
+                </View>
               </View>
-            )}
-          </Card.Content>
-        </Card>
-      </Pressable>
+
+              {/* Unread indicator */}
+              {hasUnreadCount && (
+                <View style={styles.unreadIndicator}>
+                  <Text style={styles.unreadText}>
+                    {unreadCount}
+                  </Text>
+                </View>
+              )}
+            </Card.Content>
+          </Card>
+        </Pressable>
+      </SwipeableRow>
     );
   };
 
@@ -308,11 +176,24 @@ const NotificationScreen: React.FC<Props> = ({ navigation, route }) => {
         canGoBack
         onBackPress={handleBackPress}
         noShadow
+        rightComponent={
+          unreadNotifications > 0 && (
+            <TouchableOpacity
+              onPress={handleMarkAllRead}
+              style={styles.markAllButton}
+              accessibilityLabel={t('mobile.readState.markAllRead')}
+            >
+              <Icon name="check-circle" size={20} color={colors.primary} />
+            </TouchableOpacity>
+          )
+        }
       />
+      <OfflineIndicator offline={collection.offline} lastUpdated={collection.lastUpdated} />
 
       {/* Notifications List */}
       <FlatList
         data={collection.items}
+        extraData={unreadNotifications}
         keyExtractor={(item) => item.id.toString()}
         renderItem={renderNotificationItem}
         style={styles.notificationsList}
@@ -354,6 +235,10 @@ const styles = StyleSheet.create({
   notificationPressable: {
     marginBottom: spacing.sm,
   },
+  markAllButton: {
+    padding: spacing.xs,
+    marginLeft: spacing.sm,
+  },
   notificationCard: {
     elevation: 2,
     borderRadius: 8,
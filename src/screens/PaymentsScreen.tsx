@@ -6,9 +6,14 @@ import { NativeStackScreenProps } from '@react-navigation/native-stack';
 
 import { Header, ScrollView, BottomNavigation, Pressable } from '../components';
 import { colors, spacing } from '../helpers/theme';
-import { formatDate, isDateBefore } from '../helpers/dateUtils';
-import { formatNumber } from '../helpers/generalUtils';
+import { formatDate } from '../helpers/dateUtils';
+import { formatCurrency } from '../helpers/generalUtils';
+import { getPackagePayments, PaymentItem } from '../helpers/payments';
+import { useCheckout } from '../hooks/useCheckout';
+import { usePdfExport } from '../hooks/usePdfExport';
+import { useTranslation } from '../hooks/useTranslation';
 import { RootStackParamList } from '../navigation/types';
+import { exportService } from '../services/ExportService';
 
 /**
  * PaymentsScreen - Modern payment details screen
@@ -16,34 +21,6 @@ import { RootStackParamList } from '../navigation/types';
  */
 
 // Type definitions
-interface PackageDetails {
-  id: number;
-  name: string;
-  italian_name: string;
-  description?: string;
-}
-
-interface PaymentDetails {
-  id: number;
-  amount: number;
-  due_date: string;
-  payment_status: 'PAID' | 'UNPAID' | 'OVERDUE';
-  payment_method?: string;
-}
-
-interface InstallmentDetails extends PaymentDetails {
-  installment_number?: number;
-}
-
-interface PaymentData {
-  id: number;
-  package_details: PackageDetails;
-  final_amount: number;
-  payment_type: 'full' | 'emi';
-  upfront_payments_details: PaymentDetails[];
-  installments_details: InstallmentDetails[];
-}
-
 type PaymentStatus = 'paid' | 'due' | 'overdue';
 
 type Props = NativeStackScreenProps<RootStackParamList, 'Payments'>;
@@ -53,19 +30,16 @@ interface KeyValueItemProps {
   value: string;
   subLabel?: string;
   subLabelStyle?: any;
-}
-
-interface PaymentSummary {
-  totalUpfront: number;
-  upfrontPaid: number;
-  upfrontBalance: number;
-  totalResidual: number;
-  residualPaid: number;
-  residualBalance: number;
+  /** Shown under the value, e.g. the pay button */
+  action?: React.ReactNode;
 }
 
 const PaymentsScreen: React.FC<Props> = ({ navigation, route }) => {
-  const { data } = route.params;
+  const { t, currentLanguage } = useTranslation();
+  const { packages, processing, paying, pay } = useCheckout();
+  const { exporting, runExport } = usePdfExport();
+  // Packages are refreshed after each checkout
+  const data = packages?.find(item => item.id === route.params.data.id) || route.params.data;
 
   // Payment status styles
   const getPaymentStatusStyle = (status: PaymentStatus) => {
@@ -90,74 +64,56 @@ const PaymentsScreen: React.FC<Props> = ({ navigation, route }) => {
     return styles[status];
   };
 
-  // Calculate payment summary
-  const paymentSummary: PaymentSummary = useMemo(() => {
-    let totalUpfront = 0;
-    let upfrontPaid = 0;
-    let totalResidual = 0;
-    let residualPaid = 0;
-
-    // Calculate upfront payments (handle missing data)
-    const upfrontPayments = data.upfront_payments_details || [];
-    upfrontPayments.forEach(payment => {
-      totalUpfront += payment.amount;
-      // Note: upfront payments don't have status in API, assume paid if payment_date exists
-      if (payment.payment_date) {
-        upfrontPaid += payment.amount;
-      }
-    });
-
-    // Calculate installments (handle missing data and correct status field)
-    const installments = data.installments_details || [];
-    installments.forEach(installment => {
-      totalResidual += installment.amount;
-      // API uses 'status' field, not 'payment_status'
-      const status = installment.status || installment.payment_status;
-      if (status === 'paid' || status === 'PAID') {
-        residualPaid += installment.amount;
-      }
-    });
-
-    return {
-      totalUpfront,
-      upfrontPaid,
-      upfrontBalance: totalUpfront - upfrontPaid,
-      totalResidual,
-      residualPaid,
-      residualBalance: totalResidual - residualPaid,
-    };
-  }, [data]);
-
-  // Enhanced upfront payments with status
-  const enhancedUpfrontPayments = useMemo(() => {
-    const upfrontPayments = data.upfront_payments_details || [];
-    return upfrontPayments.map(payment => {
-      let subLabel = '';
-      let subLabelStyle = {};
-
-      if (payment.payment_status === 'PAID') {
-        subLabel = 'Paid';
-        subLabelStyle = getPaymentStatusStyle('paid');
-      } else {
-        const dueDate = new Date(payment.due_date);
-        const now = new Date();
-        
-        if (isDateBefore(dueDate, now)) {
-          subLabel = 'Overdue';
-          subLabelStyle = getPaymentStatusStyle('overdue');
-        } else {
-          subLabel = `Deadline: ${formatDate(payment.due_date, 'dd MMM, yyyy')}`;
-          subLabelStyle = getPaymentStatusStyle('due');
-        }
-      }
+  // Status and totals shared with EMIScreen and ProfileScreen
+  const payments = useMemo(() => getPackagePayments(data), [data]);
+
+  const getUpfrontSubLabel = (payment: PaymentItem): Pick<KeyValueItemProps, 'subLabel' | 'subLabelStyle'> => {
+    switch (payment.status) {
+      case 'PAID':
+        return { subLabel: 'Paid', subLabelStyle: getPaymentStatusStyle('paid') };
+      case 'OVERDUE':
+        return { subLabel: 'Overdue', subLabelStyle: getPaymentStatusStyle('overdue') };
+      default:
+        return {
+          subLabel: `Deadline: ${formatDate(payment.dueDate, 'dd MMM, yyyy')}`,
+          subLabelStyle: getPaymentStatusStyle('due'),
+        };
+    }
+  };
 
-      return {
-        ...payment,
-        subLabel,
-        subLabelStyle,
-      };
-    });
-  }, [data.upfront_payments_details]);
+  // Overdue payments not already sent to checkout
+  const payableOverdue = payments.overdue.filter(item => !processing[item.id]);
+
+  const renderPayAction = (payment: PaymentItem) => {
+    if (payment.status === 'PAID') {
+      return (
+        <Button
+          compact
+          disabled={exporting}
+          onPress={() => runExport(() => exportService.exportReceipt(data.id, payment.id))}
+          style={styles.payButton}
+          labelStyle={styles.payButtonLabel}
+        >
+          {t('mobile.statement.downloadReceipt')}
+        </Button>
+      );
+    }
+    if (processing[payment.id]) {
+      return <Text style={styles.processingText}>{t('mobile.checkout.processing')}</Text>;
+    }
+    return (
+      <Button
+        mode="outlined"
+        compact
+        disabled={paying}
+        onPress={() => pay(data.id, [payment.id])}
+        style={styles.payButton}
+        labelStyle={styles.payButtonLabel}
+      >
+        {t('mobile.checkout.payNow')}
+      </Button>
+    );
+  };
 
   const handleBackPress = () => {
     navigation.goBack();
@@ -173,6 +129,7 @@ const PaymentsScreen: React.FC<Props> = ({ navigation, route }) => {
     
     navigation.navigate('EMI', {
       data: installmentsData,
+      packageId: data.id,
     });
   };
 
@@ -180,7 +137,8 @@ const PaymentsScreen: React.FC<Props> = ({ navigation, route }) => {
     label, 
     value, 
     subLabel, 
-    subLabelStyle 
+    subLabelStyle,
+    action
   }) => (
     <View style={styles.keyValueRow}>
       <View style={styles.keyWrapper}>
@@ -191,7 +149,10 @@ const PaymentsScreen: React.FC<Props> = ({ navigation, route }) => {
           </Text>
         )}
       </View>
-      <Text style={styles.valueText}>{value}</Text>
+      <View style={styles.valueWrapper}>
+        <Text style={styles.valueText}>{value}</Text>
+        {action}
+      </View>
     </View>
   );
 
@@ -220,13 +181,47 @@ const PaymentsScreen: React.FC<Props> = ({ navigation, route }) => {
             <View style={styles.overviewSection}>
               <KeyValueItem
                 label="Total Amount"
-                value={`€${formatNumber(data.final_amount || 0)}`}
+                value={formatCurrency(data.final_amount || 0, currentLanguage)}
               />
               <KeyValueItem
                 label="Payment Type"
                 value={(data.payment_type || 'emi').toUpperCase()}
               />
+              <KeyValueItem
+                label="Total Paid"
+                value={`${formatCurrency(payments.totals.paid, currentLanguage)} (${payments.progress}%)`}
+              />
+              <KeyValueItem
+                label="Balance"
+                value={formatCurrency(payments.totals.balance, currentLanguage)}
+                subLabel={payments.overdueAmount > 0 ? `Overdue: ${formatCurrency(payments.overdueAmount, currentLanguage)}` : undefined}
+                subLabelStyle={getPaymentStatusStyle('overdue')}
+              />
             </View>
+
+            {payableOverdue.length > 0 && (
+              <Button
+                mode="contained"
+                loading={paying}
+                disabled={paying}
+                onPress={() => pay(data.id, payableOverdue.map(item => item.id))}
+                style={styles.payAllButton}
+              >
+                {t('mobile.checkout.payAllOverdue', {
+                  amount: formatCurrency(payableOverdue.reduce((sum, item) => sum + item.amount, 0), currentLanguage),
+                })}
+              </Button>
+            )}
+
+            <Button
+              mode="outlined"
+              loading={exporting}
+              disabled={exporting}
+              onPress={() => runExport(() => exportService.exportStatement(data.id))}
+              style={styles.statementButton}
+            >
+              {t('mobile.statement.downloadStatement')}
+            </Button>
           </Card.Content>
         </Card>
 
@@ -239,15 +234,15 @@ const PaymentsScreen: React.FC<Props> = ({ navigation, route }) => {
             <View style={styles.summarySection}>
               <KeyValueItem
                 label="Total Upfront"
-                value={`€${formatNumber(paymentSummary.totalUpfront)}`}
+                value={formatCurrency(payments.upfrontTotals.total, currentLanguage)}
               />
               <KeyValueItem
                 label="Upfront Paid"
-                value={`€${formatNumber(paymentSummary.upfrontPaid)}`}
+                value={formatCurrency(payments.upfrontTotals.paid, currentLanguage)}
               />
               <KeyValueItem
                 label="Upfront Balance"
-                value={`€${formatNumber(paymentSummary.upfrontBalance)}`}
+                value={formatCurrency(payments.upfrontTotals.balance, currentLanguage)}
               />
             </View>
 
@@ -255,13 +250,13 @@ const PaymentsScreen: React.FC<Props> = ({ navigation, route }) => {
 
             {/* Individual payments */}
             <View style={styles.paymentsSection}>
-              {enhancedUpfrontPayments.map((payment, index) => (
+              {payments.upfront.map((payment) => (
                 <KeyValueItem
                   key={payment.id}
-                  label={`Upfront Amount - ${index + 1}`}
-                  value={`€${formatNumber(payment.amount)}`}
-                  subLabel={payment.subLabel}
-                  subLabelStyle={payment.subLabelStyle}
+                  label={`Upfront Amount - ${payment.number}`}
+                  value={formatCurrency(payment.amount, currentLanguage)}
+                  {...getUpfrontSubLabel(payment)}
+                  action={renderPayAction(payment)}
                 />
               ))}
             </View>
@@ -269,7 +264,7 @@ const PaymentsScreen: React.FC<Props> = ({ navigation, route }) => {
         </Card>
 
         {/* EMI Section */}
-        {(data.payment_type === 'emi' || data.installments_details?.length > 0) && (
+        {(data.payment_type === 'emi' || payments.installments.length > 0) && (
           <Card style={styles.sectionCard}>
             <Card.Content style={styles.sectionContent}>
               <View style={styles.sectionTitleRow}>
@@ -282,15 +277,15 @@ const PaymentsScreen: React.FC<Props> = ({ navigation, route }) => {
               <View style={styles.emiSection}>
                 <KeyValueItem
                   label="Residual Amount"
-                  value={`€${formatNumber(paymentSummary.totalResidual)}`}
+                  value={formatCurrency(payments.installmentTotals.total, currentLanguage)}
                 />
                 <KeyValueItem
                   label="EMI Paid"
-                  value={`€${formatNumber(paymentSummary.residualPaid)}`}
+                  value={formatCurrency(payments.installmentTotals.paid, currentLanguage)}
                 />
                 <KeyValueItem
                   label="Balance Residual Amount"
-                  value={`€${formatNumber(paymentSummary.residualBalance)}`}
+                  value={formatCurrency(payments.installmentTotals.balance, currentLanguage)}
                 />
               </View>
             </Card.Content>
@@ -395,12 +390,38 @@ const styles = StyleSheet.create({
     fontSize: 12,
     marginTop: spacing.xs,
   },
+  valueWrapper: {
+    alignItems: 'flex-end',
+  },
   valueText: {
     fontSize: 14,
     fontWeight: 'bold',
     color: colors.onSurface,
     textAlign: 'right',
   },
+  payButton: {
+    marginTop: spacing.xs,
+    borderColor: colors.primary,
+  },
+  payButtonLabel: {
+    fontSize: 12,
+    marginVertical: 4,
+  },
+  processingText: {
+    fontSize: 12,
+    fontStyle: 'italic',
+    color: colors.textSecondary,
+    marginTop: spacing.xs,
+  },
+  payAllButton: {
+    marginTop: spacing.md,
+    borderRadius: 8,
+  },
+  statementButton: {
+    marginTop: spacing.sm,
+    borderRadius: 8,
+    borderColor: colors.primary,
+  },
 });
 
 export default PaymentsScreen;
\ No newline at end of file
@@ -4,88 +4,46 @@ import {
   StyleSheet,
   ScrollView,
   Alert,
+  Switch,
   TouchableWithoutFeedback,
+  TouchableOpacity,
   Text as RNText,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { ProgressBar } from 'react-native-paper';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import Icon from 'react-native-vector-icons/Feather';
 
 // Modern hooks and helpers
 import { useCollection } from '../hooks/useCollection';
 import { useTranslation } from '../hooks/useTranslation';
+import { useBiometricLock } from '../hooks/useBiometricLock';
+import { usePaymentReminders } from '../hooks/usePaymentReminders';
 import { getFullName, getDisplayName, getUserInitials, getFormattedLocation } from '../helpers/applicationUtils';
 import { formatDate, formatDateShort } from '../helpers/dateUtils';
+import { formatCurrency } from '../helpers/generalUtils';
+import { getPackagePayments } from '../helpers/payments';
 import { colors, spacing } from '../helpers/theme';
-import { apiService } from '../helpers/request';
 import { Text } from '../components/Typography';
 import { Header } from '../components/Header';
 import { BottomNavigation } from '../components/BottomNavigation';
-import { createLogoutHandler } from '../helpers/authUtils';
-import { createSimpleLogoutHandler } from '../helpers/simpleLogout';
-import { createSafeLogoutHandler } from '../helpers/safeLogout';
-import { createEmergencyLogoutHandler, navigationOnlyLogout } from '../helpers/emergencyLogout';
+import { sessionManager } from '../services/SessionManager';
+import { responseCache } from '../services/ResponseCache';
+import { paymentService } from '../services/PaymentService';
+import { LOCK_TIMEOUT_OPTIONS } from '../services/BiometricService';
+import { REMINDER_LEAD_DAY_OPTIONS } from '../services/PaymentReminderService';
+import { OfflineIndicator } from '../components/OfflineIndicator';
 import { LanguageSelector } from '../components/LanguageSelector';
+import { AccountSwitcher } from '../components/AccountSwitcher';
 import { RootStackParamList } from '../navigation/types';
-
-// Type definitions
-interface LeadDetails {
-  name: string;
-  date_of_birth?: string;
-  phone_1?: string;
-  phone_2?: string;
-  telephone?: string;
-}
-
-interface User {
-  id: number;
-  first_name: string;
-  last_name?: string;
-  email: string;
-  phone?: string;
-  city?: string;
-  country?: string;
-  created_at: string;
-  expo_token?: string;
-  lead_details: LeadDetails;
-}
-
-interface Course {
-  id: number;
-  italian_name: string;
-  start_date: string;
-  end_date: string;
-}
-
-interface PackageDetails {
-  id: number;
-  italian_name: string;
-  name: string;
-}
-
-interface Package {
-  id: number;
-  package_details: PackageDetails;
-  courses_start_date: string;
-  courses_end_date: string;
-  courses: Course[];
-  final_amount?: number;
-  payment_type?: 'full' | 'emi';
-  upfront_payments_details?: Array<{
-    id: number;
-    amount: number;
-    due_date: string;
-    payment_status: 'PAID' | 'UNPAID' | 'OVERDUE';
-    payment_method?: string;
-  }>;
-  installments_details?: Array<{
-    id: number;
-    amount: number;
-    due_date: string;
-    payment_status: 'PAID' | 'UNPAID' | 'OVERDUE';
-    payment_method?: string;
-  }>;
-}
+import {
+  ApiEnvelope,
+  Course as CourseData,
+  StudentPackage,
+  User,
+  endpoints,
+  resolvePath,
+} from '../api';
 
 // RootStackParamList is now imported from navigation/types
 
@@ -98,16 +56,38 @@ interface Props {
 const ProfileScreen: React.FC<Props> = ({ navigation }) => {
   const { t } = useTranslation();
   const [profileData, setProfileData] = useState<User | null>(null);
-  const { collection, updateCollection } = useCollection<Package>('me/packages');
+  const [profileOffline, setProfileOffline] = useState<boolean>(false);
+  const [profileUpdatedAt, setProfileUpdatedAt] = useState<number | null>(null);
+  const [isAccountSwitcherVisible, setIsAccountSwitcherVisible] = useState(false);
+  const { collection, updateCollection } = useCollection<StudentPackage>(resolvePath(endpoints.packages), {
+    persist: true,
+    schema: endpoints.packages.response,
+  });
+
+  // Payments made through the checkout update the package summaries
+  useEffect(() => paymentService.subscribe((event) => {
+    if (event.type === 'packages') {
+      updateCollection({ items: event.packages });
+    }
+  }), [updateCollection]);
 
   useEffect(() => {
-    // Load profile data
-    apiService.get('me')
-      .then((response) => {
-        console.log('User data', response.data.data.expo_token);
-        setProfileData(response.data.data);
+    // Load profile data, showing the cached profile first
+    responseCache.get<ApiEnvelope<User>>(
+      resolvePath(endpoints.me),
+      (cached) => {
+        setProfileData(cached.data.data);
+        setProfileUpdatedAt(cached.updatedAt);
+      },
+      endpoints.me.response
+    )
+      .then((result) => {
+        console.log('User data', result.data.data.expo_token);
+        setProfileData(result.data.data);
+        setProfileOffline(result.offline);
+        setProfileUpdatedAt(result.updatedAt);
 
-        if (!response.data.data.expo_token) {
+        if (!result.data.data.expo_token) {
           // TODO: Implement push token logic if needed
           console.log('No expo token found');
         }
@@ -117,16 +97,9 @@ const ProfileScreen: React.FC<Props> = ({ navigation }) => {
       });
   }, []);
 
-  // Test navigation-only logout to isolate the bridge error source
-  const handleLogout = () => {
-    try {
-      console.log('🔍 ProfileScreen: Testing navigation-only logout');
-      navigationOnlyLogout(navigation);
-    } catch (error) {
-      console.error('❌ Navigation-only logout failed:', error);
-    }
+  const handleLogout = async () => {
+    await sessionManager.logout();
   };
-  console.log('🔍 ProfileScreen: Created navigation-only logout handler');
 
   // Notification debug functionality removed from UI but kept for future use
   // const handleNotificationDebug = () => {
@@ -141,6 +114,13 @@ const ProfileScreen: React.FC<Props> = ({ navigation }) => {
         showNotification
         rightComponent={
           <View style={styles.headerRightSection}>
+            <TouchableOpacity
+              onPress={() => setIsAccountSwitcherVisible(true)}
+              style={styles.headerAccountButton}
+              accessibilityLabel={t('mobile.accounts.title')}
+            >
+              <Icon name="users" size={20} color="#3C4F4D" />
+            </TouchableOpacity>
             <LanguageSelector 
               variant="button" 
               showLanguageName={false}
@@ -149,6 +129,15 @@ const ProfileScreen: React.FC<Props> = ({ navigation }) => {
           </View>
         }
       />
+      <AccountSwitcher
+        visible={isAccountSwitcherVisible}
+        onClose={() => setIsAccountSwitcherVisible(false)}
+        onAddAccount={() => navigation.navigate('Login')}
+      />
+      <OfflineIndicator
+        offline={profileOffline || collection.offline}
+        lastUpdated={collection.offline ? collection.lastUpdated : profileUpdatedAt}
+      />
       <ScrollView
         showsVerticalScrollIndicator={false}
         style={styles.profileContainer}
@@ -200,8 +189,18 @@ const ProfileScreen: React.FC<Props> = ({ navigation }) => {
             </View>
           </View>
         )}
+        <BiometricSettings />
+        <PaymentReminderSettings />
+        {collection.loaded && collection.items.length > 0 && (
+          <View style={styles.overviewButton}>
+            <Button
+              text={t('mobile.overview.open')}
+              onPress={() => navigation.navigate('FinancialOverview')}
+            />
+          </View>
+        )}
         <View style={styles.packagesContainer}>
-          {collection.loaded && collection.items.map((item: Package, index: number) => (
+          {collection.loaded && collection.items.map((item: StudentPackage, index: number) => (
             <Package 
               key={item.id}
               data={item}
@@ -235,16 +234,141 @@ const Button: React.FC<ButtonProps> = ({ text, onPress }) => (
   </TouchableWithoutFeedback>
 );
 
+const BiometricSettings: React.FC = () => {
+  const { t } = useTranslation();
+  const { settings, biometryType, biometryLabel, enable, disable, setLockTimeout } = useBiometricLock();
+  const [saving, setSaving] = useState(false);
+
+  // Nothing to offer on devices without enrolled biometrics
+  if (!biometryType) return null;
+
+  const handleToggle = async (value: boolean) => {
+    setSaving(true);
+    try {
+      if (value) {
+        await enable();
+      } else {
+        await disable();
+      }
+    } catch (error) {
+      console.error('Failed to update biometric unlock:', error);
+      Alert.alert(t('general.error'), t('mobile.biometric.enableFailed'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const getTimeoutLabel = (timeout: number) =>
+    timeout === 0
+      ? t('mobile.biometric.lockImmediately')
+      : t('mobile.biometric.lockAfterMinutes', { count: timeout / 60000 });
+
+  return (
+    <View style={styles.settingsCard}>
+      <View style={styles.settingsRow}>
+        <View style={styles.settingsText}>
+          <Text style={styles.settingsTitle}>
+            {t('mobile.biometric.unlockWith', { biometry: biometryLabel })}
+          </Text>
+          <Text style={styles.settingsDescription}>{t('mobile.biometric.description')}</Text>
+        </View>
+        <Switch
+          value={settings.enabled}
+          onValueChange={handleToggle}
+          disabled={saving}
+          trackColor={{ true: '#0052CD', false: '#ddd' }}
+        />
+      </View>
+      {settings.enabled && (
+        <View style={styles.timeoutRow}>
+          <Text style={styles.settingsDescription}>{t('mobile.biometric.lockAfter')}</Text>
+          <View style={styles.timeoutOptions}>
+            {LOCK_TIMEOUT_OPTIONS.map((timeout) => {
+              const isSelected = timeout === settings.lockTimeout;
+              return (
+                <TouchableWithoutFeedback key={timeout} onPress={() => setLockTimeout(timeout)}>
+                  <View style={[styles.timeoutChip, isSelected && styles.timeoutChipSelected]}>
+                    <Text style={[styles.timeoutChipText, isSelected && styles.timeoutChipTextSelected]}>
+                      {getTimeoutLabel(timeout)}
+                    </Text>
+                  </View>
+                </TouchableWithoutFeedback>
+              );
+            })}
+          </View>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const PaymentReminderSettings: React.FC = () => {
+  const { t } = useTranslation();
+  const { settings, updateSettings } = usePaymentReminders();
+
+  const toggleLeadDays = (leadDays: number) => {
+    const selected = settings.leadDays.includes(leadDays)
+      ? settings.leadDays.filter(days => days !== leadDays)
+      : [...settings.leadDays, leadDays];
+    updateSettings({ leadDays: selected });
+  };
+
+  return (
+    <View style={styles.settingsCard}>
+      <View style={styles.settingsRow}>
+        <View style={styles.settingsText}>
+          <Text style={styles.settingsTitle}>{t('mobile.reminders.title')}</Text>
+          <Text style={styles.settingsDescription}>{t('mobile.reminders.description')}</Text>
+        </View>
+        <Switch
+          value={settings.enabled}
+          onValueChange={(enabled) => updateSettings({ enabled })}
+          trackColor={{ true: '#0052CD', false: '#ddd' }}
+        />
+      </View>
+      {settings.enabled && (
+        <>
+          <View style={styles.timeoutRow}>
+            <Text style={styles.settingsDescription}>{t('mobile.reminders.remindBefore')}</Text>
+            <View style={styles.timeoutOptions}>
+              {REMINDER_LEAD_DAY_OPTIONS.map((leadDays) => {
+                const isSelected = settings.leadDays.includes(leadDays);
+                return (
+                  <TouchableWithoutFeedback key={leadDays} onPress={() => toggleLeadDays(leadDays)}>
+                    <View style={[styles.timeoutChip, isSelected && styles.timeoutChipSelected]}>
+                      <Text style={[styles.timeoutChipText, isSelected && styles.timeoutChipTextSelected]}>
+                        {t('mobile.reminders.daysBefore', { count: leadDays })}
+                      </Text>
+                    </View>
+                  </TouchableWithoutFeedback>
+                );
+              })}
+            </View>
+          </View>
+          <View style={[styles.settingsRow, styles.timeoutRow]}>
+            <Text style={[styles.settingsDescription, styles.settingsText]}>{t('mobile.reminders.onOverdue')}</Text>
+            <Switch
+              value={settings.onOverdue}
+              onValueChange={(onOverdue) => updateSettings({ onOverdue })}
+              trackColor={{ true: '#0052CD', false: '#ddd' }}
+            />
+          </View>
+        </>
+      )}
+    </View>
+  );
+};
+
 interface CourseProps {
   number: number;
-  data: Course;
+  data: CourseData;
 }
 
 const Course: React.FC<CourseProps> = ({ number, data }) => {
   const { t } = useTranslation();
   const currentDate = new Date();
-  const courseStartDate = new Date(data.start_date);
-  const courseEndDate = new Date(data.end_date);
+  const courseStartDate = new Date(data.start_date || '');
+  const courseEndDate = new Date(data.end_date || '');
 
   let courseStatus: string;
   if (currentDate < courseStartDate) {
@@ -264,8 +388,8 @@ const Course: React.FC<CourseProps> = ({ number, data }) => {
       <Text style={styles.courseName}>{data.italian_name}</Text>
       <View style={styles.courseSecondRow}>
         <DurationCard
-          startDate={formatDateShort(data.start_date)}
-          endDate={formatDateShort(data.end_date)}
+          startDate={formatDateShort(data.start_date || '')}
+          endDate={formatDateShort(data.end_date || '')}
         />
       </View>
     </View>
@@ -273,15 +397,15 @@ const Course: React.FC<CourseProps> = ({ number, data }) => {
 };
 
 interface PackageProps {
-  data: Package;
+  data: StudentPackage;
   navigation: ProfileScreenNavigationProp;
 }
 
 const Package: React.FC<PackageProps> = ({ data, navigation }) => {
-  const { t } = useTranslation();
+  const { t, currentLanguage } = useTranslation();
   const currentDate = new Date();
-  const packageStartDate = new Date(data.courses_start_date);
-  const packageEndDate = new Date(data.courses_end_date);
+  const packageStartDate = new Date(data.courses_start_date || '');
+  const packageEndDate = new Date(data.courses_end_date || '');
 
   let packageStatus: string;
   if (currentDate < packageStartDate) {
@@ -292,6 +416,10 @@ const Package: React.FC<PackageProps> = ({ data, navigation }) => {
     packageStatus = t('mobile.profile.ongoing');
   }
 
+  // Same figures as PaymentsScreen and EMIScreen
+  const payments = getPackagePayments(data);
+  const { nextDue } = payments;
+
   return (
     <View style={styles.packageContainer}>
       <View style={styles.packageHeader}>
@@ -301,16 +429,45 @@ const Package: React.FC<PackageProps> = ({ data, navigation }) => {
         </View>
         <View style={styles.packageHeaderSecondRow}>
           <DurationCard
-            startDate={formatDateShort(data.courses_start_date)}
-            endDate={formatDateShort(data.courses_end_date)}
+            startDate={formatDateShort(data.courses_start_date || '')}
+            endDate={formatDateShort(data.courses_end_date || '')}
           />
         </View>
       </View>
       <View style={styles.coursesContainer}>
-        {data.courses.map((item, index) => (
+        {(data.courses || []).map((item, index) => (
           <Course key={item.id} number={index + 1} data={item} />
         ))}
       </View>
+      <View style={styles.paymentSummary}>
+        <View style={styles.paymentSummaryRow}>
+          <Text style={styles.paymentSummaryText}>
+            {t('mobile.profile.paidOf', {
+              paid: formatCurrency(payments.totals.paid, currentLanguage),
+              total: formatCurrency(payments.totals.total, currentLanguage),
+            })}
+          </Text>
+          <Text style={styles.paymentProgressText}>{payments.progress}%</Text>
+        </View>
+        <ProgressBar
+          progress={payments.progress / 100}
+          color={payments.overdue.length > 0 ? colors.error : colors.success}
+          style={styles.paymentProgress}
+        />
+        {nextDue && (
+          <Text style={[styles.nextDueText, nextDue.status === 'OVERDUE' && styles.overdueText]}>
+            {nextDue.status === 'OVERDUE'
+              ? t('mobile.profile.overdueAmount', {
+                  amount: formatCurrency(payments.overdueAmount, currentLanguage),
+                  count: payments.overdue[0].daysOverdue,
+                })
+              : t('mobile.profile.nextDue', {
+                  amount: formatCurrency(nextDue.amount, currentLanguage),
+                  date: formatDateShort(nextDue.dueDate),
+                })}
+          </Text>
+        )}
+      </View>
       <View style={styles.packageFooter}>
         <Button
           text={t('mobile.profile.viewPaymentDetails')}
@@ -370,6 +527,10 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginRight: 5,
   },
+  headerAccountButton: {
+    padding: 5,
+    marginRight: 5,
+  },
   headerLanguageSelector: {
     marginRight: 5,
   },
@@ -430,6 +591,63 @@ const styles = StyleSheet.create({
   topPhoneIcon: {
     marginRight: 4,
   },
+  settingsCard: {
+    marginTop: 40,
+    padding: 17,
+    borderWidth: 1,
+    borderRadius: 5,
+    borderColor: '#ddd',
+  },
+  settingsRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  settingsText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  settingsTitle: {
+    fontWeight: '500',
+    fontSize: 16,
+    color: '#3C4F4D',
+  },
+  settingsDescription: {
+    marginTop: 4,
+    fontSize: 12,
+    color: '#7A9491',
+  },
+  timeoutRow: {
+    marginTop: 12,
+  },
+  timeoutOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 8,
+  },
+  timeoutChip: {
+    borderRadius: 30,
+    backgroundColor: '#eee',
+    paddingLeft: 12,
+    paddingRight: 12,
+    paddingTop: 4,
+    paddingBottom: 4,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  timeoutChipSelected: {
+    backgroundColor: '#0052CD',
+  },
+  timeoutChipText: {
+    fontSize: 12,
+    color: '#777777',
+  },
+  timeoutChipTextSelected: {
+    color: '#fff',
+  },
+  overviewButton: {
+    marginTop: 30,
+    flexDirection: 'row',
+  },
   packagesContainer: {
     marginTop: 24,
     marginBottom: 24,
@@ -472,6 +690,37 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     justifyContent: 'flex-end',
   },
+  paymentSummary: {
+    marginTop: 16,
+  },
+  paymentSummaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 6,
+  },
+  paymentSummaryText: {
+    fontSize: 13,
+    color: '#3C4F4D',
+  },
+  paymentProgressText: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#3C4F4D',
+  },
+  paymentProgress: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: colors.grey300,
+  },
+  nextDueText: {
+    marginTop: 6,
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
+  overdueText: {
+    color: colors.error,
+    fontWeight: '700',
+  },
   packageFooter: {
     marginTop: 16,
     flexDirection: 'row',
@@ -1,19 +1,35 @@
-import React, { useState, useEffect } from 'react';
-import { View, StyleSheet, FlatList, ListRenderItem } from 'react-native';
+import React, { useEffect, useMemo, useCallback } from 'react';
+import {
+  View,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
 import { Text, Card, Avatar } from 'react-native-paper';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
 
-import { Header, BottomNavigation, Image } from '../components';
+import Icon from 'react-native-vector-icons/Feather';
+
+import { Header, BottomNavigation, MessageComposer } from '../components';
 import { useCollection } from '../hooks/useCollection';
-import { createLogoutHandler } from '../helpers/authUtils';
-import { createSimpleLogoutHandler } from '../helpers/simpleLogout';
-import { createSafeLogoutHandler } from '../helpers/safeLogout';
-import { createEmergencyLogoutHandler } from '../helpers/emergencyLogout';
+import { useMessageComposer, mergeOutgoingMessages, OutgoingMessage } from '../hooks/useMessageComposer';
+import { useTranslation } from '../hooks/useTranslation';
+import { useRealtime } from '../hooks/useRealtime';
+import { usePdfExport } from '../hooks/usePdfExport';
+import { useDraft } from '../hooks/useDraft';
+import { sessionManager } from '../services/SessionManager';
 import { colors, spacing } from '../helpers/theme';
 import { formatTime, formatDate } from '../helpers/dateUtils';
-import { getMap } from '../helpers/generalUtils';
 import { RootStackParamList } from '../navigation/types';
+import { realtimeService, realtimeTopics, mergeRealtimeItems } from '../services/RealtimeService';
+import { readStateService, readTargets } from '../services/ReadStateService';
+import { exportService } from '../services/ExportService';
+import { WhatsAppMessage, endpoints, resolvePath } from '../api';
 
 /**
  * SMSScreen - Modern WhatsApp conversation screen
@@ -21,37 +37,48 @@ import { RootStackParamList } from '../navigation/types';
  */
 
 // Type definitions
-interface LeadDetails {
-  phone_1?: string;
-  phone_2?: string;
-  telephone?: string;
-}
-
-interface MessageUser {
-  first_name: string;
-  last_name?: string;
-}
-
-interface MessageData {
-  id: number;
-  text: string;
-  action: 'SENT' | 'RECEIVED';
-  created_at: string;
-  contact?: string;
-  lead_details?: LeadDetails;
-  moderator_details?: MessageUser;
-}
-
-interface GroupedMessage {
-  date: string;
-  messages: MessageData[];
-}
+type ConversationMessage = WhatsAppMessage | OutgoingMessage;
+
+type ConversationRow =
+  | { type: 'day'; key: string; date: string }
+  | { type: 'message'; key: string; message: ConversationMessage };
+
+const MESSAGES_PAGE_SIZE = 30;
+
+const isOutgoing = (message: ConversationMessage): message is OutgoingMessage =>
+  'localId' in message;
+
+const getMessageKey = (message: ConversationMessage): string =>
+  isOutgoing(message) ? message.localId : message.id.toString();
+
+/**
+ * Flatten a chronological conversation into newest-first rows for the inverted list,
+ * with a separator above the first message of each day. Built from every loaded page,
+ * so a day split across pages keeps a single separator.
+ */
+const buildConversationRows = (messages: ConversationMessage[]): ConversationRow[] => {
+  const rows: ConversationRow[] = [];
+
+  for (let index = messages.length - 1; index >= 0; index--) {
+    const message = messages[index];
+    const day = formatDate(message.created_at, 'yyyy-MM-dd');
+    rows.push({ type: 'message', key: getMessageKey(message), message });
+
+    const previous = messages[index - 1];
+    if (!previous || formatDate(previous.created_at, 'yyyy-MM-dd') !== day) {
+      rows.push({ type: 'day', key: `day-${getMessageKey(message)}`, date: day });
+    }
+  }
+
+  return rows;
+};
 
 type Props = NativeStackScreenProps<RootStackParamList, 'SMS'>;
 
 const SMSScreen = ({ navigation, route }: Props) => {
-  const { data, title } = route.params;
-  const [groupedMessages, setGroupedMessages] = useState<GroupedMessage[]>([]);
+  const { data, title, compose } = route.params;
+  const { t } = useTranslation();
+  const { exporting, runExport } = usePdfExport();
 
   // Get contact information
   const contact = data.contact || 
@@ -59,10 +86,58 @@ const SMSScreen = ({ navigation, route }: Props) => {
     data.lead_details?.phone_2 || 
     data.lead_details?.telephone;
 
-  // Fetch conversation data
-  const { collection, updateCollection } = useCollection<MessageData>(
-    `whatsapp-conversations/${contact}`,
-    { autoFetch: true }
+  // Restored when the conversation is reopened, even after a restart
+  const { draft, setDraft, clearDraft } = useDraft(contact || '');
+
+  // Fetch the latest page; older pages are prepended while scrolling up
+  const { collection, updateCollection, loadMore, hasMore } = useCollection<WhatsAppMessage>(
+    resolvePath(endpoints.whatsAppMessages, { contact: contact || '' }),
+    {
+      autoFetch: true,
+      schema: endpoints.whatsAppMessages.response,
+      defaultQueryString: `limit=${MESSAGES_PAGE_SIZE}`,
+      pageDirection: 'prepend',
+    }
+  );
+
+  const topic = contact ? realtimeTopics.conversation(contact) : null;
+
+  // Opening the conversation reads it, and so does every message arriving while it is open
+  const markConversationRead = useCallback(() => {
+    if (contact) {
+      readStateService.setRead(readTargets.conversation(contact, data.unread_count), true);
+    }
+  }, [contact, data.unread_count]);
+
+  useEffect(() => {
+    markConversationRead();
+  }, [markConversationRead]);
+
+  // New messages are pushed while the conversation is open
+  useRealtime(
+    topic,
+    useCallback((items: WhatsAppMessage[]) => {
+      updateCollection(current => ({
+        items: mergeRealtimeItems(current.items, items),
+        loaded: true,
+      }));
+      if (items.some(message => message.action === 'SENT')) {
+        markConversationRead();
+      }
+    }, [updateCollection, markConversationRead])
+  );
+
+  const topicKey = topic?.key;
+  const fetchNewMessages = useCallback(() => {
+    if (topicKey) {
+      realtimeService.refreshTopic(topicKey);
+    }
+  }, [topicKey]);
+  const { outgoing, send, retry, discard } = useMessageComposer(contact || '', { onSent: fetchNewMessages });
+
+  const rows = useMemo(
+    () => buildConversationRows(mergeOutgoingMessages(collection.items, outgoing)),
+    [collection.items, outgoing]
   );
 
   // Set navigation title
@@ -73,47 +148,51 @@ const SMSScreen = ({ navigation, route }: Props) => {
     });
   }, [navigation, title]);
 
-  // Group messages by date
-  useEffect(() => {
-    if (collection.items.length > 0) {
-      const mappedMessages = getMap(
-        collection.items,
-        'created_at',
-        true,
-        (dateStr: string) => formatDate(dateStr, 'yyyy-MM-dd')
-      );
-
-      const newGroupedMessages: GroupedMessage[] = [];
-      Object.entries(mappedMessages).forEach(([date, messages]) => {
-        newGroupedMessages.push({
-          date,
-          messages: messages as MessageData[]
-        });
-      });
-
-      // Sort by date (newest first)
-      newGroupedMessages.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-      
-      setGroupedMessages(newGroupedMessages);
+  const handleBackPress = () => {
+    navigation.goBack();
+  };
+
+  const handleEndReached = () => {
+    if (hasMore) {
+      loadMore();
     }
-  }, [collection.items]);
+  };
 
-  // Auto-refresh messages every 5 seconds
-  useEffect(() => {
-    const interval = setInterval(() => {
-      updateCollection({ reload: true });
-    }, 5000);
+  const handleSend = () => {
+    const text = draft;
+    clearDraft();
+    send(text);
+  };
 
-    return () => clearInterval(interval);
-  }, [updateCollection]);
+  // Replies the backend refused wait with the rest of the conversation's queue until the student decides
+  const handleFailedPress = (item: OutgoingMessage) => {
+    Alert.alert(t('mobile.whatsapp.notSentTitle'), t('mobile.whatsapp.notSentMessage'), [
+      { text: t('general.cancel'), style: 'cancel' },
+      { text: t('mobile.whatsapp.discard'), style: 'destructive', onPress: () => discard(item.localId) },
+      { text: t('general.tryAgain'), onPress: () => retry(item.localId) },
+    ]);
+  };
 
-  const handleBackPress = () => {
-    navigation.goBack();
+  const renderDeliveryStatus = (item: OutgoingMessage) => {
+    switch (item.status) {
+      case 'pending':
+        return <Icon name="clock" size={10} color={colors.textSecondary} style={styles.statusIcon} />;
+      case 'sent':
+        return <Icon name="check" size={10} color={colors.textSecondary} style={styles.statusIcon} />;
+      case 'failed':
+        return (
+          <TouchableOpacity onPress={() => handleFailedPress(item)} style={styles.failedStatus}>
+            <Icon name="alert-circle" size={10} color={colors.error} />
+            <Text style={styles.failedText}>{t('mobile.whatsapp.notSent')}</Text>
+          </TouchableOpacity>
+        );
+    }
   };
 
-  const renderMessageItem = ({ item }: { item: MessageData }) => {
+  const renderMessage = (item: ConversationMessage) => {
     const isReceived = item.action === 'SENT';
     const messageTime = formatTime(item.created_at);
+    const outgoingMessage = isOutgoing(item) ? item : null;
 
     return (
       <View style={[
@@ -133,7 +212,10 @@ const SMSScreen = ({ navigation, route }: Props) => {
           styles.messageContent,
           isReceived ? styles.receivedMessageContent : styles.sentMessageContent
         ]}>
-          <View style={styles.messageBubble}>
+          <View style={[
+            styles.messageBubble,
+            outgoingMessage?.status === 'failed' && styles.failedMessageBubble
+          ]}>
             <Text style={styles.messageText}>
               {item.text}
             </Text>
@@ -143,6 +225,7 @@ const SMSScreen = ({ navigation, route }: Props) => {
             <Text style={styles.messageTime}>
               {messageTime}
             </Text>
+            {outgoingMessage && renderDeliveryStatus(outgoingMessage)}
           </View>
         </View>
 
@@ -152,22 +235,19 @@ const SMSScreen = ({ navigation, route }: Props) => {
     );
   };
 
-  const renderDayGroup = ({ item }: { item: GroupedMessage }) => (
-    <View style={styles.dayGroup}>
+  const renderRow = ({ item }: { item: ConversationRow }) => {
+    if (item.type === 'message') {
+      return renderMessage(item.message);
+    }
+
+    return (
       <View style={styles.dayHeader}>
         <Text style={styles.dayText}>
           {formatDate(item.date, 'EEEE, dd MMMM yyyy')}
         </Text>
       </View>
-      
-      <FlatList
-        data={item.messages}
-        keyExtractor={(message) => message.id.toString()}
-        renderItem={renderMessageItem}
-        scrollEnabled={false}
-      />
-    </View>
-  );
+    );
+  };
 
   return (
     <SafeAreaView style={styles.container}>
@@ -177,40 +257,83 @@ const SMSScreen = ({ navigation, route }: Props) => {
         canGoBack
         onBackPress={handleBackPress}
         noShadow
+        rightComponent={
+          !!contact && (
+            <TouchableOpacity
+              onPress={() => runExport(() => exportService.exportConversation(contact, title || contact))}
+              disabled={exporting}
+              style={styles.exportButton}
+              accessibilityLabel={t('mobile.export.exportPdf')}
+            >
+              {exporting
+                ? <ActivityIndicator size="small" color={colors.primary} />
+                : <Icon name="download" size={20} color={colors.primary} />}
+            </TouchableOpacity>
+          )
+        }
       />
 
-      {/* Messages List */}
-      <FlatList
-        data={groupedMessages}
-        keyExtractor={(item) => item.date}
-        renderItem={renderDayGroup}
-        style={styles.messagesList}
-        contentContainerStyle={styles.messagesContent}
-        showsVerticalScrollIndicator={false}
-      />
+      <KeyboardAvoidingView
+        style={styles.conversation}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        {/* Messages List, inverted so the newest message sits at the bottom and older pages load on top */}
+        <FlatList
+          data={rows}
+          keyExtractor={(item) => item.key}
+          renderItem={renderRow}
+          inverted
+          onEndReached={handleEndReached}
+          onEndReachedThreshold={0.3}
+          ListFooterComponent={
+            collection.loadingMore ? (
+              <ActivityIndicator color={colors.textSecondary} style={styles.loadingMore} />
+            ) : null
+          }
+          style={styles.messagesList}
+          contentContainerStyle={styles.messagesContent}
+          showsVerticalScrollIndicator={false}
+        />
+
+        {contact && (
+          <MessageComposer
+            value={draft}
+            onChangeText={setDraft}
+            onSend={handleSend}
+            placeholder={t('mobile.whatsapp.placeholder')}
+            autoFocus={compose}
+          />
+        )}
+      </KeyboardAvoidingView>
 
       {/* Bottom Navigation */}
-      <BottomNavigation onLogout={createEmergencyLogoutHandler(navigation)} />
+      <BottomNavigation onLogout={() => sessionManager.logout()} />
     </SafeAreaView>
   );
 };
 
 const styles = StyleSheet.create({
+  exportButton: {
+    padding: spacing.xs,
+  },
   container: {
     flex: 1,
     backgroundColor: colors.surface,
     paddingTop: 0,
   },
+  conversation: {
+    flex: 1,
+    marginBottom: 66, // Space for bottom navigation
+  },
   messagesList: {
     flex: 1,
     paddingHorizontal: spacing.md,
-    marginBottom: 66, // Space for bottom navigation
   },
   messagesContent: {
     paddingVertical: spacing.md,
   },
-  dayGroup: {
-    marginBottom: spacing.lg,
+  loadingMore: {
+    marginVertical: spacing.md,
   },
   dayHeader: {
     alignItems: 'center',
@@ -258,9 +381,27 @@ const styles = StyleSheet.create({
     color: colors.onSurface,
     lineHeight: 20,
   },
+  failedMessageBubble: {
+    opacity: 0.6,
+  },
   timeContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
     paddingHorizontal: spacing.sm,
   },
+  statusIcon: {
+    marginLeft: 4,
+  },
+  failedStatus: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginLeft: 6,
+  },
+  failedText: {
+    fontSize: 10,
+    color: colors.error,
+    marginLeft: 2,
+  },
   messageTime: {
     fontSize: 10,
     color: colors.textSecondary,
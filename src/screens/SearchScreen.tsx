@@ -0,0 +1,332 @@
+import React, { useCallback } from 'react';
+import {
+  View,
+  StyleSheet,
+  FlatList,
+  ListRenderItem,
+  TextInput,
+  TouchableOpacity,
+  Keyboard,
+} from 'react-native';
+import { Text, Card, ActivityIndicator } from 'react-native-paper';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import Icon from 'react-native-vector-icons/Feather';
+
+import { Header, HighlightedText } from '../components';
+import { useInboxSearch } from '../hooks/useInboxSearch';
+import { useTranslation } from '../hooks/useTranslation';
+import { colors, spacing } from '../helpers/theme';
+import { formatDate } from '../helpers/dateUtils';
+import { getExcerpt, InboxSearchResult, InboxSource } from '../helpers/inboxSearch';
+import { openNotification } from '../helpers/notificationUtils';
+import { RootStackParamList } from '../navigation/types';
+import { readStateService, readTargets } from '../services/ReadStateService';
+
+/**
+ * SearchScreen - Searches emails, WhatsApp messages and notifications together
+ */
+
+const SOURCE_ICONS: Record<InboxSource, string> = {
+  email: 'mail',
+  whatsapp: 'message-circle',
+  notification: 'bell',
+};
+
+type Props = NativeStackScreenProps<RootStackParamList, 'Search'>;
+
+const SearchScreen: React.FC<Props> = ({ navigation }) => {
+  const { t } = useTranslation();
+  const {
+    searchTerm,
+    debouncedSearchTerm,
+    isSearching,
+    updateSearchTerm,
+    clearSearch,
+    results,
+    loading,
+    recentQueries,
+    saveRecentQuery,
+    clearRecentQueries,
+  } = useInboxSearch();
+
+  const hasQuery = debouncedSearchTerm.trim().length > 0;
+
+  const handleResultPress = useCallback((result: InboxSearchResult) => {
+    saveRecentQuery(debouncedSearchTerm);
+    Keyboard.dismiss();
+
+    switch (result.source) {
+      case 'email':
+        navigation.navigate('Email', {
+          data: result.email,
+          title: result.email.user_details.first_name,
+        });
+        break;
+      case 'whatsapp':
+        navigation.navigate('SMS', {
+          data: result.conversation,
+          title: result.conversation.moderator_details?.first_name || '(No name)',
+        });
+        break;
+      case 'notification':
+        readStateService.setRead(readTargets.notification(result.notification), true);
+        openNotification(navigation, result.notification);
+        break;
+    }
+  }, [navigation, debouncedSearchTerm, saveRecentQuery]);
+
+  const renderResult: ListRenderItem<InboxSearchResult> = ({ item }) => {
+    const body = getExcerpt(item.body, item.matches.body);
+
+    return (
+      <Card style={styles.resultCard} onPress={() => handleResultPress(item)}>
+        <Card.Content style={styles.resultContent}>
+          <View style={styles.resultHeader}>
+            <Icon name={SOURCE_ICONS[item.source]} size={14} color={colors.primary} />
+            <HighlightedText
+              text={item.sender}
+              ranges={item.matches.sender}
+              style={styles.resultSender}
+              numberOfLines={1}
+            />
+            <Text style={styles.resultDate}>{formatDate(item.created_at, 'dd MMM')}</Text>
+          </View>
+          {!!item.subject && (
+            <HighlightedText
+              text={item.subject}
+              ranges={item.matches.subject}
+              style={styles.resultSubject}
+              numberOfLines={1}
+            />
+          )}
+          {!!body.text && (
+            <HighlightedText
+              text={body.text}
+              ranges={body.ranges}
+              style={styles.resultBody}
+              numberOfLines={2}
+            />
+          )}
+          <Text style={styles.resultSource}>{t(`mobile.search.sources.${item.source}`)}</Text>
+        </Card.Content>
+      </Card>
+    );
+  };
+
+  const renderRecentQueries = () => (
+    <View style={styles.recentContainer}>
+      {recentQueries.length > 0 ? (
+        <>
+          <View style={styles.recentHeader}>
+            <Text style={styles.recentTitle}>{t('mobile.search.recent')}</Text>
+            <TouchableOpacity onPress={clearRecentQueries}>
+              <Text style={styles.recentClear}>{t('mobile.search.clearRecent')}</Text>
+            </TouchableOpacity>
+          </View>
+          {recentQueries.map(query => (
+            <TouchableOpacity
+              key={query}
+              style={styles.recentItem}
+              onPress={() => updateSearchTerm(query)}
+            >
+              <Icon name="clock" size={16} color={colors.textSecondary} />
+              <Text style={styles.recentText} numberOfLines={1}>{query}</Text>
+            </TouchableOpacity>
+          ))}
+        </>
+      ) : (
+        <Text style={styles.hintText}>{t('mobile.search.hint')}</Text>
+      )}
+    </View>
+  );
+
+  const renderEmptyState = () => (
+    <View style={styles.emptyState}>
+      {loading || isSearching ? (
+        <>
+          <ActivityIndicator size="large" />
+          {loading && <Text style={styles.emptyStateText}>{t('mobile.search.loading')}</Text>}
+        </>
+      ) : (
+        <>
+          <Icon name="search" size={48} color={colors.textSecondary} />
+          <Text style={styles.emptyStateText}>
+            {t('mobile.search.noResults', { query: debouncedSearchTerm.trim() })}
+          </Text>
+        </>
+      )}
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <Header
+        title={t('mobile.titles.search')}
+        canGoBack
+        onBackPress={() => navigation.goBack()}
+        noShadow
+      />
+
+      <View style={styles.searchBar}>
+        <Icon name="search" size={18} color={colors.textSecondary} />
+        <TextInput
+          style={styles.searchInput}
+          value={searchTerm}
+          onChangeText={updateSearchTerm}
+          onSubmitEditing={() => saveRecentQuery(searchTerm)}
+          placeholder={t('mobile.search.placeholder')}
+          placeholderTextColor={colors.textSecondary}
+          returnKeyType="search"
+          autoCorrect={false}
+          autoFocus
+        />
+        {searchTerm.length > 0 && (
+          <TouchableOpacity onPress={clearSearch} style={styles.clearButton}>
+            <Icon name="x" size={18} color={colors.textSecondary} />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {hasQuery ? (
+        <FlatList
+          data={results}
+          keyExtractor={item => item.key}
+          renderItem={renderResult}
+          contentContainerStyle={[
+            styles.resultsContent,
+            results.length === 0 && styles.emptyListContent,
+          ]}
+          ListEmptyComponent={renderEmptyState}
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
+        />
+      ) : (
+        renderRecentQueries()
+      )}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    margin: spacing.md,
+    paddingHorizontal: spacing.md,
+    borderRadius: 20,
+    backgroundColor: colors.surface,
+    elevation: 2,
+  },
+  searchInput: {
+    flex: 1,
+    height: 44,
+    marginLeft: spacing.sm,
+    fontSize: 15,
+    color: colors.onSurface,
+  },
+  clearButton: {
+    padding: spacing.xs,
+  },
+  resultsContent: {
+    paddingHorizontal: spacing.md,
+    paddingBottom: spacing.md,
+  },
+  emptyListContent: {
+    flexGrow: 1,
+    justifyContent: 'center',
+  },
+  resultCard: {
+    marginBottom: spacing.sm,
+    borderRadius: 12,
+    elevation: 2,
+  },
+  resultContent: {
+    padding: 12,
+  },
+  resultHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  resultSender: {
+    flex: 1,
+    marginHorizontal: spacing.sm,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#2c3e50',
+  },
+  resultDate: {
+    fontSize: 12,
+    color: '#7f8c8d',
+  },
+  resultSubject: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: colors.onSurface,
+    marginBottom: 2,
+  },
+  resultBody: {
+    fontSize: 14,
+    color: '#7f8c8d',
+    lineHeight: 20,
+  },
+  resultSource: {
+    marginTop: spacing.xs,
+    fontSize: 11,
+    color: colors.textSecondary,
+    textTransform: 'uppercase',
+  },
+  recentContainer: {
+    paddingHorizontal: spacing.md,
+  },
+  recentHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: spacing.sm,
+  },
+  recentTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.textSecondary,
+  },
+  recentClear: {
+    fontSize: 14,
+    color: colors.primary,
+  },
+  recentItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+  },
+  recentText: {
+    flex: 1,
+    marginLeft: spacing.sm,
+    fontSize: 15,
+    color: colors.onSurface,
+  },
+  hintText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginTop: spacing.lg,
+  },
+  emptyState: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: spacing.xl,
+  },
+  emptyStateText: {
+    fontSize: 16,
+    color: colors.textSecondary,
+    marginTop: spacing.md,
+    textAlign: 'center',
+  },
+});
+
+export default SearchScreen;
@@ -19,16 +19,12 @@ import {
 } from 'react-native-paper';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
-import { CommonActions } from '@react-navigation/native';
-import { simpleLogout } from '../helpers/simpleLogout';
-import { safeLogout } from '../helpers/safeLogout';
-import { emergencyLogout } from '../helpers/emergencyLogout';
+import { sessionManager } from '../services/SessionManager';
 
 import { apiService } from '../helpers/request';
 import { isValidEmail } from '../helpers/applicationUtils';
 import { colors, spacing } from '../helpers/theme';
 import { View as CustomView } from '../components';
-import { useUserToken } from '../hooks/useAsyncStorage';
 import { RootStackParamList } from '../navigation/types';
 
 /**
@@ -70,8 +66,6 @@ const SwitchUserScreen: React.FC<Props> = ({ navigation }) => {
   const [fetchingLead, setFetchingLead] = useState<boolean>(false);
   const [errors, setErrors] = useState<SwitchUserErrors>({});
 
-  const { token: userToken, setToken: setUserToken } = useUserToken();
-
   // Validation
   const validateForm = useCallback((): boolean => {
     const newErrors: SwitchUserErrors = {};
@@ -101,14 +95,15 @@ const SwitchUserScreen: React.FC<Props> = ({ navigation }) => {
 
     setFetchingLead(true);
     try {
-      const response = await apiService.get<LeadDetails>(`leads/${id}`);
-      console.log(`Details of lead ${id}:`, response.data);
-      setLeadDetails(response.data);
+      const response = await apiService.get(`leads/${id}`);
+      const lead: LeadDetails = response.data.data || response.data;
+      console.log(`Details of lead ${id}:`, lead);
+      setLeadDetails(lead);
       setErrors(prev => ({ ...prev, leadID: '' })); // Clear any previous error
     } catch (error: any) {
       console.error(`Error while getting details of lead ${id}:`, error);
       setLeadDetails(null);
-      if (error.response?.status === 404) {
+      if (error.status === 404) {
         setErrors(prev => ({ ...prev, leadID: `No lead found with ID ${id}` }));
       } else {
         setErrors(prev => ({ ...prev, leadID: 'Failed to fetch lead details' }));
@@ -190,35 +185,12 @@ const SwitchUserScreen: React.FC<Props> = ({ navigation }) => {
           text: 'Logout',
           style: 'destructive',
           onPress: async () => {
-            try {
-              console.log('🚨 Starting emergency logout from SwitchUserScreen...');
-              
-              // Clear token using hook first
-              await setUserToken('');
-              
-              // Use emergency logout to completely avoid bridge issues
-              await emergencyLogout(navigation);
-              
-              console.log('✅ Emergency logout completed');
-            } catch (error) {
-              console.error('❌ Emergency logout error:', error);
-              // Force navigation as last resort
-              try {
-                navigation.dispatch(
-                  CommonActions.reset({
-                    index: 0,
-                    routes: [{ name: 'Login' }],
-                  })
-                );
-              } catch (navError) {
-                console.error('❌ Force navigation failed:', navError);
-              }
-            }
+            await sessionManager.logout();
           },
         },
       ]
     );
-  }, [setUserToken, navigation]);
+  }, []);
 
   const getFullName = (lead: LeadDetails): string => {
     return `${lead.first_name} ${lead.last_name || ''}`.trim();
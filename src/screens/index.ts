@@ -17,13 +17,16 @@ export { default as ProfileScreen } from './ProfileScreen';
 export { default as EmailScreen } from './EmailScreen';
 export { default as SMSScreen } from './SMSScreen';
 export { default as NotificationScreen } from './NotificationScreen';
+export { default as SearchScreen } from './SearchScreen';
 
 // Payment Screens
 export { default as PaymentsScreen } from './PaymentsScreen';
 export { default as EMIScreen } from './EMIScreen';
+export { default as FinancialOverviewScreen } from './FinancialOverviewScreen';
 
 // Utility Screens
 export { default as LoaderScreen } from './LoaderScreen';
+export { default as LockScreen } from './LockScreen';
 export { default as SwitchUserScreen } from './SwitchUserScreen';
 
 // Debug Screens (development only)
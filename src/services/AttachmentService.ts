@@ -0,0 +1,177 @@
+import { EmailAttachment } from '../api';
+import { fileSystemService } from '../features/gallery/services/FileSystemService';
+import { galleryService } from '../features/gallery/services/GalleryService';
+import { permissionsService } from '../features/gallery/services/PermissionsService';
+import { sessionManager } from './SessionManager';
+
+/**
+ * Attachment Service
+ * Downloads email attachments into the signed-in account's downloads folder and
+ * opens them with the system viewer. Download progress is kept here, so it survives
+ * leaving and reopening the email.
+ */
+
+export type AttachmentStatus = 'idle' | 'downloading' | 'downloaded' | 'failed';
+
+export interface AttachmentState {
+  status: AttachmentStatus;
+  /** Download progress, 0-100 */
+  progress: number;
+  /** Local file, once downloaded */
+  path?: string;
+}
+
+export type AttachmentListener = (attachmentId: number, state: AttachmentState) => void;
+
+const IDLE: AttachmentState = { status: 'idle', progress: 0 };
+
+export class AttachmentService {
+  private static instance: AttachmentService;
+  private states = new Map<number, AttachmentState>();
+  private downloads = new Map<number, Promise<string>>();
+  private listeners = new Set<AttachmentListener>();
+
+  private constructor() {
+    // Downloaded files belong to an account's folder
+    sessionManager.subscribe((event) => {
+      if (event.type === 'switch' || event.type === 'logout') {
+        this.states.clear();
+      }
+    });
+  }
+
+  /**
+   * Get singleton instance
+   */
+  static getInstance(): AttachmentService {
+    if (!AttachmentService.instance) {
+      AttachmentService.instance = new AttachmentService();
+    }
+    return AttachmentService.instance;
+  }
+
+  /**
+   * Subscribe to attachment state changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: AttachmentListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getState(attachment: EmailAttachment): AttachmentState {
+    return this.states.get(attachment.id) || IDLE;
+  }
+
+  /**
+   * Look for a complete copy saved by an earlier download
+   */
+  async findDownloaded(attachment: EmailAttachment): Promise<string | null> {
+    const path = await this.getLocalPath(attachment);
+    if (!(await fileSystemService.fileExists(path))) return null;
+
+    try {
+      const info = await fileSystemService.getFileInfo(path);
+      // A different size means an interrupted download
+      if (attachment.size > 0 && Number(info.size) !== attachment.size) return null;
+    } catch {
+      return null;
+    }
+
+    if (this.getState(attachment).status !== 'downloading') {
+      this.setState(attachment.id, { status: 'downloaded', progress: 100, path });
+    }
+    return path;
+  }
+
+  /**
+   * Download an attachment, reusing a download already in progress. Resolves to the local path.
+   */
+  download(attachment: EmailAttachment): Promise<string> {
+    let download = this.downloads.get(attachment.id);
+    if (!download) {
+      download = this.startDownload(attachment).finally(() => {
+        this.downloads.delete(attachment.id);
+      });
+      this.downloads.set(attachment.id, download);
+    }
+    return download;
+  }
+
+  /**
+   * Open a downloaded attachment with the system viewer
+   */
+  async open(attachment: EmailAttachment): Promise<void> {
+    const path = this.getState(attachment).path || (await this.findDownloaded(attachment));
+    if (!path) {
+      throw new Error(`Attachment ${attachment.id} is not downloaded`);
+    }
+    await fileSystemService.openFile(path);
+  }
+
+  private async startDownload(attachment: EmailAttachment): Promise<string> {
+    const hasPermissions = await permissionsService.hasRequiredPermissions();
+    if (!hasPermissions && !(await permissionsService.requestRequiredPermissions())) {
+      throw new Error('Storage permission is required to download files');
+    }
+
+    this.setState(attachment.id, { status: 'downloading', progress: 0 });
+    const request = galleryService.createAuthenticatedImageRequest(attachment.path);
+    const path = await this.getLocalPath(attachment);
+
+    try {
+      console.log(`📎 Downloading attachment ${attachment.name}`);
+      const result = await fileSystemService.downloadFile({
+        url: request.uri,
+        headers: request.headers,
+        fileName: path.slice(path.lastIndexOf('/') + 1),
+        subdirectory: await this.getSubdirectory(),
+        onProgress: (progress) => {
+          // Servers that send no length report no usable progress
+          if (Number.isFinite(progress)) {
+            this.setState(attachment.id, { status: 'downloading', progress: Math.min(progress, 100) });
+          }
+        },
+      });
+
+      this.setState(attachment.id, { status: 'downloaded', progress: 100, path: result.path });
+      return result.path;
+    } catch (error) {
+      console.error(`❌ Failed to download attachment ${attachment.id}:`, error);
+      // Leave no partial file that could look downloaded
+      await fileSystemService.deleteFile(path).catch(() => {});
+      this.setState(attachment.id, { status: 'failed', progress: 0 });
+      throw error;
+    }
+  }
+
+  private async getSubdirectory(): Promise<string> {
+    const userId = await sessionManager.getUserId();
+    return `${fileSystemService.getAccountSubdirectory(userId)}/Attachments`;
+  }
+
+  /**
+   * Attachment ids keep files with the same name from different emails apart
+   */
+  private async getLocalPath(attachment: EmailAttachment): Promise<string> {
+    const safeName = attachment.name.replace(/[\\/:*?"<>|]/g, '_');
+    return fileSystemService.getDownloadPath(`${attachment.id}-${safeName}`, await this.getSubdirectory());
+  }
+
+  private setState(attachmentId: number, state: AttachmentState): void {
+    this.states.set(attachmentId, state);
+    this.listeners.forEach(listener => {
+      try {
+        listener(attachmentId, state);
+      } catch (error) {
+        console.error('❌ Attachment listener failed:', error);
+      }
+    });
+  }
+}
+
+// Export singleton instance
+export const attachmentService = AttachmentService.getInstance();
+
+export default attachmentService;
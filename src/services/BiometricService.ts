@@ -0,0 +1,348 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState, AppStateStatus } from 'react-native';
+import { AuthenticationPrompt, BIOMETRY_TYPE } from 'react-native-keychain';
+import SecureStorage from '../helpers/secureStorage';
+import { apiService, AUTH_STORAGE_KEYS, RefreshTokenStore } from '../helpers/request';
+import { sessionManager } from './SessionManager';
+
+/**
+ * Biometric Service
+ * Opt-in "unlock with Face ID / fingerprint" for returning students. While it is on, the
+ * refresh tokens of the signed-in accounts are kept only behind biometric access control
+ * and held in memory after an unlock; reading them back is what unlocks the app on cold
+ * start and after the app sat in the background. The access token stays in the regular
+ * keychain entry so requests never prompt.
+ */
+
+export interface BiometricSettings {
+  enabled: boolean;
+  /** Time in the background (ms) after which the app locks again */
+  lockTimeout: number;
+}
+
+export interface BiometricState {
+  settings: BiometricSettings;
+  locked: boolean;
+  /** Consecutive failed or cancelled unlock attempts */
+  failedAttempts: number;
+}
+
+export type BiometricListener = (state: BiometricState) => void;
+
+export type UnlockResult = 'unlocked' | 'failed' | 'unavailable';
+
+export const LOCK_TIMEOUT_OPTIONS = [0, 60 * 1000, 5 * 60 * 1000, 15 * 60 * 1000];
+
+/** Failed attempts after which the password login is offered */
+export const MAX_UNLOCK_ATTEMPTS = 3;
+
+const SETTINGS_STORAGE_KEY = 'biometricUnlock';
+/** Refresh tokens by user id, as JSON */
+const PROTECTED_TOKEN_KEY = 'biometricToken';
+
+const DEFAULT_SETTINGS: BiometricSettings = {
+  enabled: false,
+  lockTimeout: 60 * 1000,
+};
+
+export class BiometricService {
+  private static instance: BiometricService;
+  private state: BiometricState = { settings: DEFAULT_SETTINGS, locked: false, failedAttempts: 0 };
+  private listeners = new Set<BiometricListener>();
+  private backgroundedAt: number | null = null;
+  private appStateListening = false;
+  /** Refresh tokens by user id, read from behind biometrics on unlock. Null while locked. */
+  private refreshTokens: Record<string, string> | null = null;
+  private unlockWaiters = new Set<() => void>();
+
+  /** Where ApiService keeps refresh tokens while biometric unlock is on */
+  private readonly refreshTokenStore: RefreshTokenStore = {
+    get: async () => {
+      // A refresh while locked waits for the unlock instead of expiring the session
+      await this.waitForUnlock();
+      const userId = await sessionManager.getUserId();
+      return (userId && this.refreshTokens?.[userId]) || null;
+    },
+    set: async (refreshToken) => {
+      // Signed out there is nothing to unlock: a login starts over
+      if (sessionManager.getStatus() === 'authenticated') {
+        await this.waitForUnlock();
+      }
+      const userId = await sessionManager.getUserId();
+      if (!userId) {
+        console.warn('⚠️ Refresh token of an unknown account not kept');
+        return;
+      }
+      await this.saveRefreshTokens({ ...this.refreshTokens, [userId]: refreshToken });
+      // Nor is a plain copy left in the account's slot
+      await SecureStorage.removeItem(AUTH_STORAGE_KEYS.REFRESH_TOKEN);
+      await sessionManager.saveActiveSession();
+    },
+  };
+
+  private constructor() {
+    sessionManager.subscribe(async (event) => {
+      if (event.type === 'login' || event.type === 'switch') {
+        this.update({ locked: false, failedAttempts: 0 });
+      } else if (event.type === 'logout') {
+        await this.forgetSignedOutAccounts();
+        this.update({ locked: false, failedAttempts: 0 });
+      }
+    });
+  }
+
+  /**
+   * Get singleton instance
+   */
+  static getInstance(): BiometricService {
+    if (!BiometricService.instance) {
+      BiometricService.instance = new BiometricService();
+    }
+    return BiometricService.instance;
+  }
+
+  getState(): BiometricState {
+    return this.state;
+  }
+
+  /**
+   * Subscribe to lock and settings changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: BiometricListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private update(changes: Partial<BiometricState>): void {
+    this.state = { ...this.state, ...changes };
+    if (!this.state.locked) {
+      this.unlockWaiters.forEach(resolve => resolve());
+      this.unlockWaiters.clear();
+    }
+    this.listeners.forEach(listener => {
+      try {
+        listener(this.state);
+      } catch (error) {
+        console.error('❌ Biometric listener failed:', error);
+      }
+    });
+  }
+
+  /**
+   * Biometry enrolled on the device, or null when biometric unlock cannot be offered
+   */
+  getBiometryType(): Promise<BIOMETRY_TYPE | null> {
+    return SecureStorage.getBiometryType();
+  }
+
+  /**
+   * Load the settings and lock the app for the cold start when biometric unlock is on.
+   * AppNavigator only shows the lock screen over an authenticated session.
+   */
+  async restore(): Promise<BiometricState> {
+    if (!this.appStateListening) {
+      AppState.addEventListener('change', this.handleAppStateChange);
+      this.appStateListening = true;
+    }
+
+    try {
+      const stored = await AsyncStorage.getItem(SETTINGS_STORAGE_KEY);
+      if (stored) {
+        const settings: BiometricSettings = { ...DEFAULT_SETTINGS, ...JSON.parse(stored) };
+        if (settings.enabled) {
+          this.refreshTokens = null;
+          apiService.setRefreshTokenStore(this.refreshTokenStore);
+        }
+        this.update({ settings, locked: settings.enabled });
+      }
+    } catch (error) {
+      console.warn('⚠️ Failed to restore biometric settings:', error);
+    }
+    return this.state;
+  }
+
+  private async saveSettings(settings: BiometricSettings): Promise<void> {
+    this.update({ settings });
+    try {
+      await AsyncStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+      console.warn('⚠️ Failed to persist biometric settings:', error);
+    }
+  }
+
+  private waitForUnlock(): Promise<void> {
+    if (!this.state.locked) return Promise.resolve();
+    return new Promise(resolve => this.unlockWaiters.add(resolve));
+  }
+
+  private async readRefreshTokens(prompt: AuthenticationPrompt): Promise<Record<string, string> | null> {
+    const stored = await SecureStorage.getProtectedItem(PROTECTED_TOKEN_KEY, prompt);
+    try {
+      return stored ? JSON.parse(stored) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private async saveRefreshTokens(refreshTokens: Record<string, string>): Promise<void> {
+    this.refreshTokens = refreshTokens;
+    try {
+      if (Object.keys(refreshTokens).length) {
+        await SecureStorage.setProtectedItem(PROTECTED_TOKEN_KEY, JSON.stringify(refreshTokens));
+      } else {
+        await SecureStorage.removeItem(PROTECTED_TOKEN_KEY);
+      }
+    } catch (error) {
+      // The tokens in memory keep the session going until the app is closed
+      console.warn('⚠️ Failed to protect refresh tokens:', error);
+    }
+  }
+
+  /**
+   * Drop the refresh tokens of accounts that are no longer signed in
+   */
+  private async forgetSignedOutAccounts(): Promise<void> {
+    const accounts = await sessionManager.getAccounts();
+    if (!this.refreshTokens) {
+      // Locked: the stored tokens can only be rewritten once nobody is left to unlock them
+      if (accounts.length === 0) {
+        await SecureStorage.removeItem(PROTECTED_TOKEN_KEY);
+      }
+      return;
+    }
+
+    const refreshTokens = Object.fromEntries(
+      Object.entries(this.refreshTokens).filter(([userId]) =>
+        accounts.some(account => account.userId === userId)
+      )
+    );
+    await this.saveRefreshTokens(refreshTokens);
+  }
+
+  /**
+   * Turn biometric unlock on. The user must pass one check so a device
+   * they cannot unlock is never locked. The active refresh token then moves behind
+   * biometrics; those of other accounts follow when they become active.
+   */
+  async enable(prompt: AuthenticationPrompt): Promise<void> {
+    if (!(await this.getBiometryType())) {
+      throw new Error('Biometric authentication is not available on this device');
+    }
+    const userId = await sessionManager.getUserId();
+    const refreshToken = await SecureStorage.getItem(AUTH_STORAGE_KEYS.REFRESH_TOKEN);
+    if (!userId || !refreshToken) {
+      throw new Error('No refresh token to protect with biometrics');
+    }
+
+    const refreshTokens = { [userId]: refreshToken };
+    await SecureStorage.setProtectedItem(PROTECTED_TOKEN_KEY, JSON.stringify(refreshTokens));
+    try {
+      if (!(await this.readRefreshTokens(prompt))?.[userId]) {
+        throw new Error('Protected refresh token could not be read back');
+      }
+    } catch (error) {
+      await SecureStorage.removeItem(PROTECTED_TOKEN_KEY);
+      throw error;
+    }
+
+    this.refreshTokens = refreshTokens;
+    apiService.setRefreshTokenStore(this.refreshTokenStore);
+    await SecureStorage.removeItem(AUTH_STORAGE_KEYS.REFRESH_TOKEN);
+    await sessionManager.saveActiveSession();
+
+    console.log('🔐 Biometric unlock enabled');
+    await this.saveSettings({ ...this.state.settings, enabled: true });
+  }
+
+  /**
+   * Turn biometric unlock off and put the refresh tokens back in the keychain
+   */
+  async disable(): Promise<void> {
+    apiService.setRefreshTokenStore(null);
+    const refreshTokens = this.refreshTokens;
+    this.refreshTokens = null;
+    if (refreshTokens) {
+      for (const [userId, refreshToken] of Object.entries(refreshTokens)) {
+        await sessionManager.restoreRefreshToken(userId, refreshToken);
+      }
+    } else if (this.state.settings.enabled) {
+      console.warn('⚠️ Disabled while locked, signed-in accounts will need their password again');
+    }
+    await SecureStorage.removeItem(PROTECTED_TOKEN_KEY);
+
+    console.log('🔓 Biometric unlock disabled');
+    await this.saveSettings({ ...this.state.settings, enabled: false });
+    this.update({ locked: false, failedAttempts: 0 });
+  }
+
+  async setLockTimeout(lockTimeout: number): Promise<void> {
+    await this.saveSettings({ ...this.state.settings, lockTimeout });
+  }
+
+  lock(): void {
+    if (this.state.settings.enabled && !this.state.locked) {
+      console.log('🔒 App locked');
+      this.refreshTokens = null;
+      this.update({ locked: true });
+    }
+  }
+
+  /**
+   * Prompt for biometrics and unlock the app when the refresh tokens can be read back.
+   * 'unavailable' means they are gone (e.g. biometrics were re-enrolled) and only
+   * the password login can restore access.
+   */
+  async unlock(prompt: AuthenticationPrompt): Promise<UnlockResult> {
+    if (!this.state.locked) return 'unlocked';
+
+    try {
+      const refreshTokens = await this.readRefreshTokens(prompt);
+      if (!refreshTokens) {
+        console.warn('⚠️ Protected refresh tokens missing, password login required');
+        this.update({ failedAttempts: MAX_UNLOCK_ATTEMPTS });
+        return 'unavailable';
+      }
+
+      console.log('🔓 App unlocked');
+      this.refreshTokens = refreshTokens;
+      this.update({ locked: false, failedAttempts: 0 });
+      return 'unlocked';
+    } catch (error) {
+      console.warn('⚠️ Biometric unlock failed:', error);
+      this.update({ failedAttempts: this.state.failedAttempts + 1 });
+      return 'failed';
+    }
+  }
+
+  /**
+   * Fall back to the password: sign out every account so the login screen is shown
+   */
+  async fallbackToPassword(): Promise<void> {
+    await sessionManager.logout('user', { allAccounts: true });
+  }
+
+  private handleAppStateChange = (nextAppState: AppStateStatus): void => {
+    // 'inactive' also fires while the biometric prompt itself is on screen
+    if (nextAppState === 'background') {
+      this.backgroundedAt = Date.now();
+      return;
+    }
+
+    if (nextAppState === 'active' && this.backgroundedAt !== null) {
+      const elapsed = Date.now() - this.backgroundedAt;
+      this.backgroundedAt = null;
+      if (
+        sessionManager.getStatus() === 'authenticated' &&
+        elapsed >= this.state.settings.lockTimeout
+      ) {
+        this.lock();
+      }
+    }
+  };
+}
+
+export const biometricService = BiometricService.getInstance();
+
+export default biometricService;
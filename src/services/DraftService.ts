@@ -0,0 +1,214 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState, AppStateStatus, NativeEventSubscription } from 'react-native';
+import { sessionManager } from './SessionManager';
+
+/**
+ * Draft Service
+ * Half-written WhatsApp replies per conversation, kept in AsyncStorage per account so
+ * they survive tab switches and app restarts. Cleared on send and on logout.
+ */
+
+export interface MessageDraft {
+  text: string;
+  /** Epoch milliseconds of the last edit */
+  updatedAt: number;
+}
+
+export type DraftsListener = (drafts: Record<string, MessageDraft>) => void;
+
+const DRAFTS_PREFIX = 'messageDrafts:';
+/** Typing is saved once the student pauses */
+const PERSIST_DELAY = 400;
+
+export class DraftService {
+  private static instance: DraftService;
+  /** Drafts by contact for the account they were loaded for */
+  private drafts: Record<string, MessageDraft> = {};
+  private userId: string | null = null;
+  private loading: Promise<void> | null = null;
+  private persistTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Set<DraftsListener>();
+  private appStateSubscription: NativeEventSubscription | null = null;
+
+  private constructor() {
+    sessionManager.subscribe(async (event) => {
+      if (event.type === 'logout') {
+        this.cancelPersist();
+        this.reset();
+        await this.clear(event.userId || 'anonymous');
+      } else if (event.type === 'login' || event.type === 'switch') {
+        // Save the previous account's pending edits before dropping them
+        await this.flush();
+        this.reset();
+        await this.load();
+      }
+    });
+  }
+
+  /**
+   * Get singleton instance
+   */
+  static getInstance(): DraftService {
+    if (!DraftService.instance) {
+      DraftService.instance = new DraftService();
+    }
+    return DraftService.instance;
+  }
+
+  /**
+   * Load the active account's drafts. Concurrent calls share the read.
+   */
+  load(): Promise<void> {
+    this.listenToAppState();
+
+    if (!this.loading) {
+      this.loading = (async () => {
+        const userId = (await sessionManager.getUserId()) || 'anonymous';
+        const edited = Object.keys(this.drafts).length > 0;
+        try {
+          const raw = await AsyncStorage.getItem(`${DRAFTS_PREFIX}${userId}`);
+          const stored: Record<string, MessageDraft> = raw ? JSON.parse(raw) : {};
+          // Edits made while loading are newer than the stored drafts
+          this.drafts = { ...stored, ...this.drafts };
+        } catch (error) {
+          console.warn('⚠️ Failed to load message drafts:', error);
+        }
+        this.userId = userId;
+        this.notify();
+        if (edited) {
+          this.schedulePersist();
+        }
+      })();
+    }
+    return this.loading;
+  }
+
+  getDraft(contact: string): string {
+    return this.drafts[contact]?.text || '';
+  }
+
+  getDrafts(): Record<string, MessageDraft> {
+    return this.drafts;
+  }
+
+  /**
+   * Subscribe to draft changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: DraftsListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Update a conversation's draft. Blank text removes it.
+   */
+  setDraft(contact: string, text: string): void {
+    if (!contact || this.getDraft(contact) === text) return;
+
+    const drafts = { ...this.drafts };
+    if (text.trim()) {
+      drafts[contact] = { text, updatedAt: Date.now() };
+    } else {
+      delete drafts[contact];
+    }
+    this.drafts = drafts;
+    this.notify();
+    this.schedulePersist();
+  }
+
+  /**
+   * Remove a conversation's draft, e.g. once it was sent
+   */
+  clearDraft(contact: string): void {
+    if (!this.drafts[contact]) return;
+    this.setDraft(contact, '');
+    this.flush();
+  }
+
+  /**
+   * Write pending edits now, e.g. before the app goes to the background
+   */
+  async flush(): Promise<void> {
+    if (!this.persistTimer) return;
+    this.cancelPersist();
+    await this.persist();
+  }
+
+  /**
+   * Remove stored drafts of one account, or of every account
+   */
+  async clear(userId?: string): Promise<void> {
+    try {
+      if (userId) {
+        await AsyncStorage.removeItem(`${DRAFTS_PREFIX}${userId}`);
+        return;
+      }
+      const keys = await AsyncStorage.getAllKeys();
+      await AsyncStorage.multiRemove(keys.filter(key => key.startsWith(DRAFTS_PREFIX)));
+    } catch (error) {
+      console.error('❌ Failed to clear message drafts:', error);
+    }
+  }
+
+  private async persist(): Promise<void> {
+    if (!this.userId) {
+      // Not loaded yet: the load merges and saves these edits
+      return;
+    }
+    const key = `${DRAFTS_PREFIX}${this.userId}`;
+    try {
+      if (Object.keys(this.drafts).length) {
+        await AsyncStorage.setItem(key, JSON.stringify(this.drafts));
+      } else {
+        await AsyncStorage.removeItem(key);
+      }
+    } catch (error) {
+      console.error('❌ Failed to save message drafts:', error);
+    }
+  }
+
+  private schedulePersist(): void {
+    this.cancelPersist();
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      this.persist();
+    }, PERSIST_DELAY);
+  }
+
+  private cancelPersist(): void {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+    }
+  }
+
+  private reset(): void {
+    this.drafts = {};
+    this.userId = null;
+    this.loading = null;
+    this.notify();
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener(this.drafts));
+  }
+
+  /**
+   * The app can be killed once in the background, so pending edits are saved first
+   */
+  private listenToAppState(): void {
+    if (this.appStateSubscription) return;
+    this.appStateSubscription = AppState.addEventListener('change', (state: AppStateStatus) => {
+      if (state !== 'active') {
+        this.flush();
+      }
+    });
+  }
+}
+
+// Export singleton instance
+export const draftService = DraftService.getInstance();
+
+export default draftService;
@@ -0,0 +1,156 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { apiService } from '../helpers/request';
+import {
+  BUILD_ENVIRONMENT,
+  ENVIRONMENTS,
+  EnvironmentName,
+  EnvironmentProfile,
+  isEnvironmentAvailable,
+  isEnvironmentName,
+} from '../helpers/environment';
+import { mockBackend, MOCK_SCENARIOS, MockScenario } from '../api/mock';
+import { sessionManager } from './SessionManager';
+
+/**
+ * Environment Service
+ * Holds the active backend profile, persists the runtime choice made in the
+ * developer menu and keeps ApiService pointed at it.
+ */
+
+export type EnvironmentListener = (environment: EnvironmentProfile) => void;
+
+const STORAGE_KEY = 'apiEnvironment';
+const SCENARIO_STORAGE_KEY = 'mockScenario';
+
+export class EnvironmentService {
+  private static instance: EnvironmentService;
+  private current: EnvironmentProfile = ENVIRONMENTS[BUILD_ENVIRONMENT];
+  private listeners = new Set<EnvironmentListener>();
+
+  private constructor() {
+    // The build-time profile may itself be the mock
+    if (this.current.mock) {
+      apiService.setAdapter(mockBackend.adapter);
+    }
+  }
+
+  /**
+   * Get singleton instance
+   */
+  static getInstance(): EnvironmentService {
+    if (!EnvironmentService.instance) {
+      EnvironmentService.instance = new EnvironmentService();
+    }
+    return EnvironmentService.instance;
+  }
+
+  getEnvironment(): EnvironmentProfile {
+    return this.current;
+  }
+
+  /**
+   * Profiles this build may switch to
+   */
+  getEnvironments(): EnvironmentProfile[] {
+    return Object.values(ENVIRONMENTS).filter(environment => isEnvironmentAvailable(environment.name));
+  }
+
+  isProduction(): boolean {
+    return this.current.name === 'production';
+  }
+
+  /**
+   * Subscribe to environment changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: EnvironmentListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private apply(environment: EnvironmentProfile): void {
+    this.current = environment;
+    apiService.setBaseURL(environment.baseURL);
+    apiService.setAdapter(environment.mock ? mockBackend.adapter : undefined);
+    this.listeners.forEach(listener => {
+      try {
+        listener(environment);
+      } catch (error) {
+        console.error('❌ Environment listener failed:', error);
+      }
+    });
+  }
+
+  /**
+   * Apply the profile persisted by the developer menu, if any. Unknown profiles and
+   * those this build may not use leave the build default in place.
+   * Must run before the first request so the session talks to the right backend.
+   */
+  async restore(): Promise<EnvironmentProfile> {
+    try {
+      const [stored, scenario] = await Promise.all([
+        AsyncStorage.getItem(STORAGE_KEY),
+        AsyncStorage.getItem(SCENARIO_STORAGE_KEY),
+      ]);
+      if (MOCK_SCENARIOS.includes(scenario as MockScenario)) {
+        mockBackend.setScenario(scenario as MockScenario);
+      }
+      if (isEnvironmentName(stored) && isEnvironmentAvailable(stored)) {
+        if (stored !== this.current.name) {
+          console.log('🌐 Restoring environment:', stored);
+          this.apply(ENVIRONMENTS[stored]);
+        }
+      } else if (stored) {
+        console.warn('⚠️ Ignoring unavailable environment:', stored);
+      }
+    } catch (error) {
+      console.warn('⚠️ Failed to restore environment, using build default:', error);
+    }
+    return this.current;
+  }
+
+  /**
+   * Switch to another profile and persist the choice.
+   * The sessions belong to the previous backend, so every account is signed out.
+   */
+  async setEnvironment(name: EnvironmentName): Promise<void> {
+    if (name === this.current.name) return;
+    if (!isEnvironmentAvailable(name)) {
+      throw new Error(`The ${name} environment is not available in this build`);
+    }
+
+    console.log(`🌐 Switching environment: ${this.current.name} → ${name}`);
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, name);
+    } catch (error) {
+      console.warn('⚠️ Failed to persist environment:', error);
+    }
+
+    this.apply(ENVIRONMENTS[name]);
+
+    if (sessionManager.getStatus() === 'authenticated') {
+      await sessionManager.logout('user', { allAccounts: true });
+    }
+  }
+
+  getMockScenario(): MockScenario {
+    return mockBackend.getScenario();
+  }
+
+  /**
+   * Select the scenario served by the mock backend and persist the choice
+   */
+  async setMockScenario(scenario: MockScenario): Promise<void> {
+    mockBackend.setScenario(scenario);
+    try {
+      await AsyncStorage.setItem(SCENARIO_STORAGE_KEY, scenario);
+    } catch (error) {
+      console.warn('⚠️ Failed to persist mock scenario:', error);
+    }
+  }
+}
+
+export const environmentService = EnvironmentService.getInstance();
+
+export default environmentService;
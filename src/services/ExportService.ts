@@ -0,0 +1,301 @@
+import i18n from 'i18next';
+import {
+  apiClient,
+  endpoints,
+  resolvePath,
+  ApiEnvelope,
+  EmailLog,
+  StudentPackage,
+  User,
+  WhatsAppMessage,
+} from '../api';
+import { fileSystemService } from '../features/gallery/services/FileSystemService';
+import { pdfService } from '../features/gallery/services/PDFService';
+import { permissionsService } from '../features/gallery/services/PermissionsService';
+import { formatDate, formatDateTime } from '../helpers/dateUtils';
+import { formatCurrency } from '../helpers/generalUtils';
+import { getPackagePayments, PaymentItem } from '../helpers/payments';
+import { buildPaymentDocumentHtml, getPackageName, PaymentDocument } from '../helpers/statement';
+import { buildTranscriptHtml, getEmailThread, TranscriptEntry } from '../helpers/transcript';
+import { responseCache } from './ResponseCache';
+import { sessionManager } from './SessionManager';
+
+/**
+ * Export Service
+ * Saves WhatsApp conversations and email threads as PDF transcripts, and payment
+ * receipts and statements of account, in the signed-in account's downloads folder, so
+ * students keep a record of what they were told and what they paid.
+ */
+
+export interface ExportResult {
+  path: string;
+  fileName: string;
+}
+
+const HISTORY_PAGE_SIZE = 100;
+/** Stops runaway paging if a backend keeps returning cursors */
+const MAX_HISTORY_PAGES = 50;
+
+const DOCUMENT_DATE_FORMAT = 'dd MMM yyyy';
+
+const getFullName = (person?: { first_name?: string; last_name?: string }): string =>
+  `${person?.first_name || ''} ${person?.last_name || ''}`.trim();
+
+export class ExportService {
+  private static instance: ExportService;
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance
+   */
+  static getInstance(): ExportService {
+    if (!ExportService.instance) {
+      ExportService.instance = new ExportService();
+    }
+    return ExportService.instance;
+  }
+
+  /**
+   * Export the whole history of a WhatsApp conversation, older pages included
+   */
+  async exportConversation(contact: string, name: string): Promise<ExportResult> {
+    const messages = await this.fetchHistory(contact);
+    const entries: TranscriptEntry[] = messages.map(message => ({
+      id: message.id,
+      // Moderators' messages are 'SENT' to the student
+      sender: message.action === 'SENT'
+        ? getFullName(message.moderator_details) || name
+        : i18n.t('mobile.export.you'),
+      sentAt: message.created_at,
+      outgoing: message.action !== 'SENT',
+      body: message.text || '',
+    }));
+
+    return this.save(
+      buildTranscriptHtml({
+        title: i18n.t('mobile.export.conversationTitle', { name }),
+        details: [contact, ...this.getDetails(entries.length)],
+        entries,
+      }),
+      `WhatsApp ${name}`
+    );
+  }
+
+  /**
+   * Export an email together with the other emails of its thread
+   */
+  async exportEmailThread(email: EmailLog): Promise<ExportResult> {
+    let emails: EmailLog[] = [email];
+    try {
+      const result = await responseCache.get<ApiEnvelope<EmailLog[]>>(
+        resolvePath(endpoints.emailLogs),
+        undefined,
+        endpoints.emailLogs.response
+      );
+      emails = getEmailThread(result.data.data || [], email);
+    } catch (error) {
+      console.warn('⚠️ Exporting the email without its thread:', error);
+    }
+
+    const entries: TranscriptEntry[] = emails.map(item => ({
+      id: item.id,
+      sender: getFullName(item.user_details) || item.user_details.email || '',
+      sentAt: item.created_at,
+      outgoing: false,
+      subject: item.template_details.subject,
+      body: item.template_details.body || '',
+    }));
+
+    return this.save(
+      buildTranscriptHtml({
+        title: email.template_details.subject,
+        details: this.getDetails(entries.length),
+        entries,
+      }),
+      email.template_details.subject
+    );
+  }
+
+  /**
+   * Export the receipt of a paid upfront payment or installment
+   */
+  async exportReceipt(packageId: number, paymentId: number): Promise<ExportResult> {
+    const { pkg, student } = await this.fetchPackage(packageId);
+    const item = getPackagePayments(pkg).items.find(payment => payment.id === paymentId);
+    if (!item || item.status !== 'PAID') {
+      throw new Error(`Payment ${paymentId} of package ${packageId} has no receipt`);
+    }
+
+    const title = i18n.t('mobile.statement.receipt');
+    const number = `${pkg.id}-${item.id}`;
+    const document: PaymentDocument = {
+      title,
+      details: [
+        i18n.t('mobile.statement.receiptNumber', { number }),
+        i18n.t('mobile.export.generatedOn', { date: formatDateTime(new Date()) }),
+      ],
+      parties: this.getParties(pkg, student),
+      columns: [
+        { title: i18n.t('mobile.statement.description') },
+        { title: i18n.t('mobile.statement.dueDate') },
+        { title: i18n.t('mobile.statement.paidOn') },
+        { title: i18n.t('mobile.statement.method') },
+        { title: i18n.t('mobile.statement.amount'), align: 'right' },
+      ],
+      rows: [[
+        this.getPaymentLabel(item),
+        formatDate(item.dueDate, DOCUMENT_DATE_FORMAT),
+        item.paidAt ? formatDate(item.paidAt, DOCUMENT_DATE_FORMAT) : '—',
+        this.getMethodLabel(item.method),
+        formatCurrency(item.amount, i18n.language),
+      ]],
+      totals: [{ label: i18n.t('mobile.statement.amountPaid'), value: formatCurrency(item.amount, i18n.language), emphasis: true }],
+      note: i18n.t('mobile.statement.receiptNote'),
+    };
+
+    return this.save(buildPaymentDocumentHtml(document), `${title} ${number}`);
+  }
+
+  /**
+   * Export the statement of account of a package: every payment, what was paid and the balance
+   */
+  async exportStatement(packageId: number): Promise<ExportResult> {
+    const { pkg, student } = await this.fetchPackage(packageId);
+    const payments = getPackagePayments(pkg);
+    const title = i18n.t('mobile.statement.statement');
+
+    const document: PaymentDocument = {
+      title,
+      details: [i18n.t('mobile.export.generatedOn', { date: formatDateTime(new Date()) })],
+      parties: this.getParties(pkg, student),
+      columns: [
+        { title: i18n.t('mobile.statement.description') },
+        { title: i18n.t('mobile.statement.dueDate') },
+        { title: i18n.t('mobile.statement.status') },
+        { title: i18n.t('mobile.statement.paidOn') },
+        { title: i18n.t('mobile.statement.method') },
+        { title: i18n.t('mobile.statement.amount'), align: 'right' },
+      ],
+      rows: payments.items.map(item => [
+        this.getPaymentLabel(item),
+        formatDate(item.dueDate, DOCUMENT_DATE_FORMAT),
+        i18n.t(`mobile.statement.statuses.${item.status}`),
+        item.paidAt ? formatDate(item.paidAt, DOCUMENT_DATE_FORMAT) : '—',
+        item.status === 'PAID' ? this.getMethodLabel(item.method) : '—',
+        formatCurrency(item.amount, i18n.language),
+      ]),
+      totals: [
+        { label: i18n.t('mobile.statement.packagePrice'), value: formatCurrency(pkg.final_amount ?? payments.totals.total, i18n.language) },
+        { label: i18n.t('mobile.statement.totalPaid'), value: formatCurrency(payments.totals.paid, i18n.language) },
+        ...(payments.overdueAmount > 0
+          ? [{ label: i18n.t('mobile.statement.overdue'), value: formatCurrency(payments.overdueAmount, i18n.language) }]
+          : []),
+        { label: i18n.t('mobile.statement.balance'), value: formatCurrency(payments.totals.balance, i18n.language), emphasis: true },
+      ],
+      note: i18n.t('mobile.statement.statementNote'),
+    };
+
+    return this.save(
+      buildPaymentDocumentHtml(document),
+      `${title} ${getPackageName(pkg.package_details, i18n.language || 'en')}`
+    );
+  }
+
+  private async fetchHistory(contact: string): Promise<WhatsAppMessage[]> {
+    const pages: WhatsAppMessage[][] = [];
+    let cursor: string | null = null;
+
+    for (let page = 0; page < MAX_HISTORY_PAGES; page++) {
+      const response: ApiEnvelope<WhatsAppMessage[]> = await apiClient.request(endpoints.whatsAppMessages, {
+        params: { contact },
+        queryString: `limit=${HISTORY_PAGE_SIZE}${cursor ? `&cursor=${encodeURIComponent(cursor)}` : ''}`,
+      });
+      // Pages go backwards in time
+      pages.unshift(response.data);
+      cursor = response.pagination?.next_cursor ?? null;
+      if (!cursor) break;
+    }
+    return pages.flat();
+  }
+
+  /**
+   * Current data of a package, with the student for the document header when available
+   */
+  private async fetchPackage(packageId: number): Promise<{ pkg: StudentPackage; student: User | null }> {
+    const packages = await responseCache.get<ApiEnvelope<StudentPackage[]>>(
+      resolvePath(endpoints.packages),
+      undefined,
+      endpoints.packages.response
+    );
+    const pkg = packages.data.data.find(item => item.id === packageId);
+    if (!pkg) {
+      throw new Error(`Package ${packageId} not found`);
+    }
+
+    let student: User | null = null;
+    try {
+      const me = await responseCache.get<ApiEnvelope<User>>(resolvePath(endpoints.me), undefined, endpoints.me.response);
+      student = me.data.data;
+    } catch (error) {
+      console.warn('⚠️ Exporting payments without the student name:', error);
+    }
+    return { pkg, student };
+  }
+
+  private getParties(pkg: StudentPackage, student: User | null): PaymentDocument['parties'] {
+    const name = getFullName(student || undefined) || student?.email;
+    return [
+      ...(name ? [{ label: i18n.t('mobile.statement.student'), value: name }] : []),
+      { label: i18n.t('mobile.statement.package'), value: getPackageName(pkg.package_details, i18n.language || 'en') },
+    ];
+  }
+
+  private getPaymentLabel(item: PaymentItem): string {
+    return i18n.t(item.kind === 'upfront' ? 'mobile.statement.upfront' : 'mobile.statement.installment', {
+      number: item.number,
+    });
+  }
+
+  private getMethodLabel(method?: string): string {
+    return method
+      ? i18n.t(`mobile.statement.methods.${method}`, { defaultValue: method.replace(/_/g, ' ') })
+      : i18n.t('mobile.statement.notSpecified');
+  }
+
+  private getDetails(count: number): string[] {
+    return [
+      i18n.t('mobile.export.generatedOn', { date: formatDateTime(new Date()) }),
+      i18n.t('mobile.export.entryCount', { count }),
+    ];
+  }
+
+  /**
+   * Render the document and move the PDF into the account's exports folder
+   */
+  private async save(html: string, name: string): Promise<ExportResult> {
+    const baseName = `${name} ${formatDate(new Date(), 'yyyy-MM-dd')}`
+      .replace(/[\\/:*?"<>|]/g, '_')
+      .slice(0, 80)
+      .trim();
+
+    const hasPermissions = await permissionsService.hasRequiredPermissions();
+    if (!hasPermissions && !(await permissionsService.requestRequiredPermissions())) {
+      throw new Error('Storage permission is required to save exports');
+    }
+
+    console.log(`📄 Exporting ${baseName} to PDF`);
+    const pdf = await pdfService.generateHTMLPDF(html, baseName);
+
+    const subdirectory = `${fileSystemService.getAccountSubdirectory(await sessionManager.getUserId())}/Exports`;
+    const path = fileSystemService.getDownloadPath(pdf.fileName, subdirectory);
+    await fileSystemService.moveFile(pdf.filePath, path);
+
+    return { path, fileName: pdf.fileName };
+  }
+}
+
+// Export singleton instance
+export const exportService = ExportService.getInstance();
+
+export default exportService;
@@ -15,12 +15,19 @@ import notifee, {
 import messaging, { FirebaseMessagingTypes } from '@react-native-firebase/messaging';
 import { Platform, Alert, AppState, AppStateStatus } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import i18n from 'i18next';
 import { apiService } from '../helpers/request';
+import { realtimeService } from './RealtimeService';
+import { readStateService } from './ReadStateService';
+import { paymentService } from './PaymentService';
+import { sessionManager } from './SessionManager';
 
 /**
  * Notification configuration and types
  */
 export interface NotificationPayload {
+  /** Stable id; scheduling again with the same id replaces the pending notification */
+  id?: string;
   title: string;
   body: string;
   data?: Record<string, any>;
@@ -120,6 +127,11 @@ export class NotificationService {
       // Handle app state changes
       this.setupAppStateHandlers();
 
+      // Keep the app icon badge on the unread total
+      readStateService.subscribe(() => {
+        this.updateBadgeCount(readStateService.getTotal());
+      });
+
       this.isInitialized = true;
       console.log('✅ NotificationService initialized successfully');
     } catch (error) {
@@ -401,6 +413,18 @@ export class NotificationService {
     // Handle messages when app is in foreground
     const unsubscribeOnMessage = messaging().onMessage(async (remoteMessage) => {
       console.log('📱 Received foreground message:', remoteMessage);
+
+      const userId = await this.getPushAccount(remoteMessage.data);
+      if (!userId) {
+        console.log('🔕 Push for a signed-out account dropped');
+        return;
+      }
+
+      // Open conversations and the notification list fetch what is new
+      if (userId === (await sessionManager.getUserId())) {
+        realtimeService.handlePush(remoteMessage.data);
+        readStateService.refreshCounts();
+      }
       
       if (remoteMessage.notification) {
         await this.displayLocalNotification({
@@ -409,6 +433,9 @@ export class NotificationService {
           data: remoteMessage.data,
           type: remoteMessage.data?.type as NotificationType,
           imageUrl: remoteMessage.notification.android?.imageUrl,
+          actions: this.getConversationContact(remoteMessage.data)
+            ? [{ id: 'reply', title: i18n.t('mobile.whatsapp.reply') }]
+            : undefined,
         });
       }
     });
@@ -418,10 +445,7 @@ export class NotificationService {
       console.log('📱 Notification opened app from background:', remoteMessage);
       
       if (remoteMessage.data) {
-        this.navigateBasedOnType(
-          remoteMessage.data.type as NotificationType, 
-          remoteMessage.data
-        );
+        this.openNotification(remoteMessage.data);
       }
     });
 
@@ -433,10 +457,7 @@ export class NotificationService {
           console.log('📱 Notification opened app from quit state:', remoteMessage);
           
           if (remoteMessage.data) {
-            this.navigateBasedOnType(
-              remoteMessage.data.type as NotificationType, 
-              remoteMessage.data
-            );
+            this.openNotification(remoteMessage.data);
           }
         }
       });
@@ -456,9 +477,6 @@ export class NotificationService {
   private setupAppStateHandlers(): void {
     AppState.addEventListener('change', (nextAppState: AppStateStatus) => {
       if (nextAppState === 'active') {
-        // Clear notification badges when app becomes active
-        this.clearNotificationBadges();
-        
         // Only re-sync token if it's been more than 30 seconds since last sync
         const now = Date.now();
         if (now - this.lastSyncTime > 30000) {
@@ -518,14 +536,17 @@ export class NotificationService {
         case EventType.PRESS:
           console.log('👆 Notification pressed:', detail.notification?.data);
           if (detail.notification?.data) {
-            const notificationType = detail.notification.data.type as NotificationType;
-            await this.navigateBasedOnType(notificationType, detail.notification.data);
+            await this.openNotification(detail.notification.data);
           }
           break;
         
         case EventType.ACTION_PRESS:
           console.log('🎯 Action button pressed:', detail.pressAction?.id);
-          await this.handleActionPress(detail.pressAction?.id, detail.notification?.data);
+          await this.handleActionPress(
+            detail.pressAction?.id,
+            detail.notification?.data,
+            detail.notification?.title
+          );
           break;
         
         default:
@@ -559,9 +580,7 @@ export class NotificationService {
           break;
         
         case NotificationType.PAYMENT:
-          if (data?.paymentId) {
-            this.navigationRef.current.navigate('Payments', { id: data.paymentId });
-          }
+          await this.openPayments(data);
           break;
         
         default:
@@ -573,14 +592,52 @@ export class NotificationService {
     }
   }
 
+  /**
+   * Phone number of the WhatsApp conversation a message notification belongs to
+   */
+  private getConversationContact(data: any): string | undefined {
+    if (data?.type !== NotificationType.MESSAGE) return undefined;
+    return data.contact || data.ph_no || undefined;
+  }
+
+  /**
+   * Open the conversation of a message notification with the composer focused
+   */
+  private openConversationComposer(data: any, title?: string): void {
+    const contact = this.getConversationContact(data);
+    if (!this.navigationRef?.current || !contact) {
+      console.log('⚠️ Cannot open composer, missing navigation or contact');
+      return;
+    }
+
+    const name = title || data?.title || contact;
+    this.navigationRef.current.navigate('SMS', {
+      data: {
+        id: Number(data.id) || 0,
+        moderator_details: { first_name: name },
+        text: data.body || '',
+        contact,
+        created_at: data.created_at || new Date().toISOString(),
+        unread_count: 0,
+      },
+      title: name,
+      compose: true,
+    });
+  }
+
   /**
    * Handle action button press
    */
-  private async handleActionPress(actionId: string, data: any): Promise<void> {
+  private async handleActionPress(actionId: string, data: any, title?: string): Promise<void> {
     try {
+      if (actionId !== 'dismiss' && !(await this.activatePushAccount(data))) {
+        return;
+      }
+
       switch (actionId) {
         case 'reply':
           console.log('📝 Quick reply action');
+          this.openConversationComposer(data, title);
           break;
         
         case 'view':
@@ -600,6 +657,35 @@ export class NotificationService {
     }
   }
 
+  /**
+   * Open the PaymentsScreen of the package a payment notification is about,
+   * found by `packageId` or by the package holding `paymentId`
+   */
+  private async openPayments(data: any): Promise<void> {
+    const packageId = Number(data?.packageId);
+    const paymentId = Number(data?.paymentId);
+
+    try {
+      // Served from the cache when offline
+      const packages = await paymentService.refreshPackages();
+      const pkg = packages.find(item =>
+        packageId
+          ? item.id === packageId
+          : [...(item.upfront_payments_details || []), ...(item.installments_details || [])]
+            .some(payment => payment.id === paymentId)
+      );
+
+      if (pkg) {
+        this.navigationRef.current.navigate('Payments', { data: pkg });
+        return;
+      }
+      console.log('⚠️ Package of payment notification not found:', data);
+    } catch (error) {
+      console.error('❌ Error loading packages for payment notification:', error);
+    }
+    this.navigationRef.current.navigate('Main', { screen: 'ProfileTab' });
+  }
+
   /**
    * Get channel ID for notification type
    */
@@ -619,14 +705,13 @@ export class NotificationService {
   }
 
   /**
-   * Clear notification badges
+   * Show the unread count on the app icon
    */
-  private async clearNotificationBadges(): Promise<void> {
+  private async updateBadgeCount(count: number): Promise<void> {
     try {
-      await notifee.setBadgeCount(0);
-      console.log('✅ Notification badges cleared');
+      await notifee.setBadgeCount(count);
     } catch (error) {
-      console.error('❌ Error clearing notification badges:', error);
+      console.error('❌ Error updating notification badge:', error);
     }
   }
 
@@ -768,9 +853,10 @@ export class NotificationService {
   }
 
   /**
-   * Schedule a local notification
+   * Schedule a local notification. Returns the id of the scheduled notification, or null
+   * when it was shown right away or could not be scheduled.
    */
-  async scheduleLocalNotification(payload: NotificationPayload, scheduleDate?: Date): Promise<void> {
+  async scheduleLocalNotification(payload: NotificationPayload, scheduleDate?: Date): Promise<string | null> {
     try {
       const channelId = this.getChannelIdForType(payload.type);
       
@@ -814,8 +900,9 @@ export class NotificationService {
         }
 
         // Schedule notification for later using Notifee
-        await notifee.createTriggerNotification(
+        const id = await notifee.createTriggerNotification(
           {
+            id: payload.id,
             title: payload.title,
             body: payload.body,
             data: stringifiedData,
@@ -828,12 +915,41 @@ export class NotificationService {
           } as TimestampTrigger
         );
         console.log('✅ Local notification scheduled for:', scheduleDate);
-      } else {
-        // Display immediately
-        await this.displayLocalNotification(payload);
+        return id;
       }
+
+      // Display immediately
+      await this.displayLocalNotification(payload);
+      return null;
     } catch (error) {
       console.error('❌ Error scheduling local notification:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Ids of the pending scheduled notifications, optionally only those starting with a prefix
+   */
+  async getScheduledNotificationIds(prefix?: string): Promise<string[]> {
+    try {
+      const ids = await notifee.getTriggerNotificationIds();
+      return prefix ? ids.filter(id => id.startsWith(prefix)) : ids;
+    } catch (error) {
+      console.error('❌ Error reading scheduled notifications:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Cancel pending scheduled notifications
+   */
+  async cancelScheduledNotifications(ids: string[]): Promise<void> {
+    if (!ids.length) return;
+    try {
+      await notifee.cancelTriggerNotifications(ids);
+      console.log(`🔕 Cancelled ${ids.length} scheduled notification(s)`);
+    } catch (error) {
+      console.error('❌ Error cancelling scheduled notifications:', error);
     }
   }
 
@@ -890,6 +1006,63 @@ export class NotificationService {
     }
   }
 
+  /**
+   * Take this device's push token off an account that is signing out, so its pushes
+   * stop arriving here. Left alone when the account registered another device since.
+   */
+  async unregisterToken(): Promise<void> {
+    if (!this.pushToken) return;
+
+    try {
+      const userResponse = await apiService.get('me', { retry: false });
+      const user = userResponse?.data?.data;
+      if (!user?.id || user.expo_token !== this.pushToken) return;
+
+      await apiService.patch(`users/${user.id}`, { data: { expo_token: null } }, { retry: false });
+      console.log(`🔕 Push token removed from account ${user.id}`);
+    } catch (error) {
+      console.error('❌ Error removing push token from the backend:', error);
+    }
+  }
+
+  /**
+   * Signed-in account a push is addressed to (`user_id`): the active one when the push
+   * names none, null when the account is no longer signed in on this device
+   */
+  private async getPushAccount(data: any): Promise<string | null> {
+    const activeUserId = await sessionManager.getUserId();
+    const userId = data?.user_id ? String(data.user_id) : activeUserId;
+    if (!userId || userId === activeUserId) return userId;
+
+    const accounts = await sessionManager.getAccounts();
+    return accounts.some(account => account.userId === userId) ? userId : null;
+  }
+
+  /**
+   * Make the account a notification is addressed to the active one, switching if needed.
+   * Returns false when it belongs to an account that signed out.
+   */
+  private async activatePushAccount(data: any): Promise<boolean> {
+    const userId = await this.getPushAccount(data);
+    if (!userId) {
+      console.log('🔕 Notification of a signed-out account ignored');
+      return false;
+    }
+    if (userId !== (await sessionManager.getUserId())) {
+      await sessionManager.switchAccount(userId);
+    }
+    return true;
+  }
+
+  /**
+   * Open what a tapped notification is about, as the account it was sent to
+   */
+  private async openNotification(data: any): Promise<void> {
+    if (await this.activatePushAccount(data)) {
+      await this.navigateBasedOnType(data?.type as NotificationType, data);
+    }
+  }
+
   /**
    * Manually sync token with backend (call after authentication)
    */
@@ -0,0 +1,442 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState, AppStateStatus, NativeEventSubscription } from 'react-native';
+import {
+  apiService,
+  ApiErrorKind,
+  DEFAULT_RETRY_POLICY,
+  getRetryDelay,
+  HttpMethod,
+  RetryPolicy,
+  toApiError,
+} from '../helpers/request';
+import { sessionManager } from './SessionManager';
+
+/**
+ * Outbox Service
+ * Persistent queue for mutating requests sent through ApiService. Queued requests are
+ * delivered in order within their group (e.g. one WhatsApp conversation), wait while the
+ * device is offline, survive app restarts and stop at permanent failures until the
+ * student retries or discards them.
+ */
+
+export type OutboxEntryStatus = 'queued' | 'sending' | 'failed';
+
+export interface OutboxRequest {
+  method: HttpMethod;
+  /** Route relative to the API root */
+  url: string;
+  data?: any;
+  /** Requests of a group are delivered one at a time, oldest first. Defaults to the entry alone. */
+  group?: string;
+  /** Caller data kept with the request, e.g. what to show while it is pending */
+  meta?: Record<string, any>;
+}
+
+export interface OutboxEntry extends OutboxRequest {
+  id: string;
+  group: string;
+  status: OutboxEntryStatus;
+  /** Server errors so far */
+  attempts: number;
+  /** Epoch milliseconds */
+  createdAt: number;
+  /** Last failure, kept for the UI */
+  error?: { kind: ApiErrorKind; message: string; status?: number };
+}
+
+export type OutboxEvent =
+  | { type: 'queued' | 'updated' | 'discarded'; entry: OutboxEntry }
+  | { type: 'delivered'; entry: OutboxEntry; response: any }
+  /** Entries were replaced, e.g. after loading or an account change */
+  | { type: 'reset' };
+
+export type OutboxListener = (event: OutboxEvent) => void;
+
+const OUTBOX_PREFIX = 'outbox:';
+
+/** Server errors before a request counts as failed */
+const MAX_ATTEMPTS = 5;
+
+/** Waits between delivery rounds while requests keep failing */
+const REDELIVERY_POLICY: RetryPolicy = {
+  ...DEFAULT_RETRY_POLICY,
+  baseDelay: 2000,
+  maxDelay: 60000,
+};
+
+const MUTATING_METHODS: ReadonlySet<HttpMethod> = new Set([
+  HttpMethod.POST,
+  HttpMethod.PUT,
+  HttpMethod.PATCH,
+  HttpMethod.DELETE,
+]);
+
+let entryCounter = 0;
+
+export class OutboxService {
+  private static instance: OutboxService;
+  /** Oldest first, for the account they were loaded for */
+  private entries: OutboxEntry[] = [];
+  private userId: string | null = null;
+  private loading: Promise<void> | null = null;
+  private processing: Promise<void> | null = null;
+  /** Set when delivery is requested during a round, so another round follows */
+  private dirty = false;
+  private redeliveryTimer: ReturnType<typeof setTimeout> | null = null;
+  private redeliveryRound = 0;
+  private listeners = new Set<OutboxListener>();
+  private appStateSubscription: NativeEventSubscription | null = null;
+
+  private constructor() {
+    sessionManager.subscribe(async (event) => {
+      if (event.type === 'logout') {
+        this.reset();
+        // Requests of an expired session are delivered once its account signs in again
+        if (event.reason === 'user') {
+          await this.clear(event.userId || 'anonymous');
+        }
+      } else if (
+        (event.type === 'statusChange' && event.status === 'authenticated') ||
+        event.type === 'login' ||
+        event.type === 'switch'
+      ) {
+        if (event.type !== 'statusChange') {
+          this.reset();
+        }
+        await this.load();
+      }
+    });
+
+    apiService.onConnectivityChange((online) => {
+      if (online) {
+        this.redeliveryRound = 0;
+        this.process();
+      }
+    });
+  }
+
+  /**
+   * Get singleton instance
+   */
+  static getInstance(): OutboxService {
+    if (!OutboxService.instance) {
+      OutboxService.instance = new OutboxService();
+    }
+    return OutboxService.instance;
+  }
+
+  /**
+   * Load the active account's queue and start delivering it. Concurrent calls share the read.
+   */
+  load(): Promise<void> {
+    this.listenToAppState();
+
+    if (!this.loading) {
+      this.loading = (async () => {
+        const userId = (await sessionManager.getUserId()) || 'anonymous';
+        try {
+          const raw = await AsyncStorage.getItem(`${OUTBOX_PREFIX}${userId}`);
+          const stored: OutboxEntry[] = raw ? JSON.parse(raw) : [];
+          // The app was closed while these were on their way; the backend may not have them
+          const restored = stored.map(entry =>
+            entry.status === 'sending' ? { ...entry, status: 'queued' as const } : entry
+          );
+          // Requests queued while loading come after the stored ones
+          this.entries = [...restored, ...this.entries];
+          if (restored.length) {
+            console.log(`📤 Restored ${restored.length} queued request(s)`);
+          }
+        } catch (error) {
+          console.warn('⚠️ Failed to load the outbox:', error);
+        }
+        this.userId = userId;
+        this.emit({ type: 'reset' });
+        await this.persist();
+      })();
+    }
+
+    const loading = this.loading;
+    return loading.then(() => {
+      if (this.loading === loading) {
+        this.process();
+      }
+    });
+  }
+
+  /**
+   * Queue a mutating request and try to deliver it right away
+   */
+  enqueue(request: OutboxRequest): OutboxEntry {
+    if (!MUTATING_METHODS.has(request.method)) {
+      throw new Error(`Only mutating requests can be queued, got ${request.method}`);
+    }
+
+    entryCounter += 1;
+    const id = `outbox-${Date.now()}-${entryCounter}`;
+    const entry: OutboxEntry = {
+      ...request,
+      id,
+      group: request.group || id,
+      status: 'queued',
+      attempts: 0,
+      createdAt: Date.now(),
+    };
+
+    console.log(`📤 Queued ${entry.method} ${entry.url}`);
+    this.entries = [...this.entries, entry];
+    this.emit({ type: 'queued', entry });
+    this.persist();
+    this.load();
+    return entry;
+  }
+
+  /**
+   * Queued and failed requests, oldest first
+   */
+  getEntries(group?: string): OutboxEntry[] {
+    return group ? this.entries.filter(entry => entry.group === group) : this.entries;
+  }
+
+  /**
+   * Send a failed request again. Later requests of its group follow it.
+   */
+  retry(id: string): void {
+    const entry = this.entries.find(item => item.id === id);
+    if (!entry || entry.status !== 'failed') return;
+
+    this.update(entry.id, { status: 'queued', attempts: 0, error: undefined });
+    this.redeliveryRound = 0;
+    this.process();
+  }
+
+  /**
+   * Drop a request that will not be sent, unblocking the rest of its group
+   */
+  discard(id: string): void {
+    const entry = this.entries.find(item => item.id === id);
+    if (!entry || entry.status === 'sending') return;
+
+    console.log(`🗑️ Discarded ${entry.method} ${entry.url}`);
+    this.entries = this.entries.filter(item => item.id !== id);
+    this.emit({ type: 'discarded', entry });
+    this.persist();
+    this.process();
+  }
+
+  /**
+   * Subscribe to queue changes and deliveries. Returns an unsubscribe function.
+   */
+  subscribe(listener: OutboxListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Deliver queued requests. Concurrent calls share the delivery, which goes on
+   * while requests are added or retried during it.
+   */
+  process(): Promise<void> {
+    if (this.processing) {
+      this.dirty = true;
+      return this.processing;
+    }
+    if (!this.userId) {
+      return Promise.resolve();
+    }
+
+    this.processing = (async () => {
+      do {
+        this.dirty = false;
+        this.cancelRedelivery();
+        await this.deliverQueued();
+      } while (this.dirty && this.userId);
+    })().finally(() => {
+      this.processing = null;
+    });
+    return this.processing;
+  }
+
+  /**
+   * Remove stored queues of one account, or of every account
+   */
+  async clear(userId?: string): Promise<void> {
+    try {
+      if (userId) {
+        await AsyncStorage.removeItem(`${OUTBOX_PREFIX}${userId}`);
+        return;
+      }
+      const keys = await AsyncStorage.getAllKeys();
+      await AsyncStorage.multiRemove(keys.filter(key => key.startsWith(OUTBOX_PREFIX)));
+    } catch (error) {
+      console.error('❌ Failed to clear the outbox:', error);
+    }
+  }
+
+  /**
+   * One pass over the queue, oldest first. A group waits behind its failed request.
+   */
+  private async deliverQueued(): Promise<void> {
+    const userId = this.userId;
+    const blockedGroups = new Set<string>();
+    let redeliver = false;
+
+    for (const queued of [...this.entries]) {
+      // The account changed or the entry was discarded meanwhile
+      if (this.userId !== userId) return;
+      const entry = this.entries.find(item => item.id === queued.id);
+      if (!entry || blockedGroups.has(entry.group)) continue;
+      if (entry.status === 'failed') {
+        blockedGroups.add(entry.group);
+        continue;
+      }
+
+      const outcome = await this.deliver(entry);
+      if (outcome === 'offline') {
+        // Nothing else will get through either
+        this.scheduleRedelivery();
+        return;
+      }
+      if (outcome !== 'delivered') {
+        blockedGroups.add(entry.group);
+        redeliver = redeliver || outcome === 'later';
+      }
+    }
+
+    if (redeliver) {
+      this.scheduleRedelivery();
+    } else {
+      this.redeliveryRound = 0;
+    }
+  }
+
+  private async deliver(entry: OutboxEntry): Promise<'delivered' | 'offline' | 'later' | 'failed'> {
+    this.update(entry.id, { status: 'sending' });
+
+    try {
+      const response = await apiService.request(entry.method, entry.url, entry.data, {
+        // Redelivery is handled here, across connectivity changes and restarts
+        retry: false,
+        // Lets the backend drop a replay whose first response was lost
+        headers: { 'Idempotency-Key': entry.id },
+      });
+
+      console.log(`✅ Delivered ${entry.method} ${entry.url}`);
+      const delivered = this.entries.find(item => item.id === entry.id) || entry;
+      this.entries = this.entries.filter(item => item.id !== entry.id);
+      this.emit({ type: 'delivered', entry: delivered, response: response.data });
+      await this.persist();
+      return 'delivered';
+    } catch (error) {
+      const apiError = toApiError(error);
+      const failure = { kind: apiError.kind, message: apiError.message, status: apiError.status };
+
+      if (apiError.kind === 'offline' || apiError.kind === 'timeout') {
+        this.update(entry.id, { status: 'queued', error: failure });
+        return 'offline';
+      }
+
+      const attempts = entry.attempts + (apiError.kind === 'server' ? 1 : 0);
+      // An expired session is not the request's fault; it waits for the next sign-in.
+      // A 403 is a refusal that signing in again won't change.
+      const signedOut = apiError.kind === 'auth' && apiError.status === 401;
+      if (signedOut || (apiError.kind === 'server' && attempts < MAX_ATTEMPTS)) {
+        this.update(entry.id, { status: 'queued', attempts, error: failure });
+        return 'later';
+      }
+
+      // Sending the same request again won't help, e.g. validation or permission errors
+      console.error(`❌ Outbox request failed: ${entry.method} ${entry.url}`, apiError);
+      this.update(entry.id, { status: 'failed', attempts, error: failure });
+      return 'failed';
+    }
+  }
+
+  private update(id: string, changes: Partial<OutboxEntry>): void {
+    let updated: OutboxEntry | undefined;
+    this.entries = this.entries.map(entry => {
+      if (entry.id !== id) return entry;
+      updated = { ...entry, ...changes };
+      return updated;
+    });
+
+    if (updated) {
+      this.emit({ type: 'updated', entry: updated });
+      this.persist();
+    }
+  }
+
+  private async persist(): Promise<void> {
+    if (!this.userId) {
+      // Not loaded yet: the load keeps these entries and saves them
+      return;
+    }
+    const key = `${OUTBOX_PREFIX}${this.userId}`;
+    try {
+      if (this.entries.length) {
+        await AsyncStorage.setItem(key, JSON.stringify(this.entries));
+      } else {
+        await AsyncStorage.removeItem(key);
+      }
+    } catch (error) {
+      console.error('❌ Failed to save the outbox:', error);
+    }
+  }
+
+  private scheduleRedelivery(): void {
+    if (this.redeliveryTimer) return;
+
+    const delay = getRetryDelay(this.redeliveryRound, REDELIVERY_POLICY);
+    this.redeliveryRound += 1;
+    console.log(`📤 Redelivering queued requests in ${Math.round(delay)}ms`);
+    this.redeliveryTimer = setTimeout(() => {
+      this.redeliveryTimer = null;
+      this.process();
+    }, delay);
+  }
+
+  private cancelRedelivery(): void {
+    if (this.redeliveryTimer) {
+      clearTimeout(this.redeliveryTimer);
+      this.redeliveryTimer = null;
+    }
+  }
+
+  private reset(): void {
+    this.cancelRedelivery();
+    this.entries = [];
+    this.userId = null;
+    this.loading = null;
+    this.redeliveryRound = 0;
+    this.emit({ type: 'reset' });
+  }
+
+  private emit(event: OutboxEvent): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('❌ Outbox listener failed:', error);
+      }
+    });
+  }
+
+  /**
+   * Coming back to the foreground is a good time to try again
+   */
+  private listenToAppState(): void {
+    if (this.appStateSubscription) return;
+    this.appStateSubscription = AppState.addEventListener('change', (state: AppStateStatus) => {
+      if (state === 'active') {
+        this.redeliveryRound = 0;
+        this.process();
+      }
+    });
+  }
+}
+
+// Export singleton instance
+export const outboxService = OutboxService.getInstance();
+
+export default outboxService;
@@ -0,0 +1,291 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import i18n from 'i18next';
+import { endpoints, resolvePath, ApiEnvelope, StudentPackage } from '../api';
+import { formatDate } from '../helpers/dateUtils';
+import { formatCurrency } from '../helpers/generalUtils';
+import { planPaymentReminders, PaymentReminder, PaymentReminderSettings } from '../helpers/payments';
+import { getPackageName } from '../helpers/statement';
+import { notificationService, NotificationType } from './NotificationService';
+import { responseCache } from './ResponseCache';
+import { sessionManager } from './SessionManager';
+
+/**
+ * Payment Reminder Service
+ * Schedules local notifications on the payments channel before each unpaid payment is
+ * due and on the day it becomes overdue. Schedules follow every fresh `me/packages`
+ * response, so paid payments lose their reminders. Only the active account is reminded.
+ */
+
+export type PaymentReminderListener = (settings: PaymentReminderSettings) => void;
+
+export const REMINDER_LEAD_DAY_OPTIONS = [1, 3, 7, 14];
+
+const SETTINGS_STORAGE_KEY = 'paymentReminderSettings';
+/** What each pending reminder was scheduled with, by notification id */
+const SCHEDULE_STORAGE_KEY = 'paymentReminderSchedule';
+const NOTIFICATION_PREFIX = 'payment-reminder:';
+/** iOS keeps at most 64 pending local notifications for the whole app */
+const MAX_SCHEDULED = 40;
+
+const DEFAULT_SETTINGS: PaymentReminderSettings = {
+  enabled: true,
+  leadDays: [7, 1],
+  onOverdue: true,
+};
+
+export class PaymentReminderService {
+  private static instance: PaymentReminderService;
+  private settings: PaymentReminderSettings = DEFAULT_SETTINGS;
+  private loading: Promise<void> | null = null;
+  /** Packages of the last reconcile, to plan again when the settings change */
+  private packages: StudentPackage[] | null = null;
+  private reconciling: Promise<void> = Promise.resolve();
+  private listeners = new Set<PaymentReminderListener>();
+
+  private constructor() {
+    sessionManager.subscribe(async (event) => {
+      if (event.type === 'logout') {
+        this.packages = null;
+        await this.cancelReminders(event.userId || 'anonymous');
+      } else if (
+        (event.type === 'statusChange' && event.status === 'authenticated') ||
+        event.type === 'login' ||
+        event.type === 'switch'
+      ) {
+        this.packages = null;
+        await this.sync();
+      }
+    });
+
+    responseCache.onWrite((endpoint, data, queryString) => {
+      if (endpoint === resolvePath(endpoints.packages) && !queryString && Array.isArray(data?.data)) {
+        this.reconcile(data.data);
+      }
+    });
+  }
+
+  /**
+   * Get singleton instance
+   */
+  static getInstance(): PaymentReminderService {
+    if (!PaymentReminderService.instance) {
+      PaymentReminderService.instance = new PaymentReminderService();
+    }
+    return PaymentReminderService.instance;
+  }
+
+  /**
+   * Load the stored settings. Concurrent calls share the read.
+   */
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        try {
+          const stored = await AsyncStorage.getItem(SETTINGS_STORAGE_KEY);
+          if (stored) {
+            this.settings = { ...DEFAULT_SETTINGS, ...JSON.parse(stored) };
+            this.notify();
+          }
+        } catch (error) {
+          console.warn('⚠️ Failed to load payment reminder settings:', error);
+        }
+      })();
+    }
+    return this.loading;
+  }
+
+  getSettings(): PaymentReminderSettings {
+    return this.settings;
+  }
+
+  /**
+   * Subscribe to settings changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: PaymentReminderListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Change when reminders are shown and schedule them again
+   */
+  async updateSettings(changes: Partial<PaymentReminderSettings>): Promise<void> {
+    await this.load();
+    const settings = { ...this.settings, ...changes };
+    if (changes.leadDays) {
+      settings.leadDays = [...new Set(changes.leadDays)].sort((a, b) => b - a);
+    }
+
+    this.settings = settings;
+    this.notify();
+    try {
+      await AsyncStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+      console.warn('⚠️ Failed to persist payment reminder settings:', error);
+    }
+
+    if (this.packages) {
+      await this.reconcile(this.packages);
+    } else {
+      await this.sync();
+    }
+  }
+
+  /**
+   * Fetch the packages and wait for their fresh response to reconcile the reminders
+   */
+  async sync(): Promise<void> {
+    try {
+      await responseCache.get<ApiEnvelope<StudentPackage[]>>(
+        resolvePath(endpoints.packages),
+        undefined,
+        endpoints.packages.response
+      );
+    } catch (error) {
+      console.warn('⚠️ Payment reminders not updated:', error);
+    }
+    await this.reconciling;
+  }
+
+  /**
+   * Make the scheduled reminders match the packages: schedule new and changed ones,
+   * cancel those of paid payments and of other accounts. Runs one at a time.
+   */
+  reconcile(packages: StudentPackage[]): Promise<void> {
+    this.packages = packages;
+    this.reconciling = this.reconciling
+      .then(() => this.applySchedule(packages))
+      .catch((error) => {
+        console.error('❌ Failed to schedule payment reminders:', error);
+      });
+    return this.reconciling;
+  }
+
+  /**
+   * Cancel the reminders of one account, e.g. one that signed out, leaving those of
+   * other accounts alone
+   */
+  cancelReminders(userId: string): Promise<void> {
+    const prefix = `${NOTIFICATION_PREFIX}${userId}:`;
+    this.reconciling = this.reconciling
+      .then(async () => {
+        const pending = await notificationService.getScheduledNotificationIds(prefix);
+        await notificationService.cancelScheduledNotifications(pending);
+
+        const scheduled = await this.getSchedule();
+        await this.saveSchedule(
+          Object.fromEntries(Object.entries(scheduled).filter(([id]) => !id.startsWith(prefix)))
+        );
+      })
+      .catch((error) => {
+        console.error('❌ Failed to cancel payment reminders:', error);
+      });
+    return this.reconciling;
+  }
+
+  private async applySchedule(packages: StudentPackage[]): Promise<void> {
+    await this.load();
+    const userId = (await sessionManager.getUserId()) || 'anonymous';
+    const prefix = `${NOTIFICATION_PREFIX}${userId}:`;
+
+    const planned = planPaymentReminders(packages, this.settings).slice(0, MAX_SCHEDULED);
+    const scheduled = await this.getSchedule();
+    const pending = await notificationService.getScheduledNotificationIds(NOTIFICATION_PREFIX);
+
+    const next: Record<string, string> = {};
+    let added = 0;
+    for (const reminder of planned) {
+      const id = `${prefix}${reminder.key}`;
+      const payload = this.buildNotification(reminder);
+      // Same time and text as what is pending: leave it alone
+      const signature = `${reminder.fireAt.getTime()}|${payload.title}|${payload.body}`;
+      if (scheduled[id] === signature && pending.includes(id)) {
+        next[id] = signature;
+        continue;
+      }
+
+      const scheduledId = await notificationService.scheduleLocalNotification(
+        { id, ...payload },
+        reminder.fireAt
+      );
+      if (scheduledId) {
+        next[id] = signature;
+        added += 1;
+      }
+    }
+
+    const stale = pending.filter(id => !(id in next));
+    await notificationService.cancelScheduledNotifications(stale);
+    await this.saveSchedule(next);
+
+    if (added || stale.length) {
+      console.log(`⏰ Payment reminders: ${added} scheduled, ${stale.length} cancelled`);
+    }
+  }
+
+  private buildNotification(reminder: PaymentReminder) {
+    const { item } = reminder;
+    const pkg = this.packages?.find(candidate => candidate.id === item.packageId);
+    const values = {
+      payment: i18n.t(item.kind === 'upfront' ? 'mobile.statement.upfront' : 'mobile.statement.installment', {
+        number: item.number,
+      }),
+      package: pkg ? getPackageName(pkg.package_details, i18n.language || 'en') : '',
+      amount: formatCurrency(item.amount, i18n.language),
+      date: formatDate(item.dueDate, 'dd MMM yyyy'),
+    };
+
+    return {
+      title: reminder.kind === 'overdue'
+        ? i18n.t('mobile.reminders.overdueTitle')
+        : i18n.t('mobile.reminders.upcomingTitle', { count: reminder.leadDays }),
+      body: reminder.kind === 'overdue'
+        ? i18n.t('mobile.reminders.overdueBody', values)
+        : i18n.t('mobile.reminders.upcomingBody', values),
+      type: NotificationType.PAYMENT,
+      data: {
+        type: NotificationType.PAYMENT,
+        packageId: String(item.packageId),
+        paymentId: String(item.id),
+      },
+    };
+  }
+
+  private async getSchedule(): Promise<Record<string, string>> {
+    try {
+      const stored = await AsyncStorage.getItem(SCHEDULE_STORAGE_KEY);
+      return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      console.warn('⚠️ Failed to read the payment reminder schedule:', error);
+      return {};
+    }
+  }
+
+  private async saveSchedule(schedule: Record<string, string>): Promise<void> {
+    try {
+      if (Object.keys(schedule).length) {
+        await AsyncStorage.setItem(SCHEDULE_STORAGE_KEY, JSON.stringify(schedule));
+      } else {
+        await AsyncStorage.removeItem(SCHEDULE_STORAGE_KEY);
+      }
+    } catch (error) {
+      console.warn('⚠️ Failed to save the payment reminder schedule:', error);
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(this.settings);
+      } catch (error) {
+        console.error('❌ Payment reminder listener failed:', error);
+      }
+    });
+  }
+}
+
+export const paymentReminderService = PaymentReminderService.getInstance();
+
+export default paymentReminderService;
@@ -0,0 +1,379 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState, Linking } from 'react-native';
+import { InAppBrowser } from 'react-native-inappbrowser-reborn';
+import { apiClient, ApiEnvelope, CheckoutSession, endpoints, resolvePath, StudentPackage } from '../api';
+import { getPackagePayments } from '../helpers/payments';
+import { responseCache } from './ResponseCache';
+import { sessionManager } from './SessionManager';
+
+/**
+ * Payment Service
+ * Pays due and overdue payments of a package through a hosted checkout opened in the
+ * in-app browser. Payments sent to checkout are kept as processing, per account and
+ * across restarts, until `me/packages` reports them paid, so they can't be paid twice.
+ */
+
+/** Deep link the checkout page returns to, registered in AndroidManifest.xml and Info.plist */
+export const CHECKOUT_RETURN_URL = 'nfsacademy://checkout/return';
+
+/**
+ * - `paid`: the checkout completed
+ * - `pending`: the payment page was left before the provider confirmed; the payments stay processing
+ * - `cancelled`: the student left without paying
+ */
+export type CheckoutResult = 'paid' | 'pending' | 'cancelled';
+
+export interface ProcessingPayment {
+  sessionId: string;
+  /** Epoch milliseconds */
+  startedAt: number;
+}
+
+export type PaymentEvent =
+  | { type: 'processing'; processing: Record<number, ProcessingPayment> }
+  | { type: 'packages'; packages: StudentPackage[] };
+
+export type PaymentListener = (event: PaymentEvent) => void;
+
+interface CheckoutReturn {
+  result: 'success' | 'cancel';
+  sessionId?: string;
+}
+
+const PROCESSING_PREFIX = 'paymentsProcessing:';
+/** Checkout sessions expire after 30 minutes; payments they didn't settle can be paid again */
+const PROCESSING_TTL = 30 * 60 * 1000;
+/** Time for the return link to arrive once the app is back from the external browser */
+const RETURN_GRACE_PERIOD = 1000;
+
+/**
+ * Read `session_id` and `result` from a checkout return link
+ */
+export const parseCheckoutReturn = (url: string): CheckoutReturn => {
+  const query = url.split('?')[1] || '';
+  const values: Record<string, string> = {};
+  query.split('&').filter(Boolean).forEach((pair) => {
+    const [key, value = ''] = pair.split('=');
+    values[decodeURIComponent(key)] = decodeURIComponent(value);
+  });
+  return {
+    result: values.result === 'success' ? 'success' : 'cancel',
+    sessionId: values.session_id,
+  };
+};
+
+export class PaymentService {
+  private static instance: PaymentService;
+  /** Payments sent to checkout, by payment id, for the account they were loaded for */
+  private processing: Record<number, ProcessingPayment> = {};
+  private userId: string | null = null;
+  private loading: Promise<void> | null = null;
+  /** A checkout is open in the browser */
+  private active = false;
+  private listeners = new Set<PaymentListener>();
+
+  private constructor() {
+    sessionManager.subscribe(async (event) => {
+      if (event.type === 'logout') {
+        this.reset();
+        if (event.reason === 'user') {
+          await this.clear(event.userId || 'anonymous');
+        }
+      } else if (event.type === 'login' || event.type === 'switch') {
+        this.reset();
+        await this.load();
+      }
+    });
+
+    // Return links reaching the app outside an open checkout, e.g. after it was restarted
+    Linking.addEventListener('url', ({ url }) => {
+      if (!this.active && url.startsWith(CHECKOUT_RETURN_URL)) {
+        this.load()
+          .then(() => this.handleReturn(parseCheckoutReturn(url)))
+          .then(() => this.refreshPackages())
+          .catch((error) => {
+            console.warn('⚠️ Failed to settle checkout return:', error);
+          });
+      }
+    });
+  }
+
+  /**
+   * Get singleton instance
+   */
+  static getInstance(): PaymentService {
+    if (!PaymentService.instance) {
+      PaymentService.instance = new PaymentService();
+    }
+    return PaymentService.instance;
+  }
+
+  /**
+   * Load the active account's processing payments. Concurrent calls share the read.
+   */
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        const userId = (await sessionManager.getUserId()) || 'anonymous';
+        try {
+          const raw = await AsyncStorage.getItem(`${PROCESSING_PREFIX}${userId}`);
+          this.processing = raw ? JSON.parse(raw) : {};
+        } catch (error) {
+          console.warn('⚠️ Failed to load processing payments:', error);
+        }
+        this.userId = userId;
+        this.dropExpired();
+        this.emit({ type: 'processing', processing: this.processing });
+      })();
+    }
+    return this.loading;
+  }
+
+  /**
+   * Payments waiting for their checkout to settle, by payment id
+   */
+  getProcessing(): Record<number, ProcessingPayment> {
+    return this.processing;
+  }
+
+  isProcessing(paymentId: number): boolean {
+    return paymentId in this.processing;
+  }
+
+  /**
+   * Subscribe to processing changes and refreshed packages. Returns an unsubscribe function.
+   */
+  subscribe(listener: PaymentListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Pay payments of a package through the hosted checkout. Payments already processing
+   * are left out; packages are refreshed whatever the outcome.
+   */
+  async pay(packageId: number, paymentIds: number[]): Promise<CheckoutResult> {
+    if (this.active) {
+      throw new Error('A checkout is already open');
+    }
+    await this.load();
+
+    const payable = paymentIds.filter(id => !this.isProcessing(id));
+    if (!payable.length) {
+      return 'pending';
+    }
+
+    this.active = true;
+    try {
+      const response = await apiClient.request(endpoints.createCheckoutSession, {
+        params: { packageId },
+        data: { data: { payment_ids: payable, return_url: CHECKOUT_RETURN_URL } },
+        // A replayed request would open a second session for the same payments
+        retry: false,
+      });
+      const session = response.data;
+      console.log(`💳 Checkout ${session.id} opened for payment(s) ${payable.join(', ')}`);
+      this.markProcessing(session);
+
+      let checkoutReturn: CheckoutReturn;
+      try {
+        checkoutReturn = await this.openCheckout(session.url);
+      } catch (error) {
+        this.unmarkProcessing(session.payment_ids);
+        throw error;
+      }
+
+      return await this.handleReturn({ ...checkoutReturn, sessionId: session.id });
+    } finally {
+      this.active = false;
+      await this.refreshPackages().catch((error) => {
+        console.warn('⚠️ Failed to refresh packages after checkout:', error);
+      });
+    }
+  }
+
+  /**
+   * Fetch `me/packages` into the response cache, forget processing payments it reports
+   * paid and tell subscribers
+   */
+  async refreshPackages(): Promise<StudentPackage[]> {
+    const result = await responseCache.get<ApiEnvelope<StudentPackage[]>>(
+      resolvePath(endpoints.packages),
+      undefined,
+      endpoints.packages.response
+    );
+    const packages = result.data.data;
+
+    const paidIds = packages.flatMap(pkg =>
+      getPackagePayments(pkg).items.filter(item => item.status === 'PAID').map(item => item.id)
+    );
+    this.unmarkProcessing(paidIds);
+    this.dropExpired();
+
+    this.emit({ type: 'packages', packages });
+    return packages;
+  }
+
+  /**
+   * Remove stored processing payments of one account, or of every account
+   */
+  async clear(userId?: string): Promise<void> {
+    try {
+      if (userId) {
+        await AsyncStorage.removeItem(`${PROCESSING_PREFIX}${userId}`);
+        return;
+      }
+      const keys = await AsyncStorage.getAllKeys();
+      await AsyncStorage.multiRemove(keys.filter(key => key.startsWith(PROCESSING_PREFIX)));
+    } catch (error) {
+      console.error('❌ Failed to clear processing payments:', error);
+    }
+  }
+
+  /**
+   * Settle the outcome of a checkout the student came back from. Payments stay processing
+   * unless the backend reports the session expired or still unpaid after a cancel.
+   */
+  private async handleReturn(checkoutReturn: CheckoutReturn): Promise<CheckoutResult> {
+    const { result, sessionId } = checkoutReturn;
+    if (!sessionId) {
+      return 'cancelled';
+    }
+
+    // Neither the return link nor its absence proves anything: the page may have been
+    // closed after paying. The backend knows whether the payment went through.
+    const response = await apiClient.request(endpoints.checkoutSession, { params: { id: sessionId } });
+    const confirmed = response.data;
+    console.log(`💳 Checkout ${sessionId} is ${confirmed.status} (${result})`);
+
+    switch (confirmed.status) {
+      case 'complete':
+        return 'paid';
+      case 'expired':
+        this.unmarkProcessing(confirmed.payment_ids);
+        return 'cancelled';
+      default:
+        // Still open: a cancel means nothing was paid, a success awaits the provider
+        if (result === 'cancel') {
+          this.unmarkProcessing(confirmed.payment_ids);
+          return 'cancelled';
+        }
+        return 'pending';
+    }
+  }
+
+  /**
+   * Show the checkout page and wait for the student to come back from it
+   */
+  private async openCheckout(url: string): Promise<CheckoutReturn> {
+    if (await InAppBrowser.isAvailable()) {
+      const result = await InAppBrowser.openAuth(url, CHECKOUT_RETURN_URL, {
+        ephemeralWebSession: false,
+        showTitle: true,
+        enableUrlBarHiding: true,
+        enableDefaultShare: false,
+      });
+      return result.type === 'success' ? parseCheckoutReturn(result.url) : { result: 'cancel' };
+    }
+
+    // No in-app browser: use the system one and wait for the return link
+    return new Promise<CheckoutReturn>((resolve, reject) => {
+      let graceTimer: ReturnType<typeof setTimeout> | null = null;
+
+      const finish = (checkoutReturn: CheckoutReturn) => {
+        if (graceTimer) clearTimeout(graceTimer);
+        linkSubscription.remove();
+        appStateSubscription.remove();
+        resolve(checkoutReturn);
+      };
+
+      const linkSubscription = Linking.addEventListener('url', (event) => {
+        if (event.url.startsWith(CHECKOUT_RETURN_URL)) {
+          finish(parseCheckoutReturn(event.url));
+        }
+      });
+
+      // Coming back without the return link means the page was left
+      const appStateSubscription = AppState.addEventListener('change', (state) => {
+        if (state === 'active' && !graceTimer) {
+          graceTimer = setTimeout(() => finish({ result: 'cancel' }), RETURN_GRACE_PERIOD);
+        }
+      });
+
+      Linking.openURL(url).catch((error) => {
+        linkSubscription.remove();
+        appStateSubscription.remove();
+        reject(error);
+      });
+    });
+  }
+
+  private markProcessing(session: CheckoutSession): void {
+    const processing = { ...this.processing };
+    session.payment_ids.forEach((id) => {
+      processing[id] = { sessionId: session.id, startedAt: Date.now() };
+    });
+    this.setProcessing(processing);
+  }
+
+  private unmarkProcessing(paymentIds: number[]): void {
+    const settled = paymentIds.filter(id => id in this.processing);
+    if (!settled.length) return;
+
+    const processing = { ...this.processing };
+    settled.forEach((id) => {
+      delete processing[id];
+    });
+    this.setProcessing(processing);
+  }
+
+  private dropExpired(): void {
+    const expired = Object.keys(this.processing)
+      .map(Number)
+      .filter(id => Date.now() - this.processing[id].startedAt > PROCESSING_TTL);
+    this.unmarkProcessing(expired);
+  }
+
+  private setProcessing(processing: Record<number, ProcessingPayment>): void {
+    this.processing = processing;
+    this.emit({ type: 'processing', processing });
+    this.persist();
+  }
+
+  private async persist(): Promise<void> {
+    if (!this.userId) return;
+    const key = `${PROCESSING_PREFIX}${this.userId}`;
+    try {
+      if (Object.keys(this.processing).length) {
+        await AsyncStorage.setItem(key, JSON.stringify(this.processing));
+      } else {
+        await AsyncStorage.removeItem(key);
+      }
+    } catch (error) {
+      console.error('❌ Failed to save processing payments:', error);
+    }
+  }
+
+  private reset(): void {
+    this.processing = {};
+    this.userId = null;
+    this.loading = null;
+    this.emit({ type: 'processing', processing: this.processing });
+  }
+
+  private emit(event: PaymentEvent): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('❌ Payment listener failed:', error);
+      }
+    });
+  }
+}
+
+export const paymentService = PaymentService.getInstance();
+
+export default paymentService;
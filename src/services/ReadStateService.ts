@@ -0,0 +1,232 @@
+import { AppState, AppStateStatus, NativeEventSubscription } from 'react-native';
+import { apiClient, endpoints, EmailLog, NotificationItem, ReadTargetType, UnreadCounts } from '../api';
+import { sessionManager } from './SessionManager';
+
+/**
+ * Read State Service
+ * Single source of unread counts for the header bell, the messages tab and the app
+ * icon badge. Marking an item read or unread updates lists and counts immediately,
+ * then the backend answer replaces the counts (or the change is rolled back).
+ */
+
+/**
+ * Item with a read state, as the screen showing it knows it
+ */
+export interface ReadTarget {
+  type: ReadTargetType;
+  /** Item id, or the contact for conversations */
+  id: number | string;
+  /** Unread amount according to the fetched item: 0/1, or a conversation's unread_count */
+  unread: number;
+}
+
+export type UnreadCountsListener = (counts: UnreadCounts) => void;
+
+const EMPTY_COUNTS: UnreadCounts = { notifications: 0, emails: 0, messages: 0 };
+
+const COUNT_KEYS: Record<ReadTargetType, keyof UnreadCounts> = {
+  notification: 'notifications',
+  email: 'emails',
+  conversation: 'messages',
+};
+
+/**
+ * Local read flag, valid while fetched data still shows the unread amount it was set against
+ */
+interface ReadOverride {
+  read: boolean;
+  basis: number;
+}
+
+export const readTargets = {
+  notification: (item: NotificationItem): ReadTarget => ({
+    type: 'notification',
+    id: item.id,
+    unread: 'read' in item ? (item.read ? 0 : 1) : item.unread_count || 0,
+  }),
+  /** Logs fetched before read tracking have no flag and count as read */
+  email: (email: EmailLog): ReadTarget => ({
+    type: 'email',
+    id: email.id,
+    unread: email.read === false ? 1 : 0,
+  }),
+  conversation: (contact: string, unreadCount: number = 0): ReadTarget => ({
+    type: 'conversation',
+    id: contact,
+    unread: unreadCount,
+  }),
+};
+
+const getTargetKey = (target: Pick<ReadTarget, 'type' | 'id'>): string => `${target.type}:${target.id}`;
+
+export class ReadStateService {
+  private static instance: ReadStateService;
+  private counts: UnreadCounts = EMPTY_COUNTS;
+  /** Read flags changed on this device that fetched lists may not reflect yet */
+  private overrides = new Map<string, ReadOverride>();
+  private listeners = new Set<UnreadCountsListener>();
+  private refreshing: Promise<void> | null = null;
+  private appStateSubscription: NativeEventSubscription | null = null;
+
+  private constructor() {
+    // Counts and local changes belong to the active account
+    sessionManager.subscribe(async (event) => {
+      if (
+        (event.type === 'statusChange' && event.status === 'authenticated') ||
+        event.type === 'login' ||
+        event.type === 'switch'
+      ) {
+        this.overrides.clear();
+        await this.refreshCounts();
+      } else if (event.type === 'logout') {
+        this.overrides.clear();
+        this.setCounts(EMPTY_COUNTS);
+      }
+    });
+  }
+
+  /**
+   * Get singleton instance
+   */
+  static getInstance(): ReadStateService {
+    if (!ReadStateService.instance) {
+      ReadStateService.instance = new ReadStateService();
+    }
+    return ReadStateService.instance;
+  }
+
+  getCounts(): UnreadCounts {
+    return this.counts;
+  }
+
+  /**
+   * Unread items of every kind, shown on the app icon
+   */
+  getTotal(): number {
+    return this.counts.notifications + this.counts.emails + this.counts.messages;
+  }
+
+  /**
+   * Subscribe to count changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: UnreadCountsListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Unread amount of an item, including changes made on this device
+   */
+  getUnread(target: ReadTarget): number {
+    const override = this.overrides.get(getTargetKey(target));
+    // Fetched data that changed since the override is newer than it
+    if (!override || override.basis !== target.unread) return target.unread;
+    return override.read ? 0 : Math.max(target.unread, 1);
+  }
+
+  isUnread(target: ReadTarget): boolean {
+    return this.getUnread(target) > 0;
+  }
+
+  /**
+   * Fetch the unread counts. Concurrent calls share the request.
+   */
+  refreshCounts(): Promise<void> {
+    this.listenToAppState();
+
+    if (!this.refreshing) {
+      this.refreshing = apiClient
+        .request(endpoints.unreadCounts, { retry: false })
+        .then(response => this.setCounts(response.data))
+        .catch(error => {
+          console.warn('⚠️ Failed to refresh unread counts:', error);
+        })
+        .finally(() => {
+          this.refreshing = null;
+        });
+    }
+    return this.refreshing;
+  }
+
+  /**
+   * Mark one item read or unread, optimistically
+   */
+  async setRead(target: ReadTarget, read: boolean): Promise<void> {
+    const key = getTargetKey(target);
+    const previous = this.overrides.get(key);
+    const before = this.getUnread(target);
+    this.overrides.set(key, { read, basis: target.unread });
+    const delta = this.getUnread(target) - before;
+    this.adjustCount(target.type, delta);
+
+    try {
+      const response = await apiClient.request(endpoints.updateReadState, {
+        data: { data: { type: target.type, id: target.id, read } },
+      });
+      this.setCounts(response.data);
+    } catch (error) {
+      console.error(`❌ Failed to mark ${key} as ${read ? 'read' : 'unread'}:`, error);
+      if (previous === undefined) {
+        this.overrides.delete(key);
+      } else {
+        this.overrides.set(key, previous);
+      }
+      this.adjustCount(target.type, -delta);
+    }
+  }
+
+  /**
+   * Mark every item of a type read, optimistically for the loaded ones
+   */
+  async markAllRead(type: ReadTargetType, loaded: ReadTarget[] = []): Promise<void> {
+    const previousOverrides = new Map(this.overrides);
+    const previousCounts = this.counts;
+    loaded.forEach(target => this.overrides.set(getTargetKey(target), { read: true, basis: target.unread }));
+    this.setCounts({ ...this.counts, [COUNT_KEYS[type]]: 0 });
+
+    try {
+      const response = await apiClient.request(endpoints.updateReadState, {
+        data: { data: { type, read: true } },
+      });
+      this.setCounts(response.data);
+    } catch (error) {
+      console.error(`❌ Failed to mark all ${COUNT_KEYS[type]} as read:`, error);
+      this.overrides = previousOverrides;
+      this.setCounts(previousCounts);
+    }
+  }
+
+  private adjustCount(type: ReadTargetType, delta: number): void {
+    if (delta === 0) return;
+    const countKey = COUNT_KEYS[type];
+    this.setCounts({ ...this.counts, [countKey]: Math.max(this.counts[countKey] + delta, 0) });
+  }
+
+  private setCounts(counts: UnreadCounts): void {
+    this.counts = counts;
+    this.listeners.forEach(listener => {
+      try {
+        listener(counts);
+      } catch (error) {
+        console.error('❌ Unread counts listener failed:', error);
+      }
+    });
+  }
+
+  private listenToAppState(): void {
+    if (this.appStateSubscription) return;
+    // Items may have been read on another device while the app was in the background
+    this.appStateSubscription = AppState.addEventListener('change', (nextState: AppStateStatus) => {
+      if (nextState === 'active' && sessionManager.getStatus() === 'authenticated') {
+        this.refreshCounts();
+      }
+    });
+  }
+}
+
+// Export singleton instance
+export const readStateService = ReadStateService.getInstance();
+
+export default readStateService;
@@ -0,0 +1,426 @@
+import { AppState, AppStateStatus, NativeEventSubscription } from 'react-native';
+import {
+  apiClient,
+  endpoints,
+  Endpoint,
+  NotificationItem,
+  WhatsAppMessage,
+} from '../api';
+import { environmentService } from './EnvironmentService';
+import { sessionManager } from './SessionManager';
+
+/**
+ * Realtime Service
+ * Pushes new conversation messages and notifications to the screens showing them.
+ * Listens on the environment's WebSocket channel when it has one and falls back to
+ * polling with incremental `since` fetches. Everything pauses while the app is in
+ * the background and catches up when it returns.
+ */
+
+export type RealtimeTransport = 'idle' | 'websocket' | 'polling' | 'paused';
+
+export interface RealtimeTopic<T = any> {
+  /** Channel name shared with the backend, e.g. `notifications` */
+  key: string;
+  /** Endpoint listing the topic's items, queried with `since` for incremental fetches */
+  endpoint: Endpoint<T[], void, any>;
+  params?: any;
+  /** Extra query for every fetch, e.g. a `limit` for paginated lists */
+  queryString?: string;
+}
+
+export type RealtimeListener<T = any> = (items: T[]) => void;
+
+interface RealtimeItem {
+  id: number;
+  created_at: string;
+}
+
+interface TopicState {
+  topic: RealtimeTopic;
+  listeners: Set<RealtimeListener>;
+  /** `created_at` of the newest item delivered so far */
+  cursor: string | null;
+  /** Ids delivered with the cursor's timestamp, which `since` returns again */
+  cursorIds: Set<number>;
+  fetching: Promise<void> | null;
+}
+
+/** Frame pushed by the WebSocket channel; without `data` the topic is fetched */
+interface RealtimeFrame {
+  topic: string;
+  data?: RealtimeItem | RealtimeItem[];
+}
+
+export const POLL_INTERVAL = 10 * 1000;
+// Newest items fetched for a paginated topic; older ones come from the list's own paging
+const TOPIC_FETCH_LIMIT = 50;
+const RECONNECT_DELAYS = [1000, 5000, 15000, 30000];
+// WebSocket.OPEN, without touching the global where no WebSocket exists (Jest)
+const SOCKET_OPEN = 1;
+
+export const realtimeTopics = {
+  notifications: (): RealtimeTopic<NotificationItem> => ({
+    key: 'notifications',
+    endpoint: endpoints.notifications,
+  }),
+  conversation: (contact: string): RealtimeTopic<WhatsAppMessage> => ({
+    key: `whatsapp:${contact}`,
+    endpoint: endpoints.whatsAppMessages,
+    params: { contact },
+    queryString: `limit=${TOPIC_FETCH_LIMIT}`,
+  }),
+};
+
+/**
+ * Merge pushed items into a list: known ids are replaced, new ones are added at
+ * the given end in chronological order for that end. Items older than the loaded
+ * window belong to pages not loaded yet and are skipped.
+ */
+export const mergeRealtimeItems = <T extends { id: number; created_at: string }>(
+  items: T[],
+  incoming: T[],
+  position: 'start' | 'end' = 'end'
+): T[] => {
+  const incomingById = new Map(incoming.map(item => [item.id, item]));
+  const existingIds = new Set(items.map(item => item.id));
+  const updated = items.map(item => incomingById.get(item.id) || item);
+  const oldest = items.reduce<string | null>(
+    (min, item) => (min === null || item.created_at < min ? item.created_at : min),
+    null
+  );
+  const added = incoming
+    .filter(item => !existingIds.has(item.id) && (oldest === null || item.created_at >= oldest))
+    .sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+  return position === 'start' ? [...added.reverse(), ...updated] : [...updated, ...added];
+};
+
+export class RealtimeService {
+  private static instance: RealtimeService;
+  private topics = new Map<string, TopicState>();
+  private transport: RealtimeTransport = 'idle';
+  private socket: WebSocket | null = null;
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectAttempt = 0;
+  /** Bumped by every connect and close, so a connect that waited on the token can tell it is stale */
+  private connection = 0;
+  private appStateSubscription: NativeEventSubscription | null = null;
+
+  private constructor() {
+    // Channels and cursors belong to the account that opened them
+    sessionManager.subscribe(event => {
+      if (event.type === 'logout') {
+        this.stop();
+      }
+      if (event.type === 'login' || event.type === 'switch') {
+        this.topics.forEach(state => {
+          state.cursor = null;
+          state.cursorIds.clear();
+        });
+        this.restart();
+      }
+    });
+
+    environmentService.subscribe(() => this.restart());
+  }
+
+  /**
+   * Get singleton instance
+   */
+  static getInstance(): RealtimeService {
+    if (!RealtimeService.instance) {
+      RealtimeService.instance = new RealtimeService();
+    }
+    return RealtimeService.instance;
+  }
+
+  getTransport(): RealtimeTransport {
+    return this.transport;
+  }
+
+  /**
+   * Receive the new items of a topic. The channel opens with the first
+   * subscription and closes with the last. Returns an unsubscribe function.
+   */
+  subscribe<T>(topic: RealtimeTopic<T>, listener: RealtimeListener<T>): () => void {
+    let state = this.topics.get(topic.key);
+    const isNew = !state;
+    if (!state) {
+      state = { topic, listeners: new Set(), cursor: null, cursorIds: new Set(), fetching: null };
+      this.topics.set(topic.key, state);
+      this.send({ type: 'subscribe', topics: [topic.key] });
+    }
+    state.listeners.add(listener as RealtimeListener);
+
+    if (this.transport === 'idle') {
+      this.start();
+    }
+    // Catch up right away instead of waiting for the first poll
+    if (isNew && this.transport !== 'paused') {
+      this.refreshTopic(topic.key);
+    }
+
+    return () => {
+      const current = this.topics.get(topic.key);
+      if (!current) return;
+
+      current.listeners.delete(listener as RealtimeListener);
+      if (current.listeners.size === 0) {
+        this.topics.delete(topic.key);
+        this.send({ type: 'unsubscribe', topics: [topic.key] });
+      }
+      if (this.topics.size === 0) {
+        this.stop();
+      }
+    };
+  }
+
+  /**
+   * Fetch what a topic missed since its last delivery. Concurrent calls share the request.
+   */
+  refreshTopic(key: string): Promise<void> {
+    const state = this.topics.get(key);
+    if (!state) return Promise.resolve();
+
+    if (!state.fetching) {
+      state.fetching = this.fetchSince(state).finally(() => {
+        state.fetching = null;
+      });
+    }
+    return state.fetching;
+  }
+
+  /**
+   * Feed a foreground push message into the pipeline
+   */
+  async handlePush(data?: Record<string, any>): Promise<void> {
+    const keys = [realtimeTopics.notifications().key];
+    const contact = data?.contact || data?.ph_no;
+    if (data?.type === 'MESSAGE' && contact) {
+      keys.push(realtimeTopics.conversation(contact).key);
+    }
+    await Promise.all(keys.map(key => this.refreshTopic(key)));
+  }
+
+  private async fetchSince(state: TopicState): Promise<void> {
+    try {
+      const response = await apiClient.request(state.topic.endpoint, {
+        params: state.topic.params,
+        queryString: [
+          state.topic.queryString,
+          state.cursor ? `since=${encodeURIComponent(state.cursor)}` : null,
+        ].filter(Boolean).join('&') || null,
+        retry: false,
+      });
+      this.deliver(state, response.data as RealtimeItem[]);
+    } catch (error) {
+      console.warn(`⚠️ Realtime fetch failed for ${state.topic.key}:`, error);
+    }
+  }
+
+  private deliver(state: TopicState, items: RealtimeItem[]): void {
+    // `since` is inclusive and may be ignored by the backend, so skip what was delivered
+    const cursor = state.cursor;
+    const fresh = items.filter(item =>
+      !cursor ||
+      item.created_at > cursor ||
+      (item.created_at === cursor && !state.cursorIds.has(item.id))
+    );
+    if (fresh.length === 0) return;
+
+    const latest = fresh.reduce(
+      (max, item) => (item.created_at > max ? item.created_at : max),
+      cursor || ''
+    );
+    if (latest !== cursor) {
+      state.cursorIds.clear();
+    }
+    fresh.filter(item => item.created_at === latest).forEach(item => state.cursorIds.add(item.id));
+    state.cursor = latest;
+    state.listeners.forEach(listener => {
+      try {
+        listener(fresh);
+      } catch (error) {
+        console.error('❌ Realtime listener failed:', error);
+      }
+    });
+  }
+
+  private catchUp(): void {
+    this.topics.forEach((_state, key) => {
+      this.refreshTopic(key);
+    });
+  }
+
+  private start(): void {
+    if (!this.appStateSubscription) {
+      this.appStateSubscription = AppState.addEventListener('change', this.handleAppStateChange);
+    }
+
+    if (AppState.currentState === 'background' || AppState.currentState === 'inactive') {
+      this.setTransport('paused');
+      return;
+    }
+
+    if (environmentService.getEnvironment().realtimeURL) {
+      this.connect();
+    } else {
+      this.startPolling();
+    }
+  }
+
+  /**
+   * Close the channel and stop every timer
+   */
+  private stop(): void {
+    this.closeSocket();
+    this.stopPolling();
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+    this.setTransport('idle');
+  }
+
+  private restart(): void {
+    if (this.topics.size === 0) return;
+    this.stop();
+    this.start();
+  }
+
+  private handleAppStateChange = (nextState: AppStateStatus): void => {
+    if (this.topics.size === 0) return;
+
+    if (nextState === 'active') {
+      if (this.transport === 'paused') {
+        this.start();
+        this.catchUp();
+      }
+    } else if (this.transport !== 'paused') {
+      console.log('⏸️ Realtime paused in background');
+      this.closeSocket();
+      this.stopPolling();
+      this.setTransport('paused');
+    }
+  };
+
+  private async connect(): Promise<void> {
+    const connection = ++this.connection;
+    const url = environmentService.getEnvironment().realtimeURL;
+    const token = await sessionManager.getAccessToken();
+    // Stopped, paused or connecting again while the token was read
+    if (connection !== this.connection) return;
+    if (!url || !token) {
+      this.startPolling();
+      return;
+    }
+
+    // Poll until the socket is open
+    this.startPolling();
+
+    const socket = new WebSocket(url);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      console.log('🔌 Realtime channel connected');
+      this.reconnectAttempt = 0;
+      this.stopPolling();
+      this.setTransport('websocket');
+      // The token goes in the first frame, not the URL, which proxies and server logs record
+      this.send({ type: 'auth', token });
+      this.send({ type: 'subscribe', topics: Array.from(this.topics.keys()) });
+      this.catchUp();
+    };
+
+    socket.onmessage = (event: WebSocketMessageEvent) => {
+      this.handleFrame(event.data);
+    };
+
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      console.log('🔌 Realtime channel closed, polling until it reconnects');
+      this.startPolling();
+      this.scheduleReconnect();
+    };
+
+    socket.onerror = () => {
+      console.warn('⚠️ Realtime channel error');
+    };
+  }
+
+  private handleFrame(raw: unknown): void {
+    let frame: RealtimeFrame;
+    try {
+      frame = typeof raw === 'string' ? JSON.parse(raw) : (raw as RealtimeFrame);
+    } catch (error) {
+      console.warn('⚠️ Ignoring malformed realtime frame:', error);
+      return;
+    }
+
+    const state = frame?.topic ? this.topics.get(frame.topic) : undefined;
+    if (!state) return;
+
+    if (frame.data) {
+      this.deliver(state, Array.isArray(frame.data) ? frame.data : [frame.data]);
+    } else {
+      this.refreshTopic(frame.topic);
+    }
+  }
+
+  private send(message: Record<string, unknown>): void {
+    const socket = this.socket;
+    if (socket && socket.readyState === SOCKET_OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  }
+
+  private closeSocket(): void {
+    this.connection += 1;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+  }
+
+  private scheduleReconnect(): void {
+    if (this.reconnectTimer || this.topics.size === 0) return;
+
+    const delay = RECONNECT_DELAYS[Math.min(this.reconnectAttempt, RECONNECT_DELAYS.length - 1)];
+    this.reconnectAttempt += 1;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.transport === 'polling') {
+        this.connect();
+      }
+    }, delay);
+  }
+
+  private startPolling(): void {
+    this.setTransport('polling');
+    if (this.pollTimer) return;
+    this.pollTimer = setInterval(() => this.catchUp(), POLL_INTERVAL);
+  }
+
+  private stopPolling(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  private setTransport(transport: RealtimeTransport): void {
+    if (transport !== this.transport) {
+      console.log(`📡 Realtime transport: ${this.transport} → ${transport}`);
+      this.transport = transport;
+    }
+  }
+}
+
+// Export singleton instance
+export const realtimeService = RealtimeService.getInstance();
+
+export default realtimeService;
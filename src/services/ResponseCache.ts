@@ -0,0 +1,192 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { apiService, isNetworkError } from '../helpers/request';
+import { sessionManager } from './SessionManager';
+import { isLocalizedPath, parseEnvelope, Schema } from '../api';
+
+/**
+ * Response Cache
+ * Persistent stale-while-revalidate cache for GET responses, kept in AsyncStorage
+ * per user so lists can render offline and across app restarts.
+ */
+
+export interface CacheEntry<T = any> {
+  data: T;
+  updatedAt: number;
+}
+
+export interface CachedResult<T = any> extends CacheEntry<T> {
+  /** Data was served from the cache instead of the network */
+  fromCache: boolean;
+  /** The network request failed because the device is offline */
+  offline: boolean;
+}
+
+/**
+ * Told about every fresh response stored, e.g. to act on new data wherever it was fetched
+ */
+export type CacheWriteListener = (endpoint: string, data: any, queryString?: string | null) => void;
+
+const CACHE_PREFIX = 'responseCache:';
+
+export class ResponseCache {
+  private static instance: ResponseCache;
+  private writeListeners = new Set<CacheWriteListener>();
+
+  private constructor() {
+    // Cached responses belong to the account that fetched them; other signed-in accounts keep theirs
+    sessionManager.subscribe(async (event) => {
+      if (event.type === 'logout') {
+        await this.clear(event.userId || 'anonymous');
+      }
+    });
+
+    // Localized responses (package names, notification bodies) are stale in another language
+    apiService.onLanguageChange(() => {
+      this.invalidate(isLocalizedPath);
+    });
+  }
+
+  /**
+   * Get singleton instance
+   */
+  static getInstance(): ResponseCache {
+    if (!ResponseCache.instance) {
+      ResponseCache.instance = new ResponseCache();
+    }
+    return ResponseCache.instance;
+  }
+
+  /**
+   * Build the storage key from the endpoint, its query string and the current user
+   */
+  private async getKey(endpoint: string, queryString?: string | null): Promise<string> {
+    const userId = (await sessionManager.getUserId()) || 'anonymous';
+    const url = queryString ? `${endpoint}?${queryString}` : endpoint;
+    return `${CACHE_PREFIX}${userId}:${url}`;
+  }
+
+  /**
+   * Read a cached response, or null when nothing is stored.
+   * With a schema, entries that no longer match it are ignored.
+   */
+  async read<T = any>(
+    endpoint: string,
+    queryString?: string | null,
+    schema?: Schema<any>
+  ): Promise<CacheEntry<T> | null> {
+    try {
+      const raw = await AsyncStorage.getItem(await this.getKey(endpoint, queryString));
+      if (!raw) return null;
+
+      const entry = JSON.parse(raw) as CacheEntry<T>;
+      if (schema) {
+        entry.data = parseEnvelope(endpoint, entry.data, schema) as T;
+      }
+      return entry;
+    } catch (error) {
+      console.warn(`⚠️ Failed to read cached response for ${endpoint}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Store a response and return the written entry
+   */
+  async write<T = any>(endpoint: string, data: T, queryString?: string | null): Promise<CacheEntry<T>> {
+    const entry: CacheEntry<T> = { data, updatedAt: Date.now() };
+    try {
+      await AsyncStorage.setItem(await this.getKey(endpoint, queryString), JSON.stringify(entry));
+    } catch (error) {
+      console.warn(`⚠️ Failed to cache response for ${endpoint}:`, error);
+    }
+    this.writeListeners.forEach(listener => {
+      try {
+        listener(endpoint, data, queryString);
+      } catch (error) {
+        console.error('❌ Cache write listener failed:', error);
+      }
+    });
+    return entry;
+  }
+
+  /**
+   * Listen to stored responses. Returns an unsubscribe function.
+   */
+  onWrite(listener: CacheWriteListener): () => void {
+    this.writeListeners.add(listener);
+    return () => {
+      this.writeListeners.delete(listener);
+    };
+  }
+
+  /**
+   * GET an endpoint, caching the response body. When `onCached` is given it receives
+   * the cached entry before the network request starts. Falls back to the cache when offline.
+   * With a schema, the `data` field of the body is validated before it is cached.
+   */
+  async get<T = any>(
+    endpoint: string,
+    onCached?: (entry: CacheEntry<T>) => void,
+    schema?: Schema<any>
+  ): Promise<CachedResult<T>> {
+    const cached = await this.read<T>(endpoint, null, schema);
+    if (cached && onCached) {
+      onCached(cached);
+    }
+
+    try {
+      const response = await apiService.get<T>(endpoint);
+      const body = schema ? (parseEnvelope(endpoint, response.data, schema) as T) : response.data;
+      const entry = await this.write(endpoint, body);
+      return { ...entry, fromCache: false, offline: false };
+    } catch (error) {
+      if (cached && isNetworkError(error)) {
+        console.log(`📦 Offline, serving cached response for ${endpoint}`);
+        return { ...cached, fromCache: true, offline: true };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Remove the cached responses, for every user, whose URL matches the predicate
+   */
+  async invalidate(predicate: (url: string) => boolean): Promise<void> {
+    try {
+      const keys = await AsyncStorage.getAllKeys();
+      const staleKeys = keys.filter(key => {
+        if (!key.startsWith(CACHE_PREFIX)) return false;
+        // Keys are `<prefix><userId>:<url>`
+        const scoped = key.slice(CACHE_PREFIX.length);
+        return predicate(scoped.slice(scoped.indexOf(':') + 1));
+      });
+      if (staleKeys.length > 0) {
+        await AsyncStorage.multiRemove(staleKeys);
+      }
+      console.log(`🧹 Invalidated ${staleKeys.length} cached responses`);
+    } catch (error) {
+      console.warn('⚠️ Failed to invalidate response cache:', error);
+    }
+  }
+
+  /**
+   * Remove the cached responses of one user, or of every user when omitted
+   */
+  async clear(userId?: string): Promise<void> {
+    const prefix = userId ? `${CACHE_PREFIX}${userId}:` : CACHE_PREFIX;
+    try {
+      const keys = await AsyncStorage.getAllKeys();
+      const cacheKeys = keys.filter(key => key.startsWith(prefix));
+      if (cacheKeys.length > 0) {
+        await AsyncStorage.multiRemove(cacheKeys);
+      }
+      console.log(`🧹 Cleared ${cacheKeys.length} cached responses`);
+    } catch (error) {
+      console.warn('⚠️ Failed to clear response cache:', error);
+    }
+  }
+}
+
+export const responseCache = ResponseCache.getInstance();
+
+export default responseCache;
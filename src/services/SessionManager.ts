@@ -0,0 +1,485 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import SecureStorage from '../helpers/secureStorage';
+import { apiService, AUTH_STORAGE_KEYS, AuthTokens } from '../helpers/request';
+import { apiClient, endpoints } from '../api';
+
+/**
+ * Session Manager
+ * Single owner of the authenticated sessions: token storage, login, logout,
+ * the auth state used by AppNavigator and the session event stream.
+ * Several accounts can be signed in at once (e.g. parents of more than one student);
+ * each keeps its tokens in its own keychain slot and one of them is active at a time.
+ */
+
+export type AuthStatus = 'unknown' | 'authenticated' | 'unauthenticated';
+
+export type LogoutReason = 'user' | 'expired';
+
+export type SessionEvent =
+  | { type: 'login'; userId?: number; leadId?: number }
+  // Sent while the signing-out account's tokens still authorize requests
+  | { type: 'beforeLogout'; reason: LogoutReason; userId: string | null }
+  | { type: 'logout'; reason: LogoutReason; userId: string | null }
+  | { type: 'switch'; userId: string; previousUserId: string | null }
+  | { type: 'statusChange'; status: AuthStatus };
+
+export type SessionListener = (event: SessionEvent) => void | Promise<void>;
+
+export interface SessionData extends AuthTokens {
+  id?: number;
+  id_lead?: number;
+  name?: string;
+  email?: string;
+}
+
+/**
+ * Signed-in account shown in the account switcher
+ */
+export interface AccountSummary {
+  userId: string;
+  name?: string;
+  email?: string;
+  leadId?: number;
+  lastUsedAt: number;
+}
+
+export interface LogoutOptions {
+  /** Sign out every account instead of only the active one */
+  allAccounts?: boolean;
+}
+
+// Tokens of one account, kept in its own keychain slot while another account is active
+interface StoredSession extends AuthTokens {
+  id_lead?: number;
+}
+
+export interface LogoutResult {
+  /** True when every session key was removed from storage */
+  success: boolean;
+  /** Storage keys that could not be cleared */
+  failedKeys: string[];
+}
+
+// Non-secret user data kept in AsyncStorage by older app versions
+const LEGACY_ASYNC_KEYS = ['userProfile', 'lastLogin', 'appState'];
+
+const ACCOUNTS_STORAGE_KEY = 'sessionAccounts';
+
+const getSessionSlotKey = (userId: string): string => `session:${userId}`;
+
+const SECURE_STORAGE_TIMEOUT = 3000;
+// Longest the app waits for the session restore, e.g. behind a hung keychain
+const RESTORE_TIMEOUT = 8000;
+
+/**
+ * Reject if a promise does not settle within the given time
+ */
+const withTimeout = <T>(promise: Promise<T>, ms: number, label: string): Promise<T> => {
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`${label} timeout`)), ms);
+    promise.then(
+      value => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      error => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+};
+
+/**
+ * Basic sanity check for a stored access token
+ */
+const isUsableToken = (token: string | null): token is string => {
+  return !!token && token.length > 10 && !token.includes('null') && !token.includes('undefined');
+};
+
+export class SessionManager {
+  private static instance: SessionManager;
+  private status: AuthStatus = 'unknown';
+  private listeners = new Set<SessionListener>();
+  private logoutPromise: Promise<LogoutResult> | null = null;
+  /** Bumped per restore, so one that timed out cannot change the status later */
+  private restore = 0;
+  private userId: string | null = null;
+  private accounts: AccountSummary[] | null = null;
+
+  private constructor() {
+    // A failed refresh in ApiService ends the session through the regular logout path
+    apiService.onSessionExpired(() => {
+      this.logout('expired');
+    });
+  }
+
+  /**
+   * Get singleton instance
+   */
+  static getInstance(): SessionManager {
+    if (!SessionManager.instance) {
+      SessionManager.instance = new SessionManager();
+    }
+    return SessionManager.instance;
+  }
+
+  /**
+   * Current authentication status
+   */
+  getStatus(): AuthStatus {
+    return this.status;
+  }
+
+  /**
+   * Subscribe to session events. Returns an unsubscribe function.
+   */
+  subscribe(listener: SessionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Notify listeners, isolating failures so one cleanup cannot block the others
+   */
+  private async emit(event: SessionEvent): Promise<void> {
+    const listeners = Array.from(this.listeners);
+    await Promise.all(
+      listeners.map(async listener => {
+        try {
+          await listener(event);
+        } catch (error) {
+          console.error(`❌ Session listener failed on ${event.type}:`, error);
+        }
+      })
+    );
+  }
+
+  private async setStatus(status: AuthStatus): Promise<void> {
+    if (this.status === status) return;
+    this.status = status;
+    await this.emit({ type: 'statusChange', status });
+  }
+
+  /**
+   * Read the stored access token, falling back to AsyncStorage when the keychain is unresponsive
+   */
+  async getAccessToken(): Promise<string | null> {
+    try {
+      const token = await withTimeout(
+        SecureStorage.getItem(AUTH_STORAGE_KEYS.ACCESS_TOKEN),
+        SECURE_STORAGE_TIMEOUT,
+        'SecureStorage'
+      );
+      if (token) return token;
+    } catch (error) {
+      console.warn('⚠️ SecureStorage failed, trying AsyncStorage fallback:', error);
+    }
+
+    try {
+      return await AsyncStorage.getItem(AUTH_STORAGE_KEYS.ACCESS_TOKEN);
+    } catch (error) {
+      console.error('❌ AsyncStorage token lookup failed:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Id of the logged-in user, used to keep per-user data apart
+   */
+  async getUserId(): Promise<string | null> {
+    if (!this.userId) {
+      this.userId = await SecureStorage.getItem(AUTH_STORAGE_KEYS.USER_ID);
+    }
+    return this.userId;
+  }
+
+  /**
+   * Determine the auth state on app start from the stored token
+   */
+  async restoreSession(): Promise<AuthStatus> {
+    const restore = ++this.restore;
+    try {
+      return await withTimeout(this.performRestore(restore), RESTORE_TIMEOUT, 'Session restore');
+    } catch (error) {
+      console.error('❌ Session restore failed, showing the login:', error);
+      this.restore += 1;
+      await this.setStatus('unauthenticated');
+      return 'unauthenticated';
+    }
+  }
+
+  private async performRestore(restore: number): Promise<AuthStatus> {
+    const token = await this.getAccessToken();
+    const status: AuthStatus = isUsableToken(token) ? 'authenticated' : 'unauthenticated';
+
+    // Sessions started before multi-account support have no slot yet
+    if (status === 'authenticated') {
+      const userId = await this.getUserId();
+      if (userId && !(await this.getAccounts()).some(account => account.userId === userId)) {
+        await this.saveActiveSession();
+        await this.upsertAccount({ userId, lastUsedAt: Date.now() });
+      }
+    }
+
+    // A restore that outlived its timeout leaves the status alone
+    if (restore !== this.restore) {
+      return this.status;
+    }
+    console.log('🔍 Session restored:', { hasToken: !!token, status });
+    await this.setStatus(status);
+    return status;
+  }
+
+  /**
+   * Authenticate with email and password against the `jwt` endpoint
+   */
+  async login(email: string, password: string): Promise<SessionData> {
+    const response = await apiClient.request(endpoints.login, {
+      data: { data: { email: email.trim().toLowerCase(), password } },
+    });
+    const session: SessionData = response.data;
+    await this.startSession(session);
+    return session;
+  }
+
+  /**
+   * Persist the tokens of a successful login and make it the active account.
+   * An account that was already active stays signed in.
+   */
+  async startSession(session: SessionData): Promise<void> {
+    if (!session?.access_token) {
+      throw new Error('Login response did not include an access token');
+    }
+
+    // Keep the latest (possibly refreshed) tokens of the account being replaced
+    if (this.status === 'authenticated') {
+      await this.saveActiveSession();
+    }
+
+    await this.activate(session.id ? String(session.id) : null, session);
+
+    if (this.userId) {
+      await this.saveActiveSession();
+      await this.upsertAccount({
+        userId: this.userId,
+        name: session.name,
+        email: session.email,
+        leadId: session.id_lead,
+        lastUsedAt: Date.now(),
+      });
+    }
+
+    console.log('✅ Session started');
+    await this.setStatus('authenticated');
+    await this.emit({ type: 'login', userId: session.id, leadId: session.id_lead });
+  }
+
+  /**
+   * Signed-in accounts, most recently used first
+   */
+  async getAccounts(): Promise<AccountSummary[]> {
+    if (!this.accounts) {
+      try {
+        const stored = await SecureStorage.getItem(ACCOUNTS_STORAGE_KEY);
+        this.accounts = stored ? JSON.parse(stored) : [];
+      } catch (error) {
+        console.warn('⚠️ Failed to read signed-in accounts:', error);
+        this.accounts = [];
+      }
+    }
+    return [...(this.accounts || [])].sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+  }
+
+  private async saveAccounts(accounts: AccountSummary[]): Promise<void> {
+    this.accounts = accounts;
+    if (accounts.length > 0) {
+      await SecureStorage.setItem(ACCOUNTS_STORAGE_KEY, JSON.stringify(accounts));
+    } else {
+      await this.clearSecureKey(ACCOUNTS_STORAGE_KEY);
+    }
+  }
+
+  private async upsertAccount(account: AccountSummary): Promise<void> {
+    const accounts = await this.getAccounts();
+    const existing = accounts.find(item => item.userId === account.userId);
+    const merged: AccountSummary = {
+      ...existing,
+      ...Object.fromEntries(Object.entries(account).filter(([, value]) => value !== undefined)),
+    } as AccountSummary;
+    await this.saveAccounts([merged, ...accounts.filter(item => item.userId !== account.userId)]);
+  }
+
+  /**
+   * Copy the active tokens into the slot of the active account. A refresh token kept
+   * behind biometrics is not in the keychain, so the slot does not get a copy either.
+   */
+  async saveActiveSession(): Promise<void> {
+    const userId = await this.getUserId();
+    const accessToken = await SecureStorage.getItem(AUTH_STORAGE_KEYS.ACCESS_TOKEN);
+    if (!userId || !accessToken) return;
+
+    const refreshToken = await SecureStorage.getItem(AUTH_STORAGE_KEYS.REFRESH_TOKEN);
+    const leadId = await SecureStorage.getItem(AUTH_STORAGE_KEYS.LEAD_ID);
+    const stored: StoredSession = {
+      access_token: accessToken,
+      refresh_token: refreshToken || undefined,
+      id_lead: leadId ? Number(leadId) : undefined,
+    };
+    await SecureStorage.setItem(getSessionSlotKey(userId), JSON.stringify(stored));
+  }
+
+  /**
+   * Write an account's tokens to the keys ApiService reads
+   */
+  private async activate(userId: string | null, session: StoredSession): Promise<void> {
+    // The user id goes first: a refresh token store files the token under it
+    if (userId) {
+      await SecureStorage.setItem(AUTH_STORAGE_KEYS.USER_ID, userId);
+    } else {
+      await this.clearSecureKey(AUTH_STORAGE_KEYS.USER_ID);
+    }
+    this.userId = userId;
+    if (session.id_lead) {
+      await SecureStorage.setItem(AUTH_STORAGE_KEYS.LEAD_ID, String(session.id_lead));
+    } else {
+      await this.clearSecureKey(AUTH_STORAGE_KEYS.LEAD_ID);
+    }
+
+    await apiService.storeTokens(session);
+    if (!session.refresh_token) {
+      await this.clearSecureKey(AUTH_STORAGE_KEYS.REFRESH_TOKEN);
+    }
+  }
+
+  /**
+   * Put an account's refresh token back in the keychain, e.g. once it is no longer kept behind biometrics
+   */
+  async restoreRefreshToken(userId: string, refreshToken: string): Promise<void> {
+    if (userId === (await this.getUserId())) {
+      await SecureStorage.setItem(AUTH_STORAGE_KEYS.REFRESH_TOKEN, refreshToken);
+      await this.saveActiveSession();
+      return;
+    }
+
+    const stored = await SecureStorage.getItem(getSessionSlotKey(userId));
+    if (stored) {
+      const session: StoredSession = { ...JSON.parse(stored), refresh_token: refreshToken };
+      await SecureStorage.setItem(getSessionSlotKey(userId), JSON.stringify(session));
+    }
+  }
+
+  /**
+   * Make another signed-in account the active one without asking for credentials
+   */
+  async switchAccount(userId: string): Promise<void> {
+    const previousUserId = await this.getUserId();
+    if (userId === previousUserId) return;
+
+    const stored = await SecureStorage.getItem(getSessionSlotKey(userId));
+    if (!stored) {
+      throw new Error(`No stored session for account ${userId}`);
+    }
+
+    await this.saveActiveSession();
+    await this.activate(userId, JSON.parse(stored) as StoredSession);
+    await this.upsertAccount({ userId, lastUsedAt: Date.now() });
+
+    console.log(`👥 Switched account: ${previousUserId} → ${userId}`);
+    await this.setStatus('authenticated');
+    await this.emit({ type: 'switch', userId, previousUserId });
+  }
+
+  /**
+   * End the active account's session: clear its keys, then notify listeners.
+   * Another signed-in account, if any, becomes active. Concurrent calls share the same logout.
+   */
+  logout(reason: LogoutReason = 'user', options: LogoutOptions = {}): Promise<LogoutResult> {
+    if (!this.logoutPromise) {
+      this.logoutPromise = this.performLogout(reason, options).finally(() => {
+        this.logoutPromise = null;
+      });
+    }
+    return this.logoutPromise;
+  }
+
+  private async performLogout(reason: LogoutReason, options: LogoutOptions): Promise<LogoutResult> {
+    const userId = await this.getUserId();
+    const accounts = await this.getAccounts();
+    const endedAccounts = options.allAccounts
+      ? accounts.map(account => account.userId)
+      : userId ? [userId] : [];
+    const remaining = accounts.filter(account => !endedAccounts.includes(account.userId));
+    await this.emit({ type: 'beforeLogout', reason, userId });
+
+    console.log(`🔓 Logging out (${reason})...`, { accounts: endedAccounts.length, remaining: remaining.length });
+    const failedKeys: string[] = [];
+
+    for (const key of Object.values(AUTH_STORAGE_KEYS)) {
+      const removed = await this.clearSecureKey(key);
+      if (!removed) {
+        failedKeys.push(key);
+      }
+    }
+
+    for (const endedUserId of endedAccounts) {
+      const key = getSessionSlotKey(endedUserId);
+      if (!(await this.clearSecureKey(key))) {
+        failedKeys.push(key);
+      }
+    }
+    await this.saveAccounts(remaining);
+
+    try {
+      await AsyncStorage.multiRemove([...Object.values(AUTH_STORAGE_KEYS), ...LEGACY_ASYNC_KEYS]);
+    } catch (error) {
+      console.warn('⚠️ AsyncStorage cleanup failed:', error);
+    }
+
+    if (failedKeys.length > 0) {
+      console.warn('⚠️ Session keys still present after logout:', failedKeys);
+    }
+
+    this.userId = null;
+
+    // Fall back to the most recently used remaining account
+    const next = remaining[0];
+    const nextSession = next ? await SecureStorage.getItem(getSessionSlotKey(next.userId)) : null;
+    if (next && nextSession) {
+      await this.activate(next.userId, JSON.parse(nextSession) as StoredSession);
+      await this.emit({ type: 'logout', reason, userId });
+      console.log(`👥 Continuing with account ${next.userId}`);
+      await this.emit({ type: 'switch', userId: next.userId, previousUserId: userId });
+    } else {
+      // The user is logged out even if storage cleanup was partial
+      await this.setStatus('unauthenticated');
+      await this.emit({ type: 'logout', reason, userId });
+    }
+
+    return { success: failedKeys.length === 0, failedKeys };
+  }
+
+  /**
+   * Remove a keychain entry. If the keychain still returns it, overwrite it
+   * with an empty value so the stale token can no longer be read.
+   */
+  private async clearSecureKey(key: string): Promise<boolean> {
+    try {
+      if (await SecureStorage.removeItem(key)) {
+        return true;
+      }
+
+      await SecureStorage.setItem(key, '');
+      return (await SecureStorage.getItem(key)) === null;
+    } catch (error) {
+      console.error(`❌ Failed to clear ${key}:`, error);
+      return false;
+    }
+  }
+}
+
+export const sessionManager = SessionManager.getInstance();
+
+export default sessionManager;